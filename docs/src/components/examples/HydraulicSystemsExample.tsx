@@ -812,13 +812,6 @@ export default function HydraulicSystemsExample() {
 		applySystemPreset(systemType);
 	}, []);
 
-	const formatValue = (value: number, unit: string): string => {
-		if (value >= 1000) {
-			return `${(value / 1000).toFixed(1)}k${unit}`;
-		}
-		return `${value.toFixed(1)}${unit}`;
-	};
-
 	return (
 		<div className="w-full max-w-6xl mx-auto p-6 bg-gradient-to-br from-blue-50 to-cyan-50 min-h-screen">
 			<div className="bg-white rounded-xl shadow-lg p-6 mb-6">
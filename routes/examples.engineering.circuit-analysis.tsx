@@ -2,6 +2,7 @@ import { createFileRoute } from "@tanstack/react-router";
 import {
 	clamp,
 	cos,
+	formatSI,
 	hsl,
 	hslToRgb,
 	lerp,
@@ -834,24 +835,6 @@ function CircuitAnalysisExample() {
 		}
 	};
 
-	const formatValue = (value: number, unit: string): string => {
-		if (Math.abs(value) >= 1e6) {
-			return `${(value / 1e6).toFixed(2)}M${unit}`;
-		} else if (Math.abs(value) >= 1e3) {
-			return `${(value / 1e3).toFixed(2)}k${unit}`;
-		} else if (Math.abs(value) >= 1) {
-			return `${value.toFixed(2)}${unit}`;
-		} else if (Math.abs(value) >= 1e-3) {
-			return `${(value * 1e3).toFixed(2)}m${unit}`;
-		} else if (Math.abs(value) >= 1e-6) {
-			return `${(value * 1e6).toFixed(2)}μ${unit}`;
-		} else if (Math.abs(value) >= 1e-9) {
-			return `${(value * 1e9).toFixed(2)}n${unit}`;
-		} else {
-			return `${(value * 1e12).toFixed(2)}p${unit}`;
-		}
-	};
-
 	// Only render when data changes, not continuously
 	useEffect(() => {
 		draw();
@@ -987,7 +970,7 @@ function CircuitAnalysisExample() {
 							{settings.analysisType === "ac" && (
 								<>
 									<label className="block text-sm font-medium text-gray-700 mb-2">
-										Frequency: {formatValue(settings.frequency, "Hz")}
+										Frequency: {formatSI(settings.frequency, "Hz")}
 									</label>
 									<input
 										type="range"
@@ -1161,7 +1144,7 @@ function CircuitAnalysisExample() {
 										<div>
 											<h4 className="font-medium text-gray-700 mb-2">
 												Impedances @{" "}
-												{formatValue(analysisResults.frequency, "Hz")}
+												{formatSI(analysisResults.frequency, "Hz")}
 											</h4>
 											<div className="space-y-1 text-sm">
 												{Array.from(analysisResults.impedances.entries()).map(
@@ -0,0 +1,393 @@
+/**
+ * Color accessibility: contrast checks and color-vision-deficiency simulation.
+ *
+ * This module answers two questions about a color scheme: can people read
+ * text drawn in it, and can people with color-vision deficiencies still tell
+ * its colors apart. Everything works on the standard {@link RGB} type with
+ * 0-255 channels.
+ *
+ * @remarks
+ * **WCAG 2.1** contrast ratios run from 1 (no contrast) to 21 (black on
+ * white). Body text needs 4.5 for level AA and 7 for AAA; large text needs
+ * 3 and 4.5.
+ *
+ * **APCA** (the Accessible Perceptual Contrast Algorithm proposed for WCAG 3)
+ * models how contrast depends on polarity and on how light the colors are.
+ * It returns a signed lightness contrast Lc: positive for dark text on a
+ * light background, negative for light text on a dark one. |Lc| 75 suits
+ * body text, 60 other content text and 45 large headlines.
+ *
+ * **Simulation:** about 8% of men have a red-green deficiency. The Brettel
+ * method simulates complete dichromacy; Machado's method also covers milder,
+ * anomalous trichromacy through a severity parameter.
+ *
+ * @example
+ * Keep a status color readable on a dark panel:
+ * ```typescript
+ * import { ensureContrast, contrastRatio, hexToRgb } from 'play.ts';
+ *
+ * const panel = hexToRgb('#1e1e1e');
+ * const warning = ensureContrast(hexToRgb('#b36b00'), panel, 4.5);
+ * contrastRatio(warning, panel); // ≥ 4.5
+ * ```
+ *
+ * @example
+ * Check that two series stay distinguishable for deuteranopes:
+ * ```typescript
+ * const a = simulateColorBlindness(colors.red, 'deuteranopia');
+ * const b = simulateColorBlindness(colors.green, 'deuteranopia');
+ * colorDifference(a, b); // small: pick another pair
+ * ```
+ *
+ * @see {@link https://www.w3.org/TR/WCAG21/#dfn-contrast-ratio | WCAG 2.1 contrast ratio}
+ * @see {@link https://github.com/Myndex/apca-w3 | APCA reference implementation}
+ * @see {@link https://daltonlens.org/opensource-cvd-simulation/ | Review of open source CVD simulations}
+ */
+
+import type { LinearRGB, RGB } from "../types/index.ts";
+import {
+  linearToRgb,
+  oklchToRgbInGamut,
+  rgbToLinear,
+  rgbToOklch,
+} from "./color.ts";
+import { clamp, lerp } from "./math.ts";
+
+// ============================================================================
+// WCAG 2.1 Contrast
+// ============================================================================
+
+/**
+ * Calculates WCAG 2.1 relative luminance.
+ *
+ * @param color - RGB color
+ * @returns Luminance from 0 (black) to 1 (white)
+ *
+ * @example
+ * ```typescript
+ * relativeLuminance(rgb(255, 255, 255)); // 1
+ * relativeLuminance(rgb(255, 0, 0));     // 0.2126
+ * ```
+ */
+export const relativeLuminance = (color: RGB): number => {
+  const { r, g, b } = rgbToLinear(color);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+/**
+ * Calculates the WCAG 2.1 contrast ratio between two colors.
+ *
+ * @param a - First color
+ * @param b - Second color
+ * @returns Ratio from 1 to 21; the order of the colors does not matter
+ *
+ * @example
+ * ```typescript
+ * contrastRatio(colors.black, colors.white); // 21
+ * contrastRatio(rgb(118, 118, 118), colors.white); // 4.54, just passes AA
+ * ```
+ */
+export const contrastRatio = (a: RGB, b: RGB): number => {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+};
+
+/**
+ * Checks whether text passes a WCAG 2.1 contrast level.
+ *
+ * @param foreground - Text color
+ * @param background - Background color
+ * @param level - `AA` (default) or `AAA`
+ * @param largeText - Whether the text is large: at least 18pt, or 14pt bold
+ */
+export const meetsWcag = (
+  foreground: RGB,
+  background: RGB,
+  level: "AA" | "AAA" = "AA",
+  largeText = false,
+): boolean => {
+  const required = level === "AA" ? (largeText ? 3 : 4.5) : largeText ? 4.5 : 7;
+  return contrastRatio(foreground, background) >= required;
+};
+
+// ============================================================================
+// APCA Contrast
+// ============================================================================
+
+// Screen luminance estimate with APCA's soft clamp for near-black colors
+const apcaLuminance = (color: RGB): number => {
+  const y =
+    0.2126729 * (clamp(color.r, 0, 255) / 255) ** 2.4 +
+    0.7151522 * (clamp(color.g, 0, 255) / 255) ** 2.4 +
+    0.072175 * (clamp(color.b, 0, 255) / 255) ** 2.4;
+  return y < 0.022 ? y + (0.022 - y) ** 1.414 : y;
+};
+
+/**
+ * Calculates APCA lightness contrast (APCA-W3 0.0.98G).
+ *
+ * @param text - Text color
+ * @param background - Background color
+ * @returns Lc from about -108 to 106: positive for dark text on a light
+ *   background, negative for light text on a dark one, 0 below the noise floor
+ *
+ * @remarks
+ * Unlike the WCAG ratio, APCA is not symmetric: swapping text and background
+ * changes the result, because light text on dark backgrounds reads
+ * differently. Compare the absolute value against the target.
+ *
+ * @example
+ * ```typescript
+ * apcaContrast(colors.black, colors.white); // 106.04
+ * apcaContrast(colors.white, colors.black); // -107.88
+ * ```
+ */
+export const apcaContrast = (text: RGB, background: RGB): number => {
+  const yText = apcaLuminance(text);
+  const yBackground = apcaLuminance(background);
+  if (Math.abs(yBackground - yText) < 0.0005) return 0;
+
+  if (yBackground > yText) {
+    const sapc = (yBackground ** 0.56 - yText ** 0.57) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  const sapc = (yBackground ** 0.65 - yText ** 0.62) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+};
+
+// ============================================================================
+// Contrast Adjustment
+// ============================================================================
+
+export interface EnsureContrastOptions {
+  /**
+   * `wcag` (default) treats the target as a contrast ratio; `apca` treats it
+   * as a minimum absolute Lc
+   */
+  readonly metric?: "wcag" | "apca";
+}
+
+/**
+ * Adjusts a foreground color's lightness until it contrasts enough with a
+ * background.
+ *
+ * @param foreground - Color to adjust
+ * @param background - Color it is drawn on
+ * @param target - Required contrast: a WCAG ratio such as 4.5, or an APCA Lc
+ * @param options - Contrast metric
+ * @returns The foreground unchanged if it already passes, otherwise the
+ *   closest lighter or darker version of it that passes, with integer channels
+ *
+ * @remarks
+ * Only OKLCH lightness changes, so hue is preserved and chroma is reduced
+ * only where the color would leave sRGB. If no lightness reaches the target,
+ * the result is the lightness extreme with the most contrast.
+ *
+ * @example
+ * ```typescript
+ * const link = ensureContrast(rgb(80, 140, 255), colors.white, 4.5);
+ * // A darker blue with contrast ≥ 4.5 against white
+ * ```
+ */
+export const ensureContrast = (
+  foreground: RGB,
+  background: RGB,
+  target: number,
+  options: EnsureContrastOptions = {},
+): RGB => {
+  const measure = (color: RGB): number =>
+    options.metric === "apca"
+      ? Math.abs(apcaContrast(color, background))
+      : contrastRatio(color, background);
+  if (measure(foreground) >= target) return foreground;
+
+  const { l: start, c, h } = rgbToOklch(foreground);
+  const withLightness = (l: number): RGB => {
+    const color = oklchToRgbInGamut({ l, c, h });
+    return {
+      r: Math.round(color.r),
+      g: Math.round(color.g),
+      b: Math.round(color.b),
+    };
+  };
+
+  let best: { color: RGB; change: number } | null = null;
+  for (const end of [0, 1]) {
+    if (measure(withLightness(end)) < target) continue;
+    // Bisect for the smallest lightness change that passes
+    let [near, far] = [start, end];
+    for (let i = 0; i < 32; i++) {
+      const middle = (near + far) / 2;
+      if (measure(withLightness(middle)) >= target) far = middle;
+      else near = middle;
+    }
+    const change = Math.abs(far - start);
+    if (!best || change < best.change) {
+      best = { color: withLightness(far), change };
+    }
+  }
+  if (best) return best.color;
+
+  const [dark, light] = [withLightness(0), withLightness(1)];
+  return measure(dark) >= measure(light) ? dark : light;
+};
+
+// ============================================================================
+// Color Vision Deficiency Simulation
+// ============================================================================
+
+/** Dichromacy types: missing long (protan), medium (deutan) or short (tritan) cones */
+export type ColorVisionDeficiency =
+  | "protanopia"
+  | "deuteranopia"
+  | "tritanopia";
+
+export interface SimulationOptions {
+  /** `brettel` (default) or `machado` */
+  readonly method?: "brettel" | "machado";
+  /**
+   * Severity from 0 (normal vision) to 1 (dichromacy), default 1. Partial
+   * severities model anomalous trichromacy such as protanomaly.
+   */
+  readonly severity?: number;
+}
+
+type Matrix3 = readonly [
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+];
+
+const applyMatrix = (m: Matrix3, c: LinearRGB): LinearRGB => ({
+  r: m[0] * c.r + m[1] * c.g + m[2] * c.b,
+  g: m[3] * c.r + m[4] * c.g + m[5] * c.b,
+  b: m[6] * c.r + m[7] * c.g + m[8] * c.b,
+});
+
+// Brettel, Viénot and Mollon (1997) in linear sRGB, as derived by DaltonLens:
+// each deficiency projects onto two half-planes, chosen by which side of the
+// separation plane the color lies
+const BRETTEL: Readonly<
+  Record<
+    ColorVisionDeficiency,
+    {
+      readonly first: Matrix3;
+      readonly second: Matrix3;
+      readonly normal: readonly [number, number, number];
+    }
+  >
+> = {
+  protanopia: {
+    first: [
+      0.1451, 1.20165, -0.34675, 0.10447, 0.85316, 0.04237, 0.00429, -0.00603,
+      1.00174,
+    ],
+    second: [
+      0.14115, 1.16782, -0.30897, 0.10495, 0.8573, 0.03776, 0.00431, -0.00586,
+      1.00155,
+    ],
+    normal: [0.00048, 0.00416, -0.00464],
+  },
+  deuteranopia: {
+    first: [
+      0.36198, 0.86755, -0.22953, 0.26099, 0.64512, 0.09389, -0.01975, 0.02686,
+      0.99289,
+    ],
+    second: [
+      0.37009, 0.8854, -0.25549, 0.25767, 0.63782, 0.10451, -0.0195, 0.02741,
+      0.99209,
+    ],
+    normal: [-0.00293, -0.00645, 0.00938],
+  },
+  tritanopia: {
+    first: [
+      1.01354, 0.14268, -0.15622, -0.01181, 0.87561, 0.13619, 0.07707, 0.81208,
+      0.11085,
+    ],
+    second: [
+      0.93337, 0.19999, -0.13336, 0.05809, 0.82565, 0.11626, -0.37923, 1.13825,
+      0.24098,
+    ],
+    normal: [0.0396, -0.02831, -0.01129],
+  },
+};
+
+// Machado, Oliveira and Fernandes (2009) at full severity, in linear sRGB
+const MACHADO: Readonly<Record<ColorVisionDeficiency, Matrix3>> = {
+  protanopia: [
+    0.152286, 1.052583, -0.204868, 0.114503, 0.786281, 0.099216, -0.003882,
+    -0.048116, 1.051998,
+  ],
+  deuteranopia: [
+    0.367322, 0.860646, -0.227968, 0.280085, 0.672501, 0.047413, -0.01182,
+    0.04294, 0.968881,
+  ],
+  tritanopia: [
+    1.255528, -0.076749, -0.178779, -0.078411, 0.930809, 0.147602, 0.004733,
+    0.691367, 0.3039,
+  ],
+};
+
+/**
+ * Simulates how a color looks to someone with a color-vision deficiency.
+ *
+ * @param color - Color as seen with normal vision
+ * @param deficiency - `protanopia`, `deuteranopia` or `tritanopia`
+ * @param options - Simulation method and severity
+ * @returns The color as the simulated viewer would perceive it
+ *
+ * @remarks
+ * Both methods operate on linear light and keep white, black and grays
+ * unchanged. Brettel is the more accurate model of complete dichromacy,
+ * especially for tritanopia; Machado is a single matrix and is the usual
+ * choice for partial severities. Partial severities blend linearly between
+ * normal vision and the full simulation.
+ *
+ * @example
+ * Preview a palette for all three deficiencies:
+ * ```typescript
+ * for (const deficiency of ['protanopia', 'deuteranopia', 'tritanopia'] as const) {
+ *   const seen = palette.map((c) => simulateColorBlindness(c, deficiency));
+ * }
+ * ```
+ *
+ * @example
+ * Mild deuteranomaly, the most common deficiency:
+ * ```typescript
+ * simulateColorBlindness(color, 'deuteranopia', { method: 'machado', severity: 0.4 });
+ * ```
+ */
+export const simulateColorBlindness = (
+  color: RGB,
+  deficiency: ColorVisionDeficiency,
+  options: SimulationOptions = {},
+): RGB => {
+  const { method = "brettel", severity = 1 } = options;
+  if (!(severity >= 0 && severity <= 1)) {
+    throw new Error(`Severity must be between 0 and 1, got ${severity}`);
+  }
+
+  const linear = rgbToLinear(color);
+  let simulated: LinearRGB;
+  if (method === "machado") {
+    simulated = applyMatrix(MACHADO[deficiency], linear);
+  } else {
+    const { first, second, normal } = BRETTEL[deficiency];
+    const side =
+      normal[0] * linear.r + normal[1] * linear.g + normal[2] * linear.b;
+    simulated = applyMatrix(side >= 0 ? first : second, linear);
+  }
+
+  return linearToRgb({
+    r: lerp(linear.r, simulated.r, severity),
+    g: lerp(linear.g, simulated.g, severity),
+    b: lerp(linear.b, simulated.b, severity),
+  });
+};
@@ -88,8 +88,13 @@
  * @see {@link https://developer.mozilla.org/docs/Web/API/window/requestAnimationFrame | RequestAnimationFrame}
  */
 
-import type { AnimationFrame, EasingFunction } from "../types/index.ts";
-import { clamp, cos, PI, pow, sin, sqrt } from "./math.ts";
+import type {
+  AnimationFrame,
+  EasingFunction,
+  Interpolator,
+  Quaternion,
+} from "../types/index.ts";
+import { clamp, cos, PI, pow, quatSlerp, sin, sqrt } from "./math.ts";
 
 // ============================================================================
 // Browser Compatibility
@@ -635,30 +640,77 @@ export class AnimationLoop {
 }
 
 // Tween utilities
-export class Tween {
-  private startValue: number;
-  private endValue: number;
+const lerpNumber: Interpolator<number> = (a, b, t) => a + (b - a) * t;
+
+/**
+ * Animates a value from a start state to an end state over time.
+ *
+ * @remarks
+ * Numbers are interpolated linearly by default. Any other value type can be
+ * tweened by passing an `interpolate` function, e.g. {@link quatSlerp} for
+ * rotations (see {@link quatTween}); the constructor requires one whenever
+ * the values are not numbers.
+ */
+export class Tween<T = number> {
   private duration: number;
   private easing: EasingFunction;
-  private onUpdate: (value: number) => void;
   private onComplete?: () => void;
+  // Interpolates at the eased progress and passes the value to onUpdate
+  private emit: (progress: number) => void;
   private startTime = 0;
   private running = false;
 
   constructor(
-    startValue: number,
-    endValue: number,
+    startValue: T & number,
+    endValue: T & number,
     duration: number,
-    easing: EasingFunction = linear,
+    easing: EasingFunction | undefined,
     onUpdate: (value: number) => void,
     onComplete?: () => void,
+  );
+  constructor(
+    startValue: T,
+    endValue: T,
+    duration: number,
+    easing: EasingFunction | undefined,
+    onUpdate: (value: T) => void,
+    onComplete: (() => void) | undefined,
+    interpolate: Interpolator<T>,
+  );
+  constructor(
+    ...args:
+      | [
+          number,
+          number,
+          number,
+          EasingFunction | undefined,
+          (value: number) => void,
+          (() => void)?,
+        ]
+      | [
+          T,
+          T,
+          number,
+          EasingFunction | undefined,
+          (value: T) => void,
+          (() => void) | undefined,
+          Interpolator<T>,
+        ]
   ) {
-    this.startValue = startValue;
-    this.endValue = endValue;
+    const [, , duration, easing = linear, , onComplete] = args;
     this.duration = duration;
     this.easing = easing;
-    this.onUpdate = onUpdate;
     this.onComplete = onComplete;
+
+    if (args.length === 7) {
+      const [startValue, endValue, , , onUpdate, , interpolate] = args;
+      this.emit = (progress) =>
+        onUpdate(interpolate(startValue, endValue, progress));
+    } else {
+      const [startValue, endValue, , , onUpdate] = args;
+      this.emit = (progress) =>
+        onUpdate(lerpNumber(startValue, endValue, progress));
+    }
   }
 
   start(): void {
@@ -680,11 +732,7 @@ export class Tween {
     const elapsed = currentTime - this.startTime;
     const progress = clamp(elapsed / this.duration, 0, 1);
 
-    const easedProgress = this.easing(progress);
-    const currentValue =
-      this.startValue + (this.endValue - this.startValue) * easedProgress;
-
-    this.onUpdate(currentValue);
+    this.emit(this.easing(progress));
 
     if (progress >= 1) {
       this.running = false;
@@ -716,6 +764,36 @@ export const tween = (
   return tweenInstance;
 };
 
+/**
+ * Tweens between two rotations using spherical linear interpolation.
+ *
+ * @example
+ * ```typescript
+ * quatTween(camera.orientation, quatFromEuler(0, PI, 0), 800, easeInOutCubic,
+ *   (q) => { camera.orientation = q; });
+ * ```
+ */
+export const quatTween = (
+  startValue: Quaternion,
+  endValue: Quaternion,
+  duration: number,
+  easing: EasingFunction = linear,
+  onUpdate: (value: Quaternion) => void,
+  onComplete?: () => void,
+): Tween<Quaternion> => {
+  const tweenInstance = new Tween(
+    startValue,
+    endValue,
+    duration,
+    easing,
+    onUpdate,
+    onComplete,
+    quatSlerp,
+  );
+  tweenInstance.start();
+  return tweenInstance;
+};
+
 export const delay = (ms: number): Promise<void> => {
   return new Promise((resolve) => setTimeout(resolve, ms));
 };
@@ -0,0 +1,415 @@
+/**
+ * Forward-mode automatic differentiation with dual numbers.
+ *
+ * This module computes exact derivatives of ordinary numeric code. A
+ * {@link Dual} number carries a value together with its derivative, and every
+ * operation here applies the chain rule as it goes, so the result of a
+ * calculation also holds its slope with respect to the chosen input.
+ *
+ * @remarks
+ * Dual numbers are plain `{ real, dual }` objects, where `real` is the value
+ * and `dual` is the derivative. The functions mirror the scalar functions in
+ * the math module (`dualSin` for `sin`, `dualLerp` for `lerp`, ...) and
+ * return new values without mutating their arguments. Wherever a `Dual` is
+ * expected a plain number may be passed and is treated as a constant.
+ *
+ * Unlike finite differences there is no step size to choose: derivatives are
+ * accurate to machine precision. Each pass differentiates with respect to
+ * one input, so {@link gradient} and {@link jacobian} evaluate the function
+ * once per input variable.
+ *
+ * **Non-smooth functions** ({@link dualAbs}, {@link dualClamp},
+ * {@link dualMin}, {@link dualMax}) return the derivative of the branch that
+ * is taken, so the slope at the kink itself is one-sided.
+ *
+ * @example
+ * Exact gradient for gradient descent:
+ * ```typescript
+ * import { dual, dualAdd, dualMul, dualPow, dualSub, gradient, gradientDescent } from 'play.ts';
+ *
+ * // Rosenbrock: (1 - x)² + 100(y - x²)²
+ * const rosenbrock = ([x, y]: Dual[]) =>
+ *   dualAdd(
+ *     dualPow(dualSub(1, x), 2),
+ *     dualMul(100, dualPow(dualSub(y, dualMul(x, x)), 2)),
+ *   );
+ *
+ * const result = gradientDescent(
+ *   (x) => rosenbrock(Array.from(x, (v) => dual(v))).real,
+ *   [-1, 1],
+ *   { gradient: (x) => gradient(rosenbrock, x) },
+ * );
+ * ```
+ *
+ * @example
+ * Newton's method without hand-written derivatives:
+ * ```typescript
+ * // Pendulum angle where the restoring torque balances a steady push
+ * const torque = (theta: Dual) => dualSub(dualMul(mass * g * length, dualSin(theta)), push);
+ * const { x: angle } = newton((t) => torque(dual(t)).real, 0.1, {
+ *   derivative: (t) => derivative(torque, t),
+ * });
+ * ```
+ *
+ * @see {@link https://en.wikipedia.org/wiki/Automatic_differentiation | Automatic Differentiation - Wikipedia}
+ */
+
+import type { Dual, MatrixN } from "../types/index.ts";
+import { matN } from "./math.ts";
+
+// ============================================================================
+// Construction
+// ============================================================================
+
+/**
+ * Creates a dual number.
+ *
+ * @param real - Value
+ * @param dual - Derivative (default: 0, a constant)
+ */
+export const dual = (real: number, dual: number = 0): Dual => ({
+  real,
+  dual,
+});
+
+/**
+ * Creates the independent variable for differentiation at `x`.
+ *
+ * @remarks
+ * The derivative part is seeded with 1, so the derivative part of any result
+ * computed from it is d(result)/dx.
+ *
+ * @example
+ * ```typescript
+ * const x = dualVariable(2);
+ * dualMul(x, x); // { real: 4, dual: 4 }
+ * ```
+ */
+export const dualVariable = (x: number): Dual => dual(x, 1);
+
+const toDual = (value: Dual | number): Dual =>
+  typeof value === "number" ? dual(value, 0) : value;
+
+// Applies the chain rule for f(a) given f(a.real) and f'(a.real). Constant
+// inputs skip the product so that an infinite slope (such as √x at 0) does
+// not turn a zero derivative into NaN.
+const chain = (a: Dual, value: number, slope: number): Dual =>
+  dual(value, a.dual === 0 ? 0 : slope * a.dual);
+
+// ============================================================================
+// Arithmetic
+// ============================================================================
+
+export const dualAdd = (a: Dual | number, b: Dual | number): Dual => {
+  const [u, v] = [toDual(a), toDual(b)];
+  return dual(u.real + v.real, u.dual + v.dual);
+};
+
+export const dualSub = (a: Dual | number, b: Dual | number): Dual => {
+  const [u, v] = [toDual(a), toDual(b)];
+  return dual(u.real - v.real, u.dual - v.dual);
+};
+
+export const dualMul = (a: Dual | number, b: Dual | number): Dual => {
+  const [u, v] = [toDual(a), toDual(b)];
+  return dual(u.real * v.real, u.dual * v.real + u.real * v.dual);
+};
+
+export const dualDiv = (a: Dual | number, b: Dual | number): Dual => {
+  const [u, v] = [toDual(a), toDual(b)];
+  return dual(
+    u.real / v.real,
+    (u.dual * v.real - u.real * v.dual) / (v.real * v.real),
+  );
+};
+
+export const dualNeg = (a: Dual): Dual => dual(-a.real, -a.dual);
+
+// ============================================================================
+// Elementary Functions
+// ============================================================================
+
+export const dualSin = (a: Dual): Dual =>
+  chain(a, Math.sin(a.real), Math.cos(a.real));
+
+export const dualCos = (a: Dual): Dual =>
+  chain(a, Math.cos(a.real), -Math.sin(a.real));
+
+export const dualTan = (a: Dual): Dual => {
+  const value = Math.tan(a.real);
+  return chain(a, value, 1 + value * value);
+};
+
+export const dualAsin = (a: Dual): Dual =>
+  chain(a, Math.asin(a.real), 1 / Math.sqrt(1 - a.real * a.real));
+
+export const dualAcos = (a: Dual): Dual =>
+  chain(a, Math.acos(a.real), -1 / Math.sqrt(1 - a.real * a.real));
+
+export const dualAtan = (a: Dual): Dual =>
+  chain(a, Math.atan(a.real), 1 / (1 + a.real * a.real));
+
+/**
+ * Angle of the point (x, y) in radians, like `Math.atan2(y, x)`.
+ */
+export const dualAtan2 = (y: Dual | number, x: Dual | number): Dual => {
+  const [v, u] = [toDual(y), toDual(x)];
+  const radiusSq = u.real * u.real + v.real * v.real;
+  return dual(
+    Math.atan2(v.real, u.real),
+    (u.real * v.dual - v.real * u.dual) / radiusSq,
+  );
+};
+
+export const dualSinh = (a: Dual): Dual =>
+  chain(a, Math.sinh(a.real), Math.cosh(a.real));
+
+export const dualCosh = (a: Dual): Dual =>
+  chain(a, Math.cosh(a.real), Math.sinh(a.real));
+
+export const dualTanh = (a: Dual): Dual => {
+  const value = Math.tanh(a.real);
+  return chain(a, value, 1 - value * value);
+};
+
+export const dualExp = (a: Dual): Dual => {
+  const value = Math.exp(a.real);
+  return chain(a, value, value);
+};
+
+/**
+ * Natural logarithm.
+ */
+export const dualLog = (a: Dual): Dual =>
+  chain(a, Math.log(a.real), 1 / a.real);
+
+/**
+ * Raises a dual number to a constant or dual power.
+ *
+ * @remarks
+ * A constant exponent uses the power rule n·aⁿ⁻¹, which is valid for negative
+ * bases. A dual exponent uses aᵇ·(b'·ln a + b·a'/a) and so needs a positive
+ * base.
+ *
+ * @example
+ * ```typescript
+ * dualPow(dualVariable(3), 2);           // { real: 9, dual: 6 }
+ * dualPow(2, dualVariable(3));           // { real: 8, dual: 8·ln 2 }
+ * ```
+ */
+export const dualPow = (base: Dual | number, exponent: Dual | number): Dual => {
+  const [a, b] = [toDual(base), toDual(exponent)];
+  const value = Math.pow(a.real, b.real);
+
+  if (b.dual === 0) {
+    if (b.real === 0) return dual(1, 0);
+    return chain(a, value, b.real * Math.pow(a.real, b.real - 1));
+  }
+
+  const logSlope =
+    b.dual * Math.log(a.real) + (a.dual === 0 ? 0 : (b.real * a.dual) / a.real);
+  return dual(value, value * logSlope);
+};
+
+export const dualSqrt = (a: Dual): Dual => {
+  const value = Math.sqrt(a.real);
+  return chain(a, value, 1 / (2 * value));
+};
+
+export const dualAbs = (a: Dual): Dual =>
+  chain(a, Math.abs(a.real), Math.sign(a.real));
+
+/**
+ * Length of the vector (a, b), like `Math.hypot(a, b)`.
+ *
+ * @remarks
+ * The derivative at the origin is taken as 0.
+ */
+export const dualHypot = (a: Dual | number, b: Dual | number): Dual => {
+  const [u, v] = [toDual(a), toDual(b)];
+  const value = Math.hypot(u.real, v.real);
+  if (value === 0) return dual(0, 0);
+  return dual(value, (u.real * u.dual + v.real * v.dual) / value);
+};
+
+export const dualMin = (a: Dual | number, b: Dual | number): Dual => {
+  const [u, v] = [toDual(a), toDual(b)];
+  return v.real < u.real ? v : u;
+};
+
+export const dualMax = (a: Dual | number, b: Dual | number): Dual => {
+  const [u, v] = [toDual(a), toDual(b)];
+  return v.real > u.real ? v : u;
+};
+
+// ============================================================================
+// Interpolation
+// ============================================================================
+
+/**
+ * Clamps a dual number between two bounds, like `clamp`.
+ *
+ * @remarks
+ * Reversed bounds are swapped. A clamped result takes the bound's derivative,
+ * which is 0 for constant bounds.
+ */
+export const dualClamp = (
+  value: Dual | number,
+  min: Dual | number,
+  max: Dual | number,
+): Dual => {
+  let [lower, upper] = [toDual(min), toDual(max)];
+  if (lower.real > upper.real) [lower, upper] = [upper, lower];
+  return dualMin(dualMax(value, lower), upper);
+};
+
+/**
+ * Linear interpolation a + (b - a)·t, differentiable in all three arguments.
+ *
+ * @example
+ * ```typescript
+ * // How fast does the midpoint move as the end point moves?
+ * dualLerp(0, dualVariable(10), 0.5); // { real: 5, dual: 0.5 }
+ * ```
+ */
+export const dualLerp = (
+  a: Dual | number,
+  b: Dual | number,
+  t: Dual | number,
+): Dual => dualAdd(a, dualMul(dualSub(b, a), t));
+
+/**
+ * Maps a value from one range to another, like `map`.
+ */
+export const dualMap = (
+  value: Dual | number,
+  inMin: Dual | number,
+  inMax: Dual | number,
+  outMin: Dual | number,
+  outMax: Dual | number,
+): Dual =>
+  dualAdd(
+    outMin,
+    dualDiv(
+      dualMul(dualSub(value, inMin), dualSub(outMax, outMin)),
+      dualSub(inMax, inMin),
+    ),
+  );
+
+/**
+ * Hermite smoothstep t²(3 - 2t), like `smoothstep`.
+ *
+ * @remarks
+ * The derivative is 0 outside the edges and 6t(1 - t)/(edge1 - edge0) between
+ * them, so it is continuous everywhere.
+ */
+export const dualSmoothstep = (
+  edge0: Dual | number,
+  edge1: Dual | number,
+  x: Dual | number,
+): Dual => {
+  const t = dualClamp(dualDiv(dualSub(x, edge0), dualSub(edge1, edge0)), 0, 1);
+  return dualMul(dualMul(t, t), dualSub(3, dualMul(2, t)));
+};
+
+/**
+ * Quintic smootherstep t³(6t² - 15t + 10), like `smootherstep`.
+ */
+export const dualSmootherstep = (
+  edge0: Dual | number,
+  edge1: Dual | number,
+  x: Dual | number,
+): Dual => {
+  const t = dualClamp(dualDiv(dualSub(x, edge0), dualSub(edge1, edge0)), 0, 1);
+  const inner = dualAdd(dualMul(t, dualSub(dualMul(t, 6), 15)), 10);
+  return dualMul(dualMul(dualMul(t, t), t), inner);
+};
+
+// ============================================================================
+// Derivatives
+// ============================================================================
+
+// Inputs as dual numbers, with only input `index` carrying a unit derivative
+const seed = (x: ArrayLike<number>, index: number): Dual[] =>
+  Array.from(x, (value, i) => dual(value, i === index ? 1 : 0));
+
+/**
+ * Derivative of a scalar function at `x`.
+ *
+ * @param f - Function written with the dual operations in this module
+ * @param x - Point at which to differentiate
+ * @returns f'(x), exact to machine precision
+ *
+ * @example
+ * ```typescript
+ * derivative((t) => dualMul(t, dualSin(t)), Math.PI); // -π
+ * ```
+ */
+export const derivative = (f: (x: Dual) => Dual, x: number): number =>
+  f(dualVariable(x)).dual;
+
+/**
+ * Gradient of a scalar function of several variables.
+ *
+ * @param f - Function of a vector written with dual operations
+ * @param x - Point at which to differentiate
+ * @returns ∂f/∂xᵢ for each input, computed with one pass per input
+ *
+ * @example
+ * ```typescript
+ * // f(x, y) = x²y at (3, 2) → [12, 9]
+ * gradient(([x, y]) => dualMul(dualMul(x, x), y), [3, 2]);
+ * ```
+ */
+export const gradient = (
+  f: (x: Dual[]) => Dual,
+  x: ArrayLike<number>,
+): Float64Array => {
+  const n = x.length;
+  const result = new Float64Array(n);
+  for (let j = 0; j < n; j++) {
+    result[j] = f(seed(x, j)).dual;
+  }
+  return result;
+};
+
+/**
+ * Jacobian matrix of a vector function.
+ *
+ * @param F - Function from n inputs to m outputs written with dual operations
+ * @param x - Point at which to differentiate
+ * @returns m×n matrix whose entry (i, j) is ∂Fᵢ/∂xⱼ
+ * @throws {Error} If F returns a different number of outputs between passes
+ *
+ * @example
+ * Polar to Cartesian coordinates, whose Jacobian determinant is r:
+ * ```typescript
+ * const J = jacobian(([r, theta]) => [
+ *   dualMul(r, dualCos(theta)),
+ *   dualMul(r, dualSin(theta)),
+ * ], [2, Math.PI / 4]);
+ * matNDeterminant(J); // 2
+ * ```
+ */
+export const jacobian = (
+  F: (x: Dual[]) => readonly Dual[],
+  x: ArrayLike<number>,
+): MatrixN => {
+  const n = x.length;
+  if (n === 0) return matN(F([]).length, 0);
+
+  let result: MatrixN | null = null;
+  for (let j = 0; j < n; j++) {
+    const outputs = F(seed(x, j));
+    result ??= matN(outputs.length, n);
+    if (outputs.length !== result.rows) {
+      throw new Error(
+        `Function returned ${outputs.length} outputs, expected ${result.rows}`,
+      );
+    }
+    outputs.forEach((output, i) => {
+      result!.data[i * n + j] = output.dual;
+    });
+  }
+  return result!;
+};
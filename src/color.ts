@@ -15,6 +15,9 @@
  * Color spaces supported:
  * - **RGB/RGBA**: Red, Green, Blue with optional Alpha
  * - **HSL/HSLA**: Hue, Saturation, Lightness with optional Alpha
+ * - **HSV, HWB, CMYK**: Picker- and print-oriented models
+ * - **Linear sRGB and XYZ (D65)**: Linear-light spaces for physical calculations
+ * - **CIELAB/LCh and OKLab/OKLCH**: Perceptual spaces for interpolation and editing
  * - **Hex**: Hexadecimal color codes (#RGB, #RRGGBB)
  * - **CSS**: CSS-compatible color strings
  *
@@ -44,7 +47,23 @@
  * @see {@link https://www.w3.org/TR/css-color-3/ | W3C CSS Color Specification}
  */
 
-import type { HSL, HSLA, RGB, RGBA } from "../types/index.ts";
+import type {
+  CMYK,
+  CssColor,
+  DisplayP3,
+  HSL,
+  HSLA,
+  HSV,
+  HWB,
+  Lab,
+  LCH,
+  LinearRGB,
+  OKLab,
+  OKLCH,
+  RGB,
+  RGBA,
+  XYZ,
+} from "../types/index.ts";
 import { clamp, lerp } from "./math.ts";
 
 // ============================================================================
@@ -469,6 +488,7 @@ export const rgbToHex = (color: RGB): string => {
  * ```
  *
  * @see {@link rgbToHex} for the inverse conversion
+ * @see {@link parseColor} for every CSS color syntax
  * @see {@link rgb} for direct RGB creation
  * @see {@link colors} for predefined color constants
  */
@@ -490,6 +510,390 @@ export const hexToRgb = (hex: string): RGB => {
   return rgb(r, g, b);
 };
 
+// ============================================================================
+// Additional Color Spaces
+// ============================================================================
+
+/**
+ * Removes the sRGB transfer curve from a channel value.
+ *
+ * @param value - Gamma-encoded channel (0-1)
+ * @returns Linear light intensity (0-1)
+ *
+ * @remarks
+ * sRGB values are stored gamma encoded so that the 256 levels are spread
+ * evenly by perceived brightness. Physical operations such as mixing light,
+ * blurring or computing luminance need linear intensities instead.
+ */
+export const srgbToLinear = (value: number): number => {
+  const abs = Math.abs(value);
+  const linear = abs <= 0.04045 ? abs / 12.92 : ((abs + 0.055) / 1.055) ** 2.4;
+  return Math.sign(value) * linear;
+};
+
+/**
+ * Applies the sRGB transfer curve to a linear channel value.
+ *
+ * @see {@link srgbToLinear} for the inverse
+ */
+export const linearToSrgb = (value: number): number => {
+  const abs = Math.abs(value);
+  const encoded =
+    abs <= 0.0031308 ? abs * 12.92 : 1.055 * abs ** (1 / 2.4) - 0.055;
+  return Math.sign(value) * encoded;
+};
+
+/**
+ * Converts an 8-bit RGB color to linear-light sRGB.
+ */
+export const rgbToLinear = (color: RGB): LinearRGB => ({
+  r: srgbToLinear(color.r / 255),
+  g: srgbToLinear(color.g / 255),
+  b: srgbToLinear(color.b / 255),
+});
+
+/**
+ * Converts linear-light sRGB to an 8-bit RGB color.
+ *
+ * @remarks
+ * Channels are clamped to 0-255 but not rounded, so conversions through
+ * other spaces can round-trip without drift.
+ */
+export const linearToRgb = (color: LinearRGB): RGB =>
+  rgb(
+    linearToSrgb(color.r) * 255,
+    linearToSrgb(color.g) * 255,
+    linearToSrgb(color.b) * 255,
+  );
+
+// D65 reference white, from its chromaticity (0.3127, 0.3290)
+const D65_WHITE: XYZ = {
+  x: 0.3127 / 0.329,
+  y: 1,
+  z: (1 - 0.3127 - 0.329) / 0.329,
+};
+
+export const linearToXyz = (color: LinearRGB): XYZ => ({
+  x:
+    0.41239079926595934 * color.r +
+    0.357584339383878 * color.g +
+    0.1804807884018343 * color.b,
+  y:
+    0.21263900587151027 * color.r +
+    0.715168678767756 * color.g +
+    0.07219231536073371 * color.b,
+  z:
+    0.01933081871559182 * color.r +
+    0.11919477979462598 * color.g +
+    0.9505321522496607 * color.b,
+});
+
+export const xyzToLinear = (color: XYZ): LinearRGB => ({
+  r:
+    3.2409699419045226 * color.x -
+    1.537383177570094 * color.y -
+    0.4986107602930034 * color.z,
+  g:
+    -0.9692436362808796 * color.x +
+    1.8759675015077202 * color.y +
+    0.04155505740717559 * color.z,
+  b:
+    0.05563007969699366 * color.x -
+    0.20397695888897652 * color.y +
+    1.0569715142428786 * color.z,
+});
+
+/**
+ * Converts an RGB color to CIE XYZ relative to D65, with white at Y = 1.
+ */
+export const rgbToXyz = (color: RGB): XYZ => linearToXyz(rgbToLinear(color));
+
+export const xyzToRgb = (color: XYZ): RGB => linearToRgb(xyzToLinear(color));
+
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+export const xyzToLab = (color: XYZ): Lab => {
+  const f = (t: number): number =>
+    t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116;
+  const fx = f(color.x / D65_WHITE.x);
+  const fy = f(color.y / D65_WHITE.y);
+  const fz = f(color.z / D65_WHITE.z);
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+};
+
+export const labToXyz = (color: Lab): XYZ => {
+  const fy = (color.l + 16) / 116;
+  const fx = fy + color.a / 500;
+  const fz = fy - color.b / 200;
+  const finv = (t: number): number =>
+    t ** 3 > LAB_EPSILON ? t ** 3 : (116 * t - 16) / LAB_KAPPA;
+  return {
+    x: finv(fx) * D65_WHITE.x,
+    y:
+      (color.l > LAB_KAPPA * LAB_EPSILON ? fy ** 3 : color.l / LAB_KAPPA) *
+      D65_WHITE.y,
+    z: finv(fz) * D65_WHITE.z,
+  };
+};
+
+/**
+ * Converts an RGB color to CIELAB (D65).
+ *
+ * @remarks
+ * CIELAB was designed so that equal distances correspond roughly to equal
+ * perceived differences. L is lightness from 0 (black) to 100 (white), a runs
+ * from green to red and b from blue to yellow. It is the basis of the Delta E
+ * color difference formulas; for interpolation and editing, {@link rgbToOklab}
+ * is more uniform, especially for blues.
+ *
+ * @example
+ * ```typescript
+ * rgbToLab(rgb(255, 255, 255)); // { l: 100, a: 0, b: 0 }
+ * rgbToLab(rgb(255, 0, 0));     // { l: 53.24, a: 80.09, b: 67.20 }
+ * ```
+ */
+export const rgbToLab = (color: RGB): Lab => xyzToLab(rgbToXyz(color));
+
+export const labToRgb = (color: Lab): RGB => xyzToRgb(labToXyz(color));
+
+// Rectangular (a, b) to polar (chroma, hue in degrees) and back
+const toPolar = (a: number, b: number): { c: number; h: number } => {
+  const h = (Math.atan2(b, a) * 180) / Math.PI;
+  return { c: Math.hypot(a, b), h: h < 0 ? h + 360 : h };
+};
+
+const fromPolar = (c: number, h: number): { a: number; b: number } => {
+  const radians = (h * Math.PI) / 180;
+  return { a: c * Math.cos(radians), b: c * Math.sin(radians) };
+};
+
+export const labToLch = (color: Lab): LCH => ({
+  l: color.l,
+  ...toPolar(color.a, color.b),
+});
+
+export const lchToLab = (color: LCH): Lab => ({
+  l: color.l,
+  ...fromPolar(color.c, color.h),
+});
+
+export const rgbToLch = (color: RGB): LCH => labToLch(rgbToLab(color));
+
+export const lchToRgb = (color: LCH): RGB => labToRgb(lchToLab(color));
+
+export const linearToOklab = (color: LinearRGB): OKLab => {
+  const l = Math.cbrt(
+    0.4122214708 * color.r + 0.5363325363 * color.g + 0.0514459929 * color.b,
+  );
+  const m = Math.cbrt(
+    0.2119034982 * color.r + 0.6806995451 * color.g + 0.1073969566 * color.b,
+  );
+  const s = Math.cbrt(
+    0.0883024619 * color.r + 0.2817188376 * color.g + 0.6299787005 * color.b,
+  );
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  };
+};
+
+export const oklabToLinear = (color: OKLab): LinearRGB => {
+  const l = (color.l + 0.3963377774 * color.a + 0.2158037573 * color.b) ** 3;
+  const m = (color.l - 0.1055613458 * color.a - 0.0638541728 * color.b) ** 3;
+  const s = (color.l - 0.0894841775 * color.a - 1.291485548 * color.b) ** 3;
+  return {
+    r: 4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    g: -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    b: -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  };
+};
+
+/**
+ * Converts an RGB color to OKLab.
+ *
+ * @remarks
+ * OKLab is a perceptual color space with more uniform lightness and hue than
+ * CIELAB: blending two colors in OKLab keeps the midpoint as bright and
+ * saturated as the endpoints suggest, without the muddy grays of RGB blending
+ * or the purple shift CIELAB gives blues. L is lightness from 0 to 1.
+ *
+ * @example
+ * ```typescript
+ * rgbToOklab(rgb(255, 255, 255)); // { l: 1, a: 0, b: 0 }
+ * ```
+ *
+ * @see {@link colorLerpOklab} for interpolation in OKLab
+ * @see {@link https://bottosson.github.io/posts/oklab/ | A perceptual color space for image processing}
+ */
+export const rgbToOklab = (color: RGB): OKLab =>
+  linearToOklab(rgbToLinear(color));
+
+export const oklabToRgb = (color: OKLab): RGB =>
+  linearToRgb(oklabToLinear(color));
+
+export const oklabToOklch = (color: OKLab): OKLCH => ({
+  l: color.l,
+  ...toPolar(color.a, color.b),
+});
+
+export const oklchToOklab = (color: OKLCH): OKLab => ({
+  l: color.l,
+  ...fromPolar(color.c, color.h),
+});
+
+/**
+ * Converts an RGB color to OKLCH: OKLab lightness, chroma and hue angle.
+ *
+ * @remarks
+ * OKLCH is the most intuitive space for editing colors: changing L alters
+ * only perceived lightness, C only colorfulness and H only hue. Chroma of
+ * sRGB colors stays below about 0.33. Grays have zero chroma and a
+ * meaningless hue.
+ *
+ * @example
+ * ```typescript
+ * const { l, c, h } = rgbToOklch(rgb(255, 0, 0)); // l 0.628, c 0.258, h 29.2
+ * ```
+ */
+export const rgbToOklch = (color: RGB): OKLCH =>
+  oklabToOklch(rgbToOklab(color));
+
+/**
+ * Converts an OKLCH color to RGB, clipping channels that fall outside sRGB.
+ *
+ * @see {@link oklchToRgbInGamut} to reduce chroma instead of clipping
+ */
+export const oklchToRgb = (color: OKLCH): RGB =>
+  oklabToRgb(oklchToOklab(color));
+
+const inGamut = (color: LinearRGB, tolerance = 1e-6): boolean =>
+  color.r >= -tolerance &&
+  color.r <= 1 + tolerance &&
+  color.g >= -tolerance &&
+  color.g <= 1 + tolerance &&
+  color.b >= -tolerance &&
+  color.b <= 1 + tolerance;
+
+/**
+ * Converts an OKLCH color to RGB, reducing chroma until it fits in sRGB.
+ *
+ * @remarks
+ * Clipping out-of-gamut channels changes hue and lightness; reducing chroma
+ * keeps both, which is what CSS Color 4 does when displaying `oklch()`
+ * colors. Lightness is clamped to 0-1 first.
+ *
+ * @example
+ * ```typescript
+ * // A very saturated cyan outside sRGB becomes the most vivid cyan inside it
+ * oklchToRgbInGamut({ l: 0.9, c: 0.3, h: 195 });
+ * ```
+ */
+export const oklchToRgbInGamut = (color: OKLCH): RGB => {
+  const l = clamp(color.l, 0, 1);
+  const target = { l, c: color.c, h: color.h };
+  if (inGamut(oklabToLinear(oklchToOklab(target)))) {
+    return oklchToRgb(target);
+  }
+
+  let [low, high] = [0, color.c];
+  for (let i = 0; i < 24; i++) {
+    const c = (low + high) / 2;
+    if (inGamut(oklabToLinear(oklchToOklab({ l, c, h: color.h })))) low = c;
+    else high = c;
+  }
+  return oklchToRgb({ l, c: low, h: color.h });
+};
+
+/**
+ * Converts an RGB color to HSV (also called HSB).
+ *
+ * @remarks
+ * HSV shares its hue with HSL, but value is the brightest channel, so fully
+ * saturated colors have value 100 rather than lightness 50. Color pickers
+ * often use it.
+ *
+ * @example
+ * ```typescript
+ * rgbToHsv(rgb(255, 0, 0));     // { h: 0, s: 100, v: 100 }
+ * rgbToHsv(rgb(128, 128, 128)); // { h: 0, s: 0, v: 50.2 }
+ * ```
+ */
+export const rgbToHsv = (color: RGB): HSV => {
+  const { h } = rgbToHsl(color);
+  const max = Math.max(color.r, color.g, color.b) / 255;
+  const min = Math.min(color.r, color.g, color.b) / 255;
+  return { h, s: max === 0 ? 0 : ((max - min) / max) * 100, v: max * 100 };
+};
+
+export const hsvToRgb = (color: HSV): RGB => {
+  const s = clamp(color.s, 0, 100) / 100;
+  const v = clamp(color.v, 0, 100) / 100;
+  const h = (((color.h % 360) + 360) % 360) / 60;
+  const channel = (n: number): number => {
+    const k = (n + h) % 6;
+    return (v - v * s * Math.max(0, Math.min(k, 4 - k, 1))) * 255;
+  };
+  return rgb(channel(5), channel(3), channel(1));
+};
+
+/**
+ * Converts an RGB color to HWB: hue, whiteness and blackness.
+ *
+ * @remarks
+ * HWB describes a color as a pure hue mixed with white and black, which is
+ * how painters tint and shade. Whiteness plus blackness of 100 or more is a
+ * gray.
+ */
+export const rgbToHwb = (color: RGB): HWB => {
+  const { h } = rgbToHsl(color);
+  const max = Math.max(color.r, color.g, color.b) / 255;
+  const min = Math.min(color.r, color.g, color.b) / 255;
+  return { h, w: min * 100, b: (1 - max) * 100 };
+};
+
+export const hwbToRgb = (color: HWB): RGB => {
+  const w = clamp(color.w, 0, 100);
+  const b = clamp(color.b, 0, 100);
+  if (w + b >= 100) {
+    const gray = (w / (w + b)) * 255;
+    return rgb(gray, gray, gray);
+  }
+  return hsvToRgb({ h: color.h, s: 100 - (w / (100 - b)) * 100, v: 100 - b });
+};
+
+/**
+ * Converts an RGB color to CMYK percentages.
+ *
+ * @remarks
+ * This is the naive device-independent formula; real print output depends on
+ * inks and paper and needs an ICC profile.
+ *
+ * @example
+ * ```typescript
+ * rgbToCmyk(rgb(255, 0, 0)); // { c: 0, m: 100, y: 100, k: 0 }
+ * ```
+ */
+export const rgbToCmyk = (color: RGB): CMYK => {
+  const max = Math.max(color.r, color.g, color.b) / 255;
+  if (max === 0) return { c: 0, m: 0, y: 0, k: 100 };
+  const ink = (channel: number): number => ((max - channel / 255) / max) * 100;
+  return {
+    c: ink(color.r),
+    m: ink(color.g),
+    y: ink(color.b),
+    k: (1 - max) * 100,
+  };
+};
+
+export const cmykToRgb = (color: CMYK): RGB => {
+  const k = 1 - clamp(color.k, 0, 100) / 100;
+  const channel = (ink: number): number =>
+    (1 - clamp(ink, 0, 100) / 100) * k * 255;
+  return rgb(channel(color.c), channel(color.m), channel(color.y));
+};
+
 // ============================================================================
 // Color Manipulation and Interpolation
 // ============================================================================
@@ -612,6 +1016,84 @@ export const colorLerpHsl = (a: HSL, b: HSL, t: number): HSL => {
   };
 };
 
+/**
+ * Interpolates between two RGB colors in OKLab.
+ *
+ * @param a - Starting color (returned when t = 0)
+ * @param b - Ending color (returned when t = 1)
+ * @param t - Interpolation factor (0-1)
+ * @returns Interpolated RGB color
+ *
+ * @remarks
+ * Blending in OKLab keeps perceived lightness changing evenly and avoids the
+ * dark, desaturated midpoints of {@link colorLerp}: red to green passes
+ * through a clear yellow-brown rather than a muddy olive, and blue to white
+ * does not drift toward purple. Hue is not preserved; for saturated
+ * transitions around the color wheel use {@link colorLerpOklch}.
+ *
+ * @example
+ * ```typescript
+ * const steps = Array.from({ length: 8 }, (_, i) =>
+ *   colorLerpOklab(rgb(0, 0, 255), rgb(255, 255, 255), i / 7),
+ * );
+ * ```
+ */
+export const colorLerpOklab = (a: RGB, b: RGB, t: number): RGB => {
+  const from = rgbToOklab(a);
+  const to = rgbToOklab(b);
+  return oklabToRgb({
+    l: lerp(from.l, to.l, t),
+    a: lerp(from.a, to.a, t),
+    b: lerp(from.b, to.b, t),
+  });
+};
+
+// Below this chroma a color counts as gray and its hue is ignored
+const ACHROMATIC_CHROMA = 1e-4;
+
+/**
+ * Interpolates between two RGB colors in OKLCH along the shorter hue arc.
+ *
+ * @param a - Starting color (returned when t = 0)
+ * @param b - Ending color (returned when t = 1)
+ * @param t - Interpolation factor (0-1)
+ * @returns Interpolated RGB color, mapped into sRGB by reducing chroma
+ *
+ * @remarks
+ * Lightness, chroma and hue are interpolated separately, so the midpoint of
+ * two vivid colors stays vivid, and hue always turns the short way round the
+ * wheel (350° to 10° passes through 0°, not 180°). When one endpoint is gray
+ * its hue is undefined, so the other endpoint's hue is used throughout and
+ * only chroma fades.
+ *
+ * @example
+ * ```typescript
+ * // Stays saturated through magenta, unlike colorLerp's dull purple
+ * const mid = colorLerpOklch(rgb(255, 0, 0), rgb(0, 0, 255), 0.5);
+ * ```
+ *
+ * @see {@link colorLerpOklab} for a straight blend without hue rotation
+ */
+export const colorLerpOklch = (a: RGB, b: RGB, t: number): RGB => {
+  const from = rgbToOklch(a);
+  const to = rgbToOklch(b);
+
+  let h1 = from.h;
+  let h2 = to.h;
+  if (from.c < ACHROMATIC_CHROMA) h1 = h2;
+  if (to.c < ACHROMATIC_CHROMA) h2 = h1;
+
+  let diff = h2 - h1;
+  if (diff > 180) diff -= 360;
+  else if (diff < -180) diff += 360;
+
+  return oklchToRgbInGamut({
+    l: lerp(from.l, to.l, t),
+    c: lerp(from.c, to.c, t),
+    h: (((h1 + diff * t) % 360) + 360) % 360,
+  });
+};
+
 /**
  * Increases the lightness of an RGB color by a specified amount.
  *
@@ -809,6 +1291,78 @@ export const hueShift = (color: RGB, degrees: number): RGB => {
   return hslToRgb(newHsl);
 };
 
+/**
+ * Increases perceived lightness of an RGB color using OKLCH.
+ *
+ * @param color - RGB color to brighten
+ * @param amount - Lightness to add on a 0-100 scale
+ * @returns Brightened RGB color with the same hue
+ *
+ * @remarks
+ * {@link brighten} adds HSL lightness, which brightens yellows far less than
+ * blues and shifts hue as channels saturate. OKLCH lightness matches
+ * perceived brightness, so the same amount looks like the same step for any
+ * color, and hue is kept exactly. Chroma that no longer fits in sRGB is
+ * reduced rather than clipped.
+ *
+ * @example
+ * ```typescript
+ * // Evenly spaced tints of a brand color
+ * const tints = [10, 20, 30].map((step) => brightenPerceptual(brand, step));
+ * ```
+ *
+ * @see {@link darkenPerceptual} for the opposite operation
+ */
+export const brightenPerceptual = (color: RGB, amount: number): RGB => {
+  const { l, c, h } = rgbToOklch(color);
+  return oklchToRgbInGamut({ l: l + amount / 100, c, h });
+};
+
+export const darkenPerceptual = (color: RGB, amount: number): RGB =>
+  brightenPerceptual(color, -amount);
+
+/**
+ * Scales the colorfulness of an RGB color using OKLCH chroma.
+ *
+ * @param color - RGB color to saturate
+ * @param amount - Percentage to change chroma by (50 gives 1.5× chroma,
+ * -100 gives gray)
+ * @returns Color with the same perceived lightness and hue
+ *
+ * @remarks
+ * Unlike {@link saturate}, lightness does not change as colors become more
+ * vivid, and grays stay gray.
+ */
+export const saturatePerceptual = (color: RGB, amount: number): RGB => {
+  const { l, c, h } = rgbToOklch(color);
+  return oklchToRgbInGamut({ l, c: Math.max(0, c * (1 + amount / 100)), h });
+};
+
+export const desaturatePerceptual = (color: RGB, amount: number): RGB =>
+  saturatePerceptual(color, -amount);
+
+/**
+ * Rotates the OKLCH hue of an RGB color.
+ *
+ * @param color - RGB color to shift
+ * @param degrees - Degrees to rotate the hue
+ * @returns Color with the same perceived lightness and chroma
+ *
+ * @remarks
+ * {@link hueShift} rotates HSL hue, so a yellow shifted to blue becomes much
+ * darker. Rotating OKLCH hue keeps perceived lightness, which makes it
+ * suitable for generating palettes of equally prominent colors.
+ *
+ * @example
+ * ```typescript
+ * const palette = [0, 72, 144, 216, 288].map((d) => hueShiftPerceptual(base, d));
+ * ```
+ */
+export const hueShiftPerceptual = (color: RGB, degrees: number): RGB => {
+  const { l, c, h } = rgbToOklch(color);
+  return oklchToRgbInGamut({ l, c, h: (((h + degrees) % 360) + 360) % 360 });
+};
+
 /**
  * Converts an RGB color to grayscale using luminance weighting.
  *
@@ -1125,6 +1679,7 @@ export const tetradic = (color: RGB): [RGB, RGB, RGB] => {
  * ```
  *
  * @see {@link colorSimilarity} for normalized similarity (0-1)
+ * @see {@link colorDifference} for perceptually accurate metrics
  */
 export const colorDistance = (a: RGB, b: RGB): number => {
   const dr = a.r - b.r;
@@ -1179,6 +1734,312 @@ export const colorSimilarity = (a: RGB, b: RGB): number => {
   return 1 - colorDistance(a, b) / maxDistance;
 };
 
+// ============================================================================
+// Perceptual Color Difference
+// ============================================================================
+
+/**
+ * Formula used by {@link colorDifference} and {@link nearestColor}.
+ *
+ * - `rgb`: Euclidean distance in RGB, as in {@link colorDistance}
+ * - `cie76`, `cie94`, `ciede2000`: Delta E formulas in CIELAB
+ * - `oklab`: Euclidean distance in OKLab, as in {@link deltaEOK}
+ */
+export type ColorDifferenceMetric =
+  | "rgb"
+  | "cie76"
+  | "cie94"
+  | "ciede2000"
+  | "oklab";
+
+/**
+ * CIE76 color difference: the Euclidean distance between two CIELAB colors.
+ *
+ * @remarks
+ * A difference of about 2.3 is the smallest most observers notice. CIE76
+ * overstates differences between saturated colors; {@link deltaE2000} fixes
+ * that at higher cost.
+ *
+ * @example
+ * ```typescript
+ * deltaE76(rgbToLab(rgb(255, 0, 0)), rgbToLab(rgb(250, 5, 5)));
+ * ```
+ */
+export const deltaE76 = (a: Lab, b: Lab): number =>
+  Math.hypot(a.l - b.l, a.a - b.a, a.b - b.b);
+
+/**
+ * CIE94 color difference, with the graphic arts weighting constants.
+ *
+ * @remarks
+ * CIE94 scales chroma and hue differences down for saturated colors. It is
+ * not symmetric: `a` is the reference color whose chroma sets the weights.
+ */
+export const deltaE94 = (a: Lab, b: Lab): number => {
+  const c1 = Math.hypot(a.a, a.b);
+  const c2 = Math.hypot(b.a, b.b);
+  const dl = a.l - b.l;
+  const dc = c1 - c2;
+  // ΔH² = Δa² + Δb² - ΔC², which rounding can push slightly below zero
+  const dh2 = Math.max(0, (a.a - b.a) ** 2 + (a.b - b.b) ** 2 - dc * dc);
+  const sc = 1 + 0.045 * c1;
+  const sh = 1 + 0.015 * c1;
+  return Math.sqrt(dl * dl + (dc / sc) ** 2 + dh2 / (sh * sh));
+};
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * CIEDE2000 color difference, the current CIE recommendation.
+ *
+ * @remarks
+ * CIEDE2000 corrects CIELAB's non-uniformity in blues and near-neutral
+ * colors and weights lightness by its distance from mid-gray. Values match
+ * Sharma, Wu and Dalal's reference data. A difference below 1 is generally
+ * imperceptible.
+ *
+ * @example
+ * ```typescript
+ * const similar = deltaE2000(rgbToLab(a), rgbToLab(b)) < 1;
+ * ```
+ *
+ * @see {@link colorDifference} to compare RGB colors directly
+ */
+export const deltaE2000 = (a: Lab, b: Lab): number => {
+  const cMean = (Math.hypot(a.a, a.b) + Math.hypot(b.a, b.b)) / 2;
+  const cMean7 = cMean ** 7;
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + 25 ** 7)));
+  const a1 = a.a * (1 + g);
+  const a2 = b.a * (1 + g);
+  const c1 = Math.hypot(a1, a.b);
+  const c2 = Math.hypot(a2, b.b);
+  const hue = (x: number, y: number): number => {
+    if (x === 0 && y === 0) return 0;
+    const h = (Math.atan2(y, x) * 180) / Math.PI;
+    return h < 0 ? h + 360 : h;
+  };
+  const h1 = hue(a1, a.b);
+  const h2 = hue(a2, b.b);
+
+  const dl = b.l - a.l;
+  const dc = c2 - c1;
+  let dh = 0;
+  if (c1 * c2 !== 0) {
+    dh = h2 - h1;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  const dH = 2 * Math.sqrt(c1 * c2) * Math.sin(toRadians(dh / 2));
+
+  const lMean = (a.l + b.l) / 2;
+  const cMeanPrime = (c1 + c2) / 2;
+  let hMean = h1 + h2;
+  if (c1 * c2 !== 0) {
+    if (Math.abs(h1 - h2) <= 180) hMean /= 2;
+    else hMean = hMean < 360 ? (hMean + 360) / 2 : (hMean - 360) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(toRadians(hMean - 30)) +
+    0.24 * Math.cos(toRadians(2 * hMean)) +
+    0.32 * Math.cos(toRadians(3 * hMean + 6)) -
+    0.2 * Math.cos(toRadians(4 * hMean - 63));
+  const lOffset = (lMean - 50) ** 2;
+  const sl = 1 + (0.015 * lOffset) / Math.sqrt(20 + lOffset);
+  const sc = 1 + 0.045 * cMeanPrime;
+  const sh = 1 + 0.015 * cMeanPrime * t;
+  const cMeanPrime7 = cMeanPrime ** 7;
+  const rt =
+    -2 *
+    Math.sqrt(cMeanPrime7 / (cMeanPrime7 + 25 ** 7)) *
+    Math.sin(toRadians(60 * Math.exp(-(((hMean - 275) / 25) ** 2))));
+
+  return Math.sqrt(
+    (dl / sl) ** 2 +
+      (dc / sc) ** 2 +
+      (dH / sh) ** 2 +
+      rt * (dc / sc) * (dH / sh),
+  );
+};
+
+/**
+ * Euclidean distance between two OKLab colors.
+ *
+ * @remarks
+ * OKLab is uniform enough that plain distance works well, and it is much
+ * cheaper than {@link deltaE2000}. Results are on OKLab's 0-1 lightness
+ * scale, so a just-noticeable difference is about 0.02.
+ */
+export const deltaEOK = (a: OKLab, b: OKLab): number =>
+  Math.hypot(a.l - b.l, a.a - b.a, a.b - b.b);
+
+/**
+ * Measures how different two RGB colors look.
+ *
+ * @param a - Reference color
+ * @param b - Color to compare
+ * @param metric - Difference formula (default CIEDE2000)
+ * @returns Difference in the metric's own units (0 = identical)
+ *
+ * @example
+ * Removing near-duplicate swatches:
+ * ```typescript
+ * const unique: RGB[] = [];
+ * for (const swatch of palette) {
+ *   if (unique.every((kept) => colorDifference(kept, swatch) > 2)) {
+ *     unique.push(swatch);
+ *   }
+ * }
+ * ```
+ */
+export const colorDifference = (
+  a: RGB,
+  b: RGB,
+  metric: ColorDifferenceMetric = "ciede2000",
+): number => {
+  switch (metric) {
+    case "rgb":
+      return colorDistance(a, b);
+    case "cie76":
+      return deltaE76(rgbToLab(a), rgbToLab(b));
+    case "cie94":
+      return deltaE94(rgbToLab(a), rgbToLab(b));
+    case "ciede2000":
+      return deltaE2000(rgbToLab(a), rgbToLab(b));
+    case "oklab":
+      return deltaEOK(rgbToOklab(a), rgbToOklab(b));
+    default:
+      throw new Error(`Unknown color difference metric: ${metric}`);
+  }
+};
+
+/**
+ * Finds the palette entry that looks most like a color.
+ *
+ * @param color - Color to match
+ * @param palette - Candidate colors
+ * @param metric - Difference formula (default CIEDE2000)
+ * @returns The closest palette color; the first one wins ties
+ *
+ * @example
+ * Quantizing a pixel to a fixed palette:
+ * ```typescript
+ * const pico = [rgb(0, 0, 0), rgb(29, 43, 83), rgb(126, 37, 83)];
+ * const mapped = nearestColor(pixel, pico);
+ * ```
+ */
+export const nearestColor = (
+  color: RGB,
+  palette: readonly RGB[],
+  metric: ColorDifferenceMetric = "ciede2000",
+): RGB => {
+  if (palette.length === 0) {
+    throw new Error("Palette must contain at least one color");
+  }
+
+  let best = palette[0]!;
+  let bestDifference = colorDifference(color, best, metric);
+  for (let i = 1; i < palette.length; i++) {
+    const difference = colorDifference(color, palette[i]!, metric);
+    if (difference < bestDifference) {
+      best = palette[i]!;
+      bestDifference = difference;
+    }
+  }
+  return best;
+};
+
+export interface DistinctColorsOptions {
+  /** Colors the result should also stay away from, such as the background */
+  readonly exclude?: readonly RGB[];
+  /** Lowest allowed OKLab lightness (default 0) */
+  readonly minLightness?: number;
+  /** Highest allowed OKLab lightness (default 1) */
+  readonly maxLightness?: number;
+}
+
+// Candidate grid for distinctColors: 17 levels per channel
+const DISTINCT_LEVELS = 17;
+
+/**
+ * Generates colors that are as far apart from each other as possible.
+ *
+ * @param n - Number of colors
+ * @param options - Colors to avoid and lightness limits
+ * @returns `n` colors, ordered so that every prefix is itself well spread
+ *
+ * @remarks
+ * Candidates come from a 17×17×17 grid over sRGB. Each step picks the
+ * candidate whose OKLab distance to the nearest color chosen (or excluded)
+ * so far is largest. This farthest-point strategy is deterministic and
+ * guarantees at least half the best achievable minimum distance.
+ *
+ * @example
+ * Chart series on a white background:
+ * ```typescript
+ * const series = distinctColors(6, {
+ *   exclude: [colors.white],
+ *   maxLightness: 0.85,
+ * });
+ * ```
+ */
+export const distinctColors = (
+  n: number,
+  options: DistinctColorsOptions = {},
+): RGB[] => {
+  const { exclude = [], minLightness = 0, maxLightness = 1 } = options;
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error("Color count must be a non-negative integer");
+  }
+
+  const candidates: RGB[] = [];
+  const labs: OKLab[] = [];
+  for (let r = 0; r < DISTINCT_LEVELS; r++) {
+    for (let g = 0; g < DISTINCT_LEVELS; g++) {
+      for (let b = 0; b < DISTINCT_LEVELS; b++) {
+        const color = rgb(
+          Math.round((r * 255) / (DISTINCT_LEVELS - 1)),
+          Math.round((g * 255) / (DISTINCT_LEVELS - 1)),
+          Math.round((b * 255) / (DISTINCT_LEVELS - 1)),
+        );
+        const lab = rgbToOklab(color);
+        if (lab.l >= minLightness && lab.l <= maxLightness) {
+          candidates.push(color);
+          labs.push(lab);
+        }
+      }
+    }
+  }
+  if (n > candidates.length) {
+    throw new Error(
+      `Cannot generate ${n} distinct colors; at most ${candidates.length} are available`,
+    );
+  }
+
+  // Distance from each candidate to the closest color chosen so far
+  const nearest = new Float64Array(candidates.length).fill(Infinity);
+  const visit = (lab: OKLab): void => {
+    for (let i = 0; i < labs.length; i++) {
+      nearest[i] = Math.min(nearest[i]!, deltaEOK(labs[i]!, lab));
+    }
+  };
+  // Without anything to avoid, start from the color farthest from mid-gray
+  if (exclude.length === 0) visit({ l: 0.5, a: 0, b: 0 });
+  for (const color of exclude) visit(rgbToOklab(color));
+
+  const result: RGB[] = [];
+  for (let k = 0; k < n; k++) {
+    let best = 0;
+    for (let i = 1; i < candidates.length; i++) {
+      if (nearest[i]! > nearest[best]!) best = i;
+    }
+    result.push(candidates[best]!);
+    visit(labs[best]!);
+  }
+  return result;
+};
+
 // Predefined colors
 export const colors = {
   // Web colors
@@ -1222,3 +2083,599 @@ export const toCssHsl = (color: HSL): string => {
 export const toCssHsla = (color: HSLA): string => {
   return `hsla(${Math.round(color.h)}, ${Math.round(color.s)}%, ${Math.round(color.l)}%, ${color.a})`;
 };
+
+// ============================================================================
+// CSS Color Parsing and Serialization
+// ============================================================================
+
+/** Output formats for {@link formatColor}: any CSS color space, or hex */
+export type CssColorFormat = CssColor["space"] | "hex";
+
+// The 148 named colors of CSS Color 4 as 0xRRGGBB
+const NAMED_COLORS: Readonly<Record<string, number>> = {
+  aliceblue: 0xf0f8ff,
+  antiquewhite: 0xfaebd7,
+  aqua: 0x00ffff,
+  aquamarine: 0x7fffd4,
+  azure: 0xf0ffff,
+  beige: 0xf5f5dc,
+  bisque: 0xffe4c4,
+  black: 0x000000,
+  blanchedalmond: 0xffebcd,
+  blue: 0x0000ff,
+  blueviolet: 0x8a2be2,
+  brown: 0xa52a2a,
+  burlywood: 0xdeb887,
+  cadetblue: 0x5f9ea0,
+  chartreuse: 0x7fff00,
+  chocolate: 0xd2691e,
+  coral: 0xff7f50,
+  cornflowerblue: 0x6495ed,
+  cornsilk: 0xfff8dc,
+  crimson: 0xdc143c,
+  cyan: 0x00ffff,
+  darkblue: 0x00008b,
+  darkcyan: 0x008b8b,
+  darkgoldenrod: 0xb8860b,
+  darkgray: 0xa9a9a9,
+  darkgreen: 0x006400,
+  darkgrey: 0xa9a9a9,
+  darkkhaki: 0xbdb76b,
+  darkmagenta: 0x8b008b,
+  darkolivegreen: 0x556b2f,
+  darkorange: 0xff8c00,
+  darkorchid: 0x9932cc,
+  darkred: 0x8b0000,
+  darksalmon: 0xe9967a,
+  darkseagreen: 0x8fbc8f,
+  darkslateblue: 0x483d8b,
+  darkslategray: 0x2f4f4f,
+  darkslategrey: 0x2f4f4f,
+  darkturquoise: 0x00ced1,
+  darkviolet: 0x9400d3,
+  deeppink: 0xff1493,
+  deepskyblue: 0x00bfff,
+  dimgray: 0x696969,
+  dimgrey: 0x696969,
+  dodgerblue: 0x1e90ff,
+  firebrick: 0xb22222,
+  floralwhite: 0xfffaf0,
+  forestgreen: 0x228b22,
+  fuchsia: 0xff00ff,
+  gainsboro: 0xdcdcdc,
+  ghostwhite: 0xf8f8ff,
+  gold: 0xffd700,
+  goldenrod: 0xdaa520,
+  gray: 0x808080,
+  green: 0x008000,
+  greenyellow: 0xadff2f,
+  grey: 0x808080,
+  honeydew: 0xf0fff0,
+  hotpink: 0xff69b4,
+  indianred: 0xcd5c5c,
+  indigo: 0x4b0082,
+  ivory: 0xfffff0,
+  khaki: 0xf0e68c,
+  lavender: 0xe6e6fa,
+  lavenderblush: 0xfff0f5,
+  lawngreen: 0x7cfc00,
+  lemonchiffon: 0xfffacd,
+  lightblue: 0xadd8e6,
+  lightcoral: 0xf08080,
+  lightcyan: 0xe0ffff,
+  lightgoldenrodyellow: 0xfafad2,
+  lightgray: 0xd3d3d3,
+  lightgreen: 0x90ee90,
+  lightgrey: 0xd3d3d3,
+  lightpink: 0xffb6c1,
+  lightsalmon: 0xffa07a,
+  lightseagreen: 0x20b2aa,
+  lightskyblue: 0x87cefa,
+  lightslategray: 0x778899,
+  lightslategrey: 0x778899,
+  lightsteelblue: 0xb0c4de,
+  lightyellow: 0xffffe0,
+  lime: 0x00ff00,
+  limegreen: 0x32cd32,
+  linen: 0xfaf0e6,
+  magenta: 0xff00ff,
+  maroon: 0x800000,
+  mediumaquamarine: 0x66cdaa,
+  mediumblue: 0x0000cd,
+  mediumorchid: 0xba55d3,
+  mediumpurple: 0x9370db,
+  mediumseagreen: 0x3cb371,
+  mediumslateblue: 0x7b68ee,
+  mediumspringgreen: 0x00fa9a,
+  mediumturquoise: 0x48d1cc,
+  mediumvioletred: 0xc71585,
+  midnightblue: 0x191970,
+  mintcream: 0xf5fffa,
+  mistyrose: 0xffe4e1,
+  moccasin: 0xffe4b5,
+  navajowhite: 0xffdead,
+  navy: 0x000080,
+  oldlace: 0xfdf5e6,
+  olive: 0x808000,
+  olivedrab: 0x6b8e23,
+  orange: 0xffa500,
+  orangered: 0xff4500,
+  orchid: 0xda70d6,
+  palegoldenrod: 0xeee8aa,
+  palegreen: 0x98fb98,
+  paleturquoise: 0xafeeee,
+  palevioletred: 0xdb7093,
+  papayawhip: 0xffefd5,
+  peachpuff: 0xffdab9,
+  peru: 0xcd853f,
+  pink: 0xffc0cb,
+  plum: 0xdda0dd,
+  powderblue: 0xb0e0e6,
+  purple: 0x800080,
+  rebeccapurple: 0x663399,
+  red: 0xff0000,
+  rosybrown: 0xbc8f8f,
+  royalblue: 0x4169e1,
+  saddlebrown: 0x8b4513,
+  salmon: 0xfa8072,
+  sandybrown: 0xf4a460,
+  seagreen: 0x2e8b57,
+  seashell: 0xfff5ee,
+  sienna: 0xa0522d,
+  silver: 0xc0c0c0,
+  skyblue: 0x87ceeb,
+  slateblue: 0x6a5acd,
+  slategray: 0x708090,
+  slategrey: 0x708090,
+  snow: 0xfffafa,
+  springgreen: 0x00ff7f,
+  steelblue: 0x4682b4,
+  tan: 0xd2b48c,
+  teal: 0x008080,
+  thistle: 0xd8bfd8,
+  tomato: 0xff6347,
+  turquoise: 0x40e0d0,
+  violet: 0xee82ee,
+  wheat: 0xf5deb3,
+  white: 0xffffff,
+  whitesmoke: 0xf5f5f5,
+  yellow: 0xffff00,
+  yellowgreen: 0x9acd32,
+};
+
+const invalid = (input: string, reason: string): never => {
+  throw new Error(`Invalid CSS color "${input}": ${reason}`);
+};
+
+interface Component {
+  readonly value: number;
+  // "" for plain numbers, otherwise "%" or an angle unit
+  readonly unit: string;
+}
+
+const COMPONENT_PATTERN =
+  /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/;
+
+const parseComponent = (input: string, token: string): Component => {
+  // CSS Color 4 "none" is a missing component, which resolves to zero
+  if (token === "none") return { value: 0, unit: "" };
+  const match = COMPONENT_PATTERN.exec(token);
+  if (!match) {
+    return invalid(input, `"${token}" is not a number, percentage or angle`);
+  }
+  return { value: Number(match[1]), unit: match[2] ?? "" };
+};
+
+// Resolves a number or percentage, with 100% mapping to `fullScale`
+const resolveNumber = (
+  input: string,
+  component: Component,
+  fullScale: number,
+): number => {
+  if (component.unit === "") return component.value;
+  if (component.unit === "%") return (component.value / 100) * fullScale;
+  return invalid(input, `unexpected unit "${component.unit}"`);
+};
+
+const DEGREES_PER_UNIT: Readonly<Record<string, number>> = {
+  "": 1,
+  deg: 1,
+  rad: 180 / Math.PI,
+  grad: 0.9,
+  turn: 360,
+};
+
+const resolveHue = (input: string, component: Component): number => {
+  const scale = DEGREES_PER_UNIT[component.unit];
+  if (scale === undefined) {
+    return invalid(input, `hue cannot be a percentage`);
+  }
+  return (((component.value * scale) % 360) + 360) % 360;
+};
+
+const parseHex = (input: string, digits: string): CssColor => {
+  if (!/^[0-9a-f]+$/.test(digits) || ![3, 4, 6, 8].includes(digits.length)) {
+    return invalid(input, "hex colors need 3, 4, 6 or 8 hex digits");
+  }
+  const full =
+    digits.length <= 4
+      ? [...digits].map((digit) => digit + digit).join("")
+      : digits;
+  const byte = (index: number): number =>
+    parseInt(full.slice(index * 2, index * 2 + 2), 16);
+  return {
+    space: "rgb",
+    color: rgb(byte(0), byte(1), byte(2)),
+    alpha: full.length === 8 ? byte(3) / 255 : 1,
+  };
+};
+
+// Functions that also accept the comma-separated CSS Color 3 syntax
+const LEGACY_FUNCTIONS = new Set(["rgb", "rgba", "hsl", "hsla"]);
+
+/**
+ * Parses any CSS Color 4 color string.
+ *
+ * @param input - CSS color such as `"#ff8000"`, `"rebeccapurple"` or
+ *   `"oklch(0.7 0.15 40 / 50%)"`
+ * @returns The color in the space it was written in, with alpha 0-1
+ * @throws Error describing why the string is not a valid color
+ *
+ * @remarks
+ * Supported forms:
+ * - Hex: `#rgb`, `#rgba`, `#rrggbb`, `#rrggbbaa`
+ * - The 148 named colors and `transparent`
+ * - `rgb()`/`rgba()` and `hsl()`/`hsla()`, with commas or spaces
+ * - `hwb()`, `lab()`, `lch()`, `oklab()` and `oklch()`
+ * - `color(srgb ...)` and `color(display-p3 ...)`
+ *
+ * Components may be numbers, percentages or `none`; hues also accept `deg`,
+ * `rad`, `grad` and `turn`. Values are clamped the way browsers do: RGB to
+ * 0-255, lightness to its range and chroma to be non-negative. Display P3
+ * channels are kept as written, since they may exceed sRGB.
+ *
+ * @example
+ * ```typescript
+ * parseColor("#f80");           // { space: "rgb", color: { r: 255, g: 136, b: 0 }, alpha: 1 }
+ * parseColor("hsl(120 50% 40% / 0.5)").alpha; // 0.5
+ * parseColor("oklch(70% 0.1 200)").space;     // "oklch"
+ * parseColor("bleu"); // throws: Invalid CSS color "bleu": unknown color name
+ * ```
+ *
+ * @see {@link formatColor} for the inverse
+ * @see {@link cssColorToRgba} to convert the result to 8-bit RGB
+ */
+export const parseColor = (input: string): CssColor => {
+  const text = input.trim().toLowerCase();
+  if (text === "") return invalid(input, "empty string");
+  if (text.startsWith("#")) return parseHex(input, text.slice(1));
+  if (text === "transparent") {
+    return { space: "rgb", color: rgb(0, 0, 0), alpha: 0 };
+  }
+
+  const named = NAMED_COLORS[text];
+  if (named !== undefined) {
+    return {
+      space: "rgb",
+      color: rgb((named >> 16) & 255, (named >> 8) & 255, named & 255),
+      alpha: 1,
+    };
+  }
+
+  const call = /^([a-z][a-z0-9-]*)\((.*)\)$/.exec(text);
+  if (!call) return invalid(input, "unknown color name");
+  let name = call[1]!;
+  const body = call[2]!;
+
+  let tokens: string[];
+  let alphaToken: string | undefined;
+  if (body.includes(",")) {
+    if (!LEGACY_FUNCTIONS.has(name)) {
+      return invalid(input, `${name}() does not accept commas`);
+    }
+    tokens = body.split(",").map((token) => token.trim());
+    if (tokens.length === 4) alphaToken = tokens.pop();
+  } else {
+    const parts = body.split("/");
+    if (parts.length > 2) return invalid(input, "more than one '/'");
+    tokens = parts[0]!.trim().split(/\s+/).filter(Boolean);
+    if (parts.length === 2) {
+      alphaToken = parts[1]!.trim();
+      if (alphaToken === "") return invalid(input, "missing alpha after '/'");
+    }
+  }
+
+  if (name === "color") {
+    name = tokens.shift() ?? "";
+    if (name !== "srgb" && name !== "display-p3") {
+      return invalid(input, `unsupported color space "${name}"`);
+    }
+  }
+  if (tokens.length !== 3) {
+    return invalid(input, `expected 3 components, got ${tokens.length}`);
+  }
+
+  const [c0, c1, c2] = tokens.map((token) => parseComponent(input, token)) as [
+    Component,
+    Component,
+    Component,
+  ];
+  const alpha =
+    alphaToken === undefined
+      ? 1
+      : clamp(resolveNumber(input, parseComponent(input, alphaToken), 1), 0, 1);
+  const number = (component: Component, fullScale: number): number =>
+    resolveNumber(input, component, fullScale);
+
+  switch (name) {
+    case "rgb":
+    case "rgba":
+      return {
+        space: "rgb",
+        color: rgb(number(c0, 255), number(c1, 255), number(c2, 255)),
+        alpha,
+      };
+    case "srgb":
+      return {
+        space: "rgb",
+        color: rgb(
+          number(c0, 1) * 255,
+          number(c1, 1) * 255,
+          number(c2, 1) * 255,
+        ),
+        alpha,
+      };
+    case "hsl":
+    case "hsla":
+      return {
+        space: "hsl",
+        color: hsl(resolveHue(input, c0), number(c1, 100), number(c2, 100)),
+        alpha,
+      };
+    case "hwb":
+      return {
+        space: "hwb",
+        color: {
+          h: resolveHue(input, c0),
+          w: clamp(number(c1, 100), 0, 100),
+          b: clamp(number(c2, 100), 0, 100),
+        },
+        alpha,
+      };
+    case "lab":
+      return {
+        space: "lab",
+        color: {
+          l: clamp(number(c0, 100), 0, 100),
+          a: number(c1, 125),
+          b: number(c2, 125),
+        },
+        alpha,
+      };
+    case "lch":
+      return {
+        space: "lch",
+        color: {
+          l: clamp(number(c0, 100), 0, 100),
+          c: Math.max(0, number(c1, 150)),
+          h: resolveHue(input, c2),
+        },
+        alpha,
+      };
+    case "oklab":
+      return {
+        space: "oklab",
+        color: {
+          l: clamp(number(c0, 1), 0, 1),
+          a: number(c1, 0.4),
+          b: number(c2, 0.4),
+        },
+        alpha,
+      };
+    case "oklch":
+      return {
+        space: "oklch",
+        color: {
+          l: clamp(number(c0, 1), 0, 1),
+          c: Math.max(0, number(c1, 0.4)),
+          h: resolveHue(input, c2),
+        },
+        alpha,
+      };
+    case "display-p3":
+      return {
+        space: "display-p3",
+        color: { r: number(c0, 1), g: number(c1, 1), b: number(c2, 1) },
+        alpha,
+      };
+    default:
+      return invalid(input, `unknown color function "${name}()"`);
+  }
+};
+
+// Linear Display P3 to CIE XYZ (D65) and back, from CSS Color 4
+const p3ToXyz = (r: number, g: number, b: number): XYZ => ({
+  x: 0.4865709486482162 * r + 0.26566769316909306 * g + 0.1982172852343625 * b,
+  y: 0.2289745640697488 * r + 0.6917385218365064 * g + 0.079286914093745 * b,
+  z: 0.04511338185890264 * g + 1.043944368900976 * b,
+});
+
+const xyzToP3 = (color: XYZ): DisplayP3 => ({
+  r: linearToSrgb(
+    2.493496911941425 * color.x -
+      0.9313836179191239 * color.y -
+      0.40271078445071684 * color.z,
+  ),
+  g: linearToSrgb(
+    -0.8294889695615747 * color.x +
+      1.7626640603183463 * color.y +
+      0.023624685841943577 * color.z,
+  ),
+  b: linearToSrgb(
+    0.03584583024378447 * color.x -
+      0.07617238926804182 * color.y +
+      0.9568845240076872 * color.z,
+  ),
+});
+
+// Every space converts through unbounded linear sRGB, so wide-gamut colors
+// survive until they are written to an sRGB-only format
+const cssColorToLinear = (color: CssColor): LinearRGB => {
+  switch (color.space) {
+    case "rgb":
+      return rgbToLinear(color.color);
+    case "hsl":
+      return rgbToLinear(hslToRgb(color.color));
+    case "hwb":
+      return rgbToLinear(hwbToRgb(color.color));
+    case "lab":
+      return xyzToLinear(labToXyz(color.color));
+    case "lch":
+      return xyzToLinear(labToXyz(lchToLab(color.color)));
+    case "oklab":
+      return oklabToLinear(color.color);
+    case "oklch":
+      return oklabToLinear(oklchToOklab(color.color));
+    case "display-p3": {
+      const { r, g, b } = color.color;
+      return xyzToLinear(
+        p3ToXyz(srgbToLinear(r), srgbToLinear(g), srgbToLinear(b)),
+      );
+    }
+  }
+};
+
+// Out-of-gamut colors lose chroma rather than being clipped
+const linearToRgbInGamut = (color: LinearRGB): RGB =>
+  inGamut(color)
+    ? linearToRgb(color)
+    : oklchToRgbInGamut(oklabToOklch(linearToOklab(color)));
+
+/**
+ * Converts a parsed CSS color to 8-bit RGBA.
+ *
+ * @remarks
+ * Colors outside sRGB, such as vivid Display P3 or OKLCH colors, are gamut
+ * mapped by reducing chroma in OKLCH, as CSS Color 4 recommends.
+ *
+ * @example
+ * ```typescript
+ * cssColorToRgba(parseColor("oklch(0.628 0.2577 29.23)")); // ≈ { r: 255, g: 0, b: 0, a: 1 }
+ * ```
+ */
+export const cssColorToRgba = (color: CssColor): RGBA => {
+  // sRGB colors are returned as written, without a round trip through linear
+  const { r, g, b } =
+    color.space === "rgb"
+      ? color.color
+      : linearToRgbInGamut(cssColorToLinear(color));
+  return rgba(r, g, b, color.alpha);
+};
+
+// Formats a number with at most `digits` decimals and no trailing zeros
+const formatNumber = (value: number, digits: number): string =>
+  String(Number(value.toFixed(digits)));
+
+/**
+ * Serializes a color as a CSS string in the given format.
+ *
+ * @param color - A parsed CSS color, or an RGB/RGBA color
+ * @param format - Target format (defaults to the color's own space)
+ * @returns A string that {@link parseColor} reads back
+ *
+ * @remarks
+ * `rgb` and `hsl` use the comma syntax every browser understands; the other
+ * functions use the CSS Color 4 space syntax. Alpha is only written when it is
+ * below 1. Hex, `rgb`, `hsl` and `hwb` cannot represent colors outside sRGB,
+ * which are gamut mapped as in {@link cssColorToRgba}.
+ *
+ * @example
+ * ```typescript
+ * formatColor(rgb(255, 0, 0), "oklch");           // "oklch(0.628 0.2577 29.23)"
+ * formatColor(parseColor("lab(50 20 -30)"), "hex"); // "#7f6daa"
+ * formatColor(rgba(0, 0, 255, 0.5), "hex");        // "#0000ff80"
+ * ```
+ */
+export const formatColor = (
+  color: CssColor | RGB | RGBA,
+  format?: CssColorFormat,
+): string => {
+  const parsed: CssColor =
+    "space" in color
+      ? color
+      : { space: "rgb", color, alpha: "a" in color ? color.a : 1 };
+  const target = format ?? parsed.space;
+  const alpha = clamp(parsed.alpha, 0, 1);
+  const alphaSuffix = alpha < 1 ? ` / ${formatNumber(alpha, 3)}` : "";
+  const linear = cssColorToLinear(parsed);
+
+  switch (target) {
+    case "hex": {
+      const hex = rgbToHex(linearToRgbInGamut(linear));
+      if (alpha === 1) return hex;
+      return (
+        hex +
+        Math.round(alpha * 255)
+          .toString(16)
+          .padStart(2, "0")
+      );
+    }
+    case "rgb": {
+      const { r, g, b } =
+        parsed.space === "rgb" ? parsed.color : linearToRgbInGamut(linear);
+      return alpha < 1
+        ? toCssRgba(rgba(r, g, b, Number(alpha.toFixed(3))))
+        : toCssRgb({ r, g, b });
+    }
+    case "hsl": {
+      const { h, s, l } =
+        parsed.space === "hsl"
+          ? parsed.color
+          : rgbToHsl(linearToRgbInGamut(linear));
+      const channels = `${formatNumber(h, 2)}, ${formatNumber(s, 2)}%, ${formatNumber(l, 2)}%`;
+      return alpha < 1
+        ? `hsla(${channels}, ${formatNumber(alpha, 3)})`
+        : `hsl(${channels})`;
+    }
+    case "hwb": {
+      const { h, w, b } =
+        parsed.space === "hwb"
+          ? parsed.color
+          : rgbToHwb(linearToRgbInGamut(linear));
+      return `hwb(${formatNumber(h, 2)} ${formatNumber(w, 2)}% ${formatNumber(b, 2)}%${alphaSuffix})`;
+    }
+    case "lab": {
+      const { l, a, b } =
+        parsed.space === "lab" ? parsed.color : xyzToLab(linearToXyz(linear));
+      return `lab(${formatNumber(l, 2)} ${formatNumber(a, 2)} ${formatNumber(b, 2)}${alphaSuffix})`;
+    }
+    case "lch": {
+      const { l, c, h } =
+        parsed.space === "lch"
+          ? parsed.color
+          : labToLch(xyzToLab(linearToXyz(linear)));
+      return `lch(${formatNumber(l, 2)} ${formatNumber(c, 2)} ${formatNumber(h, 2)}${alphaSuffix})`;
+    }
+    case "oklab": {
+      const { l, a, b } =
+        parsed.space === "oklab" ? parsed.color : linearToOklab(linear);
+      return `oklab(${formatNumber(l, 4)} ${formatNumber(a, 4)} ${formatNumber(b, 4)}${alphaSuffix})`;
+    }
+    case "oklch": {
+      const { l, c, h } =
+        parsed.space === "oklch"
+          ? parsed.color
+          : oklabToOklch(linearToOklab(linear));
+      return `oklch(${formatNumber(l, 4)} ${formatNumber(c, 4)} ${formatNumber(h, 2)}${alphaSuffix})`;
+    }
+    case "display-p3": {
+      const { r, g, b } =
+        parsed.space === "display-p3"
+          ? parsed.color
+          : xyzToP3(linearToXyz(linear));
+      return `color(display-p3 ${formatNumber(r, 4)} ${formatNumber(g, 4)} ${formatNumber(b, 4)}${alphaSuffix})`;
+    }
+    default:
+      throw new Error(`Unknown color format: ${target}`);
+  }
+};
@@ -0,0 +1,354 @@
+/**
+ * Complex number arithmetic for fractals, signal processing and AC circuit analysis.
+ *
+ * This module provides an immutable {@link Complex} type together with the
+ * arithmetic, elementary functions and conversions needed for escape-time
+ * fractals, phasor math, impedance calculations and frequency-domain work.
+ *
+ * @remarks
+ * Complex numbers are plain `{ real, imag }` objects, so they can be created
+ * inline, serialized and compared structurally. All functions return new
+ * values and never mutate their arguments.
+ *
+ * **Conventions:**
+ * - Angles (arguments) are in radians in the range (-π, π]
+ * - Multi-valued functions ({@link complexLog}, {@link complexSqrt},
+ *   {@link complexPow}) return the principal value
+ * - Functions that accept a `Complex | number` treat numbers as purely real
+ *
+ * @example
+ * Impedance of a series RLC circuit:
+ * ```typescript
+ * import { complex, complexAdd, complexAbs, complexArg } from 'play.ts';
+ *
+ * const omega = 2 * Math.PI * 50;
+ * const z = complexAdd(
+ *   complex(resistance, 0),
+ *   complex(0, omega * inductance - 1 / (omega * capacitance)),
+ * );
+ * const magnitude = complexAbs(z);   // |Z| in ohms
+ * const phase = complexArg(z);       // phase angle in radians
+ * ```
+ *
+ * @example
+ * Parsing and formatting:
+ * ```typescript
+ * const z = parseComplex("3 - 4i");
+ * formatComplex(complexSqrt(z));     // "2 - 1i"
+ * ```
+ *
+ * @see {@link https://en.wikipedia.org/wiki/Complex_number | Complex Numbers - Wikipedia}
+ */
+
+import type { Complex } from "../types/index.ts";
+
+// ============================================================================
+// Construction and Conversion
+// ============================================================================
+
+/**
+ * Creates a complex number.
+ *
+ * @param real - Real part
+ * @param imag - Imaginary part (default: 0)
+ */
+export const complex = (real: number, imag: number = 0): Complex => ({
+  real,
+  imag,
+});
+
+/**
+ * Creates a complex number from polar coordinates.
+ *
+ * @param magnitude - Distance from the origin
+ * @param angle - Argument in radians
+ *
+ * @example
+ * ```typescript
+ * const phasor = complexFromPolar(230, radians(-30)); // 230 V at -30°
+ * ```
+ */
+export const complexFromPolar = (magnitude: number, angle: number): Complex =>
+  complex(magnitude * Math.cos(angle), magnitude * Math.sin(angle));
+
+/**
+ * Converts a complex number to polar coordinates.
+ *
+ * @returns Magnitude and angle (radians) of the number
+ */
+export const complexToPolar = (
+  z: Complex,
+): {
+  magnitude: number;
+  angle: number;
+} => ({
+  magnitude: complexAbs(z),
+  angle: complexArg(z),
+});
+
+const toComplex = (value: Complex | number): Complex =>
+  typeof value === "number" ? complex(value, 0) : value;
+
+// ============================================================================
+// Arithmetic
+// ============================================================================
+
+export const complexAdd = (a: Complex, b: Complex | number): Complex => {
+  const w = toComplex(b);
+  return complex(a.real + w.real, a.imag + w.imag);
+};
+
+export const complexSub = (a: Complex, b: Complex | number): Complex => {
+  const w = toComplex(b);
+  return complex(a.real - w.real, a.imag - w.imag);
+};
+
+export const complexMul = (a: Complex, b: Complex | number): Complex => {
+  if (typeof b === "number") return complex(a.real * b, a.imag * b);
+  return complex(
+    a.real * b.real - a.imag * b.imag,
+    a.real * b.imag + a.imag * b.real,
+  );
+};
+
+/**
+ * Divides two complex numbers.
+ *
+ * @remarks
+ * Uses Smith's algorithm to avoid overflow and underflow when the divisor has
+ * components of very different magnitudes. Division by zero yields NaN
+ * components.
+ */
+export const complexDiv = (a: Complex, b: Complex | number): Complex => {
+  if (typeof b === "number") return complex(a.real / b, a.imag / b);
+
+  if (b.real === 0 && b.imag === 0) return complex(NaN, NaN);
+
+  if (Math.abs(b.real) >= Math.abs(b.imag)) {
+    const ratio = b.imag / b.real;
+    const denominator = b.real + b.imag * ratio;
+    return complex(
+      (a.real + a.imag * ratio) / denominator,
+      (a.imag - a.real * ratio) / denominator,
+    );
+  }
+
+  const ratio = b.real / b.imag;
+  const denominator = b.real * ratio + b.imag;
+  return complex(
+    (a.real * ratio + a.imag) / denominator,
+    (a.imag * ratio - a.real) / denominator,
+  );
+};
+
+export const complexNeg = (z: Complex): Complex => complex(-z.real, -z.imag);
+
+/**
+ * Returns the complex conjugate (the reflection across the real axis).
+ */
+export const complexConj = (z: Complex): Complex => complex(z.real, -z.imag);
+
+/**
+ * Returns the reciprocal 1 / z.
+ */
+export const complexReciprocal = (z: Complex): Complex =>
+  complexDiv(complex(1, 0), z);
+
+// ============================================================================
+// Magnitude and Angle
+// ============================================================================
+
+/**
+ * Returns the magnitude (modulus) |z|.
+ */
+export const complexAbs = (z: Complex): number => Math.hypot(z.real, z.imag);
+
+/**
+ * Returns the squared magnitude |z|², avoiding a square root.
+ *
+ * @remarks
+ * Useful for escape-time tests such as `complexAbsSq(z) > 4` in fractal rendering.
+ */
+export const complexAbsSq = (z: Complex): number =>
+  z.real * z.real + z.imag * z.imag;
+
+/**
+ * Returns the argument (phase angle) of z in radians, in the range (-π, π].
+ */
+export const complexArg = (z: Complex): number => Math.atan2(z.imag, z.real);
+
+// ============================================================================
+// Elementary Functions
+// ============================================================================
+
+/**
+ * Complex exponential e^z.
+ */
+export const complexExp = (z: Complex): Complex => {
+  const magnitude = Math.exp(z.real);
+  return complex(magnitude * Math.cos(z.imag), magnitude * Math.sin(z.imag));
+};
+
+/**
+ * Principal natural logarithm ln|z| + i·arg(z).
+ */
+export const complexLog = (z: Complex): Complex =>
+  complex(Math.log(complexAbs(z)), complexArg(z));
+
+/**
+ * Raises a complex number to a complex or real power (principal value).
+ *
+ * @remarks
+ * Integer exponents use repeated squaring, which is exact for Gaussian
+ * integers and faster than the general `exp(w · log(z))` form.
+ * `0^0` is defined as 1 and `0^w` is 0 when `Re(w) > 0`. As with
+ * `Math.pow(0, -1)`, a negative real exponent gives `Infinity`; any other
+ * power of zero is undefined and has `NaN` components.
+ *
+ * @example
+ * ```typescript
+ * complexPow(complex(0, 1), 2);            // { real: -1, imag: 0 }
+ * complexPow(complex(0, 1), complex(0, 1)); // i^i ≈ 0.2079
+ * ```
+ */
+export const complexPow = (
+  base: Complex,
+  exponent: Complex | number,
+): Complex => {
+  const w = toComplex(exponent);
+
+  if (w.real === 0 && w.imag === 0) return complex(1, 0);
+  if (base.real === 0 && base.imag === 0) {
+    if (w.real > 0) return complex(0, 0);
+    return w.imag === 0 && w.real < 0
+      ? complex(Infinity, 0)
+      : complex(NaN, NaN);
+  }
+
+  if (w.imag === 0 && Number.isInteger(w.real) && Math.abs(w.real) <= 64) {
+    let n = Math.abs(w.real);
+    let result = complex(1, 0);
+    let square = base;
+    while (n > 0) {
+      if (n & 1) result = complexMul(result, square);
+      square = complexMul(square, square);
+      n >>= 1;
+    }
+    return w.real < 0 ? complexReciprocal(result) : result;
+  }
+
+  return complexExp(complexMul(w, complexLog(base)));
+};
+
+/**
+ * Principal square root, with a non-negative real part.
+ */
+export const complexSqrt = (z: Complex): Complex => {
+  const magnitude = complexAbs(z);
+  if (magnitude === 0) return complex(0, 0);
+
+  // Numerically stable form that avoids cancellation for negative reals
+  const t = Math.sqrt((magnitude + Math.abs(z.real)) / 2);
+  if (z.real >= 0) return complex(t, z.imag / (2 * t));
+  return complex(Math.abs(z.imag) / (2 * t), z.imag < 0 ? -t : t);
+};
+
+/**
+ * Complex sine: sin(a)cosh(b) + i·cos(a)sinh(b).
+ */
+export const complexSin = (z: Complex): Complex =>
+  complex(
+    Math.sin(z.real) * Math.cosh(z.imag),
+    Math.cos(z.real) * Math.sinh(z.imag),
+  );
+
+/**
+ * Complex cosine: cos(a)cosh(b) - i·sin(a)sinh(b).
+ */
+export const complexCos = (z: Complex): Complex =>
+  complex(
+    Math.cos(z.real) * Math.cosh(z.imag),
+    -Math.sin(z.real) * Math.sinh(z.imag),
+  );
+
+// ============================================================================
+// Comparison, Parsing and Formatting
+// ============================================================================
+
+/**
+ * Checks whether two complex numbers are equal within a tolerance.
+ */
+export const complexEquals = (
+  a: Complex,
+  b: Complex,
+  epsilon: number = 1e-10,
+): boolean =>
+  Math.abs(a.real - b.real) <= epsilon && Math.abs(a.imag - b.imag) <= epsilon;
+
+const NUMBER_PATTERN = "(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][+-]?\\d+)?";
+const COMPLEX_PATTERN = new RegExp(
+  `^([+-]?${NUMBER_PATTERN})?(?:([+-])(${NUMBER_PATTERN})?([ij]))?$|^([+-]?)(${NUMBER_PATTERN})?([ij])$`,
+);
+
+/**
+ * Parses a complex number from a string.
+ *
+ * @param text - String such as `"3+4i"`, `"-2.5 - 1e-3i"`, `"7"`, `"-i"` or `"2j"`
+ * @returns Parsed complex number
+ * @throws {Error} If the string is not a valid complex number
+ *
+ * @remarks
+ * Whitespace is ignored and both `i` and `j` (the electrical engineering
+ * convention) are accepted as the imaginary unit.
+ */
+export const parseComplex = (text: string): Complex => {
+  const compact = text.replace(/\s+/g, "");
+  const match = compact === "" ? null : COMPLEX_PATTERN.exec(compact);
+
+  if (!match) {
+    throw new Error(`Invalid complex number: "${text}"`);
+  }
+
+  // Purely imaginary form, e.g. "-2i" or "i"
+  if (match[7]) {
+    const magnitude = match[6] === undefined ? 1 : parseFloat(match[6]);
+    return complex(0, match[5] === "-" ? -magnitude : magnitude);
+  }
+
+  const real = match[1] === undefined ? 0 : parseFloat(match[1]);
+  if (!match[4]) return complex(real, 0);
+
+  const magnitude = match[3] === undefined ? 1 : parseFloat(match[3]);
+  return complex(real, match[2] === "-" ? -magnitude : magnitude);
+};
+
+/**
+ * Formats a complex number as a string such as `"3 + 4i"`.
+ *
+ * @param z - Number to format
+ * @param fractionDigits - Optional fixed number of decimal places
+ * @returns Formatted string that {@link parseComplex} can read back
+ *
+ * @example
+ * ```typescript
+ * formatComplex(complex(3, -4));         // "3 - 4i"
+ * formatComplex(complex(0, 2));          // "2i"
+ * formatComplex(complex(Math.PI, 0), 2); // "3.14"
+ * ```
+ */
+export const formatComplex = (z: Complex, fractionDigits?: number): string => {
+  const format = (value: number): string =>
+    fractionDigits === undefined
+      ? String(value)
+      : value.toFixed(fractionDigits);
+
+  // Normalize negative zero so it never prints as "-0"
+  const real = z.real === 0 ? 0 : z.real;
+  const imag = z.imag === 0 ? 0 : z.imag;
+
+  if (imag === 0) return format(real);
+  if (real === 0) return `${format(imag)}i`;
+
+  const sign = imag < 0 ? "-" : "+";
+  return `${format(real)} ${sign} ${format(Math.abs(imag))}i`;
+};
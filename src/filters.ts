@@ -0,0 +1,707 @@
+/**
+ * Digital filter design and application for audio and signal-processing sketches.
+ *
+ * This module designs IIR filters (RBJ cookbook biquads, Butterworth and
+ * Chebyshev type I) and windowed-sinc FIR filters from cutoff and sample-rate
+ * specifications, applies them to whole buffers or sample-by-sample, and
+ * reports their frequency and phase response.
+ *
+ * @remarks
+ * IIR filters are represented as cascades of second-order sections
+ * ({@link BiquadCoefficients}), which stay numerically stable at high orders
+ * where a single high-order difference equation would not.
+ *
+ * **Design functions** return plain coefficient data:
+ * - {@link designBiquad}: lowpass, highpass, bandpass, notch, allpass, peaking and shelving EQ
+ * - {@link designButterworth}: maximally flat passband
+ * - {@link designChebyshev}: steeper roll-off in exchange for passband ripple
+ * - {@link designFir}: linear-phase windowed-sinc filters
+ *
+ * **Filter classes** hold the running state:
+ * - {@link IIRFilter} and {@link FIRFilter} process one sample at a time with
+ *   `process`, or whole buffers with `processBuffer`
+ * - State persists between calls, so a long signal can be fed in chunks
+ *
+ * @example
+ * Remove high-frequency noise from a sensor reading:
+ * ```typescript
+ * import { IIRFilter, designButterworth } from 'play.ts';
+ *
+ * const filter = new IIRFilter(designButterworth("lowpass", 4, 10, 200));
+ * const smoothed = filter.processBuffer(readings);
+ * ```
+ *
+ * @example
+ * Plot a filter's magnitude response in decibels:
+ * ```typescript
+ * const filter = new FIRFilter(designFir("bandpass", 101, [300, 3000], 44100));
+ * const { frequencies, magnitude } = filter.frequencyResponse(44100);
+ * const decibels = magnitude.map((m) => 20 * Math.log10(m));
+ * ```
+ *
+ * @see {@link https://www.w3.org/TR/audio-eq-cookbook/ | Audio EQ Cookbook (RBJ)}
+ * @see {@link https://en.wikipedia.org/wiki/Butterworth_filter | Butterworth Filter}
+ */
+
+import type { Complex } from "../types/index.ts";
+import { complex, complexDiv, complexMul } from "./complex.ts";
+import type { WindowType } from "./spectrum.ts";
+import { createWindow } from "./spectrum.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Normalized second-order section (a0 = 1):
+ * y[n] = b0·x[n] + b1·x[n-1] + b2·x[n-2] - a1·y[n-1] - a2·y[n-2]
+ */
+export interface BiquadCoefficients {
+  readonly b0: number;
+  readonly b1: number;
+  readonly b2: number;
+  readonly a1: number;
+  readonly a2: number;
+}
+
+export type BiquadType =
+  | "lowpass"
+  | "highpass"
+  | "bandpass"
+  | "notch"
+  | "allpass"
+  | "peaking"
+  | "lowshelf"
+  | "highshelf";
+
+export type FirType = "lowpass" | "highpass" | "bandpass" | "bandstop";
+
+export interface FrequencyResponse {
+  /** Frequencies in Hz */
+  readonly frequencies: Float64Array;
+  /** Linear gain at each frequency */
+  readonly magnitude: Float64Array;
+  /** Phase shift in radians, in the range (-π, π] */
+  readonly phase: Float64Array;
+}
+
+/**
+ * Common interface of stateful filters.
+ */
+export interface DigitalFilter {
+  process(sample: number): number;
+  processBuffer(input: ArrayLike<number>): Float64Array;
+  reset(): void;
+  frequencyResponse(
+    sampleRate: number,
+    frequencies?: ArrayLike<number>,
+  ): FrequencyResponse;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const validateFrequency = (frequency: number, sampleRate: number): void => {
+  if (!(frequency > 0 && frequency < sampleRate / 2)) {
+    throw new Error(
+      `Frequency ${frequency} Hz must be between 0 and the Nyquist frequency (${sampleRate / 2} Hz)`,
+    );
+  }
+};
+
+const validateOrder = (order: number): void => {
+  if (!Number.isInteger(order) || order < 1) {
+    throw new Error("Filter order must be a positive integer");
+  }
+};
+
+// Evaluates Σ c[k]·e^(-iωk)
+const evaluatePolynomial = (
+  coefficients: ArrayLike<number>,
+  omega: number,
+): Complex => {
+  let real = 0;
+  let imag = 0;
+  for (let k = 0; k < coefficients.length; k++) {
+    real += coefficients[k] * Math.cos(omega * k);
+    imag -= coefficients[k] * Math.sin(omega * k);
+  }
+  return complex(real, imag);
+};
+
+const linearFrequencies = (sampleRate: number, points: number) => {
+  const result = new Float64Array(points);
+  for (let i = 0; i < points; i++) {
+    result[i] = (i * sampleRate) / (2 * (points - 1));
+  }
+  return result;
+};
+
+const computeResponse = (
+  transfer: (omega: number) => Complex,
+  sampleRate: number,
+  frequencies: ArrayLike<number> = linearFrequencies(sampleRate, 512),
+): FrequencyResponse => {
+  const magnitude = new Float64Array(frequencies.length);
+  const phase = new Float64Array(frequencies.length);
+
+  for (let i = 0; i < frequencies.length; i++) {
+    const h = transfer((2 * Math.PI * frequencies[i]) / sampleRate);
+    magnitude[i] = Math.hypot(h.real, h.imag);
+    phase[i] = Math.atan2(h.imag, h.real);
+  }
+
+  return {
+    frequencies: Float64Array.from(frequencies),
+    magnitude,
+    phase,
+  };
+};
+
+// ============================================================================
+// IIR Design
+// ============================================================================
+
+/**
+ * Designs a single biquad section from the RBJ Audio EQ Cookbook.
+ *
+ * @param type - Filter shape
+ * @param frequency - Cutoff, center or corner frequency in Hz
+ * @param sampleRate - Samples per second
+ * @param q - Quality factor; higher values give a narrower band or a
+ *   resonant peak (default: 1/√2, maximally flat)
+ * @param gainDb - Boost or cut in decibels for peaking and shelving filters (default: 0)
+ * @returns Normalized section coefficients
+ * @throws {Error} If the frequency is not between 0 and Nyquist
+ *
+ * @remarks
+ * The bandpass filter has a constant 0 dB peak gain. Shelving filters use
+ * `q` in place of the cookbook's shelf slope; the default gives a slope of 1.
+ *
+ * @example
+ * ```typescript
+ * const bassBoost = designBiquad("lowshelf", 120, 48000, Math.SQRT1_2, 6);
+ * ```
+ */
+export const designBiquad = (
+  type: BiquadType,
+  frequency: number,
+  sampleRate: number,
+  q: number = Math.SQRT1_2,
+  gainDb: number = 0,
+): BiquadCoefficients => {
+  validateFrequency(frequency, sampleRate);
+
+  const omega = (2 * Math.PI * frequency) / sampleRate;
+  const cosOmega = Math.cos(omega);
+  const alpha = Math.sin(omega) / (2 * q);
+  const A = Math.pow(10, gainDb / 40);
+  const shelf = 2 * Math.sqrt(A) * alpha;
+
+  let b0: number, b1: number, b2: number, a0: number, a1: number, a2: number;
+
+  switch (type) {
+    case "lowpass":
+      b0 = b2 = (1 - cosOmega) / 2;
+      b1 = 1 - cosOmega;
+      a0 = 1 + alpha;
+      a1 = -2 * cosOmega;
+      a2 = 1 - alpha;
+      break;
+    case "highpass":
+      b0 = b2 = (1 + cosOmega) / 2;
+      b1 = -(1 + cosOmega);
+      a0 = 1 + alpha;
+      a1 = -2 * cosOmega;
+      a2 = 1 - alpha;
+      break;
+    case "bandpass":
+      b0 = alpha;
+      b1 = 0;
+      b2 = -alpha;
+      a0 = 1 + alpha;
+      a1 = -2 * cosOmega;
+      a2 = 1 - alpha;
+      break;
+    case "notch":
+      b0 = b2 = 1;
+      b1 = -2 * cosOmega;
+      a0 = 1 + alpha;
+      a1 = -2 * cosOmega;
+      a2 = 1 - alpha;
+      break;
+    case "allpass":
+      b0 = 1 - alpha;
+      b1 = -2 * cosOmega;
+      b2 = 1 + alpha;
+      a0 = 1 + alpha;
+      a1 = -2 * cosOmega;
+      a2 = 1 - alpha;
+      break;
+    case "peaking":
+      b0 = 1 + alpha * A;
+      b1 = -2 * cosOmega;
+      b2 = 1 - alpha * A;
+      a0 = 1 + alpha / A;
+      a1 = -2 * cosOmega;
+      a2 = 1 - alpha / A;
+      break;
+    case "lowshelf":
+      b0 = A * (A + 1 - (A - 1) * cosOmega + shelf);
+      b1 = 2 * A * (A - 1 - (A + 1) * cosOmega);
+      b2 = A * (A + 1 - (A - 1) * cosOmega - shelf);
+      a0 = A + 1 + (A - 1) * cosOmega + shelf;
+      a1 = -2 * (A - 1 + (A + 1) * cosOmega);
+      a2 = A + 1 + (A - 1) * cosOmega - shelf;
+      break;
+    case "highshelf":
+      b0 = A * (A + 1 + (A - 1) * cosOmega + shelf);
+      b1 = -2 * A * (A - 1 + (A + 1) * cosOmega);
+      b2 = A * (A + 1 + (A - 1) * cosOmega - shelf);
+      a0 = A + 1 - (A - 1) * cosOmega + shelf;
+      a1 = 2 * (A - 1 - (A + 1) * cosOmega);
+      a2 = A + 1 - (A - 1) * cosOmega - shelf;
+      break;
+  }
+
+  return {
+    b0: b0 / a0,
+    b1: b1 / a0,
+    b2: b2 / a0,
+    a1: a1 / a0,
+    a2: a2 / a0,
+  };
+};
+
+// Bilinear transform of the normalized analog section c / (s² + a·s + c),
+// or of its highpass counterpart c·s² / (c·s² + a·s + 1)
+const bilinearPair = (
+  a: number,
+  c: number,
+  k: number,
+  highpass: boolean,
+): BiquadCoefficients => {
+  if (highpass) {
+    const a0 = k * k + a * k + c;
+    return {
+      b0: c / a0,
+      b1: (-2 * c) / a0,
+      b2: c / a0,
+      a1: (2 * (k * k - c)) / a0,
+      a2: (k * k - a * k + c) / a0,
+    };
+  }
+
+  const a0 = 1 + a * k + c * k * k;
+  const gain = (c * k * k) / a0;
+  return {
+    b0: gain,
+    b1: 2 * gain,
+    b2: gain,
+    a1: (2 * (c * k * k - 1)) / a0,
+    a2: (1 - a * k + c * k * k) / a0,
+  };
+};
+
+// Bilinear transform of the first-order section r / (s + r) or its highpass counterpart
+const bilinearReal = (
+  r: number,
+  k: number,
+  highpass: boolean,
+): BiquadCoefficients => {
+  if (highpass) {
+    const a0 = k + r;
+    return { b0: r / a0, b1: -r / a0, b2: 0, a1: (k - r) / a0, a2: 0 };
+  }
+
+  const a0 = 1 + r * k;
+  return {
+    b0: (r * k) / a0,
+    b1: (r * k) / a0,
+    b2: 0,
+    a1: (r * k - 1) / a0,
+    a2: 0,
+  };
+};
+
+/**
+ * Designs a Butterworth lowpass or highpass filter.
+ *
+ * @param type - "lowpass" or "highpass"
+ * @param order - Filter order; the roll-off is 6·order dB per octave
+ * @param cutoff - -3 dB frequency in Hz
+ * @param sampleRate - Samples per second
+ * @returns Cascade of ⌈order / 2⌉ second-order sections
+ * @throws {Error} If the order or cutoff is invalid
+ *
+ * @remarks
+ * Butterworth filters have the flattest possible passband. The analog
+ * prototype is mapped to the digital domain with a pre-warped bilinear
+ * transform, so the cutoff lands exactly where requested.
+ */
+export const designButterworth = (
+  type: "lowpass" | "highpass",
+  order: number,
+  cutoff: number,
+  sampleRate: number,
+): BiquadCoefficients[] => {
+  validateOrder(order);
+  validateFrequency(cutoff, sampleRate);
+
+  const k = Math.tan((Math.PI * cutoff) / sampleRate);
+  const highpass = type === "highpass";
+  const sections: BiquadCoefficients[] = [];
+
+  for (let i = 0; i < Math.floor(order / 2); i++) {
+    const theta = (Math.PI * (2 * i + 1)) / (2 * order);
+    sections.push(bilinearPair(2 * Math.sin(theta), 1, k, highpass));
+  }
+  if (order % 2 === 1) {
+    sections.push(bilinearReal(1, k, highpass));
+  }
+
+  return sections;
+};
+
+/**
+ * Designs a Chebyshev type I lowpass or highpass filter.
+ *
+ * @param type - "lowpass" or "highpass"
+ * @param order - Filter order
+ * @param cutoff - Passband edge in Hz, where the gain last touches -rippleDb
+ * @param sampleRate - Samples per second
+ * @param rippleDb - Peak-to-peak passband ripple in decibels (default: 1)
+ * @returns Cascade of ⌈order / 2⌉ second-order sections
+ * @throws {Error} If the order, cutoff or ripple is invalid
+ *
+ * @remarks
+ * Allowing ripple in the passband buys a much steeper transition than a
+ * Butterworth filter of the same order. The passband gain oscillates between
+ * 0 dB and -rippleDb.
+ */
+export const designChebyshev = (
+  type: "lowpass" | "highpass",
+  order: number,
+  cutoff: number,
+  sampleRate: number,
+  rippleDb: number = 1,
+): BiquadCoefficients[] => {
+  validateOrder(order);
+  validateFrequency(cutoff, sampleRate);
+  if (!(rippleDb > 0)) {
+    throw new Error("Passband ripple must be positive");
+  }
+
+  const epsilon = Math.sqrt(Math.pow(10, rippleDb / 10) - 1);
+  const mu = Math.asinh(1 / epsilon) / order;
+  const k = Math.tan((Math.PI * cutoff) / sampleRate);
+  const highpass = type === "highpass";
+  const sections: BiquadCoefficients[] = [];
+
+  for (let i = 0; i < Math.floor(order / 2); i++) {
+    const theta = (Math.PI * (2 * i + 1)) / (2 * order);
+    const sigma = Math.sinh(mu) * Math.sin(theta);
+    const omega = Math.cosh(mu) * Math.cos(theta);
+    sections.push(
+      bilinearPair(2 * sigma, sigma * sigma + omega * omega, k, highpass),
+    );
+  }
+  if (order % 2 === 1) {
+    sections.push(bilinearReal(Math.sinh(mu), k, highpass));
+  } else {
+    // Even orders start the passband at the bottom of the ripple
+    const gain = Math.pow(10, -rippleDb / 20);
+    const first = sections[0];
+    sections[0] = {
+      ...first,
+      b0: first.b0 * gain,
+      b1: first.b1 * gain,
+      b2: first.b2 * gain,
+    };
+  }
+
+  return sections;
+};
+
+// ============================================================================
+// FIR Design
+// ============================================================================
+
+// Ideal lowpass impulse response sin(2πf·n) / (πn), centered on the middle tap
+const sincLowpass = (numTaps: number, normalizedCutoff: number) => {
+  const taps = new Float64Array(numTaps);
+  const center = (numTaps - 1) / 2;
+  for (let i = 0; i < numTaps; i++) {
+    const n = i - center;
+    taps[i] =
+      n === 0
+        ? 2 * normalizedCutoff
+        : Math.sin(2 * Math.PI * normalizedCutoff * n) / (Math.PI * n);
+  }
+  return taps;
+};
+
+/**
+ * Designs a linear-phase FIR filter with the windowed-sinc method.
+ *
+ * @param type - Filter shape
+ * @param numTaps - Number of coefficients; more taps give a sharper transition.
+ *   Must be odd for highpass and bandstop filters.
+ * @param cutoff - Cutoff in Hz, or `[low, high]` edges for bandpass and bandstop
+ * @param sampleRate - Samples per second
+ * @param window - Window used to taper the ideal response (default: "hamming")
+ * @returns Filter taps
+ * @throws {Error} If the taps, cutoffs or band edges are invalid
+ *
+ * @remarks
+ * The filter delays the signal by (numTaps - 1) / 2 samples at every
+ * frequency. Taps are normalized for unity gain at DC (lowpass, bandstop),
+ * Nyquist (highpass) or the band center (bandpass).
+ *
+ * @example
+ * ```typescript
+ * const taps = designFir("lowpass", 63, 1000, 8000);
+ * const smoothed = new FIRFilter(taps).processBuffer(samples);
+ * ```
+ */
+export const designFir = (
+  type: FirType,
+  numTaps: number,
+  cutoff: number | readonly [number, number],
+  sampleRate: number,
+  window: WindowType = "hamming",
+): Float64Array => {
+  if (!Number.isInteger(numTaps) || numTaps < 1) {
+    throw new Error("Number of taps must be a positive integer");
+  }
+  if ((type === "highpass" || type === "bandstop") && numTaps % 2 === 0) {
+    throw new Error(`A ${type} FIR filter needs an odd number of taps`);
+  }
+
+  const isBand = type === "bandpass" || type === "bandstop";
+  if (isBand !== Array.isArray(cutoff)) {
+    throw new Error(
+      isBand
+        ? `A ${type} filter needs [low, high] cutoff frequencies`
+        : `A ${type} filter needs a single cutoff frequency`,
+    );
+  }
+
+  const [low, high] = Array.isArray(cutoff) ? cutoff : [cutoff, cutoff];
+  validateFrequency(low, sampleRate);
+  validateFrequency(high, sampleRate);
+  if (low > high) {
+    throw new Error("Low cutoff must not exceed the high cutoff");
+  }
+
+  const lowpassLow = sincLowpass(numTaps, low / sampleRate);
+  const lowpassHigh = sincLowpass(numTaps, high / sampleRate);
+  const taps = new Float64Array(numTaps);
+  const center = (numTaps - 1) / 2;
+
+  for (let i = 0; i < numTaps; i++) {
+    const impulse = i === center ? 1 : 0;
+    switch (type) {
+      case "lowpass":
+        taps[i] = lowpassLow[i];
+        break;
+      case "highpass":
+        taps[i] = impulse - lowpassLow[i];
+        break;
+      case "bandpass":
+        taps[i] = lowpassHigh[i] - lowpassLow[i];
+        break;
+      case "bandstop":
+        taps[i] = impulse - lowpassHigh[i] + lowpassLow[i];
+        break;
+    }
+  }
+
+  const weights = createWindow(window, numTaps, true);
+  for (let i = 0; i < numTaps; i++) taps[i] *= weights[i];
+
+  // Normalize the gain at a reference frequency in the passband
+  const reference =
+    type === "highpass"
+      ? Math.PI
+      : type === "bandpass"
+        ? (Math.PI * (low + high)) / sampleRate
+        : 0;
+  const response = evaluatePolynomial(taps, reference);
+  const gain = Math.hypot(response.real, response.imag);
+  for (let i = 0; i < numTaps; i++) taps[i] /= gain;
+
+  return taps;
+};
+
+// ============================================================================
+// Filter Processors
+// ============================================================================
+
+/**
+ * Stateful IIR filter built from a cascade of second-order sections.
+ *
+ * @remarks
+ * Each section runs in transposed direct form II, which needs only two state
+ * variables per section and has good numerical behavior in floating point.
+ *
+ * @example
+ * ```typescript
+ * const filter = new IIRFilter([designBiquad("notch", 50, 1000, 10)]);
+ * for (const sample of incoming) {
+ *   output.push(filter.process(sample));
+ * }
+ * ```
+ */
+export class IIRFilter implements DigitalFilter {
+  readonly sections: readonly BiquadCoefficients[];
+  private state: Float64Array;
+
+  constructor(sections: BiquadCoefficients | readonly BiquadCoefficients[]) {
+    this.sections = Array.isArray(sections)
+      ? [...sections]
+      : [sections as BiquadCoefficients];
+    this.state = new Float64Array(this.sections.length * 2);
+  }
+
+  process(sample: number): number {
+    let value = sample;
+    for (let i = 0; i < this.sections.length; i++) {
+      const { b0, b1, b2, a1, a2 } = this.sections[i];
+      const s = 2 * i;
+      const output = b0 * value + this.state[s];
+      this.state[s] = b1 * value - a1 * output + this.state[s + 1];
+      this.state[s + 1] = b2 * value - a2 * output;
+      value = output;
+    }
+    return value;
+  }
+
+  processBuffer(input: ArrayLike<number>): Float64Array {
+    const output = new Float64Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      output[i] = this.process(input[i]);
+    }
+    return output;
+  }
+
+  reset(): void {
+    this.state.fill(0);
+  }
+
+  /**
+   * Computes the gain and phase shift of the filter.
+   *
+   * @param sampleRate - Samples per second the filter was designed for
+   * @param frequencies - Frequencies in Hz (default: 512 points from 0 to Nyquist)
+   */
+  frequencyResponse(
+    sampleRate: number,
+    frequencies?: ArrayLike<number>,
+  ): FrequencyResponse {
+    return computeResponse(
+      (omega) =>
+        this.sections.reduce(
+          (h, { b0, b1, b2, a1, a2 }) =>
+            complexMul(
+              h,
+              complexDiv(
+                evaluatePolynomial([b0, b1, b2], omega),
+                evaluatePolynomial([1, a1, a2], omega),
+              ),
+            ),
+          complex(1, 0),
+        ),
+      sampleRate,
+      frequencies,
+    );
+  }
+}
+
+/**
+ * Stateful FIR filter (convolution with a fixed set of taps).
+ *
+ * @example
+ * ```typescript
+ * const filter = new FIRFilter(designFir("highpass", 31, 200, 8000));
+ * const chunkA = filter.processBuffer(firstHalf);
+ * const chunkB = filter.processBuffer(secondHalf); // continues seamlessly
+ * ```
+ */
+export class FIRFilter implements DigitalFilter {
+  readonly taps: Float64Array;
+  private history: Float64Array;
+  private position = 0;
+
+  constructor(taps: ArrayLike<number>) {
+    if (taps.length === 0) {
+      throw new Error("FIR filter needs at least one tap");
+    }
+    this.taps = Float64Array.from(taps);
+    this.history = new Float64Array(taps.length);
+  }
+
+  process(sample: number): number {
+    const length = this.taps.length;
+    this.history[this.position] = sample;
+
+    let output = 0;
+    let index = this.position;
+    for (let i = 0; i < length; i++) {
+      output += this.taps[i] * this.history[index];
+      index = index === 0 ? length - 1 : index - 1;
+    }
+
+    this.position = (this.position + 1) % length;
+    return output;
+  }
+
+  processBuffer(input: ArrayLike<number>): Float64Array {
+    const output = new Float64Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      output[i] = this.process(input[i]);
+    }
+    return output;
+  }
+
+  reset(): void {
+    this.history.fill(0);
+    this.position = 0;
+  }
+
+  /**
+   * Computes the gain and phase shift of the filter.
+   *
+   * @param sampleRate - Samples per second the filter was designed for
+   * @param frequencies - Frequencies in Hz (default: 512 points from 0 to Nyquist)
+   */
+  frequencyResponse(
+    sampleRate: number,
+    frequencies?: ArrayLike<number>,
+  ): FrequencyResponse {
+    return computeResponse(
+      (omega) => evaluatePolynomial(this.taps, omega),
+      sampleRate,
+      frequencies,
+    );
+  }
+}
+
+/**
+ * Unwraps a phase sequence by removing jumps larger than π.
+ *
+ * @remarks
+ * Produces a continuous curve suitable for phase-response plots.
+ */
+export const unwrapPhase = (phase: ArrayLike<number>): Float64Array => {
+  const result = Float64Array.from(phase);
+  let offset = 0;
+  for (let i = 1; i < result.length; i++) {
+    const jump = phase[i] - phase[i - 1];
+    if (jump > Math.PI) offset -= 2 * Math.PI;
+    else if (jump < -Math.PI) offset += 2 * Math.PI;
+    result[i] = phase[i] + offset;
+  }
+  return result;
+};
@@ -0,0 +1,575 @@
+/**
+ * Deterministic Q16.16 fixed-point math for lockstep simulations.
+ *
+ * This module represents numbers as 32-bit integers counting 1/65536ths and
+ * implements arithmetic, square roots, trigonometry, vectors and noise using
+ * only operations whose results are fully specified by the language. A
+ * simulation built on it produces bit-identical results in every browser and
+ * runtime, which floating-point code cannot guarantee because `Math.sin`,
+ * `Math.exp` and friends are only approximated by each engine.
+ *
+ * @remarks
+ * **Representation:** a {@link Fixed} is a branded `number` holding an
+ * integer in the int32 range. The value 1.5 is stored as 98304. Values range
+ * from -32768 to 32767.99998 with a resolution of 1/65536 ≈ 0.0000153.
+ *
+ * **Overflow:** like 32-bit integer arithmetic, results that leave the range
+ * wrap around rather than saturate. Wrapping is deterministic, but keep
+ * simulations well inside the range; {@link fx} throws for values that
+ * cannot be represented.
+ *
+ * **Rounding:** multiplication rounds to the nearest representable value,
+ * division and {@link fxSqrt} round toward zero. Trigonometric functions are
+ * accurate to within a few units in the last place.
+ *
+ * **Determinism:** internally every operation works on integers small enough
+ * to be exact in a double, or on divisions and square roots whose results
+ * are corrected to the exact integer answer. {@link SeededRandom} is also
+ * deterministic for integer seeds, so it can drive {@link fxRandom} and
+ * {@link FixedNoise}.
+ *
+ * @example
+ * Lockstep particle update:
+ * ```typescript
+ * import { fx, fxVec2, fxVec2Add, fxVec2Scale, fxVec2Rotate } from 'play.ts';
+ *
+ * const dt = fx(1 / 60);
+ * let position = fxVec2(fx(0), fx(0));
+ * let velocity = fxVec2(fx(3), fx(0));
+ *
+ * velocity = fxVec2Rotate(velocity, fx(0.01));
+ * position = fxVec2Add(position, fxVec2Scale(velocity, dt));
+ * // position holds the same integers on every platform
+ * ```
+ *
+ * @example
+ * Converting for rendering:
+ * ```typescript
+ * const { x, y } = fxVec2ToVector2(position);
+ * ctx.fillRect(x, y, 2, 2);
+ * ```
+ *
+ * @see {@link https://en.wikipedia.org/wiki/Q_(number_format) | Q number format - Wikipedia}
+ */
+
+import type {
+  Fixed,
+  FixedVector2,
+  FixedVector3,
+  RandomGenerator,
+  Vector2,
+  Vector3,
+} from "../types/index.ts";
+import { SeededRandom } from "./random.ts";
+
+// ============================================================================
+// Constants and Conversion
+// ============================================================================
+
+const ONE = 65536;
+const Q30 = 2 ** 30;
+const INT32_MIN = -(2 ** 31);
+const INT32_MAX = 2 ** 31 - 1;
+
+// Wraps an exact integer into the int32 range
+const wrap = (raw: number): Fixed => (raw | 0) as Fixed;
+
+/** The value 1 */
+export const FX_ONE = ONE as Fixed;
+
+/** The value 0.5 */
+export const FX_HALF = (ONE / 2) as Fixed;
+
+/** π rounded to the nearest fixed-point value */
+export const FX_PI = Math.round(Math.PI * ONE) as Fixed;
+
+/** 2π rounded to the nearest fixed-point value */
+export const FX_TWO_PI = Math.round(2 * Math.PI * ONE) as Fixed;
+
+/** π/2 rounded to the nearest fixed-point value */
+export const FX_HALF_PI = Math.round((Math.PI / 2) * ONE) as Fixed;
+
+/** Largest representable value, just under 32768 */
+export const FX_MAX = INT32_MAX as Fixed;
+
+/** Smallest representable value, -32768 */
+export const FX_MIN = INT32_MIN as Fixed;
+
+/** Smallest positive value, 1/65536 */
+export const FX_EPSILON = 1 as Fixed;
+
+/**
+ * Converts a number to fixed point, rounding to the nearest 1/65536.
+ *
+ * @param value - Number between -32768 and 32767.99998
+ * @throws {Error} If the value is not finite or out of range
+ *
+ * @example
+ * ```typescript
+ * fx(1.5);  // 98304
+ * fx(-0.25); // -16384
+ * ```
+ */
+export const fx = (value: number): Fixed => {
+  const raw = Math.round(value * ONE);
+  if (!Number.isFinite(raw) || raw < INT32_MIN || raw > INT32_MAX) {
+    throw new Error(`Value ${value} is outside the Q16.16 range`);
+  }
+  return wrap(raw);
+};
+
+export const fxToNumber = (a: Fixed): number => a / ONE;
+
+/**
+ * Integer part of a fixed-point value, rounded down.
+ */
+export const fxToInt = (a: Fixed): number => a >> 16;
+
+export const fxFloor = (a: Fixed): Fixed => (a & -ONE) as Fixed;
+
+export const fxCeil = (a: Fixed): Fixed => wrap((a + (ONE - 1)) & -ONE);
+
+export const fxRound = (a: Fixed): Fixed => wrap((a + ONE / 2) & -ONE);
+
+/**
+ * Fractional part, always between 0 and 1 (so -1.25 gives 0.75).
+ */
+export const fxFract = (a: Fixed): Fixed => (a & (ONE - 1)) as Fixed;
+
+// ============================================================================
+// Arithmetic
+// ============================================================================
+
+// Rounded (a · b) / 2^shift for an int32 `a` and integer `b` below 2^32,
+// split into 16-bit halves so that every intermediate is exact
+const mulShift = (a: number, b: number, shift: number): number => {
+  const hi = (a >> 16) * b;
+  const lo = (a & 0xffff) * b + 2 ** (shift - 1);
+  return Math.floor((hi + Math.floor(lo / ONE)) / 2 ** (shift - 16));
+};
+
+export const fxAdd = (a: Fixed, b: Fixed): Fixed => wrap(a + b);
+
+export const fxSub = (a: Fixed, b: Fixed): Fixed => wrap(a - b);
+
+export const fxMul = (a: Fixed, b: Fixed): Fixed => wrap(mulShift(a, b, 16));
+
+/**
+ * Divides two fixed-point values, rounding toward zero.
+ *
+ * @throws {Error} If the divisor is zero
+ */
+export const fxDiv = (a: Fixed, b: Fixed): Fixed => {
+  if (b === 0) {
+    throw new Error("Fixed-point division by zero");
+  }
+  return wrap(Math.trunc((a * ONE) / b));
+};
+
+export const fxNeg = (a: Fixed): Fixed => wrap(-a);
+
+export const fxAbs = (a: Fixed): Fixed => wrap(Math.abs(a));
+
+export const fxMin = (a: Fixed, b: Fixed): Fixed => (a < b ? a : b);
+
+export const fxMax = (a: Fixed, b: Fixed): Fixed => (a > b ? a : b);
+
+export const fxClamp = (value: Fixed, min: Fixed, max: Fixed): Fixed =>
+  fxMax(min, fxMin(max, value));
+
+export const fxLerp = (a: Fixed, b: Fixed, t: Fixed): Fixed =>
+  fxAdd(a, fxMul(fxSub(b, a), t));
+
+// Floor of the square root of a non-negative integer below 2^53
+const isqrt = (n: number): number => {
+  let root = Math.floor(Math.sqrt(n));
+  while (root * root > n) root--;
+  while ((root + 1) * (root + 1) <= n) root++;
+  return root;
+};
+
+/**
+ * Square root, rounded toward zero.
+ *
+ * @throws {Error} If the value is negative
+ */
+export const fxSqrt = (a: Fixed): Fixed => {
+  if (a < 0) {
+    throw new Error(`Cannot take the square root of ${fxToNumber(a)}`);
+  }
+  return isqrt(a * ONE) as Fixed;
+};
+
+// Length of a vector of raw values. The squares are summed exactly while the
+// components stay below 2^25 (512.0); larger vectors drop low bits first.
+const rawLength = (...components: number[]): number => {
+  let scale = 1;
+  const largest = Math.max(...components.map(Math.abs));
+  while (largest / scale >= 2 ** 25) scale *= 2;
+
+  let sum = 0;
+  for (const c of components) {
+    const scaled = Math.trunc(c / scale);
+    sum += scaled * scaled;
+  }
+  return isqrt(sum) * scale;
+};
+
+/**
+ * √(a² + b²) without overflowing for large arguments.
+ */
+export const fxHypot = (a: Fixed, b: Fixed): Fixed => wrap(rawLength(a, b));
+
+// ============================================================================
+// Trigonometry
+// ============================================================================
+
+// Taylor coefficients of sin on [-π/2, π/2] and atan on [-tan(π/8), tan(π/8)],
+// in Q2.30
+const SIN_COEFFICIENTS = [1, -1 / 6, 1 / 120, -1 / 5040, 1 / 362880].map((c) =>
+  Math.round(c * Q30),
+);
+const ATAN_COEFFICIENTS = [1, -3, 5, -7, 9, -11, 13].map((n) =>
+  Math.round(Q30 / n),
+);
+const TAN_PI_8_Q30 = Math.round((Math.SQRT2 - 1) * Q30);
+const PI_Q30 = Math.round(Math.PI * Q30);
+
+// Odd polynomial x · Σ cᵢ x²ⁱ evaluated in Q2.30
+const oddPolynomial = (coefficients: number[], x: number): number => {
+  const x2 = mulShift(x, x, 30);
+  let acc = coefficients[coefficients.length - 1]!;
+  for (let i = coefficients.length - 2; i >= 0; i--) {
+    acc = coefficients[i]! + mulShift(acc, x2, 30);
+  }
+  return mulShift(acc, x, 30);
+};
+
+const fromQ30 = (x: number): number => Math.floor((x + 2 ** 13) / 2 ** 14);
+
+/**
+ * Sine of an angle in radians.
+ *
+ * @remarks
+ * Accurate to about 2 units in the last place for angles near zero. The
+ * angle is reduced modulo {@link FX_TWO_PI}, whose rounding adds an error
+ * that grows by about 3e-6 per turn for angles far from zero.
+ */
+export const fxSin = (angle: Fixed): Fixed => {
+  let x = angle % FX_TWO_PI;
+  if (x > FX_PI) x -= FX_TWO_PI;
+  else if (x < -FX_PI) x += FX_TWO_PI;
+
+  if (x > FX_HALF_PI) x = FX_PI - x;
+  else if (x < -FX_HALF_PI) x = -FX_PI - x;
+
+  return fromQ30(oddPolynomial(SIN_COEFFICIENTS, x * 2 ** 14)) as Fixed;
+};
+
+/**
+ * Cosine of an angle in radians.
+ */
+export const fxCos = (angle: Fixed): Fixed => fxSin(wrap(angle + FX_HALF_PI));
+
+// Rounded-down (n / d) · 2^30 for 0 ≤ n ≤ d, as two exact 15-bit steps
+const divQ30 = (n: number, d: number): number => {
+  const high = Math.floor((n * 2 ** 15) / d);
+  const remainder = n * 2 ** 15 - high * d;
+  return high * 2 ** 15 + Math.floor((remainder * 2 ** 15) / d);
+};
+
+/**
+ * Angle of the point (x, y) from the positive x axis, between -π and π.
+ *
+ * @remarks
+ * Accurate to about one unit in the last place. Returns 0 for the origin.
+ */
+export const fxAtan2 = (y: Fixed, x: Fixed): Fixed => {
+  if (x === 0 && y === 0) return 0 as Fixed;
+
+  // Reduce to a ratio in [0, 1], then to [-tan(π/8), tan(π/8)] using
+  // atan(r) = π/4 + atan((r - 1) / (r + 1))
+  const [ax, ay] = [Math.abs(x), Math.abs(y)];
+  const ratio = ay <= ax ? divQ30(ay, ax) : divQ30(ax, ay);
+  let angle =
+    ratio <= TAN_PI_8_Q30
+      ? oddPolynomial(ATAN_COEFFICIENTS, ratio)
+      : PI_Q30 / 4 -
+        oddPolynomial(ATAN_COEFFICIENTS, divQ30(Q30 - ratio, Q30 + ratio));
+
+  if (ay > ax) angle = PI_Q30 / 2 - angle;
+  if (x < 0) angle = PI_Q30 - angle;
+  return wrap(fromQ30(y < 0 ? -angle : angle));
+};
+
+// ============================================================================
+// Vectors
+// ============================================================================
+
+export const fxVec2 = (x: Fixed, y: Fixed): FixedVector2 => ({ x, y });
+
+export const fxVec2FromVector2 = (v: Vector2): FixedVector2 => ({
+  x: fx(v.x),
+  y: fx(v.y),
+});
+
+export const fxVec2ToVector2 = (v: FixedVector2): Vector2 => ({
+  x: fxToNumber(v.x),
+  y: fxToNumber(v.y),
+});
+
+export const fxVec2Add = (a: FixedVector2, b: FixedVector2): FixedVector2 => ({
+  x: fxAdd(a.x, b.x),
+  y: fxAdd(a.y, b.y),
+});
+
+export const fxVec2Sub = (a: FixedVector2, b: FixedVector2): FixedVector2 => ({
+  x: fxSub(a.x, b.x),
+  y: fxSub(a.y, b.y),
+});
+
+export const fxVec2Scale = (v: FixedVector2, scalar: Fixed): FixedVector2 => ({
+  x: fxMul(v.x, scalar),
+  y: fxMul(v.y, scalar),
+});
+
+export const fxVec2Dot = (a: FixedVector2, b: FixedVector2): Fixed =>
+  fxAdd(fxMul(a.x, b.x), fxMul(a.y, b.y));
+
+/**
+ * z component of the 3D cross product, positive when b is counter-clockwise
+ * from a.
+ */
+export const fxVec2Cross = (a: FixedVector2, b: FixedVector2): Fixed =>
+  fxSub(fxMul(a.x, b.y), fxMul(a.y, b.x));
+
+export const fxVec2Length = (v: FixedVector2): Fixed => fxHypot(v.x, v.y);
+
+export const fxVec2Distance = (a: FixedVector2, b: FixedVector2): Fixed =>
+  fxVec2Length(fxVec2Sub(a, b));
+
+/**
+ * Scales a vector to unit length; the zero vector is returned unchanged.
+ */
+export const fxVec2Normalize = (v: FixedVector2): FixedVector2 => {
+  const length = rawLength(v.x, v.y) as Fixed;
+  if (length === 0) return v;
+  return { x: fxDiv(v.x, length), y: fxDiv(v.y, length) };
+};
+
+export const fxVec2Lerp = (
+  a: FixedVector2,
+  b: FixedVector2,
+  t: Fixed,
+): FixedVector2 => ({
+  x: fxLerp(a.x, b.x, t),
+  y: fxLerp(a.y, b.y, t),
+});
+
+/**
+ * Rotates a vector counter-clockwise by an angle in radians.
+ */
+export const fxVec2Rotate = (v: FixedVector2, angle: Fixed): FixedVector2 => {
+  const [cos, sin] = [fxCos(angle), fxSin(angle)];
+  return {
+    x: fxSub(fxMul(v.x, cos), fxMul(v.y, sin)),
+    y: fxAdd(fxMul(v.x, sin), fxMul(v.y, cos)),
+  };
+};
+
+export const fxVec2Angle = (v: FixedVector2): Fixed => fxAtan2(v.y, v.x);
+
+export const fxVec3 = (x: Fixed, y: Fixed, z: Fixed): FixedVector3 => ({
+  x,
+  y,
+  z,
+});
+
+export const fxVec3FromVector3 = (v: Vector3): FixedVector3 => ({
+  x: fx(v.x),
+  y: fx(v.y),
+  z: fx(v.z),
+});
+
+export const fxVec3ToVector3 = (v: FixedVector3): Vector3 => ({
+  x: fxToNumber(v.x),
+  y: fxToNumber(v.y),
+  z: fxToNumber(v.z),
+});
+
+export const fxVec3Add = (a: FixedVector3, b: FixedVector3): FixedVector3 => ({
+  x: fxAdd(a.x, b.x),
+  y: fxAdd(a.y, b.y),
+  z: fxAdd(a.z, b.z),
+});
+
+export const fxVec3Sub = (a: FixedVector3, b: FixedVector3): FixedVector3 => ({
+  x: fxSub(a.x, b.x),
+  y: fxSub(a.y, b.y),
+  z: fxSub(a.z, b.z),
+});
+
+export const fxVec3Scale = (v: FixedVector3, scalar: Fixed): FixedVector3 => ({
+  x: fxMul(v.x, scalar),
+  y: fxMul(v.y, scalar),
+  z: fxMul(v.z, scalar),
+});
+
+export const fxVec3Dot = (a: FixedVector3, b: FixedVector3): Fixed =>
+  fxAdd(fxAdd(fxMul(a.x, b.x), fxMul(a.y, b.y)), fxMul(a.z, b.z));
+
+export const fxVec3Cross = (
+  a: FixedVector3,
+  b: FixedVector3,
+): FixedVector3 => ({
+  x: fxSub(fxMul(a.y, b.z), fxMul(a.z, b.y)),
+  y: fxSub(fxMul(a.z, b.x), fxMul(a.x, b.z)),
+  z: fxSub(fxMul(a.x, b.y), fxMul(a.y, b.x)),
+});
+
+export const fxVec3Length = (v: FixedVector3): Fixed =>
+  wrap(rawLength(v.x, v.y, v.z));
+
+/**
+ * Scales a vector to unit length; the zero vector is returned unchanged.
+ */
+export const fxVec3Normalize = (v: FixedVector3): FixedVector3 => {
+  const length = rawLength(v.x, v.y, v.z) as Fixed;
+  if (length === 0) return v;
+  return {
+    x: fxDiv(v.x, length),
+    y: fxDiv(v.y, length),
+    z: fxDiv(v.z, length),
+  };
+};
+
+export const fxVec3Lerp = (
+  a: FixedVector3,
+  b: FixedVector3,
+  t: Fixed,
+): FixedVector3 => ({
+  x: fxLerp(a.x, b.x, t),
+  y: fxLerp(a.y, b.y, t),
+  z: fxLerp(a.z, b.z, t),
+});
+
+// ============================================================================
+// Random and Noise
+// ============================================================================
+
+/**
+ * Random fixed-point value in [0, 1).
+ *
+ * @param rng - Generator to draw from; a {@link SeededRandom} with an integer
+ * seed gives the same sequence on every platform
+ *
+ * @example
+ * ```typescript
+ * const rng = new SeededRandom(42);
+ * const jitter = fxMul(fxRandom(rng), fx(0.1));
+ * ```
+ */
+export const fxRandom = (rng: RandomGenerator): Fixed =>
+  Math.floor(rng.next() * ONE) as Fixed;
+
+/**
+ * Perlin gradient noise computed entirely in fixed point.
+ *
+ * @remarks
+ * Same algorithm as {@link PerlinNoise}, with coordinates and results as
+ * {@link Fixed} values. Output lies roughly between -1 and 1 and is
+ * identical on every platform for the same seed.
+ *
+ * @example
+ * ```typescript
+ * const noise = new FixedNoise(1234);
+ * const height = noise.noise2D(fx(x * 0.05), fx(y * 0.05));
+ * ```
+ */
+export class FixedNoise {
+  private readonly p = new Uint8Array(512);
+
+  /**
+   * @param seed - Integer seed for the permutation table (default: 0)
+   */
+  constructor(seed = 0) {
+    const permutation = Array.from({ length: 256 }, (_, i) => i);
+    const random = new SeededRandom(seed);
+    for (let i = 255; i > 0; i--) {
+      const j = random.int(0, i);
+      [permutation[i], permutation[j]] = [permutation[j]!, permutation[i]!];
+    }
+    for (let i = 0; i < 512; i++) {
+      this.p[i] = permutation[i & 255]!;
+    }
+  }
+
+  noise1D(x: Fixed): Fixed {
+    return this.noise3D(x, 0 as Fixed, 0 as Fixed);
+  }
+
+  noise2D(x: Fixed, y: Fixed): Fixed {
+    return this.noise3D(x, y, 0 as Fixed);
+  }
+
+  noise3D(x: Fixed, y: Fixed, z: Fixed): Fixed {
+    const p = this.p;
+    const [X, Y, Z] = [(x >> 16) & 255, (y >> 16) & 255, (z >> 16) & 255];
+    const [fx0, fy0, fz0] = [fxFract(x), fxFract(y), fxFract(z)];
+    const [fx1, fy1, fz1] = [fx0 - ONE, fy0 - ONE, fz0 - ONE];
+
+    const u = this.fade(fx0);
+    const v = this.fade(fy0);
+    const w = this.fade(fz0);
+
+    const A = p[X]! + Y;
+    const AA = p[A]! + Z;
+    const AB = p[A + 1]! + Z;
+    const B = p[X + 1]! + Y;
+    const BA = p[B]! + Z;
+    const BB = p[B + 1]! + Z;
+
+    return fxLerp(
+      fxLerp(
+        fxLerp(
+          this.grad(p[AA]!, fx0, fy0, fz0),
+          this.grad(p[BA]!, fx1, fy0, fz0),
+          u,
+        ),
+        fxLerp(
+          this.grad(p[AB]!, fx0, fy1, fz0),
+          this.grad(p[BB]!, fx1, fy1, fz0),
+          u,
+        ),
+        v,
+      ),
+      fxLerp(
+        fxLerp(
+          this.grad(p[AA + 1]!, fx0, fy0, fz1),
+          this.grad(p[BA + 1]!, fx1, fy0, fz1),
+          u,
+        ),
+        fxLerp(
+          this.grad(p[AB + 1]!, fx0, fy1, fz1),
+          this.grad(p[BB + 1]!, fx1, fy1, fz1),
+          u,
+        ),
+        v,
+      ),
+      w,
+    );
+  }
+
+  // 6t⁵ - 15t⁴ + 10t³
+  private fade(t: Fixed): Fixed {
+    const inner = fxAdd(fxMul(t, wrap(6 * t - 15 * ONE)), wrap(10 * ONE));
+    return fxMul(fxMul(fxMul(t, t), t), inner);
+  }
+
+  private grad(hash: number, x: number, y: number, z: number): Fixed {
+    const h = hash & 15;
+    const u = h < 8 ? x : y;
+    const v = h < 4 ? y : h === 12 || h === 14 ? x : z;
+    return wrap(((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v));
+  }
+}
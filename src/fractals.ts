@@ -116,7 +116,8 @@
  * @see {@link http://algorithmicbotany.org/papers/abop/abop.pdf | The Algorithmic Beauty of Plants}
  */
 
-import type { Point, Vector2 } from "../types/index.ts";
+import type { Complex, Point, Vector2 } from "../types/index.ts";
+import { complex } from "./complex.ts";
 import { radians, vec2, vec2Add, vec2Mul } from "./math.ts";
 
 // ============================================================================
@@ -482,27 +483,18 @@ export class LSystemInterpreter {
 }
 
 // Mandelbrot set utilities
-export const mandelbrot = (
-  c: {
-    real: number;
-    imag: number;
-  },
-  maxIterations: number = 100,
-): number => {
-  const z = {
-    real: 0,
-    imag: 0,
-  };
+export const mandelbrot = (c: Complex, maxIterations: number = 100): number => {
+  let zReal = 0;
+  let zImag = 0;
   let iterations = 0;
 
+  // z = z² + c, kept in scalars so the loop does not allocate
   while (iterations < maxIterations) {
-    const zReal = z.real * z.real - z.imag * z.imag + c.real;
-    const zImag = 2 * z.real * z.imag + c.imag;
+    const nextReal = zReal * zReal - zImag * zImag + c.real;
+    zImag = 2 * zReal * zImag + c.imag;
+    zReal = nextReal;
 
-    z.real = zReal;
-    z.imag = zImag;
-
-    if (z.real * z.real + z.imag * z.imag > 4) {
+    if (zReal * zReal + zImag * zImag > 4) {
       break;
     }
 
@@ -529,13 +521,7 @@ export const mandelbrotSet = (
       const real = xMin + (x / width) * (xMax - xMin);
       const imag = yMin + (y / height) * (yMax - yMin);
 
-      result[y][x] = mandelbrot(
-        {
-          real,
-          imag,
-        },
-        maxIterations,
-      );
+      result[y][x] = mandelbrot(complex(real, imag), maxIterations);
     }
   }
 
@@ -544,26 +530,20 @@ export const mandelbrotSet = (
 
 // Julia set utilities
 export const julia = (
-  z: {
-    real: number;
-    imag: number;
-  },
-  c: {
-    real: number;
-    imag: number;
-  },
+  z0: Complex,
+  c: Complex,
   maxIterations: number = 100,
 ): number => {
+  let zReal = z0.real;
+  let zImag = z0.imag;
   let iterations = 0;
 
   while (iterations < maxIterations) {
-    const zReal = z.real * z.real - z.imag * z.imag + c.real;
-    const zImag = 2 * z.real * z.imag + c.imag;
-
-    z.real = zReal;
-    z.imag = zImag;
+    const nextReal = zReal * zReal - zImag * zImag + c.real;
+    zImag = 2 * zReal * zImag + c.imag;
+    zReal = nextReal;
 
-    if (z.real * z.real + z.imag * z.imag > 4) {
+    if (zReal * zReal + zImag * zImag > 4) {
       break;
     }
 
@@ -576,10 +556,7 @@ export const julia = (
 export const juliaSet = (
   width: number,
   height: number,
-  c: {
-    real: number;
-    imag: number;
-  },
+  c: Complex,
   xMin: number = -2,
   xMax: number = 2,
   yMin: number = -2,
@@ -594,14 +571,7 @@ export const juliaSet = (
       const real = xMin + (x / width) * (xMax - xMin);
       const imag = yMin + (y / height) * (yMax - yMin);
 
-      result[y][x] = julia(
-        {
-          real,
-          imag,
-        },
-        c,
-        maxIterations,
-      );
+      result[y][x] = julia(complex(real, imag), c, maxIterations);
     }
   }
 
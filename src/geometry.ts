@@ -53,6 +53,7 @@
 
 import type {
   Circle,
+  Matrix3x3,
   Point,
   Rectangle,
   Size,
@@ -62,6 +63,7 @@ import {
   abs,
   atan2,
   cos,
+  mat3TransformVec2,
   max,
   min,
   PI,
@@ -1221,6 +1223,40 @@ export const polygonBoundingBox = (poly: Polygon): Rectangle => {
   return rect(minX, minY, maxX - minX, maxY - minY);
 };
 
+// Transform utilities
+export const pointTransform = (p: Point, m: Matrix3x3): Point =>
+  mat3TransformVec2(m, p);
+
+export const polygonTransform = (poly: Polygon, m: Matrix3x3): Polygon =>
+  poly.map((p) => mat3TransformVec2(m, p));
+
+/**
+ * Transforms the corners of a rectangle.
+ *
+ * @returns Corners in the order top-left, top-right, bottom-right,
+ * bottom-left; rotation and skew make the result a general quadrilateral
+ *
+ * @see {@link rectTransformBounds} for an axis-aligned result
+ */
+export const rectTransform = (r: Rectangle, m: Matrix3x3): Polygon =>
+  polygonTransform(
+    [rectTopLeft(r), rectTopRight(r), rectBottomRight(r), rectBottomLeft(r)],
+    m,
+  );
+
+/**
+ * Axis-aligned bounding box of a transformed rectangle.
+ *
+ * @example
+ * ```typescript
+ * // Screen-space bounds of a rotated sprite, for culling or hit testing
+ * const bounds = rectTransformBounds(rect(0, 0, 64, 32), spriteTransform);
+ * if (!rectIntersects(bounds, viewport)) return;
+ * ```
+ */
+export const rectTransformBounds = (r: Rectangle, m: Matrix3x3): Rectangle =>
+  polygonBoundingBox(rectTransform(r, m));
+
 // Regular polygon generation
 export const regularPolygon = (
   center: Point,
@@ -20,19 +20,29 @@
  * **📦 Module Overview:**
  *
  * **{@link math | 🧮 Mathematics}** - Vector operations, interpolation, trigonometry
- * - 2D/3D vector mathematics with full geometric operations
+ * - 2D/3D/4D vector mathematics with full geometric operations
+ * - Homogeneous coordinates and clip-space frustum culling
  * - Interpolation functions (linear, smoothstep, bezier curves)
  * - Angle conversions, clamping, mapping, and normalization
  * - Matrix transformations and mathematical constants
+ * - 2D affine builders, inverse, decomposition and DOMMatrix conversion
+ * - Dense linear algebra: LU and QR solves, inverse, least squares, eigenvalues
+ * - Polynomials: arithmetic, complex roots and least-squares fitting
+ * - Allocation-free `out` variants and typed-array vector buffers for bulk work
  *
  * **{@link color | 🎨 Color Systems}** - RGB/HSL color manipulation and harmony
  * - Comprehensive color space conversions (RGB ↔ HSL ↔ Hex)
- * - Color manipulation (brighten, saturate, hue shift)
+ * - Perceptual spaces (CIELAB, LCh, OKLab, OKLCH) plus XYZ, HSV, HWB and CMYK
+ * - Color manipulation (brighten, saturate, hue shift), also in OKLCH
+ * - Smooth OKLab/OKLCH interpolation with shortest-hue handling
  * - Color harmony generation (complementary, triadic, analogous)
- * - CSS-compatible color string output
+ * - Delta E (CIE76, CIE94, CIEDE2000) and OKLab color difference, nearest-color
+ *   lookup and maximally distinct palettes
+ * - CSS Color 4 parsing (hex, named, rgb, hsl, hwb, lab, lch, oklab, oklch,
+ *   display-p3) and serialization
  *
  * **{@link geometry | 📐 Geometry}** - 2D shapes, collision detection, spatial analysis
- * - Point, rectangle, circle, and polygon operations
+ * - Point, rectangle, circle, and polygon operations and transforms
  * - Efficient collision detection and intersection testing
  * - Size utilities and aspect ratio management
  * - Curve generation (bezier, quadratic) and path operations
@@ -54,6 +64,7 @@
  * - Particle systems with mass, velocity, and acceleration
  * - Constraint solving for cloth and rope simulation
  * - Verlet integration for stable physics simulation
+ * - Modal analysis: natural frequencies and mode shapes
  *
  * **{@link fractals | 🌿 Fractals & L-Systems}** - Procedural patterns, organic growth
  * - L-Systems (Lindenmayer Systems) for plant-like growth
@@ -61,6 +72,77 @@
  * - Turtle graphics for pattern visualization
  * - Recursive algorithms for infinite detail generation
  *
+ * **{@link complex | 🔢 Complex Numbers}** - Complex arithmetic for fractals and AC analysis
+ * - Arithmetic, conjugate, magnitude and phase
+ * - Exponential, logarithm, powers, roots and trigonometry
+ * - Polar conversion, parsing and formatting
+ *
+ * **{@link spectrum | 📊 Spectrum}** - FFT and spectral analysis for audio and vibration
+ * - Complex and real-input FFTs of any length
+ * - Hann, Hamming, Blackman and flat-top windows
+ * - Welch power spectral density and STFT spectrograms
+ *
+ * **{@link filters | 🎛️ Filters}** - Digital filter design and application
+ * - RBJ biquads, Butterworth and Chebyshev IIR filters
+ * - Windowed-sinc FIR lowpass, highpass, bandpass and bandstop
+ * - Streaming processors with frequency and phase response
+ *
+ * **{@link ode | 📈 ODE Solvers}** - Time integration with controllable accuracy
+ * - Euler, midpoint and fourth-order Runge–Kutta steppers
+ * - Adaptive Dormand–Prince RK45 with error tolerances
+ * - Symplectic leapfrog and dense output interpolation
+ *
+ * **{@link optimize | 🎯 Optimization}** - Root finding and minimization
+ * - Bisection, Brent and Newton–Raphson root finders
+ * - Nelder–Mead simplex and gradient descent with line search
+ * - Bounded simulated annealing for global search
+ *
+ * **{@link statistics | 📉 Statistics}** - Descriptive and streaming statistics
+ * - Mean, median, mode, variance, quantiles and histograms
+ * - Covariance, correlation and linear regression
+ * - Constant-memory Welford, EWMA and P² quantile accumulators
+ *
+ * **{@link splines | 〰️ Splines}** - Smooth curves through and around control points
+ * - Natural cubic, Catmull–Rom (centripetal/chordal) and Hermite interpolation
+ * - Uniform and non-uniform B-splines and NURBS
+ * - Derivatives, arc length and evenly spaced sampling
+ *
+ * **{@link calculus | ∫ Calculus}** - Numerical integration and differentiation
+ * - Trapezoid, Simpson, Romberg and adaptive Gauss–Kronrod quadrature
+ * - Totals and running integrals of sampled data
+ * - Finite-difference derivatives of any order for functions and arrays
+ *
+ * **{@link autodiff | ∂ Autodiff}** - Exact derivatives with dual numbers
+ * - Dual versions of the scalar math functions, interpolation and smoothstep
+ * - Derivatives, gradients and Jacobians without finite-difference noise
+ * - Plugs into gradient descent and Newton-style solvers
+ *
+ * **{@link units | 📏 Units}** - Physical quantities with dimensional analysis
+ * - SI, metric and US customary units with SI prefixes (kN, MPa, psi, BTU/h, CFM)
+ * - Absolute temperature conversion between °C, °F and K
+ * - Rejects mixing incompatible dimensions at compile time and runtime
+ *
+ * **{@link interval | 📦 Interval}** - Interval arithmetic with guaranteed bounds
+ * - Outward-rounded arithmetic, powers, sqrt, exp, log, sin and cos
+ * - Containment, overlap, hull and intersection tests
+ * - Implicit curve plotting that never misses thin zero sets
+ *
+ * **{@link fixed | 🔢 Fixed}** - Deterministic Q16.16 fixed-point math
+ * - Bit-identical arithmetic, sqrt, sin, cos and atan2 on every platform
+ * - 2D and 3D fixed-point vectors
+ * - Seeded random values and Perlin noise for lockstep simulations
+ *
+ * **{@link gradient | 🌈 Gradient}** - Multi-stop gradients and scientific colormaps
+ * - Arbitrary stops with per-segment easing, blended in RGB, linear, HSL, Lab,
+ *   OKLab or OKLCH
+ * - Baked `Uint8ClampedArray` lookup tables for per-pixel coloring
+ * - viridis, magma, inferno, plasma, cividis, turbo, diverging and cyclic maps
+ *
+ * **{@link accessibility | ♿ Accessibility}** - Readable, colorblind-safe color schemes
+ * - WCAG 2.1 relative luminance, contrast ratio and AA/AAA checks
+ * - APCA lightness contrast and `ensureContrast` lightness adjustment
+ * - Brettel and Machado simulation of protanopia, deuteranopia and tritanopia
+ *
  * @example
  * **🚀 Quick Start - Animated Particle System:**
  * ```typescript
@@ -235,18 +317,32 @@
 
 // Type definitions
 export * from "../types/index.ts";
+export * from "./accessibility.ts";
 export * from "./animation.ts";
+export * from "./autodiff.ts";
+export * from "./calculus.ts";
 export * from "./color.ts";
+export * from "./complex.ts";
+export * from "./filters.ts";
+export * from "./fixed.ts";
 export * from "./fractals.ts";
 export * from "./geometry.ts";
+export * from "./gradient.ts";
+export * from "./interval.ts";
 // Core modules
 export * from "./math.ts";
+export * from "./ode.ts";
+export * from "./optimize.ts";
 
 // Advanced modules
 export * from "./physics.ts";
 export * from "./random.ts";
+export * from "./spectrum.ts";
+export * from "./splines.ts";
+export * from "./statistics.ts";
+export * from "./units.ts";
 
-import type { Point } from "../types/index.ts";
+import type { Matrix3x3, Point } from "../types/index.ts";
 // Import needed types and functions for internal use
 import {
   AnimationLoop,
@@ -292,6 +388,7 @@ import {
   complementary,
   darken,
   desaturate,
+  formatColor,
   grayscale,
   hexToRgb,
   hsl,
@@ -391,6 +488,7 @@ import {
   HALF_PI,
   lerp,
   map,
+  mat3ToDOMMatrix,
   normalize,
   PI,
   radians,
@@ -695,6 +793,13 @@ export class Play {
   private animationLoop: AnimationLoop;
   private canvas?: HTMLCanvasElement;
   private context?: CanvasRenderingContext2D;
+  // Strings the canvas rejected, so a draw loop reports each one only once
+  private readonly rejectedColors = new Set<string>();
+  // Last string applied to each style and the value the canvas read it as
+  private readonly appliedStyles: Partial<
+    Record<"fillStyle" | "strokeStyle", { style: string; value: unknown }>
+  > = {};
+  private invalidColorCallbacks: Array<(color: unknown) => void> = [];
 
   private constructor() {
     this.animationLoop = new AnimationLoop();
@@ -756,10 +861,12 @@ export class Play {
 
     this.context.clearRect(0, 0, this.canvas.width, this.canvas.height);
 
-    if (color) {
+    const style = color ? this.convertColor(color) : null;
+    if (style !== null) {
       const prevFillStyle = this.context.fillStyle;
-      this.context.fillStyle = this.convertColor(color);
-      this.context.fillRect(0, 0, this.canvas.width, this.canvas.height);
+      if (this.applyStyle("fillStyle", style)) {
+        this.context.fillRect(0, 0, this.canvas.width, this.canvas.height);
+      }
       this.context.fillStyle = prevFillStyle;
     }
   }
@@ -771,18 +878,92 @@ export class Play {
   // Drawing utilities
   setStroke(color: string | any, width: number = 1): void {
     if (!this.context) return;
-    this.context.strokeStyle = this.convertColor(color);
+    const style = this.convertColor(color);
+    if (style !== null) this.applyStyle("strokeStyle", style);
     this.context.lineWidth = width;
   }
 
   fill(color: string | any): void {
     if (!this.context) return;
-    this.context.fillStyle = this.convertColor(color);
+    const style = this.convertColor(color);
+    if (style !== null) this.applyStyle("fillStyle", style);
+  }
+
+  /**
+   * Registers a callback for colors that could not be applied: strings the
+   * canvas rejected and values that are not colors. Each distinct rejected
+   * string is reported once. Without a callback invalid colors are ignored
+   * silently, and the current style stays in effect either way.
+   *
+   * @returns Function that removes the callback
+   */
+  onInvalidColor(callback: (color: unknown) => void): () => void {
+    this.invalidColorCallbacks.push(callback);
+
+    return () => {
+      const index = this.invalidColorCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.invalidColorCallbacks.splice(index, 1);
+      }
+    };
   }
 
-  private convertColor(color: string | any): string {
+  // Sets a style and returns whether the canvas accepted it. The canvas
+  // ignores values it cannot parse, so an unchanged style means either a
+  // rejected value or the same color again; assigning it over a different
+  // color tells the two apart. Repeating the last applied string, as a draw
+  // loop does every frame, skips all of this.
+  private applyStyle(
+    property: "fillStyle" | "strokeStyle",
+    style: string,
+  ): boolean {
+    const context = this.context!;
+    const applied = this.appliedStyles[property];
+    if (applied?.style === style && context[property] === applied.value) {
+      return true;
+    }
+    if (this.rejectedColors.has(style)) return false;
+
+    const previous = context[property];
+    context[property] = style;
+    let accepted = context[property] !== previous;
+
+    if (!accepted) {
+      const probe = previous === "#000000" ? "#ffffff" : "#000000";
+      context[property] = probe;
+      context[property] = style;
+      accepted = context[property] !== probe;
+      context[property] = previous;
+    }
+
+    if (accepted) {
+      this.appliedStyles[property] = { style, value: context[property] };
+    } else {
+      // Bounded, so sketches that build a new invalid string every frame
+      // do not grow it forever
+      if (this.rejectedColors.size >= 64) this.rejectedColors.clear();
+      this.rejectedColors.add(style);
+      this.reportInvalidColor(style);
+    }
+    return accepted;
+  }
+
+  private reportInvalidColor(color: unknown): void {
+    this.invalidColorCallbacks.forEach((callback) => callback(color));
+  }
+
+  // Returns a CSS color for the canvas, or null for a value that is not a
+  // color, so the current style stays in effect. Strings go to the canvas
+  // unchanged, since it accepts CSS syntax such as currentcolor or
+  // color-mix() that parseColor does not.
+  private convertColor(color: string | any): string | null {
     if (typeof color === "string") return color;
 
+    // Handle colors returned by parseColor
+    if (color && typeof color.space === "string" && color.color) {
+      return formatColor(color);
+    }
+
     // Handle RGB color objects
     if (
       color &&
@@ -809,7 +990,8 @@ export class Play {
       return toCssHsl(color);
     }
 
-    return "#000000"; // fallback
+    this.reportInvalidColor(color);
+    return null;
   }
 
   noStroke(): void {
@@ -912,6 +1094,17 @@ export class Play {
     this.context.scale(x, y);
   }
 
+  // Replaces the current transform with a 2D affine matrix
+  setTransform(m: Matrix3x3): void {
+    if (!this.context) return;
+    this.context.setTransform(...mat3ToDOMMatrix(m));
+  }
+
+  resetTransform(): void {
+    if (!this.context) return;
+    this.context.resetTransform();
+  }
+
   pushMatrix(): void {
     if (!this.context) return;
     this.context.save();
@@ -1025,12 +1218,32 @@ export const info = {
   license: "MIT",
   modules: {
     math: "Mathematical utilities including vectors, matrices, and interpolation",
-    color: "Color manipulation and conversion utilities",
+    color:
+      "Color manipulation, perceptual color spaces, and conversion utilities",
     animation: "Easing functions and animation utilities",
     random: "Random number generation and noise functions",
     geometry: "Geometric shapes and collision detection",
     physics: "Physics simulation with forces, particles, and constraints",
     fractals: "Fractal generation, L-Systems, and procedural patterns",
+    complex: "Complex number arithmetic, polar form, and parsing",
+    spectrum: "FFT, window functions, Welch PSD, and STFT spectrograms",
+    filters:
+      "IIR and FIR filter design, streaming filters, and frequency response",
+    ode: "ODE solvers: Euler, midpoint, RK4, adaptive RK45, and leapfrog",
+    optimize:
+      "Root finding, Nelder-Mead, gradient descent, and simulated annealing",
+    statistics:
+      "Descriptive statistics, regression, and streaming accumulators",
+    splines: "Cubic, Catmull-Rom, Hermite, B-spline, and NURBS curves",
+    calculus: "Numerical integration and finite-difference derivatives",
+    autodiff: "Forward-mode automatic differentiation with dual numbers",
+    units: "Physical quantities, unit conversion, and SI-prefix formatting",
+    interval: "Interval arithmetic and robust implicit curve plotting",
+    fixed: "Deterministic Q16.16 fixed-point math, vectors, and noise",
+    gradient:
+      "Multi-stop color gradients, lookup tables, and scientific colormaps",
+    accessibility:
+      "WCAG and APCA contrast, contrast adjustment, and color-vision-deficiency simulation",
   },
 };
 
@@ -0,0 +1,395 @@
+/**
+ * Interval arithmetic for guaranteed bounds of functions over regions.
+ *
+ * This module computes with ranges of numbers instead of single values. Any
+ * expression evaluated on intervals returns an interval that is guaranteed
+ * to contain every value the expression can take when its inputs vary over
+ * their intervals, which makes it possible to prove that a function has no
+ * zero, maximum or feature inside a whole region.
+ *
+ * @remarks
+ * Intervals are plain `{ min, max }` objects. Every function here returns a
+ * new interval and accepts plain numbers wherever an interval is expected,
+ * treating them as degenerate intervals `[x, x]`.
+ *
+ * **Guarantees:** results are rounded outward by at least one unit in the
+ * last place, so floating-point error can only make an interval wider,
+ * never exclude a true value. Bounds may be infinite.
+ *
+ * **Overestimation:** the bound is valid but often wider than the true range
+ * because each occurrence of a variable is treated independently
+ * (`x - x` over [0, 1] gives [-1, 1]). Prefer {@link intervalSqr} over
+ * multiplying an interval by itself, and subdivide to tighten bounds.
+ *
+ * **Empty intervals** have NaN bounds. They result from intersecting
+ * disjoint intervals or from evaluating a function entirely outside its
+ * domain, such as the square root of a negative interval.
+ *
+ * @example
+ * Bound a function over a range:
+ * ```typescript
+ * import { interval, intervalMul, intervalSin, intervalAdd } from 'play.ts';
+ *
+ * const x = interval(0, 0.5);
+ * const y = intervalAdd(intervalSin(x), intervalMul(x, x)); // ⊇ [0, 0.7294]
+ * ```
+ *
+ * @example
+ * Plot an implicit curve without missing thin features:
+ * ```typescript
+ * const cells = plotImplicit(
+ *   (x, y) => intervalSub(intervalAdd(intervalSqr(x), intervalSqr(y)), 1),
+ *   rect(-2, -2, 4, 4),
+ * );
+ * for (const c of cells) ctx.fillRect(c.x, c.y, c.width, c.height);
+ * ```
+ *
+ * @see {@link https://en.wikipedia.org/wiki/Interval_arithmetic | Interval Arithmetic - Wikipedia}
+ */
+
+import type { Interval, Rectangle } from "../types/index.ts";
+import { rect } from "./geometry.ts";
+
+// ============================================================================
+// Construction and Queries
+// ============================================================================
+
+/**
+ * Creates an interval.
+ *
+ * @param min - Lower bound
+ * @param max - Upper bound (default: `min`, a single point)
+ * @throws {Error} If min is greater than max
+ */
+export const interval = (min: number, max: number = min): Interval => {
+  if (min > max) {
+    throw new Error(`Interval bounds are reversed: [${min}, ${max}]`);
+  }
+  return { min, max };
+};
+
+const EMPTY: Interval = { min: NaN, max: NaN };
+
+const toInterval = (value: Interval | number): Interval =>
+  typeof value === "number" ? { min: value, max: value } : value;
+
+// Steps a bound outward by at least one unit in the last place
+const roundDown = (x: number): number =>
+  Number.isFinite(x)
+    ? x - (Math.abs(x) * Number.EPSILON + Number.MIN_VALUE)
+    : x;
+
+const roundUp = (x: number): number =>
+  Number.isFinite(x)
+    ? x + (Math.abs(x) * Number.EPSILON + Number.MIN_VALUE)
+    : x;
+
+const outward = (min: number, max: number): Interval => ({
+  min: roundDown(min),
+  max: roundUp(max),
+});
+
+export const intervalIsEmpty = (a: Interval): boolean =>
+  Number.isNaN(a.min) || Number.isNaN(a.max);
+
+export const intervalWidth = (a: Interval): number => a.max - a.min;
+
+export const intervalMidpoint = (a: Interval): number => (a.min + a.max) / 2;
+
+/**
+ * Tests whether a number or a whole interval lies inside `a`.
+ *
+ * @example
+ * ```typescript
+ * intervalContains(interval(-1, 1), 0);               // true
+ * intervalContains(interval(-1, 1), interval(0, 2));  // false
+ * ```
+ */
+export const intervalContains = (
+  a: Interval,
+  value: Interval | number,
+): boolean => {
+  const b = toInterval(value);
+  return a.min <= b.min && b.max <= a.max;
+};
+
+/**
+ * Tests whether two intervals share at least one point.
+ */
+export const intervalOverlaps = (a: Interval, b: Interval): boolean =>
+  a.min <= b.max && b.min <= a.max;
+
+/**
+ * Smallest interval containing both arguments.
+ */
+export const intervalHull = (
+  a: Interval | number,
+  b: Interval | number,
+): Interval => {
+  const [u, v] = [toInterval(a), toInterval(b)];
+  if (intervalIsEmpty(u)) return v;
+  if (intervalIsEmpty(v)) return u;
+  return { min: Math.min(u.min, v.min), max: Math.max(u.max, v.max) };
+};
+
+/**
+ * Points common to both intervals, or an empty interval if they are disjoint.
+ */
+export const intervalIntersect = (a: Interval, b: Interval): Interval => {
+  if (!intervalOverlaps(a, b)) return EMPTY;
+  return { min: Math.max(a.min, b.min), max: Math.min(a.max, b.max) };
+};
+
+// ============================================================================
+// Arithmetic
+// ============================================================================
+
+export const intervalAdd = (
+  a: Interval | number,
+  b: Interval | number,
+): Interval => {
+  const [u, v] = [toInterval(a), toInterval(b)];
+  return outward(u.min + v.min, u.max + v.max);
+};
+
+export const intervalSub = (
+  a: Interval | number,
+  b: Interval | number,
+): Interval => {
+  const [u, v] = [toInterval(a), toInterval(b)];
+  return outward(u.min - v.max, u.max - v.min);
+};
+
+// Bound product where 0 · ∞ counts as 0, since a zero bound is attained exactly
+const boundProduct = (x: number, y: number): number =>
+  x === 0 || y === 0 ? 0 : x * y;
+
+export const intervalMul = (
+  a: Interval | number,
+  b: Interval | number,
+): Interval => {
+  const [u, v] = [toInterval(a), toInterval(b)];
+  if (intervalIsEmpty(u) || intervalIsEmpty(v)) return EMPTY;
+  const products = [
+    boundProduct(u.min, v.min),
+    boundProduct(u.min, v.max),
+    boundProduct(u.max, v.min),
+    boundProduct(u.max, v.max),
+  ];
+  return outward(Math.min(...products), Math.max(...products));
+};
+
+/**
+ * Divides two intervals.
+ *
+ * @remarks
+ * A divisor that contains zero gives the whole real line, since the quotient
+ * is unbounded; a divisor of exactly [0, 0] gives an empty interval.
+ */
+export const intervalDiv = (
+  a: Interval | number,
+  b: Interval | number,
+): Interval => {
+  const [u, v] = [toInterval(a), toInterval(b)];
+  if (intervalIsEmpty(u) || intervalIsEmpty(v)) return EMPTY;
+  if (v.min === 0 && v.max === 0) return EMPTY;
+  if (v.min <= 0 && v.max >= 0) return { min: -Infinity, max: Infinity };
+  return intervalMul(u, outward(1 / v.max, 1 / v.min));
+};
+
+export const intervalNeg = (a: Interval): Interval => ({
+  min: -a.max,
+  max: -a.min,
+});
+
+export const intervalAbs = (a: Interval): Interval => {
+  if (a.min >= 0) return a;
+  if (a.max <= 0) return intervalNeg(a);
+  return { min: 0, max: Math.max(-a.min, a.max) };
+};
+
+export const intervalMin = (
+  a: Interval | number,
+  b: Interval | number,
+): Interval => {
+  const [u, v] = [toInterval(a), toInterval(b)];
+  return { min: Math.min(u.min, v.min), max: Math.min(u.max, v.max) };
+};
+
+export const intervalMax = (
+  a: Interval | number,
+  b: Interval | number,
+): Interval => {
+  const [u, v] = [toInterval(a), toInterval(b)];
+  return { min: Math.max(u.min, v.min), max: Math.max(u.max, v.max) };
+};
+
+// ============================================================================
+// Elementary Functions
+// ============================================================================
+
+/**
+ * Square x², which is never negative, unlike `intervalMul(x, x)`.
+ *
+ * @example
+ * ```typescript
+ * intervalSqr(interval(-1, 2));           // ⊇ [0, 4]
+ * intervalMul(interval(-1, 2), interval(-1, 2)); // ⊇ [-2, 4]
+ * ```
+ */
+export const intervalSqr = (a: Interval): Interval => intervalPow(a, 2);
+
+/**
+ * Raises an interval to a power.
+ *
+ * @remarks
+ * Integer exponents are defined for any base, with even powers never
+ * negative. Other exponents are only defined for non-negative bases, so the
+ * negative part of the base is ignored and a wholly negative base gives an
+ * empty interval.
+ */
+export const intervalPow = (base: Interval, exponent: number): Interval => {
+  if (intervalIsEmpty(base)) return EMPTY;
+  if (exponent === 0) return { min: 1, max: 1 };
+
+  if (Number.isInteger(exponent)) {
+    if (exponent < 0) return intervalDiv(1, intervalPow(base, -exponent));
+    const [low, high] = [base.min ** exponent, base.max ** exponent];
+    if (exponent % 2 === 1) return outward(low, high);
+    if (base.min >= 0) return outward(low, high);
+    if (base.max <= 0) return outward(high, low);
+    return { min: 0, max: roundUp(Math.max(low, high)) };
+  }
+
+  if (base.max < 0) return EMPTY;
+  const min = Math.max(base.min, 0);
+  return exponent > 0
+    ? outward(min ** exponent, base.max ** exponent)
+    : outward(base.max ** exponent, min ** exponent);
+};
+
+/**
+ * Square root over the non-negative part of the interval.
+ */
+export const intervalSqrt = (a: Interval): Interval => {
+  if (intervalIsEmpty(a) || a.max < 0) return EMPTY;
+  return outward(Math.sqrt(Math.max(a.min, 0)), Math.sqrt(a.max));
+};
+
+export const intervalExp = (a: Interval): Interval => {
+  if (intervalIsEmpty(a)) return EMPTY;
+  return {
+    min: Math.max(0, roundDown(Math.exp(a.min))),
+    max: roundUp(Math.exp(a.max)),
+  };
+};
+
+/**
+ * Natural logarithm over the positive part of the interval.
+ */
+export const intervalLog = (a: Interval): Interval => {
+  if (intervalIsEmpty(a) || a.max <= 0) return EMPTY;
+  return outward(Math.log(Math.max(a.min, 0)), Math.log(a.max));
+};
+
+const TWO_PI = 2 * Math.PI;
+
+// Whether [a.min, a.max] contains a point phase + 2πk for some integer k
+const containsPhase = (a: Interval, phase: number): boolean =>
+  Math.ceil((a.min - phase) / TWO_PI) <= Math.floor((a.max - phase) / TWO_PI);
+
+// Range of a 2π-periodic function from its endpoint values and extrema phases
+const periodicRange = (
+  a: Interval,
+  f: (x: number) => number,
+  maxPhase: number,
+  minPhase: number,
+): Interval => {
+  if (intervalIsEmpty(a)) return EMPTY;
+  if (!(a.max - a.min < TWO_PI)) return { min: -1, max: 1 };
+
+  const [atMin, atMax] = [f(a.min), f(a.max)];
+  const min = containsPhase(a, minPhase) ? -1 : Math.min(atMin, atMax);
+  const max = containsPhase(a, maxPhase) ? 1 : Math.max(atMin, atMax);
+  return { min: Math.max(-1, roundDown(min)), max: Math.min(1, roundUp(max)) };
+};
+
+export const intervalSin = (a: Interval): Interval =>
+  periodicRange(a, Math.sin, Math.PI / 2, -Math.PI / 2);
+
+export const intervalCos = (a: Interval): Interval =>
+  periodicRange(a, Math.cos, 0, Math.PI);
+
+// ============================================================================
+// Implicit Curves
+// ============================================================================
+
+export interface ImplicitPlotOptions {
+  /** Number of times the bounds are halved on each axis (default: 8) */
+  readonly depth?: number;
+}
+
+/**
+ * Finds the cells of a grid that may contain the curve f(x, y) = 0.
+ *
+ * @param f - Function evaluated with interval arithmetic over a cell
+ * @param bounds - Region to search
+ * @param options - Subdivision depth; the finest cells are 2^-depth of the bounds
+ * @returns Cells at the finest level whose bound of f contains zero
+ *
+ * @remarks
+ * The region is split as a quadtree. A cell is discarded as soon as its
+ * interval bound of f excludes zero, which proves the curve does not pass
+ * through it; all other cells are split until the requested depth. Because
+ * the bounds are guaranteed, no part of the curve is ever missed, including
+ * thin zero sets like tangencies, isolated points and curves where f does
+ * not change sign, which sampling-based methods such as marching squares
+ * skip. Overestimation may keep a few extra cells next to the curve.
+ *
+ * @example
+ * A curve that touches zero without crossing it:
+ * ```typescript
+ * // (x² + y² - 1)² = 0 is the unit circle, but f is never negative
+ * const circle = (x: Interval, y: Interval) =>
+ *   intervalSqr(intervalSub(intervalAdd(intervalSqr(x), intervalSqr(y)), 1));
+ * const cells = plotImplicit(circle, rect(-2, -2, 4, 4), { depth: 9 });
+ * ```
+ */
+export const plotImplicit = (
+  f: (x: Interval, y: Interval) => Interval,
+  bounds: Rectangle,
+  options: ImplicitPlotOptions = {},
+): Rectangle[] => {
+  const depth = options.depth ?? 8;
+  if (!Number.isInteger(depth) || depth < 0) {
+    throw new Error(`Depth must be a non-negative integer, got ${depth}`);
+  }
+
+  const cells: Rectangle[] = [];
+  const stack: Array<{ cell: Rectangle; level: number }> = [
+    { cell: bounds, level: 0 },
+  ];
+
+  while (stack.length > 0) {
+    const { cell, level } = stack.pop()!;
+    const value = f(
+      interval(cell.x, cell.x + cell.width),
+      interval(cell.y, cell.y + cell.height),
+    );
+    if (!intervalContains(value, 0)) continue;
+
+    if (level === depth) {
+      cells.push(cell);
+      continue;
+    }
+
+    const [w, h] = [cell.width / 2, cell.height / 2];
+    stack.push(
+      { cell: rect(cell.x, cell.y, w, h), level: level + 1 },
+      { cell: rect(cell.x + w, cell.y, w, h), level: level + 1 },
+      { cell: rect(cell.x, cell.y + h, w, h), level: level + 1 },
+      { cell: rect(cell.x + w, cell.y + h, w, h), level: level + 1 },
+    );
+  }
+  return cells;
+};
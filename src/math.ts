@@ -9,7 +9,7 @@
  * The math utilities in this module follow established computer graphics conventions:
  * - Vectors use right-handed coordinate systems
  * - Angles are measured in radians unless otherwise specified
- * - Matrix operations follow column-major ordering
+ * - Matrices are stored row-major and transform column vectors
  * - All interpolation functions use normalized time values (0-1)
  *
  * @example
@@ -37,7 +37,32 @@
  * @see {@link https://registry.khronos.org/OpenGL-Refpages/gl4/ | OpenGL Reference}
  */
 
-import type { Matrix3x3, Vector2, Vector3 } from "../types/index.ts";
+import type {
+  AffineDecomposition,
+  AffineTuple,
+  Complex,
+  EigenDecomposition,
+  FloatArray,
+  LUDecomposition,
+  Matrix3x3,
+  Matrix4x4,
+  MatrixN,
+  QRDecomposition,
+  Mutable,
+  Quaternion,
+  Vector2,
+  Vector2Buffer,
+  Vector3,
+  Vector3Buffer,
+  Vector4,
+} from "../types/index.ts";
+import {
+  complex,
+  complexAbs,
+  complexDiv,
+  complexMul,
+  complexSub,
+} from "./complex.ts";
 
 // ============================================================================
 // Mathematical Constants
@@ -947,6 +972,622 @@ export const vec3Lerp = (a: Vector3, b: Vector3, t: number): Vector3 => ({
   z: lerp(a.z, b.z, t),
 });
 
+// ============================================================================
+// Vector4 Utilities
+// ============================================================================
+
+/**
+ * Creates a 4D vector.
+ *
+ * @remarks
+ * In 3D graphics a Vector4 usually holds homogeneous coordinates: a point
+ * (x, y, z) is (x, y, z, 1) and a direction is (x, y, z, 0). After a
+ * projection matrix, w carries the depth used for the perspective divide
+ * ({@link vec4ToVec3}) and for clip-space tests ({@link clipOutcode}).
+ */
+export const vec4 = (x: number, y: number, z: number, w: number): Vector4 => ({
+  x,
+  y,
+  z,
+  w,
+});
+
+export const vec4Add = (a: Vector4, b: Vector4): Vector4 => ({
+  x: a.x + b.x,
+  y: a.y + b.y,
+  z: a.z + b.z,
+  w: a.w + b.w,
+});
+
+export const vec4Sub = (a: Vector4, b: Vector4): Vector4 => ({
+  x: a.x - b.x,
+  y: a.y - b.y,
+  z: a.z - b.z,
+  w: a.w - b.w,
+});
+
+export const vec4Mul = (a: Vector4, scalar: number): Vector4 => ({
+  x: a.x * scalar,
+  y: a.y * scalar,
+  z: a.z * scalar,
+  w: a.w * scalar,
+});
+
+export const vec4Div = (a: Vector4, scalar: number): Vector4 => ({
+  x: a.x / scalar,
+  y: a.y / scalar,
+  z: a.z / scalar,
+  w: a.w / scalar,
+});
+
+export const vec4Dot = (a: Vector4, b: Vector4): number => {
+  return a.x * b.x + a.y * b.y + a.z * b.z + a.w * b.w;
+};
+
+export const vec4Length = (v: Vector4): number => {
+  return Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z + v.w * v.w);
+};
+
+export const vec4LengthSq = (v: Vector4): number => {
+  return v.x * v.x + v.y * v.y + v.z * v.z + v.w * v.w;
+};
+
+export const vec4Normalize = (v: Vector4): Vector4 => {
+  const length = vec4Length(v);
+  return length > 0 ? vec4Div(v, length) : vec4(0, 0, 0, 0);
+};
+
+export const vec4Lerp = (a: Vector4, b: Vector4, t: number): Vector4 => ({
+  x: lerp(a.x, b.x, t),
+  y: lerp(a.y, b.y, t),
+  z: lerp(a.z, b.z, t),
+  w: lerp(a.w, b.w, t),
+});
+
+/**
+ * Extends a 3D vector to homogeneous coordinates.
+ *
+ * @param v - Point or direction
+ * @param w - 1 for points (default), 0 for directions, which ignore translation
+ */
+export const vec4FromVec3 = (v: Vector3, w: number = 1): Vector4 => ({
+  x: v.x,
+  y: v.y,
+  z: v.z,
+  w,
+});
+
+/**
+ * Converts homogeneous coordinates back to 3D with the perspective divide.
+ *
+ * @returns (x/w, y/w, z/w); directions (w = 0) are returned undivided
+ *
+ * @example
+ * ```typescript
+ * const clip = mat4TransformVec4(viewProjection, vec4FromVec3(vertex));
+ * if (clipOutcode(clip) === 0) {
+ *   const ndc = vec4ToVec3(clip); // every component in [-1, 1]
+ * }
+ * ```
+ */
+export const vec4ToVec3 = (v: Vector4): Vector3 => {
+  if (v.w === 0 || v.w === 1) return { x: v.x, y: v.y, z: v.z };
+  return { x: v.x / v.w, y: v.y / v.w, z: v.z / v.w };
+};
+
+// ============================================================================
+// Mutable Vector Utilities
+// ============================================================================
+
+/**
+ * Sets the components of a mutable 2D vector.
+ *
+ * @remarks
+ * The `*Out` functions write their result into `out` and return it instead of
+ * allocating a new vector, which keeps hot loops (particle updates, per-pixel
+ * work) free of garbage collection. `out` may be one of the inputs, so
+ * `vec2AddOut(p, p, v)` updates `p` in place. They produce the same values as
+ * their immutable counterparts.
+ *
+ * @example
+ * Integrate a particle without allocating:
+ * ```typescript
+ * const position: Mutable<Vector2> = vec2(0, 0);
+ * const velocity: Mutable<Vector2> = vec2(3, 4);
+ * vec2AddScaledOut(velocity, velocity, gravity, dt);
+ * vec2AddScaledOut(position, position, velocity, dt);
+ * ```
+ */
+export const vec2SetOut = (
+  out: Mutable<Vector2>,
+  x: number,
+  y: number,
+): Mutable<Vector2> => {
+  out.x = x;
+  out.y = y;
+  return out;
+};
+
+export const vec2AddOut = (
+  out: Mutable<Vector2>,
+  a: Vector2,
+  b: Vector2,
+): Mutable<Vector2> => vec2SetOut(out, a.x + b.x, a.y + b.y);
+
+export const vec2SubOut = (
+  out: Mutable<Vector2>,
+  a: Vector2,
+  b: Vector2,
+): Mutable<Vector2> => vec2SetOut(out, a.x - b.x, a.y - b.y);
+
+export const vec2MulOut = (
+  out: Mutable<Vector2>,
+  a: Vector2,
+  scalar: number,
+): Mutable<Vector2> => vec2SetOut(out, a.x * scalar, a.y * scalar);
+
+export const vec2DivOut = (
+  out: Mutable<Vector2>,
+  a: Vector2,
+  scalar: number,
+): Mutable<Vector2> => vec2SetOut(out, a.x / scalar, a.y / scalar);
+
+/**
+ * Writes a + b · scale into `out`, the usual Euler integration step.
+ */
+export const vec2AddScaledOut = (
+  out: Mutable<Vector2>,
+  a: Vector2,
+  b: Vector2,
+  scale: number,
+): Mutable<Vector2> => vec2SetOut(out, a.x + b.x * scale, a.y + b.y * scale);
+
+export const vec2NormalizeOut = (
+  out: Mutable<Vector2>,
+  v: Vector2,
+): Mutable<Vector2> => {
+  const lengthSq = v.x * v.x + v.y * v.y;
+  if (lengthSq === 0) return vec2SetOut(out, 0, 0);
+  if (!isFinite(lengthSq)) return vec2SetOut(out, NaN, NaN);
+  const length = Math.sqrt(lengthSq);
+  return vec2SetOut(out, v.x / length, v.y / length);
+};
+
+export const vec2LerpOut = (
+  out: Mutable<Vector2>,
+  a: Vector2,
+  b: Vector2,
+  t: number,
+): Mutable<Vector2> => vec2SetOut(out, lerp(a.x, b.x, t), lerp(a.y, b.y, t));
+
+export const vec2RotateOut = (
+  out: Mutable<Vector2>,
+  v: Vector2,
+  angle: number,
+): Mutable<Vector2> => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return vec2SetOut(out, v.x * cos - v.y * sin, v.x * sin + v.y * cos);
+};
+
+/**
+ * Sets the components of a mutable 3D vector.
+ *
+ * @see {@link vec2SetOut} for how the `*Out` functions work
+ */
+export const vec3SetOut = (
+  out: Mutable<Vector3>,
+  x: number,
+  y: number,
+  z: number,
+): Mutable<Vector3> => {
+  out.x = x;
+  out.y = y;
+  out.z = z;
+  return out;
+};
+
+export const vec3AddOut = (
+  out: Mutable<Vector3>,
+  a: Vector3,
+  b: Vector3,
+): Mutable<Vector3> => vec3SetOut(out, a.x + b.x, a.y + b.y, a.z + b.z);
+
+export const vec3SubOut = (
+  out: Mutable<Vector3>,
+  a: Vector3,
+  b: Vector3,
+): Mutable<Vector3> => vec3SetOut(out, a.x - b.x, a.y - b.y, a.z - b.z);
+
+export const vec3MulOut = (
+  out: Mutable<Vector3>,
+  a: Vector3,
+  scalar: number,
+): Mutable<Vector3> =>
+  vec3SetOut(out, a.x * scalar, a.y * scalar, a.z * scalar);
+
+export const vec3DivOut = (
+  out: Mutable<Vector3>,
+  a: Vector3,
+  scalar: number,
+): Mutable<Vector3> =>
+  vec3SetOut(out, a.x / scalar, a.y / scalar, a.z / scalar);
+
+/**
+ * Writes a + b · scale into `out`.
+ */
+export const vec3AddScaledOut = (
+  out: Mutable<Vector3>,
+  a: Vector3,
+  b: Vector3,
+  scale: number,
+): Mutable<Vector3> =>
+  vec3SetOut(out, a.x + b.x * scale, a.y + b.y * scale, a.z + b.z * scale);
+
+/**
+ * Writes the cross product a × b into `out`; `out` may alias either input.
+ */
+export const vec3CrossOut = (
+  out: Mutable<Vector3>,
+  a: Vector3,
+  b: Vector3,
+): Mutable<Vector3> =>
+  vec3SetOut(
+    out,
+    a.y * b.z - a.z * b.y,
+    a.z * b.x - a.x * b.z,
+    a.x * b.y - a.y * b.x,
+  );
+
+export const vec3NormalizeOut = (
+  out: Mutable<Vector3>,
+  v: Vector3,
+): Mutable<Vector3> => {
+  const length = vec3Length(v);
+  return length > 0 ? vec3DivOut(out, v, length) : vec3SetOut(out, 0, 0, 0);
+};
+
+export const vec3LerpOut = (
+  out: Mutable<Vector3>,
+  a: Vector3,
+  b: Vector3,
+  t: number,
+): Mutable<Vector3> =>
+  vec3SetOut(out, lerp(a.x, b.x, t), lerp(a.y, b.y, t), lerp(a.z, b.z, t));
+
+// ============================================================================
+// Vector Buffer Utilities
+// ============================================================================
+
+/**
+ * Allocates storage for many 2D vectors, one typed array per component.
+ *
+ * @param count - Number of vectors
+ * @param ArrayType - `Float64Array` (default) or `Float32Array` for half the
+ * memory and direct upload to WebGL
+ *
+ * @remarks
+ * The `vec2Buffer*` and `vec3Buffer*` functions apply one operation to every
+ * vector in a buffer with tight loops over typed arrays. They allocate
+ * nothing, write into an `out` buffer that may be one of the inputs, and
+ * return it. This structure-of-arrays layout suits simulations with tens of
+ * thousands of particles, where creating a `Vector2` per operation would
+ * spend most of the frame in garbage collection.
+ *
+ * All buffers passed to one call must hold the same number of vectors.
+ *
+ * @example
+ * Update 50,000 particles per frame:
+ * ```typescript
+ * const position = vec2Buffer(50000, Float32Array);
+ * const velocity = vec2Buffer(50000, Float32Array);
+ *
+ * function update(dt: number) {
+ *   vec2BufferAxpy(position, dt, velocity, position); // p += v·dt
+ *   vec2BufferScale(velocity, velocity, 0.99);        // drag
+ * }
+ * ```
+ */
+export const vec2Buffer = (
+  count: number,
+  ArrayType: Float32ArrayConstructor | Float64ArrayConstructor = Float64Array,
+): Vector2Buffer => ({ x: new ArrayType(count), y: new ArrayType(count) });
+
+/**
+ * Allocates storage for many 3D vectors, one typed array per component.
+ *
+ * @see {@link vec2Buffer} for how the buffer functions work
+ */
+export const vec3Buffer = (
+  count: number,
+  ArrayType: Float32ArrayConstructor | Float64ArrayConstructor = Float64Array,
+): Vector3Buffer => ({
+  x: new ArrayType(count),
+  y: new ArrayType(count),
+  z: new ArrayType(count),
+});
+
+/**
+ * Copies vector objects into a new buffer.
+ */
+export const vec2BufferFrom = (
+  vectors: readonly Vector2[],
+  ArrayType: Float32ArrayConstructor | Float64ArrayConstructor = Float64Array,
+): Vector2Buffer => {
+  const buffer = vec2Buffer(vectors.length, ArrayType);
+  vectors.forEach((v, i) => {
+    buffer.x[i] = v.x;
+    buffer.y[i] = v.y;
+  });
+  return buffer;
+};
+
+export const vec3BufferFrom = (
+  vectors: readonly Vector3[],
+  ArrayType: Float32ArrayConstructor | Float64ArrayConstructor = Float64Array,
+): Vector3Buffer => {
+  const buffer = vec3Buffer(vectors.length, ArrayType);
+  vectors.forEach((v, i) => {
+    buffer.x[i] = v.x;
+    buffer.y[i] = v.y;
+    buffer.z[i] = v.z;
+  });
+  return buffer;
+};
+
+/**
+ * Reads vector `index` from a buffer as a new vector object.
+ */
+export const vec2BufferGet = (buffer: Vector2Buffer, index: number): Vector2 =>
+  vec2(buffer.x[index], buffer.y[index]);
+
+export const vec3BufferGet = (buffer: Vector3Buffer, index: number): Vector3 =>
+  vec3(buffer.x[index], buffer.y[index], buffer.z[index]);
+
+/**
+ * Writes vector `v` at `index` in a buffer.
+ */
+export const vec2BufferSet = (
+  buffer: Vector2Buffer,
+  index: number,
+  v: Vector2,
+): void => {
+  buffer.x[index] = v.x;
+  buffer.y[index] = v.y;
+};
+
+export const vec3BufferSet = (
+  buffer: Vector3Buffer,
+  index: number,
+  v: Vector3,
+): void => {
+  buffer.x[index] = v.x;
+  buffer.y[index] = v.y;
+  buffer.z[index] = v.z;
+};
+
+const assertSameLength = (arrays: readonly FloatArray[]): number => {
+  const n = arrays[0].length;
+  for (const array of arrays) {
+    if (array.length !== n) {
+      throw new Error(
+        `Vector buffers must have the same length, got ${n} and ${array.length}`,
+      );
+    }
+  }
+  return n;
+};
+
+// Element-wise kernels shared by every component of the buffer functions
+const addArrays = (out: FloatArray, a: FloatArray, b: FloatArray): void => {
+  for (let i = 0; i < out.length; i++) out[i] = a[i] + b[i];
+};
+
+const subArrays = (out: FloatArray, a: FloatArray, b: FloatArray): void => {
+  for (let i = 0; i < out.length; i++) out[i] = a[i] - b[i];
+};
+
+const scaleArray = (out: FloatArray, a: FloatArray, scalar: number): void => {
+  for (let i = 0; i < out.length; i++) out[i] = a[i] * scalar;
+};
+
+const axpyArrays = (
+  out: FloatArray,
+  alpha: number,
+  x: FloatArray,
+  y: FloatArray,
+): void => {
+  for (let i = 0; i < out.length; i++) out[i] = alpha * x[i] + y[i];
+};
+
+export const vec2BufferAdd = (
+  out: Vector2Buffer,
+  a: Vector2Buffer,
+  b: Vector2Buffer,
+): Vector2Buffer => {
+  assertSameLength([out.x, out.y, a.x, a.y, b.x, b.y]);
+  addArrays(out.x, a.x, b.x);
+  addArrays(out.y, a.y, b.y);
+  return out;
+};
+
+export const vec2BufferSub = (
+  out: Vector2Buffer,
+  a: Vector2Buffer,
+  b: Vector2Buffer,
+): Vector2Buffer => {
+  assertSameLength([out.x, out.y, a.x, a.y, b.x, b.y]);
+  subArrays(out.x, a.x, b.x);
+  subArrays(out.y, a.y, b.y);
+  return out;
+};
+
+export const vec2BufferScale = (
+  out: Vector2Buffer,
+  a: Vector2Buffer,
+  scalar: number,
+): Vector2Buffer => {
+  assertSameLength([out.x, out.y, a.x, a.y]);
+  scaleArray(out.x, a.x, scalar);
+  scaleArray(out.y, a.y, scalar);
+  return out;
+};
+
+/**
+ * Writes alpha · x + y for every vector (the BLAS "axpy" operation).
+ *
+ * @example
+ * ```typescript
+ * vec2BufferAxpy(position, dt, velocity, position); // position += velocity·dt
+ * ```
+ */
+export const vec2BufferAxpy = (
+  out: Vector2Buffer,
+  alpha: number,
+  x: Vector2Buffer,
+  y: Vector2Buffer,
+): Vector2Buffer => {
+  assertSameLength([out.x, out.y, x.x, x.y, y.x, y.y]);
+  axpyArrays(out.x, alpha, x.x, y.x);
+  axpyArrays(out.y, alpha, x.y, y.y);
+  return out;
+};
+
+/**
+ * Writes the dot product of each pair of vectors into `out`.
+ */
+export const vec2BufferDot = (
+  out: FloatArray,
+  a: Vector2Buffer,
+  b: Vector2Buffer,
+): FloatArray => {
+  const n = assertSameLength([out, a.x, a.y, b.x, b.y]);
+  for (let i = 0; i < n; i++) out[i] = a.x[i] * b.x[i] + a.y[i] * b.y[i];
+  return out;
+};
+
+/**
+ * Writes the length of each vector into `out`.
+ */
+export const vec2BufferLength = (
+  out: FloatArray,
+  a: Vector2Buffer,
+): FloatArray => {
+  const n = assertSameLength([out, a.x, a.y]);
+  for (let i = 0; i < n; i++) out[i] = Math.sqrt(a.x[i] ** 2 + a.y[i] ** 2);
+  return out;
+};
+
+/**
+ * Normalizes every vector; zero vectors stay zero, as in {@link vec2Normalize}.
+ */
+export const vec2BufferNormalize = (
+  out: Vector2Buffer,
+  a: Vector2Buffer,
+): Vector2Buffer => {
+  const n = assertSameLength([out.x, out.y, a.x, a.y]);
+  for (let i = 0; i < n; i++) {
+    const x = a.x[i];
+    const y = a.y[i];
+    const length = Math.sqrt(x * x + y * y);
+    out.x[i] = length > 0 ? x / length : 0;
+    out.y[i] = length > 0 ? y / length : 0;
+  }
+  return out;
+};
+
+export const vec3BufferAdd = (
+  out: Vector3Buffer,
+  a: Vector3Buffer,
+  b: Vector3Buffer,
+): Vector3Buffer => {
+  assertSameLength([out.x, out.y, out.z, a.x, a.y, a.z, b.x, b.y, b.z]);
+  addArrays(out.x, a.x, b.x);
+  addArrays(out.y, a.y, b.y);
+  addArrays(out.z, a.z, b.z);
+  return out;
+};
+
+export const vec3BufferSub = (
+  out: Vector3Buffer,
+  a: Vector3Buffer,
+  b: Vector3Buffer,
+): Vector3Buffer => {
+  assertSameLength([out.x, out.y, out.z, a.x, a.y, a.z, b.x, b.y, b.z]);
+  subArrays(out.x, a.x, b.x);
+  subArrays(out.y, a.y, b.y);
+  subArrays(out.z, a.z, b.z);
+  return out;
+};
+
+export const vec3BufferScale = (
+  out: Vector3Buffer,
+  a: Vector3Buffer,
+  scalar: number,
+): Vector3Buffer => {
+  assertSameLength([out.x, out.y, out.z, a.x, a.y, a.z]);
+  scaleArray(out.x, a.x, scalar);
+  scaleArray(out.y, a.y, scalar);
+  scaleArray(out.z, a.z, scalar);
+  return out;
+};
+
+/**
+ * Writes alpha · x + y for every vector.
+ */
+export const vec3BufferAxpy = (
+  out: Vector3Buffer,
+  alpha: number,
+  x: Vector3Buffer,
+  y: Vector3Buffer,
+): Vector3Buffer => {
+  assertSameLength([out.x, out.y, out.z, x.x, x.y, x.z, y.x, y.y, y.z]);
+  axpyArrays(out.x, alpha, x.x, y.x);
+  axpyArrays(out.y, alpha, x.y, y.y);
+  axpyArrays(out.z, alpha, x.z, y.z);
+  return out;
+};
+
+export const vec3BufferDot = (
+  out: FloatArray,
+  a: Vector3Buffer,
+  b: Vector3Buffer,
+): FloatArray => {
+  const n = assertSameLength([out, a.x, a.y, a.z, b.x, b.y, b.z]);
+  for (let i = 0; i < n; i++) {
+    out[i] = a.x[i] * b.x[i] + a.y[i] * b.y[i] + a.z[i] * b.z[i];
+  }
+  return out;
+};
+
+export const vec3BufferLength = (
+  out: FloatArray,
+  a: Vector3Buffer,
+): FloatArray => {
+  const n = assertSameLength([out, a.x, a.y, a.z]);
+  for (let i = 0; i < n; i++) {
+    out[i] = Math.sqrt(a.x[i] ** 2 + a.y[i] ** 2 + a.z[i] ** 2);
+  }
+  return out;
+};
+
+export const vec3BufferNormalize = (
+  out: Vector3Buffer,
+  a: Vector3Buffer,
+): Vector3Buffer => {
+  const n = assertSameLength([out.x, out.y, out.z, a.x, a.y, a.z]);
+  for (let i = 0; i < n; i++) {
+    const x = a.x[i];
+    const y = a.y[i];
+    const z = a.z[i];
+    const length = Math.sqrt(x * x + y * y + z * z);
+    out.x[i] = length > 0 ? x / length : 0;
+    out.y[i] = length > 0 ? y / length : 0;
+    out.z[i] = length > 0 ? z / length : 0;
+  }
+  return out;
+};
+
 // Matrix utilities
 export const mat3Identity = (): Matrix3x3 => ({
   elements: [1, 0, 0, 0, 1, 0, 0, 0, 1],
@@ -993,6 +1634,2241 @@ export const mat3TransformVec2 = (m: Matrix3x3, v: Vector2): Vector2 => {
   };
 };
 
+// ============================================================================
+// 2D Affine Transforms
+// ============================================================================
+
+/**
+ * Creates a 2D translation matrix.
+ *
+ * @remarks
+ * 2D affine transforms use the row-major {@link Matrix3x3} layout of
+ * {@link mat3TransformVec2}: elements `[a, c, e, b, d, f, 0, 0, 1]` map a
+ * point to `(a·x + c·y + e, b·x + d·y + f)`. As with 4x4 matrices, in
+ * `mat3Multiply(a, b)` the transform `b` is applied first.
+ *
+ * @example
+ * ```typescript
+ * // Spin a sprite around its own center, then place it
+ * const m = mat3Multiply(
+ *   mat3Translate(x, y),
+ *   mat3Multiply(mat3Rotate(angle), mat3Translate(-w / 2, -h / 2)),
+ * );
+ * play.setTransform(m);
+ * ```
+ *
+ * @see {@link mat3Compose} for building a transform from its parts
+ */
+export const mat3Translate = (x: number, y: number): Matrix3x3 =>
+  mat3FromValues(1, 0, x, 0, 1, y, 0, 0, 1);
+
+/**
+ * Creates a 2D rotation matrix.
+ *
+ * @param angle - Rotation angle in radians; positive angles turn +x toward
+ * +y, which is clockwise on screen where y points down
+ */
+export const mat3Rotate = (angle: number): Matrix3x3 => {
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  return mat3FromValues(c, -s, 0, s, c, 0, 0, 0, 1);
+};
+
+/**
+ * Creates a 2D scaling matrix. An omitted y factor defaults to the x factor.
+ */
+export const mat3Scale = (x: number, y: number = x): Matrix3x3 =>
+  mat3FromValues(x, 0, 0, 0, y, 0, 0, 0, 1);
+
+/**
+ * Creates a 2D skew matrix, like CSS `skew(x, y)`.
+ *
+ * @param x - Angle in radians that vertical lines lean by
+ * @param y - Angle in radians that horizontal lines lean by (default: 0)
+ */
+export const mat3Skew = (x: number, y: number = 0): Matrix3x3 =>
+  mat3FromValues(1, Math.tan(x), 0, Math.tan(y), 1, 0, 0, 0, 1);
+
+/**
+ * Calculates the determinant of a 3x3 matrix.
+ *
+ * @remarks
+ * For affine transforms this is the area scale factor; a negative value
+ * means the transform mirrors geometry.
+ */
+export const mat3Determinant = (m: Matrix3x3): number => {
+  const [a00, a01, a02, a10, a11, a12, a20, a21, a22] = m.elements;
+  return (
+    a00 * (a11 * a22 - a12 * a21) -
+    a01 * (a10 * a22 - a12 * a20) +
+    a02 * (a10 * a21 - a11 * a20)
+  );
+};
+
+/**
+ * Calculates the inverse of a 3x3 matrix.
+ *
+ * @param m - Matrix to invert
+ * @returns The inverse matrix, or null if the matrix is singular
+ *
+ * @example
+ * ```typescript
+ * // Convert a mouse position back into the sketch's coordinate space
+ * const inverse = mat3Invert(view);
+ * if (inverse) {
+ *   const local = mat3TransformVec2(inverse, vec2(event.offsetX, event.offsetY));
+ * }
+ * ```
+ */
+export const mat3Invert = (m: Matrix3x3): Matrix3x3 | null => {
+  const [a00, a01, a02, a10, a11, a12, a20, a21, a22] = m.elements;
+
+  const c00 = a11 * a22 - a12 * a21;
+  const c01 = a12 * a20 - a10 * a22;
+  const c02 = a10 * a21 - a11 * a20;
+
+  const det = a00 * c00 + a01 * c01 + a02 * c02;
+  if (det === 0 || !isFinite(det)) return null;
+  const invDet = 1 / det;
+
+  return mat3FromValues(
+    c00 * invDet,
+    (a02 * a21 - a01 * a22) * invDet,
+    (a01 * a12 - a02 * a11) * invDet,
+    c01 * invDet,
+    (a00 * a22 - a02 * a20) * invDet,
+    (a02 * a10 - a00 * a12) * invDet,
+    c02 * invDet,
+    (a01 * a20 - a00 * a21) * invDet,
+    (a00 * a11 - a01 * a10) * invDet,
+  );
+};
+
+/**
+ * Splits a 2D affine transform into translation, rotation, scale and skew.
+ *
+ * @param m - Affine matrix (last row `0, 0, 1`)
+ * @returns The parts, or null if the matrix is singular
+ *
+ * @remarks
+ * The parts satisfy `mat3Compose(mat3Decompose(m)) ≈ m`. Mirroring is
+ * reported as a negative y scale. Decomposing two transforms and
+ * interpolating the parts animates between them without the shearing
+ * that interpolating matrix elements directly produces.
+ *
+ * @example
+ * ```typescript
+ * const from = mat3Decompose(start)!;
+ * const to = mat3Decompose(end)!;
+ * const m = mat3Compose({
+ *   translation: vec2Lerp(from.translation, to.translation, t),
+ *   rotation: lerp(from.rotation, to.rotation, t),
+ *   scale: vec2Lerp(from.scale, to.scale, t),
+ *   skew: lerp(from.skew, to.skew, t),
+ * });
+ * ```
+ */
+export const mat3Decompose = (m: Matrix3x3): AffineDecomposition | null => {
+  const [a, c, e, b, d, f] = m.elements;
+  const det = a * d - b * c;
+  if (det === 0 || !isFinite(det)) return null;
+
+  const scaleX = Math.hypot(a, b);
+  return {
+    translation: vec2(e, f),
+    rotation: Math.atan2(b, a),
+    scale: vec2(scaleX, det / scaleX),
+    skew: Math.atan((a * c + b * d) / det),
+  };
+};
+
+/**
+ * Builds a 2D affine transform from its parts.
+ *
+ * @param parts - Any of translation, rotation, scale and skew; missing parts
+ * default to the identity
+ * @returns Matrix applying scale, then skew, then rotation, then translation
+ *
+ * @see {@link mat3Decompose} for the inverse operation
+ */
+export const mat3Compose = (parts: Partial<AffineDecomposition>): Matrix3x3 => {
+  const { translation = vec2(0, 0), rotation = 0, skew = 0 } = parts;
+  const { scale = vec2(1, 1) } = parts;
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const shear = Math.tan(skew) * scale.y;
+
+  return mat3FromValues(
+    cos * scale.x,
+    cos * shear - sin * scale.y,
+    translation.x,
+    sin * scale.x,
+    sin * shear + cos * scale.y,
+    translation.y,
+    0,
+    0,
+    1,
+  );
+};
+
+/**
+ * Converts a 2D affine matrix to the `[a, b, c, d, e, f]` order used by the
+ * DOM.
+ *
+ * @example
+ * ```typescript
+ * ctx.setTransform(...mat3ToDOMMatrix(m));
+ * element.style.transform = `matrix(${mat3ToDOMMatrix(m).join(", ")})`;
+ * const dom = new DOMMatrix(mat3ToDOMMatrix(m));
+ * ```
+ */
+export const mat3ToDOMMatrix = (m: Matrix3x3): AffineTuple => {
+  const [a, c, e, b, d, f] = m.elements;
+  return [a, b, c, d, e, f];
+};
+
+/**
+ * Creates a 2D affine matrix from a `[a, b, c, d, e, f]` tuple or an object
+ * with those fields, such as the `DOMMatrix` returned by
+ * `ctx.getTransform()`.
+ */
+export const mat3FromDOMMatrix = (
+  m:
+    | AffineTuple
+    | {
+        readonly a: number;
+        readonly b: number;
+        readonly c: number;
+        readonly d: number;
+        readonly e: number;
+        readonly f: number;
+      },
+): Matrix3x3 => {
+  const [a, b, c, d, e, f] = "a" in m ? [m.a, m.b, m.c, m.d, m.e, m.f] : m;
+  return mat3FromValues(a, c, e, b, d, f, 0, 0, 1);
+};
+
+// ============================================================================
+// Matrix4x4 Utilities
+// ============================================================================
+
+/**
+ * Creates a 4x4 identity matrix.
+ *
+ * @returns Identity matrix
+ *
+ * @remarks
+ * 4x4 matrices share the row-major layout of {@link mat3Identity}: element
+ * `elements[row * 4 + col]`, with the translation stored in the last column
+ * (indices 3, 7 and 11). Vectors are treated as columns, so in
+ * `mat4Multiply(a, b)` the transform `b` is applied first.
+ *
+ * @see {@link mat4Multiply} for combining transforms
+ * @see {@link mat4TransformVec3} for applying a transform to a point
+ */
+export const mat4Identity = (): Matrix4x4 => ({
+  elements: [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1],
+});
+
+/**
+ * Creates a 4x4 matrix from 16 values given in row-major order.
+ *
+ * @example
+ * ```typescript
+ * // Translation by (5, 3, 1)
+ * const m = mat4FromValues(
+ *   1, 0, 0, 5,
+ *   0, 1, 0, 3,
+ *   0, 0, 1, 1,
+ *   0, 0, 0, 1,
+ * );
+ * ```
+ */
+export const mat4FromValues = (
+  m00: number,
+  m01: number,
+  m02: number,
+  m03: number,
+  m10: number,
+  m11: number,
+  m12: number,
+  m13: number,
+  m20: number,
+  m21: number,
+  m22: number,
+  m23: number,
+  m30: number,
+  m31: number,
+  m32: number,
+  m33: number,
+): Matrix4x4 => ({
+  elements: [
+    m00,
+    m01,
+    m02,
+    m03,
+    m10,
+    m11,
+    m12,
+    m13,
+    m20,
+    m21,
+    m22,
+    m23,
+    m30,
+    m31,
+    m32,
+    m33,
+  ],
+});
+
+/**
+ * Multiplies two 4x4 matrices (a × b).
+ *
+ * @param a - Left matrix (applied last)
+ * @param b - Right matrix (applied first)
+ * @returns Product matrix
+ *
+ * @example
+ * ```typescript
+ * // Rotate first, then move away from the camera
+ * const model = mat4Multiply(mat4Translate(0, 0, -5), mat4RotateY(angle));
+ * ```
+ */
+export const mat4Multiply = (a: Matrix4x4, b: Matrix4x4): Matrix4x4 => {
+  const ae = a.elements;
+  const be = b.elements;
+  // Dot product of row `r` of a (its first index) with column `c` of b
+  const cell = (r: number, c: number): number =>
+    ae[r] * be[c] +
+    ae[r + 1] * be[c + 4] +
+    ae[r + 2] * be[c + 8] +
+    ae[r + 3] * be[c + 12];
+
+  return {
+    elements: [
+      cell(0, 0),
+      cell(0, 1),
+      cell(0, 2),
+      cell(0, 3),
+      cell(4, 0),
+      cell(4, 1),
+      cell(4, 2),
+      cell(4, 3),
+      cell(8, 0),
+      cell(8, 1),
+      cell(8, 2),
+      cell(8, 3),
+      cell(12, 0),
+      cell(12, 1),
+      cell(12, 2),
+      cell(12, 3),
+    ],
+  };
+};
+
+/**
+ * Returns the transpose of a 4x4 matrix (rows become columns).
+ */
+export const mat4Transpose = (m: Matrix4x4): Matrix4x4 => {
+  const e = m.elements;
+  return mat4FromValues(
+    e[0],
+    e[4],
+    e[8],
+    e[12],
+    e[1],
+    e[5],
+    e[9],
+    e[13],
+    e[2],
+    e[6],
+    e[10],
+    e[14],
+    e[3],
+    e[7],
+    e[11],
+    e[15],
+  );
+};
+
+/**
+ * Calculates the determinant of a 4x4 matrix.
+ *
+ * @remarks
+ * A determinant of zero means the matrix is singular and has no inverse.
+ * For affine transforms the determinant equals the volume scale factor;
+ * a negative value indicates the transform mirrors geometry.
+ */
+export const mat4Determinant = (m: Matrix4x4): number => {
+  const [
+    a00,
+    a01,
+    a02,
+    a03,
+    a10,
+    a11,
+    a12,
+    a13,
+    a20,
+    a21,
+    a22,
+    a23,
+    a30,
+    a31,
+    a32,
+    a33,
+  ] = m.elements;
+
+  const b00 = a00 * a11 - a01 * a10;
+  const b01 = a00 * a12 - a02 * a10;
+  const b02 = a00 * a13 - a03 * a10;
+  const b03 = a01 * a12 - a02 * a11;
+  const b04 = a01 * a13 - a03 * a11;
+  const b05 = a02 * a13 - a03 * a12;
+  const b06 = a20 * a31 - a21 * a30;
+  const b07 = a20 * a32 - a22 * a30;
+  const b08 = a20 * a33 - a23 * a30;
+  const b09 = a21 * a32 - a22 * a31;
+  const b10 = a21 * a33 - a23 * a31;
+  const b11 = a22 * a33 - a23 * a32;
+
+  return b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+};
+
+/**
+ * Calculates the inverse of a 4x4 matrix.
+ *
+ * @param m - Matrix to invert
+ * @returns The inverse matrix, or null if the matrix is singular
+ *
+ * @example
+ * ```typescript
+ * const view = mat4LookAt(eye, target, up);
+ * const cameraToWorld = mat4Invert(view);
+ * ```
+ */
+export const mat4Invert = (m: Matrix4x4): Matrix4x4 | null => {
+  const [
+    a00,
+    a01,
+    a02,
+    a03,
+    a10,
+    a11,
+    a12,
+    a13,
+    a20,
+    a21,
+    a22,
+    a23,
+    a30,
+    a31,
+    a32,
+    a33,
+  ] = m.elements;
+
+  const b00 = a00 * a11 - a01 * a10;
+  const b01 = a00 * a12 - a02 * a10;
+  const b02 = a00 * a13 - a03 * a10;
+  const b03 = a01 * a12 - a02 * a11;
+  const b04 = a01 * a13 - a03 * a11;
+  const b05 = a02 * a13 - a03 * a12;
+  const b06 = a20 * a31 - a21 * a30;
+  const b07 = a20 * a32 - a22 * a30;
+  const b08 = a20 * a33 - a23 * a30;
+  const b09 = a21 * a32 - a22 * a31;
+  const b10 = a21 * a33 - a23 * a31;
+  const b11 = a22 * a33 - a23 * a32;
+
+  const det =
+    b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+  if (det === 0 || !isFinite(det)) return null;
+  const invDet = 1 / det;
+
+  return mat4FromValues(
+    (a11 * b11 - a12 * b10 + a13 * b09) * invDet,
+    (a02 * b10 - a01 * b11 - a03 * b09) * invDet,
+    (a31 * b05 - a32 * b04 + a33 * b03) * invDet,
+    (a22 * b04 - a21 * b05 - a23 * b03) * invDet,
+    (a12 * b08 - a10 * b11 - a13 * b07) * invDet,
+    (a00 * b11 - a02 * b08 + a03 * b07) * invDet,
+    (a32 * b02 - a30 * b05 - a33 * b01) * invDet,
+    (a20 * b05 - a22 * b02 + a23 * b01) * invDet,
+    (a10 * b10 - a11 * b08 + a13 * b06) * invDet,
+    (a01 * b08 - a00 * b10 - a03 * b06) * invDet,
+    (a30 * b04 - a31 * b02 + a33 * b00) * invDet,
+    (a21 * b02 - a20 * b04 - a23 * b00) * invDet,
+    (a11 * b07 - a10 * b09 - a12 * b06) * invDet,
+    (a00 * b09 - a01 * b07 + a02 * b06) * invDet,
+    (a31 * b01 - a30 * b03 - a32 * b00) * invDet,
+    (a20 * b03 - a21 * b01 + a22 * b00) * invDet,
+  );
+};
+
+/**
+ * Creates a translation matrix.
+ */
+export const mat4Translate = (x: number, y: number, z: number): Matrix4x4 =>
+  mat4FromValues(1, 0, 0, x, 0, 1, 0, y, 0, 0, 1, z, 0, 0, 0, 1);
+
+/**
+ * Creates a rotation matrix around the X axis.
+ *
+ * @param angle - Rotation angle in radians (counter-clockwise looking down -X)
+ */
+export const mat4RotateX = (angle: number): Matrix4x4 => {
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  return mat4FromValues(1, 0, 0, 0, 0, c, -s, 0, 0, s, c, 0, 0, 0, 0, 1);
+};
+
+/**
+ * Creates a rotation matrix around the Y axis.
+ *
+ * @param angle - Rotation angle in radians
+ */
+export const mat4RotateY = (angle: number): Matrix4x4 => {
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  return mat4FromValues(c, 0, s, 0, 0, 1, 0, 0, -s, 0, c, 0, 0, 0, 0, 1);
+};
+
+/**
+ * Creates a rotation matrix around the Z axis.
+ *
+ * @param angle - Rotation angle in radians
+ */
+export const mat4RotateZ = (angle: number): Matrix4x4 => {
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  return mat4FromValues(c, -s, 0, 0, s, c, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1);
+};
+
+/**
+ * Creates a scaling matrix. Omitted axes default to the X factor.
+ */
+export const mat4Scale = (x: number, y: number = x, z: number = x): Matrix4x4 =>
+  mat4FromValues(x, 0, 0, 0, 0, y, 0, 0, 0, 0, z, 0, 0, 0, 0, 1);
+
+/**
+ * Creates a right-handed view matrix looking from `eye` towards `target`.
+ *
+ * @param eye - Camera position
+ * @param target - Point the camera looks at
+ * @param up - Approximate up direction (default: +Y)
+ * @returns View matrix transforming world space into camera space
+ *
+ * @remarks
+ * The camera looks down its local -Z axis, matching {@link mat4Perspective}
+ * and {@link mat4Orthographic}. If `eye` and `target` coincide the identity
+ * matrix is returned.
+ *
+ * @example
+ * ```typescript
+ * const view = mat4LookAt(vec3(0, 2, 5), vec3(0, 0, 0));
+ * const projection = mat4Perspective(radians(60), width / height, 0.1, 100);
+ * const viewProjection = mat4Multiply(projection, view);
+ * ```
+ */
+export const mat4LookAt = (
+  eye: Vector3,
+  target: Vector3,
+  up: Vector3 = vec3(0, 1, 0),
+): Matrix4x4 => {
+  const zAxis = vec3Sub(eye, target);
+  if (vec3LengthSq(zAxis) === 0) return mat4Identity();
+
+  const z = vec3Normalize(zAxis);
+  const x = vec3Normalize(vec3Cross(up, z));
+  const y = vec3Cross(z, x);
+
+  return mat4FromValues(
+    x.x,
+    x.y,
+    x.z,
+    -vec3Dot(x, eye),
+    y.x,
+    y.y,
+    y.z,
+    -vec3Dot(y, eye),
+    z.x,
+    z.y,
+    z.z,
+    -vec3Dot(z, eye),
+    0,
+    0,
+    0,
+    1,
+  );
+};
+
+/**
+ * Creates a perspective projection matrix (OpenGL clip-space conventions).
+ *
+ * @param fovY - Vertical field of view in radians
+ * @param aspect - Viewport width divided by height
+ * @param near - Distance to the near clipping plane (must be positive)
+ * @param far - Distance to the far clipping plane; may be Infinity
+ * @returns Projection matrix mapping the view frustum to the [-1, 1] cube
+ *
+ * @remarks
+ * Points in front of the camera have negative Z in view space. After
+ * {@link mat4TransformVec3} applies the perspective divide, visible points
+ * land in [-1, 1] on every axis, with the near plane at z = -1. To cull
+ * before dividing, use {@link mat4TransformVec4} and {@link clipOutcode}.
+ */
+export const mat4Perspective = (
+  fovY: number,
+  aspect: number,
+  near: number,
+  far: number,
+): Matrix4x4 => {
+  const f = 1 / Math.tan(fovY / 2);
+
+  if (far === Infinity) {
+    return mat4FromValues(
+      f / aspect,
+      0,
+      0,
+      0,
+      0,
+      f,
+      0,
+      0,
+      0,
+      0,
+      -1,
+      -2 * near,
+      0,
+      0,
+      -1,
+      0,
+    );
+  }
+
+  const rangeInv = 1 / (near - far);
+  return mat4FromValues(
+    f / aspect,
+    0,
+    0,
+    0,
+    0,
+    f,
+    0,
+    0,
+    0,
+    0,
+    (far + near) * rangeInv,
+    2 * far * near * rangeInv,
+    0,
+    0,
+    -1,
+    0,
+  );
+};
+
+/**
+ * Creates an orthographic projection matrix (OpenGL clip-space conventions).
+ *
+ * @remarks
+ * Maps the box [left, right] × [bottom, top] × [-near, -far] in view space
+ * to the [-1, 1] cube without any perspective foreshortening.
+ */
+export const mat4Orthographic = (
+  left: number,
+  right: number,
+  bottom: number,
+  top: number,
+  near: number,
+  far: number,
+): Matrix4x4 => {
+  const lr = 1 / (right - left);
+  const bt = 1 / (top - bottom);
+  const nf = 1 / (far - near);
+
+  return mat4FromValues(
+    2 * lr,
+    0,
+    0,
+    -(right + left) * lr,
+    0,
+    2 * bt,
+    0,
+    -(top + bottom) * bt,
+    0,
+    0,
+    -2 * nf,
+    -(far + near) * nf,
+    0,
+    0,
+    0,
+    1,
+  );
+};
+
+/**
+ * Transforms a 3D point by a 4x4 matrix, including the perspective divide.
+ *
+ * @param m - Transformation matrix
+ * @param v - Point to transform (treated as having w = 1)
+ * @returns Transformed point
+ *
+ * @remarks
+ * The result is divided by the computed w component, so projection matrices
+ * such as {@link mat4Perspective} yield normalized device coordinates.
+ * When w is zero (a point on the camera plane) no divide is performed.
+ *
+ * @example
+ * ```typescript
+ * const mvp = mat4Multiply(projection, mat4Multiply(view, model));
+ * const ndc = mat4TransformVec3(mvp, vertex);
+ * const screenX = (ndc.x + 1) * 0.5 * width;
+ * const screenY = (1 - ndc.y) * 0.5 * height;
+ * ```
+ */
+export const mat4TransformVec3 = (m: Matrix4x4, v: Vector3): Vector3 => {
+  const e = m.elements;
+  const x = e[0] * v.x + e[1] * v.y + e[2] * v.z + e[3];
+  const y = e[4] * v.x + e[5] * v.y + e[6] * v.z + e[7];
+  const z = e[8] * v.x + e[9] * v.y + e[10] * v.z + e[11];
+  const w = e[12] * v.x + e[13] * v.y + e[14] * v.z + e[15];
+
+  if (w === 0 || w === 1) return { x, y, z };
+  return { x: x / w, y: y / w, z: z / w };
+};
+
+/**
+ * Transforms a 4D vector by a 4x4 matrix without a perspective divide.
+ *
+ * @remarks
+ * With a projection matrix the result is in clip space, where visibility can
+ * be tested with {@link clipOutcode} before dividing by w. Unlike
+ * {@link mat4TransformVec3}, points behind the camera keep their negative w
+ * and are not mirrored into view.
+ */
+export const mat4TransformVec4 = (m: Matrix4x4, v: Vector4): Vector4 => {
+  const e = m.elements;
+  return {
+    x: e[0] * v.x + e[1] * v.y + e[2] * v.z + e[3] * v.w,
+    y: e[4] * v.x + e[5] * v.y + e[6] * v.z + e[7] * v.w,
+    z: e[8] * v.x + e[9] * v.y + e[10] * v.z + e[11] * v.w,
+    w: e[12] * v.x + e[13] * v.y + e[14] * v.z + e[15] * v.w,
+  };
+};
+
+/** Outcode bit for a clip-space point beyond the left plane (x < -w) */
+export const CLIP_LEFT = 1;
+/** Outcode bit for a clip-space point beyond the right plane (x > w) */
+export const CLIP_RIGHT = 2;
+/** Outcode bit for a clip-space point below the bottom plane (y < -w) */
+export const CLIP_BOTTOM = 4;
+/** Outcode bit for a clip-space point above the top plane (y > w) */
+export const CLIP_TOP = 8;
+/** Outcode bit for a clip-space point in front of the near plane (z < -w) */
+export const CLIP_NEAR = 16;
+/** Outcode bit for a clip-space point beyond the far plane (z > w) */
+export const CLIP_FAR = 32;
+
+/**
+ * Classifies a clip-space point against the six planes of the view frustum.
+ *
+ * @param v - Point in clip space, from {@link mat4TransformVec4}
+ * @returns Bitmask of the `CLIP_*` planes the point is outside; 0 if visible
+ *
+ * @remarks
+ * Uses the OpenGL convention of {@link mat4Perspective} and
+ * {@link mat4Orthographic}: a point is visible when -w ≤ x, y, z ≤ w.
+ * Testing before the perspective divide stays correct for points behind the
+ * camera, which have w < 0.
+ */
+export const clipOutcode = (v: Vector4): number => {
+  let code = 0;
+  if (v.x < -v.w) code |= CLIP_LEFT;
+  if (v.x > v.w) code |= CLIP_RIGHT;
+  if (v.y < -v.w) code |= CLIP_BOTTOM;
+  if (v.y > v.w) code |= CLIP_TOP;
+  if (v.z < -v.w) code |= CLIP_NEAR;
+  if (v.z > v.w) code |= CLIP_FAR;
+  return code;
+};
+
+/**
+ * Tests whether a shape can be culled: all of its clip-space points lie
+ * outside the same frustum plane.
+ *
+ * @param points - Vertices of a triangle, mesh or bounding box in clip space
+ * @returns true if the shape is certainly invisible
+ *
+ * @remarks
+ * This is conservative: a large shape whose points are outside different
+ * planes is kept even if it misses the frustum, which is the usual trade-off
+ * for cheap per-object culling.
+ *
+ * @example
+ * ```typescript
+ * const clip = corners.map((c) => mat4TransformVec4(mvp, vec4FromVec3(c)));
+ * if (!clipCull(clip)) drawMesh(mesh);
+ * ```
+ */
+export const clipCull = (points: readonly Vector4[]): boolean => {
+  if (points.length === 0) return true;
+  let common =
+    CLIP_LEFT | CLIP_RIGHT | CLIP_BOTTOM | CLIP_TOP | CLIP_NEAR | CLIP_FAR;
+  for (const point of points) {
+    common &= clipOutcode(point);
+    if (common === 0) return false;
+  }
+  return true;
+};
+
+// ============================================================================
+// Quaternion Utilities
+// ============================================================================
+
+/**
+ * Creates a quaternion from its components.
+ *
+ * @remarks
+ * Quaternions represent 3D rotations without the gimbal lock of Euler angles
+ * and interpolate smoothly with {@link quatSlerp}. The vector part is
+ * (x, y, z) and the scalar part is w; rotation quaternions have unit length.
+ *
+ * @see {@link quatFromAxisAngle} and {@link quatFromEuler} for building rotations
+ */
+export const quat = (
+  x: number,
+  y: number,
+  z: number,
+  w: number,
+): Quaternion => ({
+  x,
+  y,
+  z,
+  w,
+});
+
+/**
+ * Creates the identity quaternion (no rotation).
+ */
+export const quatIdentity = (): Quaternion => quat(0, 0, 0, 1);
+
+/**
+ * Creates a rotation of `angle` radians around `axis`.
+ *
+ * @param axis - Rotation axis (normalized internally)
+ * @param angle - Rotation angle in radians, counter-clockwise looking down the axis
+ * @returns Unit quaternion, or the identity if the axis has zero length
+ *
+ * @example
+ * ```typescript
+ * const spin = quatFromAxisAngle(vec3(0, 1, 0), HALF_PI);
+ * quatRotateVec3(spin, vec3(0, 0, 1)); // ≈ { x: 1, y: 0, z: 0 }
+ * ```
+ */
+export const quatFromAxisAngle = (axis: Vector3, angle: number): Quaternion => {
+  const n = vec3Normalize(axis);
+  if (vec3LengthSq(n) === 0) return quatIdentity();
+
+  const half = angle / 2;
+  const s = Math.sin(half);
+  return quat(n.x * s, n.y * s, n.z * s, Math.cos(half));
+};
+
+/**
+ * Creates a rotation from Euler angles in radians.
+ *
+ * @remarks
+ * The result matches `mat4RotateX(x) × mat4RotateY(y) × mat4RotateZ(z)`, so
+ * the Z rotation is applied first and the X rotation last.
+ */
+export const quatFromEuler = (x: number, y: number, z: number): Quaternion => {
+  const c1 = Math.cos(x / 2);
+  const c2 = Math.cos(y / 2);
+  const c3 = Math.cos(z / 2);
+  const s1 = Math.sin(x / 2);
+  const s2 = Math.sin(y / 2);
+  const s3 = Math.sin(z / 2);
+
+  return quat(
+    s1 * c2 * c3 + c1 * s2 * s3,
+    c1 * s2 * c3 - s1 * c2 * s3,
+    c1 * c2 * s3 + s1 * s2 * c3,
+    c1 * c2 * c3 - s1 * s2 * s3,
+  );
+};
+
+/**
+ * Multiplies two quaternions (a × b).
+ *
+ * @remarks
+ * Like matrix multiplication, the right-hand rotation `b` is applied first.
+ */
+export const quatMultiply = (a: Quaternion, b: Quaternion): Quaternion =>
+  quat(
+    a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+    a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+    a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w,
+    a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z,
+  );
+
+/**
+ * Returns the conjugate of a quaternion. For unit quaternions this is the
+ * inverse rotation.
+ */
+export const quatConjugate = (q: Quaternion): Quaternion =>
+  quat(-q.x, -q.y, -q.z, q.w);
+
+export const quatDot = (a: Quaternion, b: Quaternion): number => {
+  return a.x * b.x + a.y * b.y + a.z * b.z + a.w * b.w;
+};
+
+export const quatLength = (q: Quaternion): number => {
+  return Math.sqrt(quatDot(q, q));
+};
+
+/**
+ * Returns the multiplicative inverse of a quaternion.
+ *
+ * @remarks
+ * Works for non-unit quaternions as well. The zero quaternion has no inverse
+ * and yields a zero quaternion.
+ */
+export const quatInverse = (q: Quaternion): Quaternion => {
+  const lengthSq = quatDot(q, q);
+  if (lengthSq === 0) return quat(0, 0, 0, 0);
+  return quat(
+    -q.x / lengthSq,
+    -q.y / lengthSq,
+    -q.z / lengthSq,
+    q.w / lengthSq,
+  );
+};
+
+/**
+ * Scales a quaternion to unit length. The zero quaternion normalizes to the identity.
+ */
+export const quatNormalize = (q: Quaternion): Quaternion => {
+  const length = quatLength(q);
+  if (length === 0) return quatIdentity();
+  return quat(q.x / length, q.y / length, q.z / length, q.w / length);
+};
+
+/**
+ * Spherical linear interpolation between two rotations.
+ *
+ * @param a - Start rotation (returned when t = 0)
+ * @param b - End rotation (returned when t = 1)
+ * @param t - Interpolation factor
+ * @returns Interpolated unit quaternion
+ *
+ * @remarks
+ * Slerp moves at constant angular velocity along the shortest arc between
+ * the two orientations, which makes it ideal for camera and object rotations.
+ * Nearly identical rotations fall back to normalized linear interpolation
+ * to avoid dividing by a vanishing sine.
+ *
+ * @example
+ * ```typescript
+ * const from = quatFromEuler(0, 0, 0);
+ * const to = quatFromEuler(0, PI, 0);
+ * const halfway = quatSlerp(from, to, 0.5); // 90° around Y
+ * ```
+ */
+export const quatSlerp = (
+  a: Quaternion,
+  b: Quaternion,
+  t: number,
+): Quaternion => {
+  let cosTheta = quatDot(a, b);
+  let end = b;
+
+  // q and -q encode the same rotation; flip to take the shorter arc
+  if (cosTheta < 0) {
+    cosTheta = -cosTheta;
+    end = quat(-b.x, -b.y, -b.z, -b.w);
+  }
+
+  if (cosTheta > 0.9995) {
+    return quatNormalize(
+      quat(
+        lerp(a.x, end.x, t),
+        lerp(a.y, end.y, t),
+        lerp(a.z, end.z, t),
+        lerp(a.w, end.w, t),
+      ),
+    );
+  }
+
+  const theta = Math.acos(cosTheta);
+  const sinTheta = Math.sin(theta);
+  const wa = Math.sin((1 - t) * theta) / sinTheta;
+  const wb = Math.sin(t * theta) / sinTheta;
+
+  return quat(
+    a.x * wa + end.x * wb,
+    a.y * wa + end.y * wb,
+    a.z * wa + end.z * wb,
+    a.w * wa + end.w * wb,
+  );
+};
+
+/**
+ * Rotates a 3D vector by a unit quaternion.
+ */
+export const quatRotateVec3 = (q: Quaternion, v: Vector3): Vector3 => {
+  // t = 2 * (q.xyz × v); v' = v + w * t + q.xyz × t
+  const tx = 2 * (q.y * v.z - q.z * v.y);
+  const ty = 2 * (q.z * v.x - q.x * v.z);
+  const tz = 2 * (q.x * v.y - q.y * v.x);
+
+  return {
+    x: v.x + q.w * tx + (q.y * tz - q.z * ty),
+    y: v.y + q.w * ty + (q.z * tx - q.x * tz),
+    z: v.z + q.w * tz + (q.x * ty - q.y * tx),
+  };
+};
+
+/**
+ * Converts a unit quaternion to a 4x4 rotation matrix.
+ */
+export const quatToMat4 = (q: Quaternion): Matrix4x4 => {
+  const { x, y, z, w } = q;
+  const xx = x * x;
+  const yy = y * y;
+  const zz = z * z;
+  const xy = x * y;
+  const xz = x * z;
+  const yz = y * z;
+  const wx = w * x;
+  const wy = w * y;
+  const wz = w * z;
+
+  return mat4FromValues(
+    1 - 2 * (yy + zz),
+    2 * (xy - wz),
+    2 * (xz + wy),
+    0,
+    2 * (xy + wz),
+    1 - 2 * (xx + zz),
+    2 * (yz - wx),
+    0,
+    2 * (xz - wy),
+    2 * (yz + wx),
+    1 - 2 * (xx + yy),
+    0,
+    0,
+    0,
+    0,
+    1,
+  );
+};
+
+// ============================================================================
+// Dense Matrix Utilities
+// ============================================================================
+
+/**
+ * Creates a dense rows × cols matrix.
+ *
+ * @param rows - Number of rows
+ * @param cols - Number of columns
+ * @param data - Row-major values to copy (default: all zeros)
+ * @throws {Error} If the data length does not equal rows × cols
+ *
+ * @remarks
+ * Dense matrices complement the fixed-size {@link Matrix3x3} and
+ * {@link Matrix4x4} helpers for systems whose size is only known at run
+ * time, such as stiffness matrices, circuit nodal equations and data fits.
+ * Functions never modify their inputs.
+ *
+ * @example
+ * ```typescript
+ * const a = matN(2, 3, [1, 2, 3, 4, 5, 6]);
+ * matNGet(a, 1, 2); // 6
+ * ```
+ */
+export const matN = (
+  rows: number,
+  cols: number,
+  data?: ArrayLike<number>,
+): MatrixN => {
+  if (
+    !Number.isInteger(rows) ||
+    !Number.isInteger(cols) ||
+    rows < 0 ||
+    cols < 0
+  ) {
+    throw new Error(`Invalid matrix size ${rows}x${cols}`);
+  }
+  if (data && data.length !== rows * cols) {
+    throw new Error(
+      `Expected ${rows * cols} values for a ${rows}x${cols} matrix, got ${data.length}`,
+    );
+  }
+  return {
+    rows,
+    cols,
+    data: data ? Float64Array.from(data) : new Float64Array(rows * cols),
+  };
+};
+
+/**
+ * Creates an n × n identity matrix.
+ */
+export const matNIdentity = (n: number): MatrixN => {
+  const m = matN(n, n);
+  for (let i = 0; i < n; i++) m.data[i * n + i] = 1;
+  return m;
+};
+
+/**
+ * Creates a matrix from an array of rows.
+ *
+ * @throws {Error} If the rows have different lengths
+ *
+ * @example
+ * ```typescript
+ * const a = matNFromRows([
+ *   [4, -2],
+ *   [1, 1],
+ * ]);
+ * ```
+ */
+export const matNFromRows = (rows: readonly (readonly number[])[]): MatrixN => {
+  const cols = rows.length > 0 ? rows[0].length : 0;
+  const m = matN(rows.length, cols);
+  rows.forEach((row, i) => {
+    if (row.length !== cols) {
+      throw new Error("All rows must have the same length");
+    }
+    m.data.set(row, i * cols);
+  });
+  return m;
+};
+
+/**
+ * Converts a matrix to an array of rows.
+ */
+export const matNToRows = (m: MatrixN): number[][] =>
+  Array.from({ length: m.rows }, (_, i) =>
+    Array.from(m.data.subarray(i * m.cols, (i + 1) * m.cols)),
+  );
+
+export const matNGet = (m: MatrixN, row: number, col: number): number =>
+  m.data[row * m.cols + col];
+
+export const matNTranspose = (m: MatrixN): MatrixN => {
+  const result = matN(m.cols, m.rows);
+  for (let i = 0; i < m.rows; i++) {
+    for (let j = 0; j < m.cols; j++) {
+      result.data[j * m.rows + i] = m.data[i * m.cols + j];
+    }
+  }
+  return result;
+};
+
+/**
+ * Multiplies two matrices (a × b).
+ *
+ * @throws {Error} If a's column count differs from b's row count
+ */
+export const matNMultiply = (a: MatrixN, b: MatrixN): MatrixN => {
+  if (a.cols !== b.rows) {
+    throw new Error(
+      `Cannot multiply ${a.rows}x${a.cols} and ${b.rows}x${b.cols} matrices`,
+    );
+  }
+
+  const result = matN(a.rows, b.cols);
+  for (let i = 0; i < a.rows; i++) {
+    for (let k = 0; k < a.cols; k++) {
+      const aik = a.data[i * a.cols + k];
+      if (aik === 0) continue;
+      for (let j = 0; j < b.cols; j++) {
+        result.data[i * b.cols + j] += aik * b.data[k * b.cols + j];
+      }
+    }
+  }
+  return result;
+};
+
+/**
+ * Multiplies a matrix by a column vector.
+ *
+ * @throws {Error} If the vector length differs from the column count
+ */
+export const matNMultiplyVec = (
+  m: MatrixN,
+  v: ArrayLike<number>,
+): Float64Array => {
+  if (v.length !== m.cols) {
+    throw new Error(
+      `Cannot multiply a ${m.rows}x${m.cols} matrix by a vector of length ${v.length}`,
+    );
+  }
+
+  const result = new Float64Array(m.rows);
+  for (let i = 0; i < m.rows; i++) {
+    let sum = 0;
+    for (let j = 0; j < m.cols; j++) sum += m.data[i * m.cols + j] * v[j];
+    result[i] = sum;
+  }
+  return result;
+};
+
+const requireSquare = (m: MatrixN, operation: string): void => {
+  if (m.rows !== m.cols) {
+    throw new Error(
+      `${operation} requires a square matrix, got ${m.rows}x${m.cols}`,
+    );
+  }
+};
+
+/**
+ * Factors a square matrix as PA = LU using Gaussian elimination with partial pivoting.
+ *
+ * @param m - Square matrix
+ * @returns Combined L and U factors with the row permutation
+ * @throws {Error} If the matrix is not square
+ *
+ * @remarks
+ * Factor once and call {@link luSolve} for each right-hand side when
+ * solving the same system repeatedly, e.g. a structure under several load
+ * cases. Singular matrices still factor, but have a zero on U's diagonal,
+ * or after rounding a pivot that is negligible next to the rest of its row.
+ */
+export const luDecompose = (m: MatrixN): LUDecomposition => {
+  requireSquare(m, "LU decomposition");
+
+  const n = m.rows;
+  const a = Float64Array.from(m.data);
+  const pivots = new Int32Array(n);
+  for (let i = 0; i < n; i++) pivots[i] = i;
+  let sign: 1 | -1 = 1;
+
+  const scales = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      scales[i] = Math.max(scales[i], Math.abs(a[i * n + j]));
+    }
+  }
+
+  for (let k = 0; k < n; k++) {
+    // Choose the largest remaining entry in column k as the pivot
+    let pivotRow = k;
+    for (let i = k + 1; i < n; i++) {
+      if (Math.abs(a[i * n + k]) > Math.abs(a[pivotRow * n + k])) pivotRow = i;
+    }
+
+    if (pivotRow !== k) {
+      for (let j = 0; j < n; j++) {
+        const temp = a[k * n + j];
+        a[k * n + j] = a[pivotRow * n + j];
+        a[pivotRow * n + j] = temp;
+      }
+      const temp = pivots[k];
+      pivots[k] = pivots[pivotRow];
+      pivots[pivotRow] = temp;
+      sign = sign === 1 ? -1 : 1;
+    }
+
+    const pivot = a[k * n + k];
+    if (pivot === 0) continue;
+
+    for (let i = k + 1; i < n; i++) {
+      const factor = (a[i * n + k] /= pivot);
+      if (factor === 0) continue;
+      for (let j = k + 1; j < n; j++) a[i * n + j] -= factor * a[k * n + j];
+    }
+  }
+
+  return {
+    lu: { rows: n, cols: n, data: a },
+    pivots,
+    sign,
+    rowScales: Float64Array.from(pivots, (row) => scales[row]),
+  };
+};
+
+// Rounding rarely leaves an exact zero pivot, so a pivot counts as zero when
+// it is within n·ε of the largest entry in its own row of A. Judging each row
+// by its own scale keeps badly scaled but regular matrices solvable.
+const isSingularLU = ({ lu, rowScales }: LUDecomposition): boolean => {
+  const n = lu.rows;
+  for (let i = 0; i < n; i++) {
+    const tolerance = n * Number.EPSILON * rowScales[i];
+    if (Math.abs(lu.data[i * n + i]) <= tolerance) return true;
+  }
+  return false;
+};
+
+/**
+ * Solves Ax = b using a precomputed LU decomposition of A.
+ *
+ * @param decomposition - Output of {@link luDecompose}
+ * @param b - Right-hand side
+ * @returns Solution x, or null if A is singular
+ * @throws {Error} If b has the wrong length
+ */
+export const luSolve = (
+  decomposition: LUDecomposition,
+  b: ArrayLike<number>,
+): Float64Array | null => {
+  const { lu, pivots } = decomposition;
+  const n = lu.rows;
+  const a = lu.data;
+  if (b.length !== n) {
+    throw new Error(`Right-hand side has length ${b.length}, expected ${n}`);
+  }
+  if (isSingularLU(decomposition)) return null;
+
+  // Forward substitution with the unit lower triangle: Ly = Pb
+  const x = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = b[pivots[i]];
+    for (let j = 0; j < i; j++) sum -= a[i * n + j] * x[j];
+    x[i] = sum;
+  }
+
+  // Back substitution with the upper triangle: Ux = y
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = x[i];
+    for (let j = i + 1; j < n; j++) sum -= a[i * n + j] * x[j];
+    x[i] = sum / a[i * n + i];
+  }
+
+  return x;
+};
+
+// Solves Aᵀx = b from PA = LU, i.e. Uᵀ Lᵀ P x = b
+const luSolveTransposed = (
+  { lu, pivots }: LUDecomposition,
+  b: ArrayLike<number>,
+): Float64Array => {
+  const n = lu.rows;
+  const a = lu.data;
+  const w = new Float64Array(n);
+
+  for (let i = 0; i < n; i++) {
+    let sum = b[i];
+    for (let j = 0; j < i; j++) sum -= a[j * n + i] * w[j];
+    w[i] = sum / a[i * n + i];
+  }
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = w[i];
+    for (let j = i + 1; j < n; j++) sum -= a[j * n + i] * w[j];
+    w[i] = sum;
+  }
+
+  const x = new Float64Array(n);
+  for (let i = 0; i < n; i++) x[pivots[i]] = w[i];
+  return x;
+};
+
+/**
+ * Solves the square linear system Ax = b.
+ *
+ * @param a - Square coefficient matrix
+ * @param b - Right-hand side
+ * @returns Solution x, or null if A is singular
+ * @throws {Error} If A is not square or b has the wrong length
+ *
+ * @example
+ * ```typescript
+ * // Nodal analysis: conductance matrix G, injected currents I
+ * const voltages = matNSolve(G, currents);
+ * ```
+ */
+export const matNSolve = (
+  a: MatrixN,
+  b: ArrayLike<number>,
+): Float64Array | null => luSolve(luDecompose(a), b);
+
+/**
+ * Calculates the determinant of a square matrix from its LU decomposition.
+ *
+ * @throws {Error} If the matrix is not square
+ */
+export const matNDeterminant = (m: MatrixN): number => {
+  const { lu, sign } = luDecompose(m);
+  let det: number = sign;
+  for (let i = 0; i < lu.rows; i++) det *= lu.data[i * lu.cols + i];
+  // Avoid reporting -0 for singular matrices
+  return det === 0 ? 0 : det;
+};
+
+/**
+ * Calculates the inverse of a square matrix.
+ *
+ * @returns The inverse matrix, or null if the matrix is singular
+ * @throws {Error} If the matrix is not square
+ *
+ * @remarks
+ * Prefer {@link matNSolve} when the inverse is only used to multiply a
+ * vector; it is faster and more accurate.
+ */
+export const matNInvert = (m: MatrixN): MatrixN | null => {
+  const decomposition = luDecompose(m);
+  if (isSingularLU(decomposition)) return null;
+
+  const n = m.rows;
+  const result = matN(n, n);
+  const unit = new Float64Array(n);
+  for (let j = 0; j < n; j++) {
+    unit.fill(0);
+    unit[j] = 1;
+    const column = luSolve(decomposition, unit) as Float64Array;
+    for (let i = 0; i < n; i++) result.data[i * n + j] = column[i];
+  }
+  return result;
+};
+
+// Householder reduction of an m × n matrix (m >= n); returns R in place and the reflectors
+const householder = (m: MatrixN) => {
+  const { rows, cols } = m;
+  if (rows < cols) {
+    throw new Error(
+      `QR decomposition requires at least as many rows as columns, got ${rows}x${cols}`,
+    );
+  }
+
+  const r = Float64Array.from(m.data);
+  const reflectors: Float64Array[] = [];
+
+  for (let k = 0; k < cols; k++) {
+    const v = new Float64Array(rows - k);
+    let norm = 0;
+    for (let i = k; i < rows; i++) {
+      v[i - k] = r[i * cols + k];
+      norm += v[i - k] * v[i - k];
+    }
+    norm = Math.sqrt(norm);
+
+    // Reflect onto -sign(x₀)·‖x‖·e₁ to avoid cancellation
+    const alpha = v[0] > 0 ? -norm : norm;
+    v[0] -= alpha;
+    let vNorm = 0;
+    for (let i = 0; i < v.length; i++) vNorm += v[i] * v[i];
+    vNorm = Math.sqrt(vNorm);
+    if (vNorm > 0) {
+      for (let i = 0; i < v.length; i++) v[i] /= vNorm;
+      for (let j = k; j < cols; j++) {
+        let dot = 0;
+        for (let i = k; i < rows; i++) dot += v[i - k] * r[i * cols + j];
+        for (let i = k; i < rows; i++) r[i * cols + j] -= 2 * dot * v[i - k];
+      }
+    }
+    reflectors.push(v);
+  }
+
+  return { r, reflectors };
+};
+
+/**
+ * Computes the thin QR decomposition of a matrix with Householder reflections.
+ *
+ * @param m - Matrix with at least as many rows as columns
+ * @returns Q (rows × cols, orthonormal columns) and R (cols × cols, upper triangular)
+ * @throws {Error} If the matrix has more columns than rows
+ */
+export const qrDecompose = (m: MatrixN): QRDecomposition => {
+  const { rows, cols } = m;
+  const { r, reflectors } = householder(m);
+
+  const upper = matN(cols, cols);
+  for (let i = 0; i < cols; i++) {
+    for (let j = i; j < cols; j++) {
+      upper.data[i * cols + j] = r[i * cols + j];
+    }
+  }
+
+  // Q = H₀H₁…Hₙ₋₁ applied to the first cols columns of the identity
+  const q = matN(rows, cols);
+  for (let i = 0; i < cols; i++) q.data[i * cols + i] = 1;
+  for (let k = cols - 1; k >= 0; k--) {
+    const v = reflectors[k];
+    for (let j = 0; j < cols; j++) {
+      let dot = 0;
+      for (let i = k; i < rows; i++) dot += v[i - k] * q.data[i * cols + j];
+      for (let i = k; i < rows; i++) q.data[i * cols + j] -= 2 * dot * v[i - k];
+    }
+  }
+
+  return { q, r: upper };
+};
+
+/**
+ * Finds x minimizing ‖Ax - b‖₂ for an overdetermined system.
+ *
+ * @param a - Matrix with at least as many rows as columns
+ * @param b - Observations, one per row of A
+ * @returns Least-squares solution, or null if the columns of A are linearly dependent
+ * @throws {Error} If A has more columns than rows or b has the wrong length
+ *
+ * @remarks
+ * Solved through QR decomposition, which avoids squaring the condition
+ * number as the normal equations AᵀAx = Aᵀb would.
+ *
+ * @example
+ * Fit a line y = c₀ + c₁x through noisy points:
+ * ```typescript
+ * const a = matNFromRows(xs.map((x) => [1, x]));
+ * const [intercept, slope] = leastSquares(a, ys)!;
+ * ```
+ */
+export const leastSquares = (
+  a: MatrixN,
+  b: ArrayLike<number>,
+): Float64Array | null => {
+  const { rows, cols } = a;
+  if (b.length !== rows) {
+    throw new Error(`Right-hand side has length ${b.length}, expected ${rows}`);
+  }
+
+  const { r, reflectors } = householder(a);
+
+  // Apply Qᵀ to b
+  const qtb = Float64Array.from(b);
+  reflectors.forEach((v, k) => {
+    let dot = 0;
+    for (let i = k; i < rows; i++) dot += v[i - k] * qtb[i];
+    for (let i = k; i < rows; i++) qtb[i] -= 2 * dot * v[i - k];
+  });
+
+  let largest = 0;
+  for (let i = 0; i < cols; i++) {
+    largest = Math.max(largest, Math.abs(r[i * cols + i]));
+  }
+  const tolerance = Math.max(rows, cols) * Number.EPSILON * largest;
+
+  const x = new Float64Array(cols);
+  for (let i = cols - 1; i >= 0; i--) {
+    const diagonal = r[i * cols + i];
+    if (Math.abs(diagonal) <= tolerance) return null;
+    let sum = qtb[i];
+    for (let j = i + 1; j < cols; j++) sum -= r[i * cols + j] * x[j];
+    x[i] = sum / diagonal;
+  }
+  return x;
+};
+
+/**
+ * Estimates the 1-norm condition number κ₁(A) = ‖A‖₁·‖A⁻¹‖₁.
+ *
+ * @param m - Square matrix
+ * @returns Condition number estimate, or Infinity if the matrix is singular
+ * @throws {Error} If the matrix is not square
+ *
+ * @remarks
+ * Uses Hager's estimator, which needs only a few solves with the LU factors
+ * instead of forming the inverse. The estimate is a lower bound that is
+ * almost always within a small factor of the true value.
+ *
+ * Roughly log₁₀(κ) significant digits are lost when solving Ax = b, so a
+ * value near 1e16 means the solution is meaningless in double precision.
+ */
+export const matNConditionNumber = (m: MatrixN): number => {
+  const decomposition = luDecompose(m);
+  if (isSingularLU(decomposition)) return Infinity;
+
+  const n = m.rows;
+  if (n === 0) return 0;
+
+  let normA = 0;
+  for (let j = 0; j < n; j++) {
+    let sum = 0;
+    for (let i = 0; i < n; i++) sum += Math.abs(m.data[i * n + j]);
+    normA = Math.max(normA, sum);
+  }
+
+  let x = new Float64Array(n).fill(1 / n);
+  let estimate = 0;
+  for (let iteration = 0; iteration < 5; iteration++) {
+    const y = luSolve(decomposition, x) as Float64Array;
+    estimate = y.reduce((sum, value) => sum + Math.abs(value), 0);
+
+    const z = luSolveTransposed(
+      decomposition,
+      y.map((value) => (value >= 0 ? 1 : -1)),
+    );
+    let best = 0;
+    for (let j = 1; j < n; j++) {
+      if (Math.abs(z[j]) > Math.abs(z[best])) best = j;
+    }
+
+    let zx = 0;
+    for (let j = 0; j < n; j++) zx += z[j] * x[j];
+    if (Math.abs(z[best]) <= zx) break;
+
+    x = new Float64Array(n);
+    x[best] = 1;
+  }
+
+  return normA * estimate;
+};
+
+// ============================================================================
+// Eigenvalue Utilities
+// ============================================================================
+
+/**
+ * Factors a symmetric positive-definite matrix as A = LLᵀ.
+ *
+ * @param m - Symmetric positive-definite matrix (only the lower triangle is read)
+ * @returns Lower-triangular factor L, or null if the matrix is not positive definite
+ * @throws {Error} If the matrix is not square
+ */
+export const choleskyDecompose = (m: MatrixN): MatrixN | null => {
+  requireSquare(m, "Cholesky decomposition");
+
+  const n = m.rows;
+  const l = matN(n, n);
+  for (let j = 0; j < n; j++) {
+    let diagonal = m.data[j * n + j];
+    for (let k = 0; k < j; k++) diagonal -= l.data[j * n + k] ** 2;
+    if (!(diagonal > 0)) return null;
+
+    const ljj = Math.sqrt(diagonal);
+    l.data[j * n + j] = ljj;
+    for (let i = j + 1; i < n; i++) {
+      let sum = m.data[i * n + j];
+      for (let k = 0; k < j; k++) sum -= l.data[i * n + k] * l.data[j * n + k];
+      l.data[i * n + j] = sum / ljj;
+    }
+  }
+  return l;
+};
+
+// Sorts eigenpairs by ascending eigenvalue and flips each vector so its
+// largest component is positive, making results deterministic
+const sortEigenpairs = (
+  values: Float64Array,
+  vectors: MatrixN,
+): EigenDecomposition => {
+  const n = values.length;
+  const order = Array.from({ length: n }, (_, i) => i).sort(
+    (a, b) => values[a] - values[b],
+  );
+
+  const sortedValues = new Float64Array(n);
+  const sortedVectors = matN(vectors.rows, n);
+  order.forEach((source, target) => {
+    sortedValues[target] = values[source];
+
+    let largest = 0;
+    for (let i = 0; i < vectors.rows; i++) {
+      const value = vectors.data[i * n + source];
+      if (Math.abs(value) > Math.abs(largest)) largest = value;
+    }
+    const sign = largest < 0 ? -1 : 1;
+    for (let i = 0; i < vectors.rows; i++) {
+      sortedVectors.data[i * n + target] = sign * vectors.data[i * n + source];
+    }
+  });
+
+  return {
+    values: sortedValues,
+    vectors: sortedVectors,
+  };
+};
+
+/**
+ * Computes all eigenvalues and eigenvectors of a symmetric matrix.
+ *
+ * @param m - Symmetric matrix
+ * @returns Eigenvalues in ascending order and unit eigenvectors as the
+ *   matching columns of `vectors`
+ * @throws {Error} If the matrix is not square or not symmetric
+ *
+ * @remarks
+ * Uses the cyclic Jacobi method: plane rotations repeatedly zero the
+ * off-diagonal entries until the matrix is diagonal. It is simple, very
+ * accurate (including for small eigenvalues) and produces exactly
+ * orthogonal eigenvectors, which suits the modest sizes used in
+ * interactive simulations.
+ *
+ * @example
+ * ```typescript
+ * const { values, vectors } = symmetricEigen(matNFromRows([
+ *   [2, 1],
+ *   [1, 2],
+ * ]));
+ * // values → [1, 3]
+ * ```
+ */
+export const symmetricEigen = (m: MatrixN): EigenDecomposition => {
+  requireSquare(m, "Eigen decomposition");
+
+  const n = m.rows;
+  const a = Float64Array.from(m.data);
+  let scale = 0;
+  for (let i = 0; i < a.length; i++) scale = Math.max(scale, Math.abs(a[i]));
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (Math.abs(a[i * n + j] - a[j * n + i]) > 1e-10 * scale) {
+        throw new Error("Eigen decomposition requires a symmetric matrix");
+      }
+    }
+  }
+
+  const v = matNIdentity(n);
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let offDiagonal = 0;
+    let total = 0;
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        const squared = a[i * n + j] ** 2;
+        total += squared;
+        if (i !== j) offDiagonal += squared;
+      }
+    }
+    if (offDiagonal <= Number.EPSILON ** 2 * total) break;
+
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const apq = a[p * n + q];
+        if (apq === 0) continue;
+
+        // Rotation angle that zeroes a[p][q]
+        const theta = (a[q * n + q] - a[p * n + p]) / (2 * apq);
+        const t =
+          (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta ** 2 + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k * n + p];
+          const akq = a[k * n + q];
+          a[k * n + p] = c * akp - s * akq;
+          a[k * n + q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p * n + k];
+          const aqk = a[q * n + k];
+          a[p * n + k] = c * apk - s * aqk;
+          a[q * n + k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v.data[k * n + p];
+          const vkq = v.data[k * n + q];
+          v.data[k * n + p] = c * vkp - s * vkq;
+          v.data[k * n + q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const values = new Float64Array(n);
+  for (let i = 0; i < n; i++) values[i] = a[i * n + i];
+  return sortEigenpairs(values, v);
+};
+
+/**
+ * Solves the generalized symmetric eigenproblem Kφ = λMφ.
+ *
+ * @param k - Symmetric matrix, e.g. a stiffness matrix
+ * @param m - Symmetric positive-definite matrix, e.g. a mass matrix
+ * @returns Eigenvalues λ in ascending order and eigenvectors φ as columns,
+ *   normalized so that φᵀMφ = 1; or null if M is not positive definite
+ * @throws {Error} If the matrices are not square, symmetric and the same size
+ *
+ * @remarks
+ * For a vibrating structure, λ = ω² gives the squared natural angular
+ * frequencies and φ the mode shapes. The problem is reduced to a standard
+ * symmetric one with the Cholesky factor of M (M = LLᵀ, C = L⁻¹KL⁻ᵀ).
+ *
+ * @example
+ * Two masses connected by springs to each other and to walls:
+ * ```typescript
+ * const stiffness = matNFromRows([[2 * k, -k], [-k, 2 * k]]);
+ * const mass = matNFromRows([[m, 0], [0, m]]);
+ * const { values } = generalizedEigen(stiffness, mass)!;
+ * const omegas = values.map(Math.sqrt); // √(k/m), √(3k/m)
+ * ```
+ */
+export const generalizedEigen = (
+  k: MatrixN,
+  m: MatrixN,
+): EigenDecomposition | null => {
+  requireSquare(k, "Eigen decomposition");
+  if (m.rows !== k.rows || m.cols !== k.cols) {
+    throw new Error(
+      `Stiffness (${k.rows}x${k.cols}) and mass (${m.rows}x${m.cols}) matrices must have the same size`,
+    );
+  }
+
+  const l = choleskyDecompose(m);
+  if (!l) return null;
+
+  const n = k.rows;
+  const ld = l.data;
+
+  // Solves L·x = column in place
+  const forward = (x: Float64Array) => {
+    for (let i = 0; i < n; i++) {
+      let sum = x[i];
+      for (let j = 0; j < i; j++) sum -= ld[i * n + j] * x[j];
+      x[i] = sum / ld[i * n + i];
+    }
+  };
+
+  // X = L⁻¹K, then C = L⁻¹Xᵀ = L⁻¹KL⁻ᵀ
+  const x = matN(n, n);
+  const column = new Float64Array(n);
+  for (let j = 0; j < n; j++) {
+    for (let i = 0; i < n; i++) column[i] = k.data[i * n + j];
+    forward(column);
+    for (let i = 0; i < n; i++) x.data[i * n + j] = column[i];
+  }
+  const c = matN(n, n);
+  for (let j = 0; j < n; j++) {
+    for (let i = 0; i < n; i++) column[i] = x.data[j * n + i];
+    forward(column);
+    for (let i = 0; i < n; i++) c.data[i * n + j] = column[i];
+  }
+
+  // Remove rounding asymmetry before the symmetric solver checks it
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const average = (c.data[i * n + j] + c.data[j * n + i]) / 2;
+      c.data[i * n + j] = c.data[j * n + i] = average;
+    }
+  }
+
+  const { values, vectors } = symmetricEigen(c);
+
+  // φ = L⁻ᵀy
+  const shapes = matN(n, n);
+  for (let mode = 0; mode < n; mode++) {
+    for (let i = n - 1; i >= 0; i--) {
+      let sum = vectors.data[i * n + mode];
+      for (let j = i + 1; j < n; j++) {
+        sum -= ld[j * n + i] * shapes.data[j * n + mode];
+      }
+      shapes.data[i * n + mode] = sum / ld[i * n + i];
+    }
+  }
+
+  return sortEigenpairs(values, shapes);
+};
+
+// ============================================================================
+// Polynomial Utilities
+// ============================================================================
+
+/**
+ * Polynomial with real coefficients, stored in ascending powers of x.
+ *
+ * @remarks
+ * Instances are immutable: arithmetic returns new polynomials. Trailing zero
+ * coefficients are trimmed, so `degree` is always exact; the zero polynomial
+ * has no coefficients and degree -1.
+ *
+ * @example
+ * Characteristic equation of a control loop:
+ * ```typescript
+ * // s³ + 6s² + 11s + 6 = (s + 1)(s + 2)(s + 3)
+ * const characteristic = new Polynomial([6, 11, 6, 1]);
+ * const poles = characteristic.roots(); // -3, -2, -1 (as Complex)
+ * const stable = poles.every((p) => p.real < 0);
+ * ```
+ *
+ * @example
+ * Fit a stress–strain curve and find its slope:
+ * ```typescript
+ * const curve = Polynomial.fit(strain, stress, 3)!;
+ * const tangentModulus = curve.derivative().evaluate(0.002);
+ * ```
+ */
+export class Polynomial {
+  /** Coefficients c₀, c₁, … of c₀ + c₁x + c₂x² + … */
+  readonly coefficients: Float64Array;
+
+  /**
+   * Creates a polynomial from coefficients in ascending order of power.
+   *
+   * @param coefficients - c₀, c₁, c₂, … for c₀ + c₁x + c₂x² + …
+   */
+  constructor(coefficients: ArrayLike<number>) {
+    let length = coefficients.length;
+    while (length > 0 && coefficients[length - 1] === 0) length--;
+    this.coefficients = Float64Array.from(
+      { length },
+      (_, i) => coefficients[i],
+    );
+  }
+
+  /**
+   * Creates the monic polynomial with the given real roots.
+   *
+   * @param roots - Roots, repeated for multiplicity
+   * @returns (x - r₀)(x - r₁)…
+   */
+  static fromRoots(roots: readonly number[]): Polynomial {
+    return roots.reduce(
+      (product, root) => product.multiply(new Polynomial([-root, 1])),
+      new Polynomial([1]),
+    );
+  }
+
+  /**
+   * Fits a polynomial to data by least squares.
+   *
+   * @param x - Sample positions
+   * @param y - Sample values, same length as x
+   * @param degree - Degree of the fitted polynomial
+   * @returns Polynomial minimizing the squared error, or null if the data
+   *   cannot determine it (fewer distinct x values than degree + 1)
+   * @throws {Error} If x and y differ in length or degree is negative
+   *
+   * @remarks
+   * x is centered and scaled to [-1, 1] before fitting, which keeps the
+   * Vandermonde system well conditioned for data far from the origin.
+   */
+  static fit(
+    x: ArrayLike<number>,
+    y: ArrayLike<number>,
+    degree: number,
+  ): Polynomial | null {
+    if (x.length !== y.length) {
+      throw new Error("Polynomial fit requires x and y of the same length");
+    }
+    if (!Number.isInteger(degree) || degree < 0) {
+      throw new Error(`Degree must be a non-negative integer, got ${degree}`);
+    }
+    const n = x.length;
+    if (n <= degree) return null;
+
+    let center = 0;
+    for (let i = 0; i < n; i++) center += x[i] / n;
+    let scale = 0;
+    for (let i = 0; i < n; i++)
+      scale = Math.max(scale, Math.abs(x[i] - center));
+    if (scale === 0) scale = 1;
+
+    const vandermonde = matN(n, degree + 1);
+    for (let i = 0; i < n; i++) {
+      const t = (x[i] - center) / scale;
+      let power = 1;
+      for (let j = 0; j <= degree; j++) {
+        vandermonde.data[i * (degree + 1) + j] = power;
+        power *= t;
+      }
+    }
+    const solution = leastSquares(vandermonde, y);
+    if (!solution) return null;
+
+    // Undo the scaling: p(x) = q((x - center) / scale)
+    return new Polynomial(solution).compose(
+      new Polynomial([-center / scale, 1 / scale]),
+    );
+  }
+
+  /** Highest power with a non-zero coefficient, or -1 for the zero polynomial */
+  get degree(): number {
+    return this.coefficients.length - 1;
+  }
+
+  /**
+   * Evaluates the polynomial with Horner's method.
+   *
+   * @param x - Point of evaluation
+   * @returns p(x)
+   */
+  evaluate(x: number): number {
+    const c = this.coefficients;
+    let result = 0;
+    for (let i = c.length - 1; i >= 0; i--) result = result * x + c[i];
+    return result;
+  }
+
+  /**
+   * Evaluates the polynomial at a complex point with Horner's method.
+   *
+   * @param z - Point of evaluation
+   * @returns p(z)
+   *
+   * @example
+   * ```typescript
+   * // Frequency response of a transfer function numerator at s = jω
+   * const response = numerator.evaluateComplex(complex(0, omega));
+   * ```
+   */
+  evaluateComplex(z: Complex): Complex {
+    const c = this.coefficients;
+    let real = 0;
+    let imag = 0;
+    for (let i = c.length - 1; i >= 0; i--) {
+      [real, imag] = [
+        real * z.real - imag * z.imag + c[i],
+        real * z.imag + imag * z.real,
+      ];
+    }
+    return complex(real, imag);
+  }
+
+  /**
+   * Adds another polynomial or a constant.
+   *
+   * @param other - Polynomial or number to add
+   * @returns Sum
+   */
+  add(other: Polynomial | number): Polynomial {
+    const b = typeof other === "number" ? [other] : other.coefficients;
+    const a = this.coefficients;
+    return new Polynomial(
+      Array.from(
+        { length: Math.max(a.length, b.length) },
+        (_, i) => (a[i] ?? 0) + (b[i] ?? 0),
+      ),
+    );
+  }
+
+  /**
+   * Subtracts another polynomial or a constant.
+   *
+   * @param other - Polynomial or number to subtract
+   * @returns Difference
+   */
+  subtract(other: Polynomial | number): Polynomial {
+    return this.add(typeof other === "number" ? -other : other.multiply(-1));
+  }
+
+  /**
+   * Multiplies by another polynomial or a constant.
+   *
+   * @param other - Polynomial or number to multiply by
+   * @returns Product
+   */
+  multiply(other: Polynomial | number): Polynomial {
+    if (typeof other === "number") {
+      return new Polynomial(this.coefficients.map((c) => c * other));
+    }
+    const a = this.coefficients;
+    const b = other.coefficients;
+    if (a.length === 0 || b.length === 0) return new Polynomial([]);
+    const product = new Float64Array(a.length + b.length - 1);
+    for (let i = 0; i < a.length; i++) {
+      for (let j = 0; j < b.length; j++) product[i + j] += a[i] * b[j];
+    }
+    return new Polynomial(product);
+  }
+
+  /**
+   * Divides by another polynomial using long division.
+   *
+   * @param divisor - Non-zero polynomial to divide by
+   * @returns Quotient and remainder with this = quotient·divisor + remainder
+   * @throws {Error} If the divisor is the zero polynomial
+   *
+   * @example
+   * ```typescript
+   * // Deflate a known root r: p(x) = (x - r)·q(x) + p(r)
+   * const { quotient } = p.divide(new Polynomial([-r, 1]));
+   * ```
+   */
+  divide(divisor: Polynomial): {
+    quotient: Polynomial;
+    remainder: Polynomial;
+  } {
+    const d = divisor.coefficients;
+    if (d.length === 0) throw new Error("Cannot divide by the zero polynomial");
+
+    const remainder = Float64Array.from(this.coefficients);
+    const quotientLength = Math.max(0, remainder.length - d.length + 1);
+    const quotient = new Float64Array(quotientLength);
+    const leading = d[d.length - 1];
+    for (let i = quotientLength - 1; i >= 0; i--) {
+      const factor = remainder[i + d.length - 1] / leading;
+      quotient[i] = factor;
+      for (let j = 0; j < d.length; j++) remainder[i + j] -= factor * d[j];
+      // Clear the eliminated term exactly so rounding cannot leave a stray leading coefficient
+      remainder[i + d.length - 1] = 0;
+    }
+
+    return {
+      quotient: new Polynomial(quotient),
+      remainder: new Polynomial(remainder.subarray(0, d.length - 1)),
+    };
+  }
+
+  /**
+   * Differentiates the polynomial.
+   *
+   * @param order - Number of times to differentiate (default: 1)
+   * @returns Derivative polynomial
+   */
+  derivative(order: number = 1): Polynomial {
+    let c = this.coefficients;
+    for (let k = 0; k < order; k++) {
+      c = c.subarray(1).map((value, i) => value * (i + 1));
+    }
+    return new Polynomial(c);
+  }
+
+  /**
+   * Integrates the polynomial.
+   *
+   * @param constant - Integration constant, the value at x = 0 (default: 0)
+   * @returns Antiderivative P with P' = p and P(0) = constant
+   */
+  integral(constant: number = 0): Polynomial {
+    const c = this.coefficients;
+    const result = new Float64Array(c.length + 1);
+    result[0] = constant;
+    for (let i = 0; i < c.length; i++) result[i + 1] = c[i] / (i + 1);
+    return new Polynomial(result);
+  }
+
+  /**
+   * Composes this polynomial with another: p(q(x)).
+   *
+   * @param inner - Polynomial substituted for x
+   * @returns Composition p ∘ q
+   *
+   * @example
+   * ```typescript
+   * // Shift a curve right by 2: p(x - 2)
+   * const shifted = p.compose(new Polynomial([-2, 1]));
+   * ```
+   */
+  compose(inner: Polynomial): Polynomial {
+    const c = this.coefficients;
+    let result = new Polynomial([]);
+    for (let i = c.length - 1; i >= 0; i--) {
+      result = result.multiply(inner).add(c[i]);
+    }
+    return result;
+  }
+
+  /**
+   * Finds all complex roots with the Durand–Kerner method.
+   *
+   * @param tolerance - Relative change at which iteration stops (default: 1e-12)
+   * @param maxIterations - Iteration limit (default: 500)
+   * @returns degree roots (with multiplicity) sorted by real then imaginary
+   *   part; imaginary parts below the tolerance are set to exactly zero
+   * @throws {Error} If called on the zero polynomial
+   *
+   * @remarks
+   * Refines all roots simultaneously from points on a circle enclosing them,
+   * then polishes each with Newton's method. Simple roots are found to near
+   * machine precision; a root of multiplicity m is accurate to roughly 1/m
+   * of the available digits.
+   */
+  roots(tolerance: number = 1e-12, maxIterations: number = 500): Complex[] {
+    if (this.degree < 0) {
+      throw new Error("The zero polynomial has infinitely many roots");
+    }
+
+    // Exact roots at zero, then a monic polynomial without them
+    let zeros = 0;
+    while (this.coefficients[zeros] === 0) zeros++;
+    const leading = this.coefficients[this.degree];
+    const a = this.coefficients.subarray(zeros).map((c) => c / leading);
+    const n = a.length - 1;
+
+    const real = new Float64Array(n);
+    const imag = new Float64Array(n);
+    let bound = 0;
+    for (let i = 0; i < n; i++) bound = Math.max(bound, Math.abs(a[i]));
+    const radius = 1 + bound;
+    for (let k = 0; k < n; k++) {
+      // Offset angle avoids starting on a symmetry axis of the roots
+      const angle = (2 * Math.PI * k) / n + 0.4;
+      real[k] = radius * Math.cos(angle);
+      imag[k] = radius * Math.sin(angle);
+    }
+
+    const monic = new Polynomial(a);
+    const slope = monic.derivative();
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      let change = 0;
+      for (let k = 0; k < n; k++) {
+        const z = complex(real[k], imag[k]);
+        let denominator = complex(1);
+        for (let j = 0; j < n; j++) {
+          if (j !== k) {
+            denominator = complexMul(
+              denominator,
+              complex(real[k] - real[j], imag[k] - imag[j]),
+            );
+          }
+        }
+        if (complexAbs(denominator) === 0) continue;
+        const delta = complexDiv(monic.evaluateComplex(z), denominator);
+        real[k] -= delta.real;
+        imag[k] -= delta.imag;
+        change = Math.max(change, complexAbs(delta) / (1 + complexAbs(z)));
+      }
+      if (change <= tolerance) break;
+    }
+
+    const roots: Complex[] = [];
+    for (let k = 0; k < n; k++) {
+      let z = complex(real[k], imag[k]);
+      for (let step = 0; step < 2; step++) {
+        const derivative = slope.evaluateComplex(z);
+        if (complexAbs(derivative) === 0) break;
+        const polished = complexSub(
+          z,
+          complexDiv(monic.evaluateComplex(z), derivative),
+        );
+        // Accept only steps that improve the residual (protects multiple roots)
+        if (
+          complexAbs(monic.evaluateComplex(polished)) >=
+          complexAbs(monic.evaluateComplex(z))
+        ) {
+          break;
+        }
+        z = polished;
+      }
+      const cleanTolerance = Math.sqrt(tolerance) * (1 + complexAbs(z));
+      roots.push(Math.abs(z.imag) <= cleanTolerance ? complex(z.real, 0) : z);
+    }
+    for (let i = 0; i < zeros; i++) roots.push(complex(0, 0));
+
+    return roots.sort((p, q) => p.real - q.real || p.imag - q.imag);
+  }
+
+  /**
+   * Finds the real roots.
+   *
+   * @returns Real roots in ascending order, repeated for multiplicity
+   * @throws {Error} If called on the zero polynomial
+   */
+  realRoots(): number[] {
+    return this.roots()
+      .filter((z) => z.imag === 0)
+      .map((z) => z.real);
+  }
+
+  /**
+   * Formats the polynomial in descending powers.
+   *
+   * @param variable - Name of the variable (default: "x")
+   * @returns Human-readable form such as "2x^2 - 3x + 1"
+   */
+  toString(variable: string = "x"): string {
+    const terms: string[] = [];
+    for (let i = this.degree; i >= 0; i--) {
+      const c = this.coefficients[i];
+      if (c === 0) continue;
+      const magnitude = Math.abs(c);
+      const factor = magnitude === 1 && i > 0 ? "" : `${magnitude}`;
+      const power = i === 0 ? "" : i === 1 ? variable : `${variable}^${i}`;
+      const sign = c < 0 ? "-" : "+";
+      terms.push(
+        terms.length === 0
+          ? `${c < 0 ? "-" : ""}${factor}${power}`
+          : `${sign} ${factor}${power}`,
+      );
+    }
+    return terms.length === 0 ? "0" : terms.join(" ");
+  }
+}
+
 // Trigonometry utilities
 export const sin = Math.sin;
 export const cos = Math.cos;
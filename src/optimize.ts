@@ -0,0 +1,743 @@
+/**
+ * Root finding and numerical optimization for tuning parameters and solving equations.
+ *
+ * This module finds where a function crosses zero and where a function of
+ * one or more variables is smallest. It covers bracketing and derivative
+ * based root finders, derivative-free and gradient based local minimizers,
+ * and a bounded global search.
+ *
+ * @remarks
+ * Every method returns the same {@link OptimizationResult}, so callers can
+ * check `converged` and report `iterations` and `residual` uniformly.
+ *
+ * **Root finding** (solve f(x) = 0):
+ * - {@link bisect}: guaranteed, slow; needs a sign change on [a, b]
+ * - {@link brent}: guaranteed and fast; the default choice when a bracket is known
+ * - {@link newton}: fastest near a root, but may diverge from a poor start
+ *
+ * **Minimization** (find x that minimizes f(x)):
+ * - {@link nelderMead}: derivative-free, robust for a handful of variables
+ * - {@link gradientDescent}: uses gradients with a backtracking line search
+ * - {@link simulatedAnnealing}: global search within box bounds, for bumpy objectives
+ *
+ * To maximize a function, minimize its negation.
+ *
+ * @example
+ * Solve for the operating point of a diode circuit:
+ * ```typescript
+ * import { brent } from 'play.ts';
+ *
+ * const { x: voltage, converged } = brent(
+ *   (v) => (supply - v) / resistance - saturation * (Math.exp(v / thermal) - 1),
+ *   0,
+ *   supply,
+ * );
+ * ```
+ *
+ * @example
+ * Tune PID gains against a simulated step response:
+ * ```typescript
+ * const result = nelderMead(
+ *   ([kp, ki, kd]) => integratedSquaredError(simulate(kp, ki, kd)),
+ *   [1, 0.1, 0.01],
+ * );
+ * const [kp, ki, kd] = result.x;
+ * ```
+ *
+ * @see {@link https://en.wikipedia.org/wiki/Brent%27s_method | Brent's Method}
+ * @see {@link https://en.wikipedia.org/wiki/Nelder%E2%80%93Mead_method | Nelder–Mead Method}
+ */
+
+import type { RandomGenerator } from "../types/index.ts";
+import { random } from "./random.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Outcome of a root finder or minimizer.
+ */
+export interface OptimizationResult<T> {
+  /** Root or minimizer found */
+  readonly x: T;
+  /** Function value at x */
+  readonly value: number;
+  /** Whether the convergence criterion was met before the iteration limit */
+  readonly converged: boolean;
+  /** Iterations performed */
+  readonly iterations: number;
+  /** Function evaluations performed */
+  readonly evaluations: number;
+  /**
+   * Remaining error measure: |f(x)| for root finders, the gradient norm for
+   * gradient descent, the spread of simplex values for Nelder–Mead and the
+   * final temperature for simulated annealing
+   */
+  readonly residual: number;
+}
+
+export type ObjectiveFunction = (x: Float64Array) => number;
+
+export interface SolverOptions {
+  /** Convergence tolerance (default depends on the method) */
+  readonly tolerance?: number;
+  /** Maximum number of iterations (default depends on the method) */
+  readonly maxIterations?: number;
+}
+
+export interface NewtonOptions extends SolverOptions {
+  /** Exact derivative f'(x); estimated with central differences if omitted */
+  readonly derivative?: (x: number) => number;
+}
+
+export interface NelderMeadOptions extends SolverOptions {
+  /** Size of the initial simplex along each axis (default: 5% of |x0|, or 0.00025 for zeros) */
+  readonly initialStep?: number | ArrayLike<number>;
+}
+
+export interface GradientDescentOptions extends SolverOptions {
+  /** Exact gradient ∇f(x); estimated with central differences if omitted */
+  readonly gradient?: (x: Float64Array) => ArrayLike<number>;
+  /** First step length tried by the line search (default: 1) */
+  readonly initialStep?: number;
+}
+
+export interface AnnealingOptions {
+  /** Starting point (default: the center of the bounds) */
+  readonly initial?: ArrayLike<number>;
+  /** Number of candidate moves (default: 10000) */
+  readonly iterations?: number;
+  /** Starting temperature in units of f (default: 1) */
+  readonly initialTemperature?: number;
+  /** Final temperature reached at the last iteration (default: 1e-4) */
+  readonly finalTemperature?: number;
+  /** Random source (default: the shared seeded generator, see `setSeed`) */
+  readonly random?: RandomGenerator;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// Cube root of machine epsilon balances truncation and rounding error for central differences
+const DIFFERENCE_STEP = Math.cbrt(Number.EPSILON);
+
+const numericDerivative = (f: (x: number) => number, x: number): number => {
+  const h = DIFFERENCE_STEP * Math.max(1, Math.abs(x));
+  return (f(x + h) - f(x - h)) / (2 * h);
+};
+
+const numericGradient = (f: ObjectiveFunction, x: Float64Array) => {
+  const gradient = new Float64Array(x.length);
+  const probe = Float64Array.from(x);
+  for (let i = 0; i < x.length; i++) {
+    const h = DIFFERENCE_STEP * Math.max(1, Math.abs(x[i]));
+    probe[i] = x[i] + h;
+    const forward = f(probe);
+    probe[i] = x[i] - h;
+    const backward = f(probe);
+    probe[i] = x[i];
+    gradient[i] = (forward - backward) / (2 * h);
+  }
+  return gradient;
+};
+
+// Half-width to which a bracket can shrink around x: the requested tolerance
+// plus a few ulps of x, as in Brent's zeroin, since spacing between doubles
+// grows with |x| and an absolute tolerance alone is unreachable for large roots
+const bracketTolerance = (x: number, tolerance: number): number =>
+  2 * Number.EPSILON * Math.abs(x) + tolerance / 2;
+
+const requireBracket = (fa: number, fb: number, a: number, b: number) => {
+  if (fa * fb > 0) {
+    throw new Error(
+      `Root is not bracketed: f(${a}) and f(${b}) have the same sign`,
+    );
+  }
+};
+
+// ============================================================================
+// Root Finding
+// ============================================================================
+
+/**
+ * Finds a root of f in [a, b] by repeatedly halving the interval.
+ *
+ * @param f - Continuous function with f(a) and f(b) of opposite signs
+ * @param a - One end of the bracket
+ * @param b - Other end of the bracket
+ * @param options - Interval-width tolerance (default: 1e-12, widened by a few
+ *   ulps for large roots) and iteration limit (default: 200)
+ * @returns Root estimate and convergence information
+ * @throws {Error} If f(a) and f(b) have the same sign
+ *
+ * @remarks
+ * Gains one bit of accuracy per iteration regardless of the function's
+ * shape, so it never fails on a valid bracket.
+ */
+export const bisect = (
+  f: (x: number) => number,
+  a: number,
+  b: number,
+  options: SolverOptions = {},
+): OptimizationResult<number> => {
+  const tolerance = options.tolerance ?? 1e-12;
+  const maxIterations = options.maxIterations ?? 200;
+
+  let fa = f(a);
+  const fb = f(b);
+  let evaluations = 2;
+  requireBracket(fa, fb, a, b);
+
+  if (fa === 0 || fb === 0) {
+    const x = fa === 0 ? a : b;
+    return {
+      x,
+      value: 0,
+      converged: true,
+      iterations: 0,
+      evaluations,
+      residual: 0,
+    };
+  }
+
+  let low = a;
+  let high = b;
+  let middle = (low + high) / 2;
+  let fm = f(middle);
+  evaluations++;
+
+  let iterations = 0;
+  while (
+    iterations < maxIterations &&
+    fm !== 0 &&
+    Math.abs(high - low) / 2 > bracketTolerance(middle, tolerance)
+  ) {
+    if (fa * fm < 0) {
+      high = middle;
+    } else {
+      low = middle;
+      fa = fm;
+    }
+    middle = (low + high) / 2;
+    fm = f(middle);
+    evaluations++;
+    iterations++;
+  }
+
+  return {
+    x: middle,
+    value: fm,
+    converged:
+      fm === 0 ||
+      Math.abs(high - low) / 2 <= bracketTolerance(middle, tolerance),
+    iterations,
+    evaluations,
+    residual: Math.abs(fm),
+  };
+};
+
+/**
+ * Finds a root of f in [a, b] with Brent's method.
+ *
+ * @param f - Continuous function with f(a) and f(b) of opposite signs
+ * @param a - One end of the bracket
+ * @param b - Other end of the bracket
+ * @param options - Tolerance on x (default: 1e-12, widened by a few ulps for
+ *   large roots) and iteration limit (default: 100)
+ * @returns Root estimate and convergence information
+ * @throws {Error} If f(a) and f(b) have the same sign
+ *
+ * @remarks
+ * Combines inverse quadratic interpolation and the secant method with
+ * bisection as a fallback, so it converges superlinearly on smooth
+ * functions while keeping the guarantee of bisection.
+ *
+ * @example
+ * ```typescript
+ * brent((x) => x * x - 2, 0, 2).x; // 1.41421356...
+ * ```
+ */
+export const brent = (
+  f: (x: number) => number,
+  a: number,
+  b: number,
+  options: SolverOptions = {},
+): OptimizationResult<number> => {
+  const tolerance = options.tolerance ?? 1e-12;
+  const maxIterations = options.maxIterations ?? 100;
+
+  let fa = f(a);
+  let fb = f(b);
+  let evaluations = 2;
+  requireBracket(fa, fb, a, b);
+
+  // Keep b as the best estimate
+  if (Math.abs(fa) < Math.abs(fb)) {
+    [a, b] = [b, a];
+    [fa, fb] = [fb, fa];
+  }
+
+  let c = a;
+  let fc = fa;
+  let d = c;
+  let bisected = true;
+  let iterations = 0;
+
+  while (
+    iterations < maxIterations &&
+    fb !== 0 &&
+    Math.abs(b - a) / 2 > bracketTolerance(b, tolerance)
+  ) {
+    const resolution = 2 * bracketTolerance(b, tolerance);
+    let s: number;
+    if (fa !== fc && fb !== fc) {
+      // Inverse quadratic interpolation
+      s =
+        (a * fb * fc) / ((fa - fb) * (fa - fc)) +
+        (b * fa * fc) / ((fb - fa) * (fb - fc)) +
+        (c * fa * fb) / ((fc - fa) * (fc - fb));
+    } else {
+      // Secant step
+      s = b - (fb * (b - a)) / (fb - fa);
+    }
+
+    const boundary = (3 * a + b) / 4;
+    const outside = !((s > boundary && s < b) || (s < boundary && s > b));
+    if (
+      outside ||
+      (bisected && Math.abs(s - b) >= Math.abs(b - c) / 2) ||
+      (!bisected && Math.abs(s - b) >= Math.abs(c - d) / 2) ||
+      (bisected && Math.abs(b - c) < resolution) ||
+      (!bisected && Math.abs(c - d) < resolution)
+    ) {
+      s = (a + b) / 2;
+      bisected = true;
+    } else {
+      bisected = false;
+    }
+
+    const fs = f(s);
+    evaluations++;
+    d = c;
+    c = b;
+    fc = fb;
+
+    if (fa * fs < 0) {
+      b = s;
+      fb = fs;
+    } else {
+      a = s;
+      fa = fs;
+    }
+
+    if (Math.abs(fa) < Math.abs(fb)) {
+      [a, b] = [b, a];
+      [fa, fb] = [fb, fa];
+    }
+    iterations++;
+  }
+
+  return {
+    x: b,
+    value: fb,
+    converged:
+      fb === 0 || Math.abs(b - a) / 2 <= bracketTolerance(b, tolerance),
+    iterations,
+    evaluations,
+    residual: Math.abs(fb),
+  };
+};
+
+/**
+ * Finds a root of f near x0 with the Newton–Raphson method.
+ *
+ * @param f - Differentiable function
+ * @param x0 - Starting guess
+ * @param options - Exact derivative (optional), step tolerance (default: 1e-12)
+ *   and iteration limit (default: 50)
+ * @returns Root estimate and convergence information
+ *
+ * @remarks
+ * Converges quadratically once close to a simple root, but can diverge or
+ * cycle from a poor starting point; check `converged`. Stops without
+ * converging if the derivative vanishes. When no derivative is supplied it
+ * is estimated with central differences, costing two extra evaluations per
+ * iteration.
+ *
+ * @example
+ * ```typescript
+ * // Solve Kepler's equation E - e·sin(E) = M
+ * const { x: eccentricAnomaly } = newton((E) => E - e * Math.sin(E) - M, M, {
+ *   derivative: (E) => 1 - e * Math.cos(E),
+ * });
+ * ```
+ */
+export const newton = (
+  f: (x: number) => number,
+  x0: number,
+  options: NewtonOptions = {},
+): OptimizationResult<number> => {
+  const tolerance = options.tolerance ?? 1e-12;
+  const maxIterations = options.maxIterations ?? 50;
+  const derivative = options.derivative;
+
+  let x = x0;
+  let fx = f(x);
+  let evaluations = 1;
+  let iterations = 0;
+  let converged = fx === 0;
+
+  while (!converged && iterations < maxIterations) {
+    const slope = derivative ? derivative(x) : numericDerivative(f, x);
+    evaluations += derivative ? 1 : 2;
+    if (slope === 0 || !isFinite(slope)) break;
+
+    const step = fx / slope;
+    x -= step;
+    fx = f(x);
+    evaluations++;
+    iterations++;
+
+    if (!isFinite(x) || !isFinite(fx)) break;
+    converged =
+      fx === 0 || Math.abs(step) <= tolerance * Math.max(1, Math.abs(x));
+  }
+
+  return {
+    x,
+    value: fx,
+    converged,
+    iterations,
+    evaluations,
+    residual: Math.abs(fx),
+  };
+};
+
+// ============================================================================
+// Minimization
+// ============================================================================
+
+/**
+ * Minimizes a function of several variables with the Nelder–Mead simplex method.
+ *
+ * @param f - Objective function
+ * @param x0 - Starting point
+ * @param options - Tolerance on the spread of simplex values (default: 1e-10),
+ *   iteration limit (default: 200 × dimensions) and initial simplex size
+ * @returns Minimizer and convergence information
+ *
+ * @remarks
+ * Needs no derivatives and tolerates noisy or non-smooth objectives, which
+ * makes it a good fit for tuning simulation parameters. It is a local
+ * method and slows down beyond roughly ten variables.
+ */
+export const nelderMead = (
+  f: ObjectiveFunction,
+  x0: ArrayLike<number>,
+  options: NelderMeadOptions = {},
+): OptimizationResult<Float64Array> => {
+  const n = x0.length;
+  const tolerance = options.tolerance ?? 1e-10;
+  const maxIterations = options.maxIterations ?? 200 * Math.max(1, n);
+  const initialStep = options.initialStep;
+
+  const simplex: Float64Array[] = [Float64Array.from(x0)];
+  for (let i = 0; i < n; i++) {
+    const vertex = Float64Array.from(x0);
+    const step =
+      initialStep === undefined
+        ? vertex[i] !== 0
+          ? 0.05 * vertex[i]
+          : 0.00025
+        : typeof initialStep === "number"
+          ? initialStep
+          : initialStep[i];
+    vertex[i] += step;
+    simplex.push(vertex);
+  }
+  const values = simplex.map((vertex) => f(vertex));
+  let evaluations = values.length;
+
+  // Point on the line from the centroid through the worst vertex
+  const along = (centroid: Float64Array, worst: Float64Array, t: number) => {
+    const point = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      point[i] = centroid[i] + t * (worst[i] - centroid[i]);
+    }
+    return point;
+  };
+
+  const order = () => {
+    const indices = simplex
+      .map((_, i) => i)
+      .sort((a, b) => values[a] - values[b]);
+    const sortedSimplex = indices.map((i) => simplex[i]);
+    const sortedValues = indices.map((i) => values[i]);
+    simplex.splice(0, simplex.length, ...sortedSimplex);
+    values.splice(0, values.length, ...sortedValues);
+  };
+
+  order();
+  let iterations = 0;
+  let spread = values[n] - values[0];
+
+  while (iterations < maxIterations && !(spread <= tolerance)) {
+    const centroid = new Float64Array(n);
+    for (let j = 0; j < n; j++) {
+      for (let i = 0; i < n; i++) centroid[i] += simplex[j][i] / n;
+    }
+    const worst = simplex[n];
+
+    const reflected = along(centroid, worst, -1);
+    const fr = f(reflected);
+    evaluations++;
+
+    if (fr < values[0]) {
+      const expanded = along(centroid, worst, -2);
+      const fe = f(expanded);
+      evaluations++;
+      if (fe < fr) {
+        simplex[n] = expanded;
+        values[n] = fe;
+      } else {
+        simplex[n] = reflected;
+        values[n] = fr;
+      }
+    } else if (fr < values[n - 1]) {
+      simplex[n] = reflected;
+      values[n] = fr;
+    } else {
+      // Contract toward the better of the reflected and worst points
+      const outside = fr < values[n];
+      const contracted = along(centroid, worst, outside ? -0.5 : 0.5);
+      const fc = f(contracted);
+      evaluations++;
+
+      if (fc < (outside ? fr : values[n])) {
+        simplex[n] = contracted;
+        values[n] = fc;
+      } else {
+        // Shrink every vertex toward the best one
+        for (let j = 1; j <= n; j++) {
+          for (let i = 0; i < n; i++) {
+            simplex[j][i] =
+              simplex[0][i] + 0.5 * (simplex[j][i] - simplex[0][i]);
+          }
+          values[j] = f(simplex[j]);
+          evaluations++;
+        }
+      }
+    }
+
+    order();
+    spread = values[n] - values[0];
+    iterations++;
+  }
+
+  return {
+    x: simplex[0],
+    value: values[0],
+    converged: spread <= tolerance,
+    iterations,
+    evaluations,
+    residual: spread,
+  };
+};
+
+/**
+ * Minimizes a smooth function with steepest descent and a backtracking line search.
+ *
+ * @param f - Objective function
+ * @param x0 - Starting point
+ * @param options - Exact gradient (optional), gradient-norm tolerance
+ *   (default: 1e-8), iteration limit (default: 10000) and first step length
+ * @returns Minimizer and convergence information
+ *
+ * @remarks
+ * Each iteration steps against the gradient, halving the step until the
+ * Armijo sufficient-decrease condition holds, then tries a longer step next
+ * time. Convergence is linear and slows on long narrow valleys; prefer
+ * {@link nelderMead} for small problems without gradients.
+ *
+ * @example
+ * ```typescript
+ * // Least-squares fit of y = a·e^(b·t)
+ * const result = gradientDescent(
+ *   ([a, b]) => samples.reduce((sum, { t, y }) => sum + (a * Math.exp(b * t) - y) ** 2, 0),
+ *   [1, -1],
+ * );
+ * ```
+ */
+export const gradientDescent = (
+  f: ObjectiveFunction,
+  x0: ArrayLike<number>,
+  options: GradientDescentOptions = {},
+): OptimizationResult<Float64Array> => {
+  const tolerance = options.tolerance ?? 1e-8;
+  const maxIterations = options.maxIterations ?? 10000;
+  const n = x0.length;
+
+  let evaluations = 0;
+  const evaluate = (x: Float64Array) => {
+    evaluations++;
+    return f(x);
+  };
+  const gradientAt = (x: Float64Array) => {
+    if (options.gradient) return Float64Array.from(options.gradient(x));
+    evaluations += 2 * n;
+    return numericGradient(f, x);
+  };
+
+  let x = Float64Array.from(x0);
+  let fx = evaluate(x);
+  let gradient = gradientAt(x);
+  let norm = Math.hypot(...gradient);
+  let step = options.initialStep ?? 1;
+  let iterations = 0;
+
+  while (iterations < maxIterations && norm > tolerance) {
+    const candidate = new Float64Array(n);
+    let accepted = false;
+
+    // Backtrack until f decreases by at least 1e-4 of the linear prediction
+    for (let attempt = 0; attempt < 60; attempt++) {
+      for (let i = 0; i < n; i++) candidate[i] = x[i] - step * gradient[i];
+      const fc = evaluate(candidate);
+      if (fc <= fx - 1e-4 * step * norm * norm) {
+        x = candidate;
+        fx = fc;
+        accepted = true;
+        break;
+      }
+      step /= 2;
+    }
+    if (!accepted) break;
+
+    gradient = gradientAt(x);
+    norm = Math.hypot(...gradient);
+    step *= 2;
+    iterations++;
+  }
+
+  return {
+    x,
+    value: fx,
+    converged: norm <= tolerance,
+    iterations,
+    evaluations,
+    residual: norm,
+  };
+};
+
+/**
+ * Searches for the global minimum of a function inside box bounds with simulated annealing.
+ *
+ * @param f - Objective function
+ * @param lower - Lower bound of each variable
+ * @param upper - Upper bound of each variable
+ * @param options - Starting point, iteration count, temperature schedule and random source
+ * @returns Best point found and run information
+ * @throws {Error} If the bounds are inconsistent
+ *
+ * @remarks
+ * Random moves that increase f are accepted with probability
+ * exp(-Δf / T), letting the search escape local minima while the
+ * temperature T is high. T falls geometrically from `initialTemperature` to
+ * `finalTemperature`, and the move size shrinks with it. Candidates are
+ * clamped to the bounds.
+ *
+ * The whole schedule always runs. `converged` tells whether the search had
+ * settled by the end: it is false if the best value still fell by more than
+ * `finalTemperature` during the last 10% of the iterations, a sign that a
+ * longer or slower schedule would find a better point. The result can be
+ * polished with {@link nelderMead}. Results are reproducible after `setSeed`
+ * or with a seeded `random` option.
+ *
+ * @example
+ * ```typescript
+ * // Signal timing: green splits between 10 s and 60 s per phase
+ * const best = simulatedAnnealing(averageDelay, [10, 10, 10], [60, 60, 60], {
+ *   iterations: 5000,
+ *   initialTemperature: 20,
+ * });
+ * ```
+ */
+export const simulatedAnnealing = (
+  f: ObjectiveFunction,
+  lower: ArrayLike<number>,
+  upper: ArrayLike<number>,
+  options: AnnealingOptions = {},
+): OptimizationResult<Float64Array> => {
+  const n = lower.length;
+  if (upper.length !== n) {
+    throw new Error("Lower and upper bounds must have the same length");
+  }
+  for (let i = 0; i < n; i++) {
+    if (!(lower[i] <= upper[i])) {
+      throw new Error(`Lower bound exceeds upper bound for variable ${i}`);
+    }
+  }
+
+  const iterations = options.iterations ?? 10000;
+  const initialTemperature = options.initialTemperature ?? 1;
+  const finalTemperature = options.finalTemperature ?? 1e-4;
+  const generator = options.random ?? random;
+  const cooling = Math.pow(
+    finalTemperature / initialTemperature,
+    1 / Math.max(1, iterations),
+  );
+
+  const clampTo = (value: number, i: number) =>
+    Math.min(upper[i], Math.max(lower[i], value));
+
+  let current = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    current[i] = clampTo(
+      options.initial ? options.initial[i] : (lower[i] + upper[i]) / 2,
+      i,
+    );
+  }
+  let currentValue = f(current);
+  let best = Float64Array.from(current);
+  let bestValue = currentValue;
+  // Best value when the last tenth of the schedule begins
+  const settleFrom = Math.floor(iterations * 0.9);
+  let settleValue = bestValue;
+  let temperature = initialTemperature;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    if (iteration === settleFrom) settleValue = bestValue;
+
+    // Move size shrinks from half the range toward zero as the system cools
+    const scale = 0.5 * Math.sqrt(temperature / initialTemperature);
+    const candidate = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      const offset = (generator.next() * 2 - 1) * scale * (upper[i] - lower[i]);
+      candidate[i] = clampTo(current[i] + offset, i);
+    }
+
+    const candidateValue = f(candidate);
+    const delta = candidateValue - currentValue;
+    if (delta <= 0 || generator.next() < Math.exp(-delta / temperature)) {
+      current = candidate;
+      currentValue = candidateValue;
+      if (currentValue < bestValue) {
+        best = Float64Array.from(current);
+        bestValue = currentValue;
+      }
+    }
+
+    temperature *= cooling;
+  }
+
+  return {
+    x: best,
+    value: bestValue,
+    converged: settleValue - bestValue <= finalTemperature,
+    iterations,
+    evaluations: iterations + 1,
+    residual: temperature,
+  };
+};
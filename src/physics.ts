@@ -26,6 +26,10 @@
  * - Distance constraints for cloth and rope simulation
  * - Position-based dynamics for complex structures
  *
+ * **Modal Analysis:**
+ * - Natural frequencies and mode shapes from stiffness and mass matrices
+ * - Normal modes of Verlet constraint networks such as trusses and cloth
+ *
  * **Integration Methods:**
  * - Euler integration for simple, fast simulation
  * - Verlet integration for more stable results
@@ -109,8 +113,10 @@
  * @see {@link https://matthias-research.github.io/pages/publications/posBasedDyn.pdf | Position Based Dynamics}
  */
 
-import type { Vector2 } from "../types/index.ts";
+import type { MatrixN, Vector2 } from "../types/index.ts";
 import {
+  generalizedEigen,
+  matN,
   vec2,
   vec2Add,
   vec2Distance,
@@ -859,6 +865,186 @@ export class Cloth {
   }
 }
 
+// Modal analysis for multi-degree-of-freedom systems
+
+/**
+ * Natural frequencies and mode shapes of a vibrating system.
+ */
+export interface NormalModes {
+  /** Natural angular frequencies ω in rad/s, ascending */
+  readonly angularFrequencies: Float64Array;
+  /** Natural frequencies f = ω / 2π in Hz, ascending */
+  readonly frequencies: Float64Array;
+  /** Mass-normalized mode shapes (φᵀMφ = 1), one column per mode */
+  readonly modeShapes: MatrixN;
+}
+
+/**
+ * Normal modes of a Verlet constraint network.
+ */
+export interface VerletNormalModes {
+  /** Natural angular frequencies ω in rad/s, ascending */
+  readonly angularFrequencies: Float64Array;
+  /** Natural frequencies f = ω / 2π in Hz, ascending */
+  readonly frequencies: Float64Array;
+  /** Unpinned and pinned particles that appear in the constraints */
+  readonly particles: VerletParticle[];
+  /**
+   * Mode shapes as one displacement per particle, indexed [mode][particle];
+   * pinned particles always have zero displacement
+   */
+  readonly shapes: Vector2[][];
+}
+
+/**
+ * Computes the natural frequencies and mode shapes of an undamped
+ * multi-degree-of-freedom system M·x'' + K·x = 0.
+ *
+ * @param stiffness - Symmetric stiffness matrix K (N/m)
+ * @param mass - Symmetric positive-definite mass matrix M (kg)
+ * @returns Frequencies and mass-normalized mode shapes, or null if the
+ *   mass matrix is not positive definite
+ * @throws {Error} If the matrices are not square, symmetric and the same size
+ *
+ * @remarks
+ * Solves the generalized eigenproblem Kφ = ω²Mφ. Rigid-body motions
+ * (an unconstrained structure) show up as modes with ω = 0; tiny negative
+ * eigenvalues from rounding are clamped to zero.
+ *
+ * @example
+ * Three-story shear building:
+ * ```typescript
+ * const k = 1.2e6, m = 2000;
+ * const modes = normalModes(
+ *   matNFromRows([[2 * k, -k, 0], [-k, 2 * k, -k], [0, -k, k]]),
+ *   matNFromRows([[m, 0, 0], [0, m, 0], [0, 0, m]]),
+ * )!;
+ * console.log(modes.frequencies); // Hz, fundamental first
+ * ```
+ */
+export const normalModes = (
+  stiffness: MatrixN,
+  mass: MatrixN,
+): NormalModes | null => {
+  const eigen = generalizedEigen(stiffness, mass);
+  if (!eigen) return null;
+
+  const angularFrequencies = eigen.values.map((value) =>
+    Math.sqrt(Math.max(0, value)),
+  );
+
+  return {
+    angularFrequencies,
+    frequencies: angularFrequencies.map((omega) => omega / (2 * Math.PI)),
+    modeShapes: eigen.vectors,
+  };
+};
+
+/**
+ * Computes the small-oscillation normal modes of a network of Verlet constraints.
+ *
+ * @param constraints - Constraints linking the particles, e.g. `cloth.constraints`
+ * @param springConstant - Axial stiffness of a constraint with `stiffness` 1;
+ *   each constraint acts as a spring of `springConstant × constraint.stiffness`
+ *   (default: 1)
+ * @returns Frequencies and per-particle mode shapes
+ * @throws {Error} If a particle has a non-positive mass
+ *
+ * @remarks
+ * Each constraint is treated as a linear axial spring between its two
+ * particles, linearized about their current positions; particle masses form
+ * a lumped mass matrix and pinned particles are held fixed. Pre-tension is
+ * ignored, so motion perpendicular to a straight, unsupported chain has zero
+ * stiffness and appears as a zero-frequency mode.
+ *
+ * @example
+ * ```typescript
+ * const bridge = buildTruss(); // VerletConstraint[] with pinned supports
+ * const { frequencies, shapes } = verletNormalModes(bridge, 5000);
+ * // Animate the fundamental mode
+ * shapes[0].forEach((d, i) => draw(particles[i].position, vec2Mul(d, amplitude * Math.sin(t))));
+ * ```
+ */
+export const verletNormalModes = (
+  constraints: readonly VerletConstraint[],
+  springConstant: number = 1,
+): VerletNormalModes => {
+  const particles: VerletParticle[] = [];
+  const indices = new Map<VerletParticle, number>();
+  for (const { p1, p2 } of constraints) {
+    for (const particle of [p1, p2]) {
+      if (indices.has(particle)) continue;
+      if (!(particle.mass > 0)) {
+        throw new Error(
+          "Particles in a modal analysis must have positive mass",
+        );
+      }
+      indices.set(particle, particles.length);
+      particles.push(particle);
+    }
+  }
+
+  // Degrees of freedom: x and y of every unpinned particle
+  const dofs = new Map<VerletParticle, number>();
+  particles.forEach((particle) => {
+    if (!particle.pinned) dofs.set(particle, dofs.size * 2);
+  });
+
+  const n = dofs.size * 2;
+  const stiffness = matN(n, n);
+  const mass = matN(n, n);
+  dofs.forEach((dof, particle) => {
+    mass.data[dof * n + dof] = particle.mass;
+    mass.data[(dof + 1) * n + dof + 1] = particle.mass;
+  });
+
+  for (const constraint of constraints) {
+    const delta = vec2Sub(constraint.p2.position, constraint.p1.position);
+    const length = vec2Length(delta);
+    if (length === 0) continue;
+
+    const k = springConstant * constraint.stiffness;
+    const direction = [delta.x / length, delta.y / length];
+    const ends = [dofs.get(constraint.p1), dofs.get(constraint.p2)];
+
+    // k·(e·eᵀ) on the diagonal blocks and -k·(e·eᵀ) on the coupling blocks
+    for (let a = 0; a < 2; a++) {
+      for (let b = 0; b < 2; b++) {
+        const rowDof = ends[a];
+        const colDof = ends[b];
+        if (rowDof === undefined || colDof === undefined) continue;
+        const sign = a === b ? 1 : -1;
+        for (let i = 0; i < 2; i++) {
+          for (let j = 0; j < 2; j++) {
+            stiffness.data[(rowDof + i) * n + colDof + j] +=
+              sign * k * direction[i] * direction[j];
+          }
+        }
+      }
+    }
+  }
+
+  const modes = normalModes(stiffness, mass);
+  const angularFrequencies = modes?.angularFrequencies ?? new Float64Array(0);
+  const shapes = Array.from({ length: n }, (_, mode) =>
+    particles.map((particle) => {
+      const dof = dofs.get(particle);
+      if (dof === undefined || !modes) return vec2(0, 0);
+      return vec2(
+        modes.modeShapes.data[dof * n + mode],
+        modes.modeShapes.data[(dof + 1) * n + mode],
+      );
+    }),
+  );
+
+  return {
+    angularFrequencies,
+    frequencies: angularFrequencies.map((omega) => omega / (2 * Math.PI)),
+    particles,
+    shapes,
+  };
+};
+
 // Utility functions for common physics scenarios
 export const createOrbit = (
   center: Vector2,
@@ -0,0 +1,674 @@
+/**
+ * Fast Fourier transforms and spectral analysis for audio-reactive and engineering sketches.
+ *
+ * This module provides FFT-based tools for moving signals between the time and
+ * frequency domains: complex and real-input FFTs of any length, window
+ * functions, power spectral density estimation and short-time Fourier
+ * transforms for spectrograms.
+ *
+ * @remarks
+ * Spectra are stored as a pair of `Float64Array`s ({@link ComplexArray}) rather
+ * than arrays of objects, so transforms of hundreds of thousands of samples
+ * stay fast and allocation-light.
+ *
+ * **Algorithms:**
+ * - Power-of-two lengths use an iterative radix-2 Cooley–Tukey FFT, O(N log N)
+ * - Other lengths use Bluestein's chirp-z algorithm, also O(N log N)
+ * - Real signals use a half-length complex FFT ({@link rfft})
+ *
+ * **Conventions:**
+ * - The forward transform is unscaled; {@link ifft} divides by N
+ * - Frequencies are in Hz when a sample rate is given
+ * - Windows are periodic by default, which is the right choice for spectral analysis
+ *
+ * @example
+ * Find the dominant frequency of a recording:
+ * ```typescript
+ * import { rfft, magnitudeSpectrum, rfftFrequencies, createWindow, applyWindow } from 'play.ts';
+ *
+ * const windowed = applyWindow(samples, createWindow("hann", samples.length));
+ * const magnitudes = magnitudeSpectrum(rfft(windowed));
+ * const frequencies = rfftFrequencies(samples.length, 44100);
+ *
+ * let peak = 0;
+ * for (let i = 1; i < magnitudes.length; i++) {
+ *   if (magnitudes[i] > magnitudes[peak]) peak = i;
+ * }
+ * console.log(`Dominant frequency: ${frequencies[peak]} Hz`);
+ * ```
+ *
+ * @example
+ * Spectrogram for visualization:
+ * ```typescript
+ * const { frames, times, frequencies } = stft(samples, 44100, {
+ *   frameSize: 1024,
+ *   hopSize: 256,
+ * });
+ * const columns = frames.map(magnitudeSpectrum);
+ * ```
+ *
+ * @see {@link https://en.wikipedia.org/wiki/Fast_Fourier_transform | Fast Fourier Transform}
+ * @see {@link https://en.wikipedia.org/wiki/Welch%27s_method | Welch's Method}
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A sequence of complex values stored as parallel real and imaginary arrays.
+ */
+export interface ComplexArray {
+  readonly real: Float64Array;
+  readonly imag: Float64Array;
+}
+
+export type WindowType =
+  | "rectangular"
+  | "hann"
+  | "hamming"
+  | "blackman"
+  | "flattop";
+
+export interface WelchOptions {
+  /** Samples per segment (default: 256, or the signal length if shorter) */
+  readonly segmentLength?: number;
+  /** Fraction of each segment shared with the next, in [0, 1) (default: 0.5) */
+  readonly overlap?: number;
+  /** Window applied to every segment (default: "hann") */
+  readonly window?: WindowType;
+}
+
+export interface StftOptions {
+  /** Samples per frame (default: 1024) */
+  readonly frameSize?: number;
+  /** Samples between the starts of consecutive frames (default: frameSize / 4) */
+  readonly hopSize?: number;
+  /** Window applied to every frame (default: "hann") */
+  readonly window?: WindowType;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Checks whether n is a positive power of two.
+ */
+export const isPowerOfTwo = (n: number): boolean =>
+  Number.isInteger(n) && n > 0 && (n & (n - 1)) === 0;
+
+/**
+ * Returns the smallest power of two greater than or equal to n.
+ */
+export const nextPowerOfTwo = (n: number): number => {
+  let power = 1;
+  while (power < n) power *= 2;
+  return power;
+};
+
+// In-place iterative radix-2 transform; the length must be a power of two
+const radix2 = (real: Float64Array, imag: Float64Array, inverse: boolean) => {
+  const n = real.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let temp = real[i];
+      real[i] = real[j];
+      real[j] = temp;
+      temp = imag[i];
+      imag[i] = imag[j];
+      imag[j] = temp;
+    }
+  }
+
+  const sign = inverse ? 1 : -1;
+  for (let size = 2; size <= n; size *= 2) {
+    const half = size / 2;
+    const step = (sign * 2 * Math.PI) / size;
+    for (let k = 0; k < half; k++) {
+      const wr = Math.cos(step * k);
+      const wi = Math.sin(step * k);
+      for (let start = k; start < n; start += size) {
+        const match = start + half;
+        const tr = real[match] * wr - imag[match] * wi;
+        const ti = real[match] * wi + imag[match] * wr;
+        real[match] = real[start] - tr;
+        imag[match] = imag[start] - ti;
+        real[start] += tr;
+        imag[start] += ti;
+      }
+    }
+  }
+};
+
+// Bluestein's chirp-z transform for arbitrary lengths
+const bluestein = (
+  real: Float64Array,
+  imag: Float64Array,
+  inverse: boolean,
+) => {
+  const n = real.length;
+  const m = nextPowerOfTwo(2 * n - 1);
+  const sign = inverse ? 1 : -1;
+
+  // Chirp w_k = exp(sign * iπk²/n); k² is reduced mod 2n to keep angles accurate
+  const chirpReal = new Float64Array(n);
+  const chirpImag = new Float64Array(n);
+  for (let k = 0; k < n; k++) {
+    const angle = (sign * Math.PI * ((k * k) % (2 * n))) / n;
+    chirpReal[k] = Math.cos(angle);
+    chirpImag[k] = Math.sin(angle);
+  }
+
+  const aReal = new Float64Array(m);
+  const aImag = new Float64Array(m);
+  for (let k = 0; k < n; k++) {
+    aReal[k] = real[k] * chirpReal[k] - imag[k] * chirpImag[k];
+    aImag[k] = real[k] * chirpImag[k] + imag[k] * chirpReal[k];
+  }
+
+  const bReal = new Float64Array(m);
+  const bImag = new Float64Array(m);
+  bReal[0] = chirpReal[0];
+  bImag[0] = -chirpImag[0];
+  for (let k = 1; k < n; k++) {
+    bReal[k] = bReal[m - k] = chirpReal[k];
+    bImag[k] = bImag[m - k] = -chirpImag[k];
+  }
+
+  // Circular convolution a ⊛ b via the power-of-two FFT
+  radix2(aReal, aImag, false);
+  radix2(bReal, bImag, false);
+  for (let i = 0; i < m; i++) {
+    const r = aReal[i] * bReal[i] - aImag[i] * bImag[i];
+    aImag[i] = aReal[i] * bImag[i] + aImag[i] * bReal[i];
+    aReal[i] = r;
+  }
+  radix2(aReal, aImag, true);
+
+  for (let k = 0; k < n; k++) {
+    const cr = aReal[k] / m;
+    const ci = aImag[k] / m;
+    real[k] = cr * chirpReal[k] - ci * chirpImag[k];
+    imag[k] = cr * chirpImag[k] + ci * chirpReal[k];
+  }
+};
+
+const transform = (
+  real: Float64Array,
+  imag: Float64Array,
+  inverse: boolean,
+): void => {
+  if (real.length <= 1) return;
+  if (isPowerOfTwo(real.length)) {
+    radix2(real, imag, inverse);
+  } else {
+    bluestein(real, imag, inverse);
+  }
+};
+
+// ============================================================================
+// Fourier Transforms
+// ============================================================================
+
+/**
+ * Computes the discrete Fourier transform of a complex or real signal.
+ *
+ * @param real - Real part of the signal
+ * @param imag - Imaginary part of the signal (default: all zeros)
+ * @returns Unscaled spectrum with the same length as the input
+ * @throws {Error} If `real` and `imag` have different lengths
+ *
+ * @remarks
+ * Works for any length in O(N log N). The inputs are not modified.
+ *
+ * @example
+ * ```typescript
+ * const spectrum = fft([1, 0, -1, 0]);
+ * // spectrum.real → [0, 2, 0, 2]
+ * ```
+ */
+export const fft = (
+  real: ArrayLike<number>,
+  imag?: ArrayLike<number>,
+): ComplexArray => {
+  if (imag && imag.length !== real.length) {
+    throw new Error("Real and imaginary parts must have the same length");
+  }
+
+  const outReal = Float64Array.from(real);
+  const outImag = imag
+    ? Float64Array.from(imag)
+    : new Float64Array(real.length);
+  transform(outReal, outImag, false);
+
+  return {
+    real: outReal,
+    imag: outImag,
+  };
+};
+
+/**
+ * Computes the inverse discrete Fourier transform, scaled by 1/N.
+ *
+ * @remarks
+ * `ifft(fft(x))` reproduces `x` up to floating-point rounding.
+ */
+export const ifft = (spectrum: ComplexArray): ComplexArray => {
+  const n = spectrum.real.length;
+  if (spectrum.imag.length !== n) {
+    throw new Error("Real and imaginary parts must have the same length");
+  }
+
+  const real = Float64Array.from(spectrum.real);
+  const imag = Float64Array.from(spectrum.imag);
+  transform(real, imag, true);
+
+  for (let i = 0; i < n; i++) {
+    real[i] /= n;
+    imag[i] /= n;
+  }
+
+  return {
+    real,
+    imag,
+  };
+};
+
+/**
+ * Computes the FFT of a real-valued signal, returning only the non-negative frequencies.
+ *
+ * @param signal - Real-valued samples
+ * @returns The first ⌊N/2⌋ + 1 bins of the spectrum (DC up to Nyquist)
+ *
+ * @remarks
+ * The spectrum of a real signal is conjugate-symmetric, so the negative
+ * frequencies carry no extra information. For even lengths the signal is
+ * packed into a complex sequence of half the length, roughly halving the work.
+ *
+ * @see {@link irfft} for the inverse
+ * @see {@link rfftFrequencies} for the frequency of each bin
+ */
+export const rfft = (signal: ArrayLike<number>): ComplexArray => {
+  const n = signal.length;
+  const bins = Math.floor(n / 2) + 1;
+
+  if (n < 2 || n % 2 !== 0) {
+    const full = fft(signal);
+    return {
+      real: full.real.slice(0, bins),
+      imag: full.imag.slice(0, bins),
+    };
+  }
+
+  // Pack even samples into the real part and odd samples into the imaginary part
+  const h = n / 2;
+  const zReal = new Float64Array(h);
+  const zImag = new Float64Array(h);
+  for (let k = 0; k < h; k++) {
+    zReal[k] = signal[2 * k];
+    zImag[k] = signal[2 * k + 1];
+  }
+  transform(zReal, zImag, false);
+
+  const real = new Float64Array(bins);
+  const imag = new Float64Array(bins);
+  for (let k = 0; k <= h; k++) {
+    const a = k % h;
+    const b = (h - k) % h;
+
+    // Spectra of the even (E) and odd (O) samples
+    const eReal = (zReal[a] + zReal[b]) / 2;
+    const eImag = (zImag[a] - zImag[b]) / 2;
+    const oReal = (zImag[a] + zImag[b]) / 2;
+    const oImag = -(zReal[a] - zReal[b]) / 2;
+
+    const angle = (-2 * Math.PI * k) / n;
+    const wr = Math.cos(angle);
+    const wi = Math.sin(angle);
+    real[k] = eReal + wr * oReal - wi * oImag;
+    imag[k] = eImag + wr * oImag + wi * oReal;
+  }
+
+  return {
+    real,
+    imag,
+  };
+};
+
+/**
+ * Reconstructs a real signal from its non-negative frequency bins.
+ *
+ * @param spectrum - Output of {@link rfft}
+ * @param length - Length of the original signal (default: 2 × (bins - 1))
+ * @returns Real-valued samples
+ */
+export const irfft = (
+  spectrum: ComplexArray,
+  length: number = 2 * (spectrum.real.length - 1),
+): Float64Array => {
+  const bins = spectrum.real.length;
+  if (Math.floor(length / 2) + 1 !== bins) {
+    throw new Error(
+      `Spectrum with ${bins} bins cannot produce a signal of length ${length}`,
+    );
+  }
+
+  const real = new Float64Array(length);
+  const imag = new Float64Array(length);
+  for (let k = 0; k < bins; k++) {
+    real[k] = spectrum.real[k];
+    imag[k] = spectrum.imag[k];
+  }
+  for (let k = bins; k < length; k++) {
+    real[k] = spectrum.real[length - k];
+    imag[k] = -spectrum.imag[length - k];
+  }
+
+  return ifft({ real, imag }).real;
+};
+
+/**
+ * Returns |X[k]| for every bin of a spectrum.
+ */
+export const magnitudeSpectrum = (spectrum: ComplexArray): Float64Array => {
+  const result = new Float64Array(spectrum.real.length);
+  for (let i = 0; i < result.length; i++) {
+    result[i] = Math.hypot(spectrum.real[i], spectrum.imag[i]);
+  }
+  return result;
+};
+
+/**
+ * Returns the phase angle of every bin of a spectrum, in radians.
+ */
+export const phaseSpectrum = (spectrum: ComplexArray): Float64Array => {
+  const result = new Float64Array(spectrum.real.length);
+  for (let i = 0; i < result.length; i++) {
+    result[i] = Math.atan2(spectrum.imag[i], spectrum.real[i]);
+  }
+  return result;
+};
+
+// ============================================================================
+// Window Functions
+// ============================================================================
+
+// Generalized cosine window coefficients
+const COSINE_WINDOWS: Record<Exclude<WindowType, "rectangular">, number[]> = {
+  hann: [0.5, 0.5],
+  hamming: [0.54, 0.46],
+  blackman: [0.42, 0.5, 0.08],
+  flattop: [0.21557895, 0.41663158, 0.277263158, 0.083578947, 0.006947368],
+};
+
+/**
+ * Creates a window function for spectral analysis.
+ *
+ * @param type - Window shape
+ * @param length - Number of samples
+ * @param symmetric - Use the symmetric form for filter design instead of the
+ *   periodic form used for spectral analysis (default: false)
+ * @returns Window coefficients
+ *
+ * @remarks
+ * Windowing tapers a frame to zero at its edges, reducing the spectral
+ * leakage caused by analyzing a finite slice of a signal.
+ * - **hann**: good general-purpose choice
+ * - **hamming**: lower first sidelobe, does not reach zero
+ * - **blackman**: stronger sidelobe suppression, wider main lobe
+ * - **flattop**: accurate amplitude readings of sinusoids
+ */
+export const createWindow = (
+  type: WindowType,
+  length: number,
+  symmetric: boolean = false,
+): Float64Array => {
+  const window = new Float64Array(length);
+  if (type === "rectangular" || length === 1) return window.fill(1);
+
+  const coefficients = COSINE_WINDOWS[type];
+  const denominator = symmetric ? length - 1 : length;
+
+  for (let i = 0; i < length; i++) {
+    const phase = (2 * Math.PI * i) / denominator;
+    let value = 0;
+    for (let k = 0; k < coefficients.length; k++) {
+      value += (k % 2 === 0 ? 1 : -1) * coefficients[k] * Math.cos(k * phase);
+    }
+    window[i] = value;
+  }
+
+  return window;
+};
+
+export const hannWindow = (
+  length: number,
+  symmetric: boolean = false,
+): Float64Array => createWindow("hann", length, symmetric);
+
+export const hammingWindow = (
+  length: number,
+  symmetric: boolean = false,
+): Float64Array => createWindow("hamming", length, symmetric);
+
+export const blackmanWindow = (
+  length: number,
+  symmetric: boolean = false,
+): Float64Array => createWindow("blackman", length, symmetric);
+
+export const flatTopWindow = (
+  length: number,
+  symmetric: boolean = false,
+): Float64Array => createWindow("flattop", length, symmetric);
+
+/**
+ * Multiplies a signal by a window, sample by sample.
+ *
+ * @throws {Error} If the signal and window lengths differ
+ */
+export const applyWindow = (
+  signal: ArrayLike<number>,
+  window: ArrayLike<number>,
+): Float64Array => {
+  if (signal.length !== window.length) {
+    throw new Error("Signal and window must have the same length");
+  }
+
+  const result = new Float64Array(signal.length);
+  for (let i = 0; i < result.length; i++) {
+    result[i] = signal[i] * window[i];
+  }
+  return result;
+};
+
+// ============================================================================
+// Frequency Bins
+// ============================================================================
+
+/**
+ * Returns the frequency of every bin of a full FFT, in FFT order.
+ *
+ * @remarks
+ * Bins past the middle hold negative frequencies, matching NumPy's `fftfreq`.
+ */
+export const fftFrequencies = (
+  n: number,
+  sampleRate: number = 1,
+): Float64Array => {
+  const result = new Float64Array(n);
+  const positive = Math.ceil(n / 2);
+  for (let i = 0; i < n; i++) {
+    result[i] = ((i < positive ? i : i - n) * sampleRate) / n;
+  }
+  return result;
+};
+
+/**
+ * Returns the frequency of every bin produced by {@link rfft}.
+ */
+export const rfftFrequencies = (
+  n: number,
+  sampleRate: number = 1,
+): Float64Array => {
+  const result = new Float64Array(Math.floor(n / 2) + 1);
+  for (let i = 0; i < result.length; i++) {
+    result[i] = (i * sampleRate) / n;
+  }
+  return result;
+};
+
+/**
+ * Converts a bin index of an n-point FFT to its frequency.
+ */
+export const binToFrequency = (
+  bin: number,
+  n: number,
+  sampleRate: number,
+): number => (bin * sampleRate) / n;
+
+/**
+ * Returns the nearest bin index of an n-point FFT for a frequency.
+ */
+export const frequencyToBin = (
+  frequency: number,
+  n: number,
+  sampleRate: number,
+): number => Math.round((frequency * n) / sampleRate);
+
+// ============================================================================
+// Spectral Analysis
+// ============================================================================
+
+/**
+ * Estimates the one-sided power spectral density of a signal with Welch's method.
+ *
+ * @param signal - Real-valued samples
+ * @param sampleRate - Samples per second
+ * @param options - Segment length, overlap and window
+ * @returns Frequencies in Hz and the PSD in units² / Hz
+ *
+ * @remarks
+ * The signal is split into overlapping windowed segments whose periodograms
+ * are averaged, trading frequency resolution for a much lower variance than
+ * a single FFT. Integrating the PSD over frequency recovers the mean power of
+ * the (segment-detrended) signal.
+ *
+ * @example
+ * ```typescript
+ * const { frequencies, psd } = welch(vibration, 1000, { segmentLength: 512 });
+ * ```
+ */
+export const welch = (
+  signal: ArrayLike<number>,
+  sampleRate: number,
+  options: WelchOptions = {},
+): {
+  frequencies: Float64Array;
+  psd: Float64Array;
+} => {
+  const segmentLength = Math.min(options.segmentLength ?? 256, signal.length);
+  const overlap = options.overlap ?? 0.5;
+  if (segmentLength < 1) {
+    throw new Error("Signal must contain at least one sample");
+  }
+  if (overlap < 0 || overlap >= 1) {
+    throw new Error("Overlap must be in the range [0, 1)");
+  }
+
+  const window = createWindow(options.window ?? "hann", segmentLength);
+  let windowPower = 0;
+  for (let i = 0; i < segmentLength; i++) windowPower += window[i] * window[i];
+
+  const step = Math.max(1, Math.round(segmentLength * (1 - overlap)));
+  const bins = Math.floor(segmentLength / 2) + 1;
+  const psd = new Float64Array(bins);
+  const segment = new Float64Array(segmentLength);
+  let segments = 0;
+
+  for (
+    let start = 0;
+    start + segmentLength <= signal.length;
+    start += step, segments++
+  ) {
+    let mean = 0;
+    for (let i = 0; i < segmentLength; i++) mean += signal[start + i];
+    mean /= segmentLength;
+
+    for (let i = 0; i < segmentLength; i++) {
+      segment[i] = (signal[start + i] - mean) * window[i];
+    }
+
+    const spectrum = rfft(segment);
+    for (let k = 0; k < bins; k++) {
+      psd[k] +=
+        spectrum.real[k] * spectrum.real[k] +
+        spectrum.imag[k] * spectrum.imag[k];
+    }
+  }
+
+  const scale = 1 / (sampleRate * windowPower * segments);
+  for (let k = 0; k < bins; k++) {
+    // Fold negative frequencies into the one-sided estimate
+    const isEdge = k === 0 || (segmentLength % 2 === 0 && k === bins - 1);
+    psd[k] *= isEdge ? scale : 2 * scale;
+  }
+
+  return {
+    frequencies: rfftFrequencies(segmentLength, sampleRate),
+    psd,
+  };
+};
+
+/**
+ * Computes the short-time Fourier transform of a real signal.
+ *
+ * @param signal - Real-valued samples
+ * @param sampleRate - Samples per second
+ * @param options - Frame size, hop size and window
+ * @returns One {@link rfft} spectrum per frame, the start time of each frame
+ *   in seconds, and the frequency of each bin
+ *
+ * @remarks
+ * Frames that would run past the end of the signal are dropped. Take
+ * {@link magnitudeSpectrum} of each frame to build a spectrogram image.
+ */
+export const stft = (
+  signal: ArrayLike<number>,
+  sampleRate: number,
+  options: StftOptions = {},
+): {
+  frames: ComplexArray[];
+  times: Float64Array;
+  frequencies: Float64Array;
+} => {
+  const frameSize = options.frameSize ?? 1024;
+  const hopSize = options.hopSize ?? Math.max(1, Math.floor(frameSize / 4));
+  if (frameSize < 1 || hopSize < 1) {
+    throw new Error("Frame size and hop size must be positive");
+  }
+
+  const window = createWindow(options.window ?? "hann", frameSize);
+  const frame = new Float64Array(frameSize);
+  const frames: ComplexArray[] = [];
+  const starts: number[] = [];
+
+  for (let start = 0; start + frameSize <= signal.length; start += hopSize) {
+    for (let i = 0; i < frameSize; i++) {
+      frame[i] = signal[start + i] * window[i];
+    }
+    frames.push(rfft(frame));
+    starts.push(start / sampleRate);
+  }
+
+  return {
+    frames,
+    times: Float64Array.from(starts),
+    frequencies: rfftFrequencies(frameSize, sampleRate),
+  };
+};
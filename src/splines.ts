@@ -0,0 +1,976 @@
+/**
+ * Spline curves through and around control points for motion paths and generative shapes.
+ *
+ * This module builds smooth curves from arbitrary 2D or 3D point sets:
+ * interpolating splines that pass through every point, and approximating
+ * B-spline and NURBS curves shaped by a control polygon. Every spline shares
+ * one interface for evaluation, derivatives, arc length and sampling.
+ *
+ * @remarks
+ * **Choosing a spline:**
+ * - {@link CatmullRomSpline}: passes through every point with local control; centripetal
+ *   parameterization avoids cusps and self-intersections (the default choice for paths)
+ * - {@link CubicSpline}: natural cubic with continuous curvature; smoothest, but moving one
+ *   point changes the whole curve
+ * - {@link HermiteSpline}: passes through points with explicitly chosen tangents
+ * - {@link BSpline}: approximates its control polygon with uniform or custom knots
+ * - {@link NurbsCurve}: weighted B-spline that can represent circles and conics exactly
+ *
+ * **Parameterization:** every spline is evaluated with t in [0, 1] covering
+ * the whole curve, and derivatives are taken with respect to that t. Values
+ * outside [0, 1] are clamped. Equal steps in t are generally not equal
+ * distances along the curve; use {@link Spline.pointAtLength} or
+ * {@link Spline.sampleEvenly} for constant-speed motion.
+ *
+ * Control points are `Vector2` or `Vector3` objects; a spline is 3D when its
+ * first point has a `z` component and returns points of the same shape.
+ *
+ * @example
+ * Constant-speed motion along a path:
+ * ```typescript
+ * import { CatmullRomSpline } from 'play.ts';
+ *
+ * const path = new CatmullRomSpline(waypoints);
+ * const distance = (elapsed * speed) % path.length();
+ * const position = path.pointAtLength(distance);
+ * const heading = path.tangent(path.parameterAtLength(distance));
+ * ```
+ *
+ * @example
+ * Exact circular arc with NURBS:
+ * ```typescript
+ * const arc = new NurbsCurve(
+ *   [{ x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }],
+ *   [1, Math.SQRT1_2, 1],
+ *   { degree: 2 },
+ * );
+ * arc.point(0.5); // on the unit circle
+ * ```
+ *
+ * @see {@link https://en.wikipedia.org/wiki/Centripetal_Catmull%E2%80%93Rom_spline | Centripetal Catmull–Rom Spline}
+ * @see {@link https://en.wikipedia.org/wiki/Non-uniform_rational_B-spline | NURBS}
+ */
+
+import type { Vector2, Vector3 } from "../types/index.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SplinePoint = Vector2 | Vector3;
+
+/**
+ * How parameter intervals between interpolated points are chosen: equal
+ * (uniform), proportional to the square root of the distance (centripetal)
+ * or proportional to the distance (chordal).
+ */
+export type SplineParameterization = "uniform" | "centripetal" | "chordal";
+
+export interface CubicSplineOptions {
+  /** Parameter spacing between points (default: "uniform") */
+  readonly parameterization?: SplineParameterization;
+}
+
+export interface CatmullRomOptions {
+  /** Parameter spacing between points (default: "centripetal") */
+  readonly parameterization?: SplineParameterization;
+  /** Join the last point back to the first (default: false) */
+  readonly closed?: boolean;
+}
+
+export interface BSplineOptions {
+  /** Polynomial degree (default: 3) */
+  readonly degree?: number;
+  /** Knot vector of length points + degree + 1; overrides `clamped` */
+  readonly knots?: ArrayLike<number>;
+  /** Use a clamped uniform knot vector so the curve starts and ends at the end points (default: true) */
+  readonly clamped?: boolean;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const PARAMETERIZATION_EXPONENTS: Record<SplineParameterization, number> = {
+  uniform: 0,
+  centripetal: 0.5,
+  chordal: 1,
+};
+
+// Five-point Gauss–Legendre rule on [-1, 1]
+const GAUSS_NODES = [
+  0, -0.5384693101056831, 0.5384693101056831, -0.906179845938664,
+  0.906179845938664,
+];
+const GAUSS_WEIGHTS = [
+  0.5688888888888889, 0.4786286704993665, 0.4786286704993665,
+  0.2369268850561891, 0.2369268850561891,
+];
+
+// Arc-length table intervals per polynomial piece
+const ARC_SUBDIVISIONS = 8;
+
+const dimensionOf = (points: readonly SplinePoint[]): 2 | 3 =>
+  points.length > 0 && "z" in points[0] ? 3 : 2;
+
+const coordinatesOf = (
+  points: readonly SplinePoint[],
+  dimension: 2 | 3,
+): Float64Array[] =>
+  points.map((p) =>
+    dimension === 3
+      ? Float64Array.of(p.x, p.y, (p as Vector3).z)
+      : Float64Array.of(p.x, p.y),
+  );
+
+const distance = (a: Float64Array, b: Float64Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+};
+
+// Cumulative parameter values for interpolated points
+const parameterKnots = (
+  points: readonly Float64Array[],
+  parameterization: SplineParameterization,
+): Float64Array => {
+  const exponent = PARAMETERIZATION_EXPONENTS[parameterization];
+  const knots = new Float64Array(points.length);
+  for (let i = 1; i < points.length; i++) {
+    const gap = distance(points[i - 1], points[i]);
+    if (exponent > 0 && gap === 0) {
+      throw new Error(
+        `Consecutive points must be distinct for ${parameterization} parameterization`,
+      );
+    }
+    knots[i] = knots[i - 1] + (exponent === 0 ? 1 : Math.pow(gap, exponent));
+  }
+  return knots;
+};
+
+// Index i with knots[i] <= u < knots[i + 1], restricted to [low, high - 1]
+const findSpan = (
+  knots: Float64Array,
+  u: number,
+  low: number,
+  high: number,
+): number => {
+  if (u >= knots[high]) {
+    // Last non-empty span, so the curve end is evaluated inside the domain
+    let span = high - 1;
+    while (span > low && knots[span] === knots[high]) span--;
+    return span;
+  }
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (u < knots[middle]) high = middle;
+    else low = middle;
+  }
+  return low;
+};
+
+const requirePoints = (points: readonly unknown[], minimum: number) => {
+  if (points.length < minimum) {
+    throw new Error(`Spline requires at least ${minimum} points`);
+  }
+};
+
+// ============================================================================
+// Spline Base Class
+// ============================================================================
+
+/**
+ * Common interface for all splines: evaluation over t in [0, 1],
+ * derivatives, arc length and sampling.
+ */
+export abstract class Spline<T extends SplinePoint> {
+  /** Number of coordinates per point (2 or 3) */
+  readonly dimension: 2 | 3;
+  private arcTable: {
+    readonly parameters: Float64Array;
+    readonly lengths: Float64Array;
+  } | null = null;
+
+  protected constructor(dimension: 2 | 3) {
+    this.dimension = dimension;
+  }
+
+  /**
+   * Values of t where polynomial pieces join, from 0 to 1. The arc-length
+   * table subdivides each piece so quadrature never straddles a join.
+   */
+  protected abstract breakpoints(): Float64Array;
+
+  /**
+   * Writes the derivative of the given order with respect to t into out.
+   * Order 0 is the position; t is already clamped to [0, 1].
+   */
+  protected abstract evaluate(
+    t: number,
+    order: number,
+    out: Float64Array,
+  ): void;
+
+  /**
+   * Evaluates the curve.
+   *
+   * @param t - Curve parameter in [0, 1]
+   * @returns Point on the curve
+   */
+  point(t: number): T {
+    return this.at(t, 0);
+  }
+
+  /**
+   * Evaluates a derivative of the curve with respect to t.
+   *
+   * @param t - Curve parameter in [0, 1]
+   * @param order - Derivative order (default: 1 for velocity, 2 for acceleration)
+   * @returns Derivative vector
+   * @throws {Error} If order is not a non-negative integer
+   */
+  derivative(t: number, order: number = 1): T {
+    if (!Number.isInteger(order) || order < 0) {
+      throw new Error("Derivative order must be a non-negative integer");
+    }
+    return this.at(t, order);
+  }
+
+  /**
+   * Computes the unit tangent (direction of travel).
+   *
+   * @param t - Curve parameter in [0, 1]
+   * @returns Normalized first derivative, or the zero vector where the curve is stationary
+   */
+  tangent(t: number): T {
+    const velocity = new Float64Array(this.dimension);
+    this.evaluate(this.clampParameter(t), 1, velocity);
+    const speed = Math.hypot(...velocity);
+    if (speed > 0) {
+      for (let i = 0; i < velocity.length; i++) velocity[i] /= speed;
+    }
+    return this.toPoint(velocity);
+  }
+
+  /**
+   * Computes the total arc length of the curve.
+   *
+   * @returns Length along the curve from t = 0 to t = 1
+   *
+   * @remarks
+   * The first call builds an arc-length table with Gauss–Legendre quadrature
+   * that later length queries reuse.
+   */
+  length(): number {
+    const { lengths } = this.arcLengthTable();
+    return lengths[lengths.length - 1];
+  }
+
+  /**
+   * Finds the parameter at a given distance along the curve.
+   *
+   * @param distance - Arc length from the start, clamped to [0, length()]
+   * @returns Parameter t in [0, 1]
+   */
+  parameterAtLength(distance: number): number {
+    const { parameters, lengths: table } = this.arcLengthTable();
+    const intervals = table.length - 1;
+    const total = table[intervals];
+    if (total === 0 || distance <= 0) return 0;
+    if (distance >= total) return 1;
+
+    let low = 0;
+    let high = intervals;
+    while (high - low > 1) {
+      const middle = (low + high) >> 1;
+      if (table[middle] <= distance) low = middle;
+      else high = middle;
+    }
+
+    // Newton iteration on s(t) within the interval, starting from linear interpolation
+    const start = parameters[low];
+    const end = parameters[low + 1];
+    const covered = table[low + 1] - table[low];
+    let t = start + ((distance - table[low]) / (covered || 1)) * (end - start);
+    for (let iteration = 0; iteration < 8; iteration++) {
+      const error = table[low] + this.integrateSpeed(start, t) - distance;
+      if (Math.abs(error) <= 1e-12 * total) break;
+      const speed = this.speed(t);
+      if (speed === 0) break;
+      t = Math.min(end, Math.max(start, t - error / speed));
+    }
+    return t;
+  }
+
+  /**
+   * Evaluates the curve at a given distance along it.
+   *
+   * @param distance - Arc length from the start, clamped to [0, length()]
+   * @returns Point on the curve
+   */
+  pointAtLength(distance: number): T {
+    return this.point(this.parameterAtLength(distance));
+  }
+
+  /**
+   * Samples the curve at evenly spaced parameter values.
+   *
+   * @param count - Number of points, including both ends
+   * @returns Points at t = 0, 1/(count-1), ..., 1
+   */
+  sample(count: number): T[] {
+    return Array.from({ length: count }, (_, i) =>
+      this.point(count > 1 ? i / (count - 1) : 0),
+    );
+  }
+
+  /**
+   * Samples the curve at evenly spaced distances along it.
+   *
+   * @param count - Number of points, including both ends
+   * @returns Points separated by equal arc length
+   *
+   * @example
+   * ```typescript
+   * // Place fence posts every few pixels regardless of curvature
+   * const posts = spline.sampleEvenly(Math.ceil(spline.length() / 20) + 1);
+   * ```
+   */
+  sampleEvenly(count: number): T[] {
+    const total = this.length();
+    return Array.from({ length: count }, (_, i) =>
+      this.pointAtLength(count > 1 ? (total * i) / (count - 1) : 0),
+    );
+  }
+
+  private at(t: number, order: number): T {
+    const out = new Float64Array(this.dimension);
+    this.evaluate(this.clampParameter(t), order, out);
+    return this.toPoint(out);
+  }
+
+  private clampParameter(t: number): number {
+    return Math.min(1, Math.max(0, t));
+  }
+
+  private toPoint(coordinates: Float64Array): T {
+    const p: SplinePoint =
+      this.dimension === 3
+        ? { x: coordinates[0], y: coordinates[1], z: coordinates[2] }
+        : { x: coordinates[0], y: coordinates[1] };
+    return p as T;
+  }
+
+  private speed(t: number): number {
+    const velocity = new Float64Array(this.dimension);
+    this.evaluate(t, 1, velocity);
+    return Math.hypot(...velocity);
+  }
+
+  private integrateSpeed(a: number, b: number): number {
+    const half = (b - a) / 2;
+    const middle = (a + b) / 2;
+    let sum = 0;
+    for (let i = 0; i < GAUSS_NODES.length; i++) {
+      sum += GAUSS_WEIGHTS[i] * this.speed(middle + half * GAUSS_NODES[i]);
+    }
+    return sum * half;
+  }
+
+  private arcLengthTable() {
+    if (!this.arcTable) {
+      const breaks = this.breakpoints();
+      const pieces = breaks.length - 1;
+      const parameters = new Float64Array(pieces * ARC_SUBDIVISIONS + 1);
+      const lengths = new Float64Array(parameters.length);
+      for (let piece = 0; piece < pieces; piece++) {
+        const start = breaks[piece];
+        const width = breaks[piece + 1] - start;
+        for (let k = 1; k <= ARC_SUBDIVISIONS; k++) {
+          const i = piece * ARC_SUBDIVISIONS + k;
+          parameters[i] = start + (width * k) / ARC_SUBDIVISIONS;
+          lengths[i] =
+            lengths[i - 1] +
+            this.integrateSpeed(parameters[i - 1], parameters[i]);
+        }
+      }
+      parameters[parameters.length - 1] = 1;
+      this.arcTable = { parameters, lengths };
+    }
+    return this.arcTable;
+  }
+}
+
+// ============================================================================
+// Interpolating Splines
+// ============================================================================
+
+/**
+ * Spline made of one cubic polynomial per interval between knots, stored as
+ * coefficients of (u - knot) for each coordinate.
+ */
+abstract class PiecewiseCubicSpline<T extends SplinePoint> extends Spline<T> {
+  /** Parameter value at each interpolated point */
+  readonly knots: Float64Array;
+  private coefficients: Float64Array;
+
+  protected constructor(dimension: 2 | 3, knots: Float64Array) {
+    super(dimension);
+    this.knots = knots;
+    this.coefficients = new Float64Array((knots.length - 1) * dimension * 4);
+  }
+
+  protected breakpoints(): Float64Array {
+    const knots = this.knots;
+    const span = knots[knots.length - 1] - knots[0];
+    return knots.map((knot) => (knot - knots[0]) / span);
+  }
+
+  /**
+   * Sets segment i from its end points and end derivatives with respect to
+   * the knot parameter.
+   */
+  protected setHermiteSegment(
+    i: number,
+    p0: Float64Array,
+    p1: Float64Array,
+    m0: Float64Array,
+    m1: Float64Array,
+  ): void {
+    const h = this.knots[i + 1] - this.knots[i];
+    for (let d = 0; d < this.dimension; d++) {
+      const slope = (p1[d] - p0[d]) / h;
+      this.setSegment(
+        i,
+        d,
+        p0[d],
+        m0[d],
+        (3 * slope - 2 * m0[d] - m1[d]) / h,
+        (m0[d] + m1[d] - 2 * slope) / (h * h),
+      );
+    }
+  }
+
+  protected setSegment(
+    i: number,
+    d: number,
+    c0: number,
+    c1: number,
+    c2: number,
+    c3: number,
+  ): void {
+    this.coefficients.set([c0, c1, c2, c3], (i * this.dimension + d) * 4);
+  }
+
+  protected evaluate(t: number, order: number, out: Float64Array): void {
+    const knots = this.knots;
+    const last = knots.length - 1;
+    const span = knots[last] - knots[0];
+    const u = knots[0] + t * span;
+    const i = findSpan(knots, u, 0, last);
+    const s = u - knots[i];
+    const scale = Math.pow(span, order);
+
+    for (let d = 0; d < this.dimension; d++) {
+      const offset = (i * this.dimension + d) * 4;
+      const [c0, c1, c2, c3] = this.coefficients.subarray(offset, offset + 4);
+      let value: number;
+      switch (order) {
+        case 0:
+          value = c0 + s * (c1 + s * (c2 + s * c3));
+          break;
+        case 1:
+          value = c1 + s * (2 * c2 + 3 * s * c3);
+          break;
+        case 2:
+          value = 2 * c2 + 6 * s * c3;
+          break;
+        case 3:
+          value = 6 * c3;
+          break;
+        default:
+          value = 0;
+      }
+      out[d] = value * scale;
+    }
+  }
+}
+
+/**
+ * Natural cubic spline through every point.
+ *
+ * @remarks
+ * Position, slope and curvature are continuous everywhere, and curvature is
+ * zero at both ends. Each point influences the whole curve, so moving one
+ * point reshapes every segment slightly.
+ *
+ * @example
+ * ```typescript
+ * const profile = new CubicSpline([
+ *   { x: 0, y: 0 }, { x: 1, y: 2 }, { x: 3, y: 1 }, { x: 4, y: 3 },
+ * ]);
+ * const bend = profile.derivative(0.5, 2);
+ * ```
+ */
+export class CubicSpline<
+  T extends SplinePoint,
+> extends PiecewiseCubicSpline<T> {
+  /**
+   * Creates a natural cubic spline.
+   *
+   * @param points - Points to interpolate (at least 2)
+   * @param options - Parameterization
+   * @throws {Error} If there are fewer than 2 points, or coincident consecutive
+   *   points with a non-uniform parameterization
+   */
+  constructor(points: readonly T[], options: CubicSplineOptions = {}) {
+    requirePoints(points, 2);
+    const dimension = dimensionOf(points);
+    const p = coordinatesOf(points, dimension);
+    super(dimension, parameterKnots(p, options.parameterization ?? "uniform"));
+
+    const knots = this.knots;
+    const n = points.length - 1;
+    const h = (i: number) => knots[i + 1] - knots[i];
+
+    // Solve the tridiagonal system for second derivatives (zero at both ends)
+    for (let d = 0; d < dimension; d++) {
+      const second = new Float64Array(n + 1);
+      const diagonal = new Float64Array(n + 1);
+      const rhs = new Float64Array(n + 1);
+      for (let i = 1; i < n; i++) {
+        diagonal[i] = 2 * (h(i - 1) + h(i));
+        rhs[i] =
+          6 *
+          ((p[i + 1][d] - p[i][d]) / h(i) - (p[i][d] - p[i - 1][d]) / h(i - 1));
+      }
+      for (let i = 2; i < n; i++) {
+        const factor = h(i - 1) / diagonal[i - 1];
+        diagonal[i] -= factor * h(i - 1);
+        rhs[i] -= factor * rhs[i - 1];
+      }
+      for (let i = n - 1; i >= 1; i--) {
+        second[i] = (rhs[i] - h(i) * second[i + 1]) / diagonal[i];
+      }
+
+      for (let i = 0; i < n; i++) {
+        this.setSegment(
+          i,
+          d,
+          p[i][d],
+          (p[i + 1][d] - p[i][d]) / h(i) -
+            (h(i) * (2 * second[i] + second[i + 1])) / 6,
+          second[i] / 2,
+          (second[i + 1] - second[i]) / (6 * h(i)),
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Catmull–Rom spline through every point with local control.
+ *
+ * @remarks
+ * Each segment depends only on its two end points and their neighbors, so
+ * editing a point changes at most four segments. The centripetal
+ * parameterization (the default) never forms cusps or self-intersections
+ * within a segment; uniform is the classic, tighter-cornered variant and
+ * chordal follows the data more loosely. Open curves extend their end
+ * segments by reflecting the second and second-to-last points.
+ *
+ * @example
+ * ```typescript
+ * const loop = new CatmullRomSpline(trackPoints, { closed: true });
+ * const positions = loop.sampleEvenly(200);
+ * ```
+ *
+ * @see {@link https://www.cemyuksel.com/research/catmullrom_param/ | Parameterization and Applications of Catmull–Rom Curves}
+ */
+export class CatmullRomSpline<
+  T extends SplinePoint,
+> extends PiecewiseCubicSpline<T> {
+  /** Whether the curve joins the last point back to the first */
+  readonly closed: boolean;
+
+  /**
+   * Creates a Catmull–Rom spline.
+   *
+   * @param points - Points to interpolate (at least 2)
+   * @param options - Parameterization and whether the curve is closed
+   * @throws {Error} If there are fewer than 2 points, or coincident consecutive
+   *   points with a non-uniform parameterization
+   */
+  constructor(points: readonly T[], options: CatmullRomOptions = {}) {
+    requirePoints(points, 2);
+    const dimension = dimensionOf(points);
+    const closed = options.closed ?? false;
+    const p = coordinatesOf(points, dimension);
+    const n = p.length;
+
+    // Neighbor points before the first and after the last interpolated point
+    const reflect = (a: Float64Array, b: Float64Array) =>
+      a.map((value, i) => 2 * value - b[i]);
+    const extended = closed
+      ? [p[n - 1], ...p, p[0], p[1 % n]]
+      : [reflect(p[0], p[1]), ...p, reflect(p[n - 1], p[n - 2])];
+    const parameters = parameterKnots(
+      extended,
+      options.parameterization ?? "centripetal",
+    );
+    super(dimension, parameters.slice(1, parameters.length - 1));
+    this.closed = closed;
+
+    // Tangent at extended[i] from its neighbors (non-uniform Catmull–Rom)
+    const tangent = (i: number) => {
+      const [t0, t1, t2] = [
+        parameters[i - 1],
+        parameters[i],
+        parameters[i + 1],
+      ];
+      const [a, b, c] = [extended[i - 1], extended[i], extended[i + 1]];
+      return b.map(
+        (value, d) =>
+          (value - a[d]) / (t1 - t0) -
+          (c[d] - a[d]) / (t2 - t0) +
+          (c[d] - value) / (t2 - t1),
+      );
+    };
+
+    const segments = extended.length - 3;
+    for (let i = 0; i < segments; i++) {
+      this.setHermiteSegment(
+        i,
+        extended[i + 1],
+        extended[i + 2],
+        tangent(i + 1),
+        tangent(i + 2),
+      );
+    }
+  }
+}
+
+/**
+ * Cubic Hermite spline through points with given tangents.
+ *
+ * @remarks
+ * Segment i runs between points i and i + 1. Tangents are derivatives per
+ * segment, so a tangent equal to the chord to the next point gives roughly
+ * even speed; longer tangents make the curve overshoot.
+ *
+ * @example
+ * ```typescript
+ * // Ease out of one heading into another
+ * const turn = new HermiteSpline(
+ *   [{ x: 0, y: 0 }, { x: 100, y: 100 }],
+ *   [{ x: 150, y: 0 }, { x: 0, y: 150 }],
+ * );
+ * ```
+ */
+export class HermiteSpline<
+  T extends SplinePoint,
+> extends PiecewiseCubicSpline<T> {
+  /**
+   * Creates a Hermite spline.
+   *
+   * @param points - Points to interpolate (at least 2)
+   * @param tangents - Derivative at each point, one per point
+   * @throws {Error} If there are fewer than 2 points or the tangent count differs
+   */
+  constructor(points: readonly T[], tangents: readonly T[]) {
+    requirePoints(points, 2);
+    if (tangents.length !== points.length) {
+      throw new Error("Hermite spline requires one tangent per point");
+    }
+    const dimension = dimensionOf(points);
+    const p = coordinatesOf(points, dimension);
+    const m = coordinatesOf(tangents, dimension);
+    super(dimension, parameterKnots(p, "uniform"));
+
+    for (let i = 0; i < p.length - 1; i++) {
+      this.setHermiteSegment(i, p[i], p[i + 1], m[i], m[i + 1]);
+    }
+  }
+}
+
+// ============================================================================
+// B-Splines and NURBS
+// ============================================================================
+
+// Control net (flattened, `stride` values per point) with its knots and degree
+interface ControlNet {
+  readonly points: Float64Array;
+  readonly knots: Float64Array;
+  readonly degree: number;
+}
+
+/**
+ * Spline defined by a control net over a knot vector, evaluated with de Boor's algorithm.
+ */
+abstract class KnotSpline<T extends SplinePoint> extends Spline<T> {
+  /** Polynomial degree */
+  readonly degree: number;
+  /** Knot vector */
+  readonly knots: Float64Array;
+  /** Values per control point in the net */
+  private readonly stride: number;
+  /** Control net and its derivative nets, indexed by derivative order */
+  private readonly nets: ControlNet[];
+
+  protected constructor(
+    dimension: 2 | 3,
+    net: Float64Array,
+    stride: number,
+    options: BSplineOptions,
+  ) {
+    super(dimension);
+    const count = net.length / stride;
+    const degree = options.degree ?? 3;
+    if (!Number.isInteger(degree) || degree < 1) {
+      throw new Error(`Degree must be a positive integer, got ${degree}`);
+    }
+    if (count <= degree) {
+      throw new Error(
+        `Degree ${degree} spline requires at least ${degree + 1} control points`,
+      );
+    }
+
+    let knots: Float64Array;
+    if (options.knots) {
+      knots = Float64Array.from(options.knots);
+      if (knots.length !== count + degree + 1) {
+        throw new Error(
+          `Knot vector must have ${count + degree + 1} values, got ${knots.length}`,
+        );
+      }
+      for (let i = 1; i < knots.length; i++) {
+        if (knots[i] < knots[i - 1]) {
+          throw new Error("Knot vector must be non-decreasing");
+        }
+      }
+      if (!(knots[count] > knots[degree])) {
+        throw new Error("Knot vector must span a non-empty domain");
+      }
+    } else if (options.clamped ?? true) {
+      knots = new Float64Array(count + degree + 1);
+      for (let i = 0; i < knots.length; i++) {
+        knots[i] = Math.min(Math.max(i - degree, 0), count - degree);
+      }
+    } else {
+      knots = Float64Array.from({ length: count + degree + 1 }, (_, i) => i);
+    }
+
+    this.degree = degree;
+    this.knots = knots;
+    this.stride = stride;
+    this.nets = [{ points: net, knots, degree }];
+  }
+
+  protected breakpoints(): Float64Array {
+    const [start, end] = this.domain();
+    const breaks = [0];
+    for (
+      let i = this.degree + 1;
+      i < this.knots.length - this.degree - 1;
+      i++
+    ) {
+      if (this.knots[i] > this.knots[i - 1]) {
+        breaks.push((this.knots[i] - start) / (end - start));
+      }
+    }
+    breaks.push(1);
+    return Float64Array.from(breaks);
+  }
+
+  /** Start and end of the knot domain */
+  protected domain(): [number, number] {
+    const count = this.knots.length - this.degree - 1;
+    return [this.knots[this.degree], this.knots[count]];
+  }
+
+  /** Evaluates the net derivative of the given order at knot parameter u. */
+  protected evaluateNet(u: number, order: number, out: Float64Array): void {
+    out.fill(0);
+    if (order > this.degree) return;
+    const { points, knots, degree } = this.derivativeNet(order);
+    const stride = this.stride;
+    const count = points.length / stride;
+    const span = findSpan(knots, u, degree, count);
+
+    // de Boor's algorithm on the degree + 1 control points affecting the span
+    const d = points.slice((span - degree) * stride, (span + 1) * stride);
+    for (let r = 1; r <= degree; r++) {
+      for (let j = degree; j >= r; j--) {
+        const left = knots[j + span - degree];
+        const alpha = (u - left) / (knots[j + 1 + span - r] - left);
+        for (let k = 0; k < stride; k++) {
+          d[j * stride + k] =
+            (1 - alpha) * d[(j - 1) * stride + k] + alpha * d[j * stride + k];
+        }
+      }
+    }
+    out.set(d.subarray(degree * stride, (degree + 1) * stride));
+  }
+
+  // Derivative of a B-spline is a B-spline of one lower degree on the inner knots
+  private derivativeNet(order: number): ControlNet {
+    const stride = this.stride;
+    while (this.nets.length <= order) {
+      const { points, knots, degree } = this.nets[this.nets.length - 1];
+      const count = points.length / stride - 1;
+      const derived = new Float64Array(count * stride);
+      for (let i = 0; i < count; i++) {
+        const width = knots[i + degree + 1] - knots[i + 1];
+        if (width === 0) continue;
+        for (let k = 0; k < stride; k++) {
+          derived[i * stride + k] =
+            (degree * (points[(i + 1) * stride + k] - points[i * stride + k])) /
+            width;
+        }
+      }
+      this.nets.push({
+        points: derived,
+        knots: knots.subarray(1, knots.length - 1),
+        degree: degree - 1,
+      });
+    }
+    return this.nets[order];
+  }
+}
+
+/**
+ * B-spline curve shaped by a control polygon.
+ *
+ * @remarks
+ * The curve generally does not pass through its control points but stays
+ * inside their convex hull, and moving a point only affects the `degree + 1`
+ * spans around it. With the default clamped uniform knots the curve starts
+ * at the first control point and ends at the last; unclamped uniform knots
+ * give the classic periodic-style B-spline, and a custom knot vector gives a
+ * non-uniform B-spline where repeated knots create sharper features.
+ *
+ * @example
+ * ```typescript
+ * const smooth = new BSpline(controlPoints);                  // cubic, clamped
+ * const quadratic = new BSpline(controlPoints, { degree: 2 });
+ * const custom = new BSpline(fivePoints, {
+ *   degree: 2,
+ *   knots: [0, 0, 0, 1, 1, 2, 2, 2],                          // corner at u = 1
+ * });
+ * ```
+ */
+export class BSpline<T extends SplinePoint> extends KnotSpline<T> {
+  /**
+   * Creates a B-spline.
+   *
+   * @param controlPoints - Control polygon (more than `degree` points)
+   * @param options - Degree and knot vector
+   * @throws {Error} If the degree, point count or knot vector is invalid
+   */
+  constructor(controlPoints: readonly T[], options: BSplineOptions = {}) {
+    const dimension = dimensionOf(controlPoints);
+    const net = new Float64Array(controlPoints.length * dimension);
+    coordinatesOf(controlPoints, dimension).forEach((p, i) =>
+      net.set(p, i * dimension),
+    );
+    super(dimension, net, dimension, options);
+  }
+
+  protected evaluate(t: number, order: number, out: Float64Array): void {
+    const [start, end] = this.domain();
+    this.evaluateNet(start + t * (end - start), order, out);
+    const scale = Math.pow(end - start, order);
+    for (let i = 0; i < out.length; i++) out[i] *= scale;
+  }
+}
+
+/**
+ * Non-uniform rational B-spline (NURBS) curve.
+ *
+ * @remarks
+ * Each control point has a weight that pulls the curve toward it; with all
+ * weights equal the curve is an ordinary {@link BSpline}. Rational weights
+ * represent conic sections exactly: a quadratic with weights [1, cos(θ/2), 1]
+ * and clamped knots is a circular arc of angle θ.
+ *
+ * @example
+ * ```typescript
+ * // Full circle from four 90° arcs
+ * const w = Math.SQRT1_2;
+ * const circle = new NurbsCurve(
+ *   [{ x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }, { x: -1, y: 1 }, { x: -1, y: 0 },
+ *    { x: -1, y: -1 }, { x: 0, y: -1 }, { x: 1, y: -1 }, { x: 1, y: 0 }],
+ *   [1, w, 1, w, 1, w, 1, w, 1],
+ *   { degree: 2, knots: [0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 4] },
+ * );
+ * ```
+ */
+export class NurbsCurve<T extends SplinePoint> extends KnotSpline<T> {
+  /** Weight of each control point */
+  readonly weights: Float64Array;
+
+  /**
+   * Creates a NURBS curve.
+   *
+   * @param controlPoints - Control polygon (more than `degree` points)
+   * @param weights - Positive weight per control point
+   * @param options - Degree and knot vector
+   * @throws {Error} If a weight is not positive, the counts differ, or the
+   *   degree, point count or knot vector is invalid
+   */
+  constructor(
+    controlPoints: readonly T[],
+    weights: ArrayLike<number>,
+    options: BSplineOptions = {},
+  ) {
+    if (weights.length !== controlPoints.length) {
+      throw new Error("NURBS curve requires one weight per control point");
+    }
+    const dimension = dimensionOf(controlPoints);
+    const stride = dimension + 1;
+
+    // Homogeneous coordinates (w·x, w·y, [w·z,] w)
+    const net = new Float64Array(controlPoints.length * stride);
+    coordinatesOf(controlPoints, dimension).forEach((p, i) => {
+      const w = weights[i];
+      if (!(w > 0)) {
+        throw new Error(`Weights must be positive, got ${w} at index ${i}`);
+      }
+      for (let k = 0; k < dimension; k++) net[i * stride + k] = w * p[k];
+      net[i * stride + dimension] = w;
+    });
+    super(dimension, net, stride, options);
+    this.weights = Float64Array.from(weights);
+  }
+
+  protected evaluate(t: number, order: number, out: Float64Array): void {
+    const [start, end] = this.domain();
+    const u = start + t * (end - start);
+    const dimension = this.dimension;
+
+    // Derivatives of the rational curve C = A / w by the quotient rule:
+    // C⁽ᵏ⁾ = (A⁽ᵏ⁾ - Σᵢ₌₁ᵏ C(k, i) w⁽ⁱ⁾ C⁽ᵏ⁻ⁱ⁾) / w
+    const homogeneous: Float64Array[] = [];
+    const derivatives: Float64Array[] = [];
+    for (let k = 0; k <= order; k++) {
+      const h = new Float64Array(dimension + 1);
+      this.evaluateNet(u, k, h);
+      homogeneous.push(h);
+
+      const c = h.slice(0, dimension);
+      let binomial = 1;
+      for (let i = 1; i <= k; i++) {
+        binomial = (binomial * (k - i + 1)) / i;
+        const weightDerivative = homogeneous[i][dimension];
+        for (let j = 0; j < dimension; j++) {
+          c[j] -= binomial * weightDerivative * derivatives[k - i][j];
+        }
+      }
+      for (let j = 0; j < dimension; j++) c[j] /= homogeneous[0][dimension];
+      derivatives.push(c);
+    }
+
+    const scale = Math.pow(end - start, order);
+    for (let j = 0; j < dimension; j++) out[j] = derivatives[order][j] * scale;
+  }
+}
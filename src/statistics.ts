@@ -0,0 +1,709 @@
+/**
+ * Descriptive and streaming statistics for metrics, dashboards and data analysis.
+ *
+ * This module summarizes samples: central tendency, spread, quantiles,
+ * histograms, correlation and simple linear regression. Streaming
+ * accumulators update in constant time and memory per sample for live
+ * displays that never store their history.
+ *
+ * @remarks
+ * **Batch functions** take any `ArrayLike<number>` (arrays or typed arrays)
+ * and throw on empty input rather than returning `NaN`.
+ *
+ * **Population vs. sample:** {@link variance}, {@link stddev} and
+ * {@link covariance} divide by n by default. Pass `sample = true` to divide
+ * by n - 1 for an unbiased estimate from a sample.
+ *
+ * **Streaming accumulators:**
+ * - {@link RunningStatistics}: count, mean, variance, min and max (Welford's algorithm)
+ * - {@link ExponentialMovingAverage}: smoothed value weighted toward recent samples
+ * - {@link P2Quantile}: median or any percentile from five markers (P² algorithm)
+ *
+ * @example
+ * Frame time monitoring without storing samples:
+ * ```typescript
+ * import { RunningStatistics, P2Quantile } from 'play.ts';
+ *
+ * const frameTimes = new RunningStatistics();
+ * const p95 = new P2Quantile(0.95);
+ *
+ * function onFrame(deltaMs: number) {
+ *   frameTimes.push(deltaMs);
+ *   p95.push(deltaMs);
+ *   drawText(`avg ${frameTimes.mean().toFixed(1)} ms, p95 ${p95.value().toFixed(1)} ms`);
+ * }
+ * ```
+ *
+ * @example
+ * Trend line through measurements:
+ * ```typescript
+ * const fit = linearRegression(times, temperatures);
+ * console.log(`Warming ${fit.slope.toFixed(2)} °C/h (R² = ${fit.rSquared.toFixed(3)})`);
+ * ```
+ *
+ * @see {@link https://en.wikipedia.org/wiki/Algorithms_for_calculating_variance | Welford's Algorithm}
+ * @see {@link https://www.cse.wustl.edu/~jain/papers/ftp/psqr.pdf | The P² Algorithm}
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Histogram {
+  /** Bin edges; bin i covers [edges[i], edges[i + 1]) and the last bin includes its upper edge */
+  readonly edges: Float64Array;
+  /** Number of values in each bin */
+  readonly counts: Uint32Array;
+}
+
+export interface HistogramOptions {
+  /** Number of equal-width bins (default: 10) */
+  readonly bins?: number;
+  /** Value range to bin (default: data minimum to maximum); values outside are ignored */
+  readonly range?: readonly [number, number];
+}
+
+export interface LinearRegression {
+  readonly slope: number;
+  readonly intercept: number;
+  /** Coefficient of determination, 1 for a perfect fit */
+  readonly rSquared: number;
+  /** Evaluates the fitted line at x */
+  readonly predict: (x: number) => number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const requireValues = (values: ArrayLike<number>, operation: string) => {
+  if (values.length === 0) {
+    throw new Error(`Cannot compute ${operation} of an empty data set`);
+  }
+};
+
+const requirePairs = (
+  x: ArrayLike<number>,
+  y: ArrayLike<number>,
+  operation: string,
+) => {
+  if (x.length !== y.length) {
+    throw new Error(`${operation} requires x and y of the same length`);
+  }
+  requireValues(x, operation);
+};
+
+const sorted = (values: ArrayLike<number>): Float64Array =>
+  Float64Array.from(values).sort();
+
+// Mean product of deviations, shared by variance and covariance
+const meanProduct = (
+  x: ArrayLike<number>,
+  y: ArrayLike<number>,
+  sample: boolean,
+  operation: string,
+): number => {
+  requirePairs(x, y, operation);
+  const n = x.length;
+  if (sample && n < 2) {
+    throw new Error(`Sample ${operation} requires at least two values`);
+  }
+  const meanX = mean(x);
+  const meanY = mean(y);
+  let total = 0;
+  for (let i = 0; i < n; i++) total += (x[i] - meanX) * (y[i] - meanY);
+  return total / (sample ? n - 1 : n);
+};
+
+// Linear interpolation between closest ranks (Hyndman & Fan type 7, as in Excel and NumPy)
+const sortedQuantile = (sortedValues: Float64Array, p: number): number => {
+  if (!(p >= 0 && p <= 1)) {
+    throw new Error(`Quantile must be between 0 and 1, got ${p}`);
+  }
+  const position = p * (sortedValues.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, sortedValues.length - 1);
+  const fraction = position - lower;
+  return (
+    sortedValues[lower] + fraction * (sortedValues[upper] - sortedValues[lower])
+  );
+};
+
+// ============================================================================
+// Central Tendency
+// ============================================================================
+
+/**
+ * Computes the arithmetic mean.
+ *
+ * @param values - Data set
+ * @returns Sum divided by count
+ * @throws {Error} If values is empty
+ */
+export const mean = (values: ArrayLike<number>): number => {
+  requireValues(values, "mean");
+  let total = 0;
+  for (let i = 0; i < values.length; i++) total += values[i];
+  return total / values.length;
+};
+
+/**
+ * Computes the median, averaging the two middle values for even counts.
+ *
+ * @param values - Data set
+ * @returns Middle value
+ * @throws {Error} If values is empty
+ */
+export const median = (values: ArrayLike<number>): number => {
+  requireValues(values, "median");
+  return sortedQuantile(sorted(values), 0.5);
+};
+
+/**
+ * Finds the most frequent values.
+ *
+ * @param values - Data set
+ * @returns Every value that occurs most often, in ascending order
+ * @throws {Error} If values is empty
+ *
+ * @example
+ * ```typescript
+ * mode([1, 2, 2, 3]);    // [2]
+ * mode([1, 1, 2, 2, 3]); // [1, 2]
+ * ```
+ */
+export const mode = (values: ArrayLike<number>): number[] => {
+  requireValues(values, "mode");
+  const counts = new Map<number, number>();
+  let highest = 0;
+  for (let i = 0; i < values.length; i++) {
+    const count = (counts.get(values[i]) ?? 0) + 1;
+    counts.set(values[i], count);
+    highest = Math.max(highest, count);
+  }
+  return [...counts]
+    .filter(([, count]) => count === highest)
+    .map(([value]) => value)
+    .sort((a, b) => a - b);
+};
+
+// ============================================================================
+// Spread
+// ============================================================================
+
+/**
+ * Computes the variance.
+ *
+ * @param values - Data set
+ * @param sample - Divide by n - 1 instead of n (default: false)
+ * @returns Mean squared deviation from the mean
+ * @throws {Error} If values is empty, or has one value when sample is true
+ */
+export const variance = (
+  values: ArrayLike<number>,
+  sample: boolean = false,
+): number => meanProduct(values, values, sample, "variance");
+
+/**
+ * Computes the standard deviation.
+ *
+ * @param values - Data set
+ * @param sample - Divide by n - 1 instead of n (default: false)
+ * @returns Square root of the variance
+ * @throws {Error} If values is empty, or has one value when sample is true
+ */
+export const stddev = (
+  values: ArrayLike<number>,
+  sample: boolean = false,
+): number => Math.sqrt(variance(values, sample));
+
+// ============================================================================
+// Quantiles
+// ============================================================================
+
+/**
+ * Computes a quantile with linear interpolation between data points.
+ *
+ * @param values - Data set
+ * @param p - Quantile between 0 and 1 (0.5 is the median)
+ * @returns Interpolated value below which a fraction p of the data lies
+ * @throws {Error} If values is empty or p is outside [0, 1]
+ *
+ * @remarks
+ * Sorts a copy of the data on every call; use {@link quantiles} to compute
+ * several at once.
+ */
+export const quantile = (values: ArrayLike<number>, p: number): number => {
+  requireValues(values, "quantile");
+  return sortedQuantile(sorted(values), p);
+};
+
+/**
+ * Computes several quantiles with a single sort.
+ *
+ * @param values - Data set
+ * @param ps - Quantiles between 0 and 1
+ * @returns One value per requested quantile
+ * @throws {Error} If values is empty or any p is outside [0, 1]
+ *
+ * @example
+ * ```typescript
+ * const [q1, q2, q3] = quantiles(latencies, [0.25, 0.5, 0.75]);
+ * const iqr = q3 - q1;
+ * ```
+ */
+export const quantiles = (
+  values: ArrayLike<number>,
+  ps: readonly number[],
+): number[] => {
+  requireValues(values, "quantiles");
+  const sortedValues = sorted(values);
+  return ps.map((p) => sortedQuantile(sortedValues, p));
+};
+
+/**
+ * Computes a percentile.
+ *
+ * @param values - Data set
+ * @param percent - Percentile between 0 and 100
+ * @returns Interpolated value below which percent% of the data lies
+ * @throws {Error} If values is empty or percent is outside [0, 100]
+ *
+ * @example
+ * ```typescript
+ * const p99 = percentile(responseTimes, 99);
+ * ```
+ */
+export const percentile = (
+  values: ArrayLike<number>,
+  percent: number,
+): number => quantile(values, percent / 100);
+
+// ============================================================================
+// Histograms
+// ============================================================================
+
+/**
+ * Counts values into equal-width bins.
+ *
+ * @param values - Data set
+ * @param options - Bin count and value range
+ * @returns Bin edges and counts
+ * @throws {Error} If bins is not a positive integer or the range is inverted
+ *
+ * @remarks
+ * When all values are equal (or the range is empty) a single value's bin
+ * is widened to [value - 0.5, value + 0.5] so every value is counted.
+ *
+ * @example
+ * ```typescript
+ * const { edges, counts } = histogram(frameTimes, { bins: 20, range: [0, 50] });
+ * counts.forEach((count, i) => drawBar(edges[i], edges[i + 1], count));
+ * ```
+ */
+export const histogram = (
+  values: ArrayLike<number>,
+  options: HistogramOptions = {},
+): Histogram => {
+  const bins = options.bins ?? 10;
+  if (!Number.isInteger(bins) || bins < 1) {
+    throw new Error(`Bin count must be a positive integer, got ${bins}`);
+  }
+
+  let low: number;
+  let high: number;
+  if (options.range) {
+    [low, high] = options.range;
+    if (!(low <= high)) {
+      throw new Error("Histogram range must be [min, max] with min <= max");
+    }
+  } else {
+    low = Infinity;
+    high = -Infinity;
+    for (let i = 0; i < values.length; i++) {
+      low = Math.min(low, values[i]);
+      high = Math.max(high, values[i]);
+    }
+    if (values.length === 0) {
+      low = 0;
+      high = 1;
+    }
+  }
+  if (low === high) {
+    low -= 0.5;
+    high += 0.5;
+  }
+
+  const width = (high - low) / bins;
+  const edges = new Float64Array(bins + 1);
+  for (let i = 0; i <= bins; i++) edges[i] = low + i * width;
+  edges[bins] = high;
+
+  const counts = new Uint32Array(bins);
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (!(value >= low && value <= high)) continue;
+    counts[Math.min(bins - 1, Math.floor((value - low) / width))]++;
+  }
+
+  return { edges, counts };
+};
+
+// ============================================================================
+// Correlation and Regression
+// ============================================================================
+
+/**
+ * Computes the covariance of paired data.
+ *
+ * @param x - First variable
+ * @param y - Second variable, same length as x
+ * @param sample - Divide by n - 1 instead of n (default: false)
+ * @returns Mean product of deviations from the means
+ * @throws {Error} If the lengths differ, the data is empty, or sample is true with one pair
+ */
+export const covariance = (
+  x: ArrayLike<number>,
+  y: ArrayLike<number>,
+  sample: boolean = false,
+): number => meanProduct(x, y, sample, "covariance");
+
+/**
+ * Computes the Pearson correlation coefficient of paired data.
+ *
+ * @param x - First variable
+ * @param y - Second variable, same length as x
+ * @returns Correlation between -1 and 1, or NaN if either variable is constant
+ * @throws {Error} If the lengths differ or the data is empty
+ */
+export const correlation = (
+  x: ArrayLike<number>,
+  y: ArrayLike<number>,
+): number => {
+  const result = covariance(x, y) / Math.sqrt(variance(x) * variance(y));
+  return Math.max(-1, Math.min(1, result));
+};
+
+/**
+ * Fits a straight line y = slope·x + intercept by ordinary least squares.
+ *
+ * @param x - Independent variable
+ * @param y - Dependent variable, same length as x
+ * @returns Slope, intercept, R² and a predictor for the fitted line
+ * @throws {Error} If the lengths differ, the data is empty, or all x are equal
+ *
+ * @example
+ * ```typescript
+ * const fit = linearRegression([0, 1, 2, 3], [1, 3, 5, 7]);
+ * fit.slope;       // 2
+ * fit.intercept;   // 1
+ * fit.predict(10); // 21
+ * ```
+ */
+export const linearRegression = (
+  x: ArrayLike<number>,
+  y: ArrayLike<number>,
+): LinearRegression => {
+  requirePairs(x, y, "linearRegression");
+  const varianceX = variance(x);
+  if (varianceX === 0) {
+    throw new Error("Cannot fit a line when all x values are equal");
+  }
+
+  const slope = covariance(x, y) / varianceX;
+  const intercept = mean(y) - slope * mean(x);
+  const predict = (value: number) => slope * value + intercept;
+
+  let residual = 0;
+  for (let i = 0; i < x.length; i++) residual += (y[i] - predict(x[i])) ** 2;
+  const total = variance(y) * y.length;
+  const rSquared = total === 0 ? 1 : 1 - residual / total;
+
+  return { slope, intercept, rSquared, predict };
+};
+
+// ============================================================================
+// Streaming Accumulators
+// ============================================================================
+
+/**
+ * Running count, mean, variance, minimum and maximum of a stream of samples.
+ *
+ * @remarks
+ * Uses Welford's algorithm, which stays accurate for long streams with a
+ * large mean where the naive sum-of-squares formula loses precision.
+ * Each {@link push} is O(1) and no samples are stored.
+ *
+ * @example
+ * ```typescript
+ * const stats = new RunningStatistics();
+ * sensor.on('reading', (value) => stats.push(value));
+ * console.log(stats.mean(), stats.stddev(), stats.min(), stats.max());
+ * ```
+ */
+export class RunningStatistics {
+  private n = 0;
+  private average = 0;
+  private m2 = 0;
+  private lowest = Infinity;
+  private highest = -Infinity;
+
+  /**
+   * Adds a sample.
+   *
+   * @param value - New sample
+   * @returns This accumulator for chaining
+   */
+  push(value: number): this {
+    this.n++;
+    const delta = value - this.average;
+    this.average += delta / this.n;
+    this.m2 += delta * (value - this.average);
+    this.lowest = Math.min(this.lowest, value);
+    this.highest = Math.max(this.highest, value);
+    return this;
+  }
+
+  /** Number of samples pushed */
+  count(): number {
+    return this.n;
+  }
+
+  /** Mean of the samples, or NaN before the first sample */
+  mean(): number {
+    return this.n === 0 ? NaN : this.average;
+  }
+
+  /**
+   * Variance of the samples.
+   *
+   * @param sample - Divide by n - 1 instead of n (default: false)
+   * @returns Variance, or NaN when there are too few samples
+   */
+  variance(sample: boolean = false): number {
+    const divisor = sample ? this.n - 1 : this.n;
+    return divisor > 0 ? this.m2 / divisor : NaN;
+  }
+
+  /**
+   * Standard deviation of the samples.
+   *
+   * @param sample - Divide by n - 1 instead of n (default: false)
+   * @returns Standard deviation, or NaN when there are too few samples
+   */
+  stddev(sample: boolean = false): number {
+    return Math.sqrt(this.variance(sample));
+  }
+
+  /** Smallest sample, or Infinity before the first sample */
+  min(): number {
+    return this.lowest;
+  }
+
+  /** Largest sample, or -Infinity before the first sample */
+  max(): number {
+    return this.highest;
+  }
+
+  /** Clears all samples. */
+  reset(): void {
+    this.n = 0;
+    this.average = 0;
+    this.m2 = 0;
+    this.lowest = Infinity;
+    this.highest = -Infinity;
+  }
+}
+
+/**
+ * Exponentially weighted moving average of a stream of samples.
+ *
+ * @remarks
+ * Each sample moves the average a fraction alpha of the way toward it, so
+ * older samples fade geometrically. The first sample initializes the
+ * average directly instead of blending with zero.
+ *
+ * @example
+ * ```typescript
+ * // Smooth a noisy FPS counter; alpha = 0.1 averages roughly the last 20 frames
+ * const fps = new ExponentialMovingAverage(0.1);
+ * label.text = fps.push(1000 / deltaMs).toFixed(0);
+ * ```
+ */
+export class ExponentialMovingAverage {
+  readonly alpha: number;
+  private current = NaN;
+  private n = 0;
+
+  /**
+   * Creates a moving average.
+   *
+   * @param alpha - Smoothing factor in (0, 1]; larger values react faster
+   * @throws {Error} If alpha is outside (0, 1]
+   */
+  constructor(alpha: number) {
+    if (!(alpha > 0 && alpha <= 1)) {
+      throw new Error(`Smoothing factor must be in (0, 1], got ${alpha}`);
+    }
+    this.alpha = alpha;
+  }
+
+  /**
+   * Creates a moving average whose weights halve every `samples` samples.
+   *
+   * @param samples - Half-life in samples (must be positive)
+   * @returns Moving average with alpha = 1 - 2^(-1/samples)
+   */
+  static fromHalfLife(samples: number): ExponentialMovingAverage {
+    return new ExponentialMovingAverage(1 - Math.pow(2, -1 / samples));
+  }
+
+  /**
+   * Adds a sample.
+   *
+   * @param value - New sample
+   * @returns Updated average
+   */
+  push(value: number): number {
+    this.current =
+      this.n === 0 ? value : this.current + this.alpha * (value - this.current);
+    this.n++;
+    return this.current;
+  }
+
+  /** Current average, or NaN before the first sample */
+  value(): number {
+    return this.current;
+  }
+
+  /** Number of samples pushed */
+  count(): number {
+    return this.n;
+  }
+
+  /** Clears the average. */
+  reset(): void {
+    this.current = NaN;
+    this.n = 0;
+  }
+}
+
+/**
+ * Streaming quantile estimate using the P² algorithm of Jain and Chlamtac.
+ *
+ * @remarks
+ * Tracks five markers whose heights are adjusted with piecewise-parabolic
+ * interpolation as samples arrive, giving a good estimate of one quantile
+ * in O(1) time and memory per sample. The estimate is exact for up to five
+ * samples. Accuracy is best for smooth distributions and large counts.
+ *
+ * @example
+ * ```typescript
+ * const p99 = new P2Quantile(0.99);
+ * for (const latency of stream) p99.push(latency);
+ * console.log(`p99 ≈ ${p99.value()} ms`);
+ * ```
+ */
+export class P2Quantile {
+  readonly p: number;
+  private heights = new Float64Array(5);
+  private positions = new Float64Array(5);
+  private desired = new Float64Array(5);
+  private increments: Float64Array;
+  private n = 0;
+
+  /**
+   * Creates a quantile estimator.
+   *
+   * @param p - Quantile between 0 and 1 (0.5 estimates the median)
+   * @throws {Error} If p is outside [0, 1]
+   */
+  constructor(p: number) {
+    if (!(p >= 0 && p <= 1)) {
+      throw new Error(`Quantile must be between 0 and 1, got ${p}`);
+    }
+    this.p = p;
+    this.increments = Float64Array.of(0, p / 2, p, (1 + p) / 2, 1);
+  }
+
+  /**
+   * Adds a sample.
+   *
+   * @param value - New sample
+   * @returns This estimator for chaining
+   */
+  push(value: number): this {
+    const { heights: q, positions: n, desired, increments } = this;
+
+    if (this.n < 5) {
+      q[this.n++] = value;
+      if (this.n === 5) {
+        q.sort();
+        const p = this.p;
+        n.set([0, 1, 2, 3, 4]);
+        desired.set([0, 2 * p, 4 * p, 2 + 2 * p, 4]);
+      }
+      return this;
+    }
+    this.n++;
+
+    // Find the cell containing the sample, extending the extremes if needed
+    let k: number;
+    if (value < q[0]) {
+      q[0] = value;
+      k = 0;
+    } else if (value >= q[4]) {
+      q[4] = value;
+      k = 3;
+    } else {
+      k = 0;
+      while (value >= q[k + 1]) k++;
+    }
+
+    for (let i = k + 1; i < 5; i++) n[i]++;
+    for (let i = 0; i < 5; i++) desired[i] += increments[i];
+
+    // Move the middle markers toward their desired positions
+    for (let i = 1; i <= 3; i++) {
+      const offset = desired[i] - n[i];
+      if (
+        (offset >= 1 && n[i + 1] - n[i] > 1) ||
+        (offset <= -1 && n[i - 1] - n[i] < -1)
+      ) {
+        const d = Math.sign(offset);
+        const parabolic =
+          q[i] +
+          (d / (n[i + 1] - n[i - 1])) *
+            (((n[i] - n[i - 1] + d) * (q[i + 1] - q[i])) / (n[i + 1] - n[i]) +
+              ((n[i + 1] - n[i] - d) * (q[i] - q[i - 1])) / (n[i] - n[i - 1]));
+
+        if (q[i - 1] < parabolic && parabolic < q[i + 1]) {
+          q[i] = parabolic;
+        } else {
+          q[i] += (d * (q[i + d] - q[i])) / (n[i + d] - n[i]);
+        }
+        n[i] += d;
+      }
+    }
+    return this;
+  }
+
+  /** Current quantile estimate, or NaN before the first sample */
+  value(): number {
+    if (this.n === 0) return NaN;
+    if (this.n <= 5) {
+      return sortedQuantile(this.heights.slice(0, this.n).sort(), this.p);
+    }
+    return this.heights[2];
+  }
+
+  /** Number of samples pushed */
+  count(): number {
+    return this.n;
+  }
+
+  /** Clears all samples. */
+  reset(): void {
+    this.n = 0;
+  }
+}
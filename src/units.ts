@@ -0,0 +1,739 @@
+/**
+ * Physical quantities with units and dimensional analysis.
+ *
+ * This module attaches units to numbers so that engineering calculations
+ * convert between unit systems automatically and refuse to mix incompatible
+ * dimensions, such as adding a force to a pressure.
+ *
+ * @remarks
+ * A {@link Quantity} stores its value in SI base units together with its
+ * {@link Dimension}: the exponents of the seven SI base units. Units are only
+ * involved when values enter ({@link quantity}) and leave
+ * ({@link Quantity.to}, {@link Quantity.format}) a calculation.
+ *
+ * **Unit strings** are symbols from the built-in table, optionally with an SI
+ * prefix (`kN`, `MPa`, `mm`, `μF`), combined with `*` or `·`, raised to
+ * powers with `^` (or `²`, `³`), and with at most one `/` separating the
+ * numerator from the denominator: `kg*m/s^2`, `W/(m²·K)`, `BTU/h`.
+ *
+ * **Temperatures** `°C` and `°F` are converted as absolute temperatures when
+ * they are the whole unit, and as temperature differences (scale only) inside
+ * compound units such as `J/(kg·°C)`. Quantities read in `°C` or `°F` are
+ * marked absolute: subtracting two of them gives a temperature difference,
+ * while adding two or scaling one throws, since the result would depend on
+ * the unit's zero point.
+ *
+ * **Compile-time checks:** quantities created from a known unit symbol carry
+ * their kind in the type (`Quantity<"force">`), so adding a force to a length
+ * or converting it to `psi` is a type error. Products and quotients have the
+ * general type `Quantity` and are checked at runtime only.
+ *
+ * @example
+ * Stress in a bridge member:
+ * ```typescript
+ * import { quantity } from 'play.ts';
+ *
+ * const load = quantity(250, "kN");
+ * const area = quantity(40, "cm^2");
+ * const stress = load.divide(area);
+ * stress.format();      // "62.50 MPa"
+ * stress.to("psi");     // 9064.86...
+ * ```
+ *
+ * @example
+ * Hydraulic power from pressure and flow:
+ * ```typescript
+ * const power = quantity(3000, "psi").multiply(quantity(12, "gpm"));
+ * power.format("kW");   // "15.66 kW"
+ * power.to("BTU/h");    // 53433.1...
+ * ```
+ *
+ * @see {@link https://www.bipm.org/en/publications/si-brochure | The International System of Units (SI)}
+ */
+
+// ============================================================================
+// Dimensions
+// ============================================================================
+
+/**
+ * Exponents of the SI base units, in the order m, kg, s, A, K, mol, cd.
+ */
+export type Dimension = readonly [
+  length: number,
+  mass: number,
+  time: number,
+  current: number,
+  temperature: number,
+  amount: number,
+  luminosity: number,
+];
+
+const BASE_SYMBOLS = ["m", "kg", "s", "A", "K", "mol", "cd"] as const;
+
+const DIMENSIONLESS: Dimension = [0, 0, 0, 0, 0, 0, 0];
+
+/**
+ * Dimensions of the named kinds of quantity used in unit types.
+ */
+export const QUANTITY_KINDS = {
+  dimensionless: DIMENSIONLESS,
+  angle: DIMENSIONLESS,
+  length: [1, 0, 0, 0, 0, 0, 0],
+  area: [2, 0, 0, 0, 0, 0, 0],
+  volume: [3, 0, 0, 0, 0, 0, 0],
+  mass: [0, 1, 0, 0, 0, 0, 0],
+  time: [0, 0, 1, 0, 0, 0, 0],
+  frequency: [0, 0, -1, 0, 0, 0, 0],
+  velocity: [1, 0, -1, 0, 0, 0, 0],
+  acceleration: [1, 0, -2, 0, 0, 0, 0],
+  force: [1, 1, -2, 0, 0, 0, 0],
+  pressure: [-1, 1, -2, 0, 0, 0, 0],
+  energy: [2, 1, -2, 0, 0, 0, 0],
+  power: [2, 1, -3, 0, 0, 0, 0],
+  volumeFlow: [3, 0, -1, 0, 0, 0, 0],
+  current: [0, 0, 0, 1, 0, 0, 0],
+  charge: [0, 0, 1, 1, 0, 0, 0],
+  voltage: [2, 1, -3, -1, 0, 0, 0],
+  resistance: [2, 1, -3, -2, 0, 0, 0],
+  capacitance: [-2, -1, 4, 2, 0, 0, 0],
+  inductance: [2, 1, -2, -2, 0, 0, 0],
+  temperature: [0, 0, 0, 0, 1, 0, 0],
+  amount: [0, 0, 0, 0, 0, 1, 0],
+  luminosity: [0, 0, 0, 0, 0, 0, 1],
+} as const satisfies Record<string, Dimension>;
+
+export type QuantityKind = keyof typeof QUANTITY_KINDS;
+
+const dimensionsEqual = (a: Dimension, b: Dimension): boolean =>
+  a.every((exponent, i) => exponent === b[i]);
+
+const dimensionFrom = (exponent: (i: number) => number): Dimension => [
+  exponent(0),
+  exponent(1),
+  exponent(2),
+  exponent(3),
+  exponent(4),
+  exponent(5),
+  exponent(6),
+];
+
+// a · bⁿ in terms of dimension exponents
+const combineDimensions = (a: Dimension, b: Dimension, n: number): Dimension =>
+  dimensionFrom((i) => a[i] + n * b[i]);
+
+/**
+ * Writes a dimension in SI base units, such as `m·kg/s^2`.
+ */
+export const formatDimension = (dimension: Dimension): string => {
+  const factor = (i: number, exponent: number) =>
+    exponent === 1 ? BASE_SYMBOLS[i] : `${BASE_SYMBOLS[i]}^${exponent}`;
+  const numerator: string[] = [];
+  const denominator: string[] = [];
+  dimension.forEach((exponent, i) => {
+    if (exponent > 0) numerator.push(factor(i, exponent));
+    if (exponent < 0) denominator.push(factor(i, -exponent));
+  });
+
+  const top = numerator.length > 0 ? numerator.join("·") : "1";
+  if (denominator.length === 0) return numerator.length > 0 ? top : "";
+  return `${top}/${denominator.join("·")}`;
+};
+
+// ============================================================================
+// Unit Table
+// ============================================================================
+
+interface UnitEntry {
+  readonly kind: QuantityKind;
+  /** SI value of one unit */
+  readonly scale: number;
+  /** Added before scaling for absolute temperatures */
+  readonly offset?: number;
+  /** Whether SI prefixes may be attached */
+  readonly prefixable?: boolean;
+}
+
+const FOOT = 0.3048;
+const POUND = 0.45359237;
+const GRAVITY = 9.80665;
+const US_GALLON = 3.785411784e-3;
+const BTU = 1055.05585262;
+
+const UNITS = {
+  // SI base and derived units
+  m: { kind: "length", scale: 1, prefixable: true },
+  g: { kind: "mass", scale: 1e-3, prefixable: true },
+  s: { kind: "time", scale: 1, prefixable: true },
+  A: { kind: "current", scale: 1, prefixable: true },
+  K: { kind: "temperature", scale: 1, prefixable: true },
+  mol: { kind: "amount", scale: 1, prefixable: true },
+  cd: { kind: "luminosity", scale: 1, prefixable: true },
+  Hz: { kind: "frequency", scale: 1, prefixable: true },
+  N: { kind: "force", scale: 1, prefixable: true },
+  Pa: { kind: "pressure", scale: 1, prefixable: true },
+  J: { kind: "energy", scale: 1, prefixable: true },
+  W: { kind: "power", scale: 1, prefixable: true },
+  C: { kind: "charge", scale: 1, prefixable: true },
+  V: { kind: "voltage", scale: 1, prefixable: true },
+  Ω: { kind: "resistance", scale: 1, prefixable: true },
+  ohm: { kind: "resistance", scale: 1, prefixable: true },
+  F: { kind: "capacitance", scale: 1, prefixable: true },
+  H: { kind: "inductance", scale: 1, prefixable: true },
+  L: { kind: "volume", scale: 1e-3, prefixable: true },
+  bar: { kind: "pressure", scale: 1e5, prefixable: true },
+  Wh: { kind: "energy", scale: 3600, prefixable: true },
+
+  // Time and angle
+  min: { kind: "time", scale: 60 },
+  h: { kind: "time", scale: 3600 },
+  d: { kind: "time", scale: 86400 },
+  rpm: { kind: "frequency", scale: 1 / 60 },
+  rad: { kind: "angle", scale: 1 },
+  deg: { kind: "angle", scale: Math.PI / 180 },
+  "°": { kind: "angle", scale: Math.PI / 180 },
+  "%": { kind: "dimensionless", scale: 0.01 },
+
+  // Temperature
+  "°C": { kind: "temperature", scale: 1, offset: 273.15 },
+  degC: { kind: "temperature", scale: 1, offset: 273.15 },
+  "°F": { kind: "temperature", scale: 5 / 9, offset: 459.67 },
+  degF: { kind: "temperature", scale: 5 / 9, offset: 459.67 },
+
+  // Metric extras
+  t: { kind: "mass", scale: 1000 },
+  ha: { kind: "area", scale: 1e4 },
+  atm: { kind: "pressure", scale: 101325 },
+  cal: { kind: "energy", scale: 4.184, prefixable: true },
+
+  // US customary
+  in: { kind: "length", scale: 0.0254 },
+  ft: { kind: "length", scale: FOOT },
+  yd: { kind: "length", scale: 3 * FOOT },
+  mi: { kind: "length", scale: 5280 * FOOT },
+  lb: { kind: "mass", scale: POUND },
+  lbf: { kind: "force", scale: POUND * GRAVITY },
+  kip: { kind: "force", scale: 1000 * POUND * GRAVITY },
+  psi: { kind: "pressure", scale: (POUND * GRAVITY) / 0.0254 ** 2 },
+  ksi: { kind: "pressure", scale: (1000 * POUND * GRAVITY) / 0.0254 ** 2 },
+  gal: { kind: "volume", scale: US_GALLON },
+  mph: { kind: "velocity", scale: (5280 * FOOT) / 3600 },
+  hp: { kind: "power", scale: 550 * FOOT * POUND * GRAVITY },
+  BTU: { kind: "energy", scale: BTU },
+  "BTU/h": { kind: "power", scale: BTU / 3600 },
+  CFM: { kind: "volumeFlow", scale: FOOT ** 3 / 60 },
+  gpm: { kind: "volumeFlow", scale: US_GALLON / 60 },
+} as const satisfies Record<string, UnitEntry>;
+
+const PREFIXES = {
+  f: 1e-15,
+  p: 1e-12,
+  n: 1e-9,
+  μ: 1e-6,
+  u: 1e-6,
+  m: 1e-3,
+  c: 1e-2,
+  k: 1e3,
+  M: 1e6,
+  G: 1e9,
+  T: 1e12,
+  P: 1e15,
+} as const;
+
+// Prefixes chosen by format(), one per power of 1000
+const FORMAT_PREFIXES = ["f", "p", "n", "μ", "m", "", "k", "M", "G", "T", "P"];
+
+type UnitTable = typeof UNITS;
+type SiPrefix = keyof typeof PREFIXES;
+type PrefixableSymbol = {
+  [S in keyof UnitTable]: UnitTable[S] extends { prefixable: true } ? S : never;
+}[keyof UnitTable];
+type UnitKinds = { [S in keyof UnitTable]: UnitTable[S]["kind"] } & {
+  [S in PrefixableSymbol as `${SiPrefix}${S}`]: UnitTable[S]["kind"];
+};
+
+/**
+ * A unit symbol from the built-in table, with or without an SI prefix.
+ */
+export type UnitSymbol = keyof UnitKinds;
+
+/**
+ * The kind of quantity measured by a unit string, or `string` (any kind) if
+ * the unit is compound or unknown at compile time.
+ */
+export type KindOf<U extends string> = U extends UnitSymbol
+  ? UnitKinds[U]
+  : string;
+
+// `unknown` when quantities of kinds K and O may be added or compared, and
+// `never` otherwise. A `string` kind is only known at runtime, so it combines
+// with every kind and the dimension check happens at runtime.
+type CombinableKind<K extends string, O extends string> = string extends K
+  ? unknown
+  : string extends O
+    ? unknown
+    : [O] extends [K]
+      ? unknown
+      : never;
+
+/**
+ * A unit string combining symbols with `*`, `·`, `/` or powers. Its dimension
+ * is only known at runtime.
+ */
+export type CompoundUnit =
+  `${string}${"*" | "·" | "/" | "^" | "²" | "³"}${string}`;
+
+/**
+ * Units accepted for a kind of quantity: the symbols that measure it plus any
+ * compound unit, or any string for quantities of unknown kind.
+ */
+export type UnitFor<K extends string> = string extends K
+  ? string
+  :
+      | { [U in UnitSymbol]: UnitKinds[U] extends K ? U : never }[UnitSymbol]
+      | CompoundUnit;
+
+/**
+ * A unit resolved to SI: `si = (value + offset) · scale`.
+ */
+export interface UnitDefinition {
+  readonly dimension: Dimension;
+  readonly scale: number;
+  readonly offset: number;
+}
+
+const lookupSymbol = (symbol: string): UnitDefinition | null => {
+  const exact: UnitEntry | undefined = (UNITS as Record<string, UnitEntry>)[
+    symbol
+  ];
+  if (exact) {
+    return {
+      dimension: QUANTITY_KINDS[exact.kind],
+      scale: exact.scale,
+      offset: exact.offset ?? 0,
+    };
+  }
+
+  for (const [prefix, factor] of Object.entries(PREFIXES)) {
+    if (!symbol.startsWith(prefix)) continue;
+    const base: UnitEntry | undefined = (UNITS as Record<string, UnitEntry>)[
+      symbol.slice(prefix.length)
+    ];
+    if (base?.prefixable) {
+      return {
+        dimension: QUANTITY_KINDS[base.kind],
+        scale: factor * base.scale,
+        offset: 0,
+      };
+    }
+  }
+  return null;
+};
+
+const SUPERSCRIPTS: Record<string, string> = { "²": "^2", "³": "^3" };
+
+// Multiplies the factors of one side of a unit expression into `unit`
+const parseFactors = (
+  expression: string,
+  sign: 1 | -1,
+  unit: { dimension: Dimension; scale: number },
+  source: string,
+): void => {
+  for (const factor of expression.split(/[*·]/)) {
+    const trimmed = factor.trim();
+    if (trimmed === "1" && sign === 1) continue;
+
+    const match = /^(.+?)(?:\^(-?\d+(?:\.\d+)?))?$/.exec(
+      trimmed.replace(/[²³]/g, (s) => SUPERSCRIPTS[s]),
+    );
+    const definition = match ? lookupSymbol(match[1]) : null;
+    if (!match || !definition) {
+      throw new Error(`Unknown unit "${trimmed}" in "${source}"`);
+    }
+
+    const exponent = sign * (match[2] === undefined ? 1 : Number(match[2]));
+    unit.scale *= definition.scale ** exponent;
+    unit.dimension = combineDimensions(
+      unit.dimension,
+      definition.dimension,
+      exponent,
+    );
+  }
+};
+
+/**
+ * Resolves a unit string to its SI scale, offset and dimension.
+ *
+ * @throws {Error} If the unit contains an unknown symbol or more than one `/`
+ *
+ * @example
+ * ```typescript
+ * parseUnit("kN");    // { dimension: [1, 1, -2, 0, 0, 0, 0], scale: 1000, offset: 0 }
+ * parseUnit("°F");    // { ..., scale: 5/9, offset: 459.67 }
+ * ```
+ */
+export const parseUnit = (unit: string): UnitDefinition => {
+  const simple = lookupSymbol(unit.trim());
+  if (simple) return simple;
+
+  const sides = unit.split("/");
+  if (sides.length > 2) {
+    throw new Error(
+      `Unit "${unit}" has more than one "/"; group the denominator with parentheses`,
+    );
+  }
+
+  const result = { dimension: DIMENSIONLESS, scale: 1 };
+  parseFactors(sides[0], 1, result, unit);
+  if (sides.length === 2) {
+    parseFactors(sides[1].trim().replace(/^\((.*)\)$/, "$1"), -1, result, unit);
+  }
+  return { ...result, offset: 0 };
+};
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+export interface FormatOptions {
+  /** Digits after the decimal point (default: 2) */
+  readonly decimals?: number;
+  /** Choose an SI prefix so the number is between 1 and 1000 (default: true) */
+  readonly prefix?: boolean;
+}
+
+/**
+ * Formats a number with an SI prefix on its unit.
+ *
+ * @param value - Value in `unit`
+ * @param unit - Unit symbol to prefix, such as `"Hz"` (default: none)
+ * @returns Text such as `"12.50 kHz"` or `"470.00 nF"`
+ *
+ * @remarks
+ * Prefixes run from femto (10⁻¹⁵) to peta (10¹⁵). Zero and non-finite values
+ * are written without a prefix.
+ *
+ * @example
+ * ```typescript
+ * formatSI(12500, "Hz");                   // "12.50 kHz"
+ * formatSI(4.7e-7, "F", { decimals: 1 });  // "470.0 nF"
+ * ```
+ */
+export const formatSI = (
+  value: number,
+  unit: string = "",
+  options: FormatOptions = {},
+): string => {
+  const decimals = options.decimals ?? 2;
+  const join = (mantissa: number, prefix: string) =>
+    `${mantissa.toFixed(decimals)}${unit || prefix ? " " : ""}${prefix}${unit}`;
+
+  if (options.prefix === false || value === 0 || !Number.isFinite(value)) {
+    return join(value, "");
+  }
+
+  const zero = FORMAT_PREFIXES.indexOf("");
+  let index = zero + Math.floor(Math.log10(Math.abs(value)) / 3);
+  index = Math.min(Math.max(index, 0), FORMAT_PREFIXES.length - 1);
+  let mantissa = value / 1000 ** (index - zero);
+
+  // Rounding may carry the mantissa up to 1000, as in 999.996 → "1000.00"
+  if (
+    Math.abs(Number(mantissa.toFixed(decimals))) >= 1000 &&
+    index < FORMAT_PREFIXES.length - 1
+  ) {
+    index++;
+    mantissa /= 1000;
+  }
+  return join(mantissa, FORMAT_PREFIXES[index]);
+};
+
+// Named SI units used by format() for derived dimensions
+const DERIVED_UNITS = [
+  "N",
+  "Pa",
+  "J",
+  "W",
+  "Hz",
+  "C",
+  "V",
+  "Ω",
+  "F",
+  "H",
+] as const;
+
+// ============================================================================
+// Quantity
+// ============================================================================
+
+/**
+ * How a temperature relates to its unit's zero point: `absolute` for a
+ * reading in `°C` or `°F`, `difference` for the gap between two readings.
+ */
+export type TemperatureReference = "absolute" | "difference";
+
+/**
+ * An immutable physical quantity: an SI value and its dimension.
+ *
+ * @typeParam K - Kind of quantity when known at compile time, such as
+ * `"pressure"`; `string` otherwise
+ *
+ * @example
+ * ```typescript
+ * const flow = quantity(400, "CFM");
+ * flow.to("m^3/h");                  // 679.6
+ * quantity(72, "°F").to("°C");       // 22.22
+ * quantity(5, "kN").add(quantity(2, "m")); // type error, and throws
+ * ```
+ */
+export class Quantity<K extends string = string> {
+  declare protected readonly kind: K;
+
+  /**
+   * @param value - Value in SI base units
+   * @param dimension - Exponents of the SI base units
+   * @param temperature - Set for temperatures read in or derived from an
+   * offset unit; differences convert to `°C` and `°F` without the offset
+   */
+  constructor(
+    readonly value: number,
+    readonly dimension: Dimension,
+    readonly temperature?: TemperatureReference,
+  ) {}
+
+  /**
+   * Whether both quantities have the same dimension.
+   */
+  isCompatible<O extends string>(other: Quantity<O>): boolean {
+    return dimensionsEqual(this.dimension, other.dimension);
+  }
+
+  isDimensionless(): boolean {
+    return dimensionsEqual(this.dimension, DIMENSIONLESS);
+  }
+
+  /**
+   * Converts to a number in the given unit.
+   *
+   * @throws {Error} If the unit measures a different dimension
+   */
+  to(unit: UnitFor<K>): number {
+    const definition = parseUnit(unit);
+    this.assertDimension(definition.dimension, `convert to "${unit}"`);
+    const offset = this.temperature === "difference" ? 0 : definition.offset;
+    return this.value / definition.scale - offset;
+  }
+
+  /**
+   * @throws {Error} If the dimensions differ or both are absolute temperatures
+   */
+  add<O extends string>(
+    other: Quantity<O> & CombinableKind<K, O>,
+  ): Quantity<K> {
+    this.assertDimension(other.dimension, "add");
+    if (this.temperature === "absolute" && other.temperature === "absolute") {
+      throw new Error(
+        "Cannot add two absolute temperatures; add a temperature difference instead",
+      );
+    }
+    return new Quantity(
+      this.value + other.value,
+      this.dimension,
+      this.temperature === "absolute" || other.temperature === "absolute"
+        ? "absolute"
+        : (this.temperature ?? other.temperature),
+    );
+  }
+
+  /**
+   * Subtracts another quantity. The difference of two absolute temperatures
+   * is a temperature difference, so `20 °C - 15 °C` converts to `5 °C`.
+   *
+   * @throws {Error} If the dimensions differ or an absolute temperature is
+   * subtracted from a temperature difference
+   */
+  subtract<O extends string>(
+    other: Quantity<O> & CombinableKind<K, O>,
+  ): Quantity<K> {
+    this.assertDimension(other.dimension, "subtract");
+    if (this.temperature === "difference" && other.temperature === "absolute") {
+      throw new Error(
+        "Cannot subtract an absolute temperature from a temperature difference",
+      );
+    }
+    let temperature = this.temperature ?? other.temperature;
+    if (other.temperature === "absolute") {
+      temperature = this.temperature === "absolute" ? "difference" : undefined;
+    }
+    return new Quantity(this.value - other.value, this.dimension, temperature);
+  }
+
+  multiply(factor: number): Quantity<K>;
+  multiply<O extends string>(other: Quantity<O>): Quantity;
+  multiply<O extends string>(
+    other: Quantity<O> | number,
+  ): Quantity<K> | Quantity {
+    if (typeof other === "number") {
+      this.assertScalable("multiply");
+      return new Quantity(this.value * other, this.dimension, this.temperature);
+    }
+    return new Quantity(
+      this.value * other.value,
+      combineDimensions(this.dimension, other.dimension, 1),
+    );
+  }
+
+  divide(divisor: number): Quantity<K>;
+  divide<O extends string>(other: Quantity<O>): Quantity;
+  divide<O extends string>(
+    other: Quantity<O> | number,
+  ): Quantity<K> | Quantity {
+    if (typeof other === "number") {
+      this.assertScalable("divide");
+      return new Quantity(this.value / other, this.dimension, this.temperature);
+    }
+    return new Quantity(
+      this.value / other.value,
+      combineDimensions(this.dimension, other.dimension, -1),
+    );
+  }
+
+  /**
+   * Raises the quantity to a power, scaling every dimension exponent.
+   *
+   * @example
+   * ```typescript
+   * quantity(9, "m^2").pow(0.5).to("m"); // 3
+   * ```
+   */
+  pow(exponent: number): Quantity {
+    return new Quantity(
+      this.value ** exponent,
+      dimensionFrom((i) => this.dimension[i] * exponent),
+    );
+  }
+
+  /**
+   * @throws {Error} If the quantity is an absolute temperature
+   */
+  negate(): Quantity<K> {
+    this.assertScalable("negate");
+    return new Quantity(-this.value, this.dimension, this.temperature);
+  }
+
+  abs(): Quantity<K> {
+    return new Quantity(Math.abs(this.value), this.dimension, this.temperature);
+  }
+
+  /**
+   * Compares two quantities of the same dimension.
+   *
+   * @returns A negative number, zero or a positive number, for sorting
+   * @throws {Error} If the dimensions differ
+   */
+  compare<O extends string>(other: Quantity<O> & CombinableKind<K, O>): number {
+    this.assertDimension(other.dimension, "compare");
+    return this.value - other.value;
+  }
+
+  /**
+   * Formats the quantity with an SI prefix.
+   *
+   * @param unit - Unit to display in; defaults to the named SI unit for the
+   * dimension (N, Pa, W...) or a combination of base units
+   * @throws {Error} If the unit measures a different dimension
+   *
+   * @remarks
+   * A prefix is only added to unprefixed SI symbols, so `format("psi")` and
+   * `format("kW")` use the unit as given while `format("W")` may show `MW`.
+   *
+   * @example
+   * ```typescript
+   * quantity(0.0047, "F").format();          // "4.70 mF"
+   * quantity(2.5e6, "Pa").format("bar");     // "25.00 bar"
+   * ```
+   */
+  format(unit?: UnitFor<K>, options: FormatOptions = {}): string {
+    const symbol = unit ?? this.defaultUnit();
+    const value = symbol === "" ? this.value : this.to(symbol as UnitFor<K>);
+    const entry: UnitEntry | undefined = (UNITS as Record<string, UnitEntry>)[
+      symbol
+    ];
+    return formatSI(value, symbol, {
+      ...options,
+      prefix: (options.prefix ?? true) && !!entry?.prefixable,
+    });
+  }
+
+  toString(): string {
+    return this.format();
+  }
+
+  private defaultUnit(): string {
+    if (this.isDimensionless()) return "";
+    if (dimensionsEqual(this.dimension, QUANTITY_KINDS.mass)) return "g";
+    const named = DERIVED_UNITS.find((symbol) =>
+      dimensionsEqual(this.dimension, QUANTITY_KINDS[UNITS[symbol].kind]),
+    );
+    return named ?? formatDimension(this.dimension);
+  }
+
+  // Scaling a reading in °C or °F would scale its offset from absolute zero too
+  private assertScalable(action: string): void {
+    if (this.temperature === "absolute") {
+      throw new Error(
+        `Cannot ${action} an absolute temperature; subtract a reference temperature first`,
+      );
+    }
+  }
+
+  private assertDimension(dimension: Dimension, action: string): void {
+    if (!dimensionsEqual(this.dimension, dimension)) {
+      throw new Error(
+        `Cannot ${action}: dimension ${formatDimension(this.dimension) || "1"} does not match ${formatDimension(dimension) || "1"}`,
+      );
+    }
+  }
+}
+
+/**
+ * Creates a quantity from a value in any unit.
+ *
+ * @param value - Value in `unit`
+ * @param unit - Unit symbol or compound unit string
+ * @throws {Error} If the unit is not recognized
+ *
+ * @example
+ * ```typescript
+ * const force = quantity(12, "kN");           // Quantity<"force">
+ * const speed = quantity(90, "km/h");         // Quantity (compound unit)
+ * const heat = quantity(24000, "BTU/h");      // Quantity<"power">
+ * ```
+ */
+export const quantity = <U extends string>(
+  value: number,
+  unit: U,
+): Quantity<KindOf<U>> => {
+  const definition = parseUnit(unit);
+  return new Quantity(
+    (value + definition.offset) * definition.scale,
+    definition.dimension,
+    definition.offset === 0 ? undefined : "absolute",
+  );
+};
+
+/**
+ * Converts a number between two units of the same dimension.
+ *
+ * @throws {Error} If the units measure different dimensions
+ *
+ * @example
+ * ```typescript
+ * convert(100, "°C", "°F");    // ≈ 212
+ * convert(1, "MPa", "psi");    // 145.04
+ * ```
+ */
+export const convert = <U extends string>(
+  value: number,
+  from: U,
+  to: UnitFor<KindOf<U>>,
+): number => quantity(value, from).to(to);
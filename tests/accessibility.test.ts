@@ -0,0 +1,182 @@
+import { describe, expect, test } from "bun:test";
+import {
+  apcaContrast,
+  contrastRatio,
+  ensureContrast,
+  meetsWcag,
+  relativeLuminance,
+  simulateColorBlindness,
+} from "../src/accessibility.ts";
+import {
+  colorDifference,
+  colors,
+  hexToRgb,
+  rgb,
+  rgbToOklab,
+  rgbToOklch,
+} from "../src/color.ts";
+import type { RGB } from "../types/index.ts";
+
+describe("Accessibility", () => {
+  describe("WCAG 2.1 contrast", () => {
+    test("relative luminance", () => {
+      expect(relativeLuminance(colors.white)).toBeCloseTo(1, 12);
+      expect(relativeLuminance(colors.black)).toBe(0);
+      expect(relativeLuminance(rgb(255, 0, 0))).toBeCloseTo(0.2126, 12);
+      expect(relativeLuminance(rgb(0, 255, 0))).toBeCloseTo(0.7152, 12);
+    });
+
+    test("contrast ratio is symmetric and spans 1 to 21", () => {
+      expect(contrastRatio(colors.black, colors.white)).toBeCloseTo(21, 10);
+      expect(contrastRatio(colors.white, colors.black)).toBeCloseTo(21, 10);
+      expect(contrastRatio(colors.red, colors.red)).toBe(1);
+      expect(contrastRatio(hexToRgb("#767676"), colors.white)).toBeCloseTo(
+        4.54,
+        2,
+      );
+    });
+
+    test("AA and AAA thresholds for normal and large text", () => {
+      const gray = hexToRgb("#767676"); // 4.54:1 on white
+      expect(meetsWcag(gray, colors.white)).toBe(true);
+      expect(meetsWcag(gray, colors.white, "AAA")).toBe(false);
+      expect(meetsWcag(gray, colors.white, "AAA", true)).toBe(true);
+      expect(meetsWcag(hexToRgb("#a0a0a0"), colors.white, "AA", true)).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("APCA contrast", () => {
+    test("matches the reference implementation", () => {
+      expect(apcaContrast(colors.black, colors.white)).toBeCloseTo(106.04, 2);
+      expect(apcaContrast(colors.white, colors.black)).toBeCloseTo(-107.88, 2);
+      expect(apcaContrast(hexToRgb("#888888"), colors.white)).toBeCloseTo(
+        63.06,
+        2,
+      );
+    });
+
+    test("is polarity dependent and zero for similar colors", () => {
+      const [dark, light] = [hexToRgb("#123456"), hexToRgb("#abcdef")];
+      expect(apcaContrast(dark, light)).toBeGreaterThan(0);
+      expect(apcaContrast(light, dark)).toBeLessThan(0);
+      expect(Math.abs(apcaContrast(light, dark))).not.toBeCloseTo(
+        apcaContrast(dark, light),
+        0,
+      );
+      expect(apcaContrast(rgb(120, 120, 120), rgb(121, 121, 121))).toBe(0);
+    });
+  });
+
+  describe("ensureContrast", () => {
+    test("returns passing colors unchanged", () => {
+      const color = rgb(10, 20, 30);
+      expect(ensureContrast(color, colors.white, 4.5)).toBe(color);
+    });
+
+    test("darkens or lightens the least needed", () => {
+      const onWhite = ensureContrast(rgb(80, 140, 255), colors.white, 4.5);
+      expect(contrastRatio(onWhite, colors.white)).toBeGreaterThanOrEqual(4.5);
+      expect(contrastRatio(onWhite, colors.white)).toBeLessThan(4.7);
+      expect(rgbToOklch(onWhite).h).toBeCloseTo(
+        rgbToOklch(rgb(80, 140, 255)).h,
+        0,
+      );
+
+      const panel = hexToRgb("#1e1e1e");
+      const onDark = ensureContrast(hexToRgb("#b36b00"), panel, 4.5);
+      expect(contrastRatio(onDark, panel)).toBeGreaterThanOrEqual(4.5);
+      expect(rgbToOklch(onDark).l).toBeGreaterThan(
+        rgbToOklch(hexToRgb("#b36b00")).l,
+      );
+      expect(Number.isInteger(onDark.r)).toBe(true);
+    });
+
+    test("supports APCA targets", () => {
+      const background = rgb(128, 128, 128);
+      const adjusted = ensureContrast(rgb(120, 120, 120), background, 60, {
+        metric: "apca",
+      });
+      expect(
+        Math.abs(apcaContrast(adjusted, background)),
+      ).toBeGreaterThanOrEqual(60);
+    });
+
+    test("falls back to the strongest extreme when the target is unreachable", () => {
+      const result = ensureContrast(rgb(128, 0, 0), rgb(128, 128, 128), 21);
+      expect(result).toEqual(rgb(0, 0, 0));
+    });
+  });
+
+  describe("Color vision deficiency simulation", () => {
+    const deficiencies = ["protanopia", "deuteranopia", "tritanopia"] as const;
+
+    test("grays are unchanged", () => {
+      for (const deficiency of deficiencies) {
+        for (const method of ["brettel", "machado"] as const) {
+          for (const gray of [colors.black, colors.gray, colors.white]) {
+            const seen = simulateColorBlindness(gray, deficiency, { method });
+            expect(colorDifference(seen, gray, "rgb")).toBeLessThan(1);
+          }
+        }
+      }
+    });
+
+    test("red and green collapse for red-green deficiencies", () => {
+      // OKLab a is the green-red axis
+      const [red, green] = [rgb(200, 60, 40), rgb(80, 150, 40)];
+      const redGreen = (a: RGB, b: RGB) =>
+        Math.abs(rgbToOklab(a).a - rgbToOklab(b).a);
+      expect(redGreen(red, green)).toBeGreaterThan(0.25);
+      for (const deficiency of ["protanopia", "deuteranopia"] as const) {
+        for (const method of ["brettel", "machado"] as const) {
+          const seen = redGreen(
+            simulateColorBlindness(red, deficiency, { method }),
+            simulateColorBlindness(green, deficiency, { method }),
+          );
+          expect(seen).toBeLessThan(0.02);
+        }
+      }
+    });
+
+    test("tritanopia confuses blue and green but not red and green", () => {
+      const simulate = (color: RGB) =>
+        simulateColorBlindness(color, "tritanopia");
+      const blueGreen = colorDifference(
+        simulate(rgb(0, 120, 200)),
+        simulate(rgb(0, 170, 120)),
+      );
+      expect(blueGreen).toBeLessThan(
+        colorDifference(rgb(0, 120, 200), rgb(0, 170, 120)) / 2,
+      );
+      expect(
+        colorDifference(simulate(colors.red), simulate(colors.green)),
+      ).toBeGreaterThan(30);
+    });
+
+    test("severity blends from normal vision", () => {
+      const color = rgb(220, 40, 60);
+      const none = simulateColorBlindness(color, "deuteranopia", {
+        method: "machado",
+        severity: 0,
+      });
+      expect(colorDifference(none, color, "rgb")).toBeLessThan(1e-9);
+
+      const mild = simulateColorBlindness(color, "deuteranopia", {
+        method: "machado",
+        severity: 0.4,
+      });
+      const full = simulateColorBlindness(color, "deuteranopia", {
+        method: "machado",
+      });
+      expect(colorDifference(mild, color)).toBeGreaterThan(0);
+      expect(colorDifference(mild, color)).toBeLessThan(
+        colorDifference(full, color),
+      );
+      expect(() =>
+        simulateColorBlindness(color, "protanopia", { severity: 2 }),
+      ).toThrow("between 0 and 1");
+    });
+  });
+});
@@ -29,11 +29,13 @@ import {
   easeOutSine,
   easings,
   linear,
+  quatTween,
   Spring,
   spring,
   Tween,
   tween,
 } from "../src/animation.ts";
+import { quatFromAxisAngle, quatIdentity, vec3 } from "../src/math.ts";
 
 describe("Animation utilities", () => {
   describe("Easing functions", () => {
@@ -216,6 +218,48 @@ describe("Animation utilities", () => {
 
       expect(tweenInstance).toBeInstanceOf(Tween);
     });
+
+    test("uses a custom interpolator", () => {
+      const onUpdate = jest.fn();
+      const tweenInstance = new Tween(
+        "a",
+        "b",
+        1000,
+        linear,
+        onUpdate,
+        undefined,
+        (a: string, b: string, t: number) => (t < 1 ? a : b),
+      );
+      tweenInstance.start();
+      tweenInstance.stop();
+
+      expect(onUpdate).toHaveBeenCalledWith("a");
+    });
+
+    test("quatTween slerps to the target rotation", async () => {
+      const target = quatFromAxisAngle(vec3(0, 1, 0), Math.PI / 2);
+      const values: { x: number; y: number; z: number; w: number }[] = [];
+      const onComplete = jest.fn();
+      const tweenInstance = quatTween(
+        quatIdentity(),
+        target,
+        20,
+        linear,
+        (q) => values.push(q),
+        onComplete,
+      );
+
+      expect(tweenInstance).toBeInstanceOf(Tween);
+      await delay(100);
+
+      expect(onComplete).toHaveBeenCalled();
+      const last = values[values.length - 1];
+      expect(last.y).toBeCloseTo(target.y, 10);
+      expect(last.w).toBeCloseTo(target.w, 10);
+      values.forEach((q) => {
+        expect(Math.hypot(q.x, q.y, q.z, q.w)).toBeCloseTo(1, 10);
+      });
+    });
   });
 
   describe("Spring", () => {
@@ -0,0 +1,212 @@
+import { describe, expect, test } from "bun:test";
+import {
+  derivative,
+  dual,
+  dualAbs,
+  dualAdd,
+  dualAtan2,
+  dualClamp,
+  dualCos,
+  dualDiv,
+  dualExp,
+  dualHypot,
+  dualLerp,
+  dualLog,
+  dualMul,
+  dualPow,
+  dualSin,
+  dualSmootherstep,
+  dualSmoothstep,
+  dualSqrt,
+  dualSub,
+  dualTan,
+  dualTanh,
+  dualVariable,
+  gradient,
+  jacobian,
+} from "../src/autodiff.ts";
+import { differentiate } from "../src/calculus.ts";
+import { matNDeterminant } from "../src/math.ts";
+import { gradientDescent, newton } from "../src/optimize.ts";
+import type { Dual } from "../types/index.ts";
+
+const rosenbrock = ([x, y]: Dual[]) =>
+  dualAdd(
+    dualPow(dualSub(1, x), 2),
+    dualMul(100, dualPow(dualSub(y, dualMul(x, x)), 2)),
+  );
+
+describe("Autodiff", () => {
+  describe("Dual arithmetic", () => {
+    test("applies the sum, product and quotient rules", () => {
+      const x = dualVariable(3);
+      expect(dualAdd(x, 2)).toEqual({ real: 5, dual: 1 });
+      expect(dualSub(10, x)).toEqual({ real: 7, dual: -1 });
+      expect(dualMul(x, x)).toEqual({ real: 9, dual: 6 });
+      // d/dx (1 / x) = -1 / x²
+      const reciprocal = dualDiv(1, x);
+      expect(reciprocal.real).toBeCloseTo(1 / 3, 15);
+      expect(reciprocal.dual).toBeCloseTo(-1 / 9, 15);
+    });
+
+    test("numbers behave as constants", () => {
+      expect(dual(4)).toEqual({ real: 4, dual: 0 });
+      expect(dualMul(2, 5)).toEqual({ real: 10, dual: 0 });
+    });
+  });
+
+  describe("Elementary functions", () => {
+    const cases: [string, (x: Dual) => Dual, (x: number) => number, number][] =
+      [
+        ["sin", dualSin, Math.sin, 0.7],
+        ["cos", dualCos, Math.cos, 0.7],
+        ["tan", dualTan, Math.tan, 0.4],
+        ["tanh", dualTanh, Math.tanh, 0.3],
+        ["exp", dualExp, Math.exp, 1.2],
+        ["log", dualLog, Math.log, 2.5],
+        ["sqrt", dualSqrt, Math.sqrt, 2],
+        ["pow", (x) => dualPow(x, 3.5), (x) => x ** 3.5, 1.5],
+        ["abs", dualAbs, Math.abs, -2],
+      ];
+
+    for (const [name, dualFn, fn, x] of cases) {
+      test(`${name} matches its value and finite-difference slope`, () => {
+        const result = dualFn(dualVariable(x));
+        expect(result.real).toBeCloseTo(fn(x), 14);
+        expect(result.dual).toBeCloseTo(differentiate(fn, x), 8);
+      });
+    }
+
+    test("pow with a dual exponent", () => {
+      const result = dualPow(2, dualVariable(3));
+      expect(result.real).toBe(8);
+      expect(result.dual).toBeCloseTo(8 * Math.LN2, 14);
+      // x^x at 2 → 4(ln 2 + 1)
+      expect(derivative((x) => dualPow(x, x), 2)).toBeCloseTo(
+        4 * (Math.LN2 + 1),
+        14,
+      );
+    });
+
+    test("pow handles negative bases and zero", () => {
+      expect(dualPow(dualVariable(-2), 3)).toEqual({ real: -8, dual: 12 });
+      expect(dualPow(dualVariable(5), 0)).toEqual({ real: 1, dual: 0 });
+    });
+
+    test("constants stay finite where the slope is infinite", () => {
+      expect(dualSqrt(dual(0))).toEqual({ real: 0, dual: 0 });
+      expect(dualSqrt(dualVariable(0)).dual).toBe(Infinity);
+    });
+
+    test("atan2 and hypot of a point on a circle", () => {
+      const t = 0.6;
+      const angle = derivative(
+        (theta) => dualAtan2(dualSin(theta), dualCos(theta)),
+        t,
+      );
+      expect(angle).toBeCloseTo(1, 14);
+      const radius = derivative(
+        (theta) =>
+          dualHypot(dualMul(3, dualCos(theta)), dualMul(3, dualSin(theta))),
+        t,
+      );
+      expect(radius).toBeCloseTo(0, 14);
+      expect(dualHypot(dual(0), dual(0, 1))).toEqual({ real: 0, dual: 0 });
+    });
+  });
+
+  describe("Interpolation", () => {
+    test("lerp is differentiable in every argument", () => {
+      expect(dualLerp(0, dualVariable(10), 0.5)).toEqual({
+        real: 5,
+        dual: 0.5,
+      });
+      expect(dualLerp(2, 6, dualVariable(0.25))).toEqual({ real: 3, dual: 4 });
+    });
+
+    test("clamp passes the slope inside and stops it outside", () => {
+      expect(dualClamp(dualVariable(0.5), 0, 1).dual).toBe(1);
+      expect(dualClamp(dualVariable(2), 0, 1)).toEqual({ real: 1, dual: 0 });
+      expect(dualClamp(dualVariable(-2), 1, 0)).toEqual({ real: 0, dual: 0 });
+    });
+
+    test("smoothstep slope is 6t(1 - t) / width", () => {
+      expect(derivative((x) => dualSmoothstep(0, 2, x), 1)).toBeCloseTo(
+        0.75,
+        14,
+      );
+      expect(derivative((x) => dualSmoothstep(0, 2, x), 3)).toBe(0);
+      expect(dualSmoothstep(0, 2, 1).real).toBe(0.5);
+    });
+
+    test("smootherstep has zero slope at the edges", () => {
+      expect(derivative((x) => dualSmootherstep(0, 1, x), 0)).toBe(0);
+      expect(derivative((x) => dualSmootherstep(0, 1, x), 0.5)).toBeCloseTo(
+        1.875,
+        14,
+      );
+    });
+  });
+
+  describe("Gradients and Jacobians", () => {
+    test("gradient of the Rosenbrock function", () => {
+      const [x, y] = [-1.2, 1];
+      const g = gradient(rosenbrock, [x, y]);
+      expect(g[0]).toBeCloseTo(-2 * (1 - x) - 400 * x * (y - x * x), 10);
+      expect(g[1]).toBeCloseTo(200 * (y - x * x), 10);
+    });
+
+    test("jacobian of polar coordinates has determinant r", () => {
+      const J = jacobian(
+        ([r, theta]) => [
+          dualMul(r, dualCos(theta)),
+          dualMul(r, dualSin(theta)),
+        ],
+        [2, Math.PI / 3],
+      );
+      expect(J.rows).toBe(2);
+      expect(J.cols).toBe(2);
+      expect(J.data[0]).toBeCloseTo(Math.cos(Math.PI / 3), 15);
+      expect(J.data[1]).toBeCloseTo(-2 * Math.sin(Math.PI / 3), 15);
+      expect(matNDeterminant(J)).toBeCloseTo(2, 14);
+    });
+
+    test("jacobian of a non-square function", () => {
+      const J = jacobian(([x, y, z]) => [dualMul(dualMul(x, y), z)], [1, 2, 3]);
+      expect(J.rows).toBe(1);
+      expect(Array.from(J.data)).toEqual([6, 3, 2]);
+    });
+
+    test("jacobian rejects a changing number of outputs", () => {
+      let calls = 0;
+      expect(() =>
+        jacobian((x) => (calls++ === 0 ? x : x.slice(1)), [1, 2]),
+      ).toThrow("expected 2");
+    });
+  });
+
+  describe("Solver integration", () => {
+    test("gradient descent with exact gradients", () => {
+      const result = gradientDescent(
+        (x) => rosenbrock(Array.from(x, (v) => dual(v))).real,
+        [-1.2, 1],
+        {
+          gradient: (x) => gradient(rosenbrock, x),
+          maxIterations: 50000,
+          tolerance: 1e-10,
+        },
+      );
+      expect(result.x[0]).toBeCloseTo(1, 3);
+      expect(result.x[1]).toBeCloseTo(1, 3);
+    });
+
+    test("newton with an exact derivative", () => {
+      const f = (x: Dual) => dualSub(dualCos(x), x);
+      const result = newton((x) => f(dual(x)).real, 1, {
+        derivative: (x) => derivative(f, x),
+      });
+      expect(result.converged).toBe(true);
+      expect(result.x).toBeCloseTo(0.7390851332151607, 14);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, expect, test } from "bun:test";
+import {
+  cumulativeTrapezoid,
+  differentiate,
+  differentiateSamples,
+  finiteDifferenceWeights,
+  gaussKronrod,
+  romberg,
+  simpson,
+  trapezoid,
+  trapezoidSamples,
+} from "../src/calculus.ts";
+
+describe("Calculus", () => {
+  describe("Fixed quadrature rules", () => {
+    test("trapezoid converges quadratically", () => {
+      const exact = 2;
+      const coarse = Math.abs(trapezoid(Math.sin, 0, Math.PI, 10) - exact);
+      const fine = Math.abs(trapezoid(Math.sin, 0, Math.PI, 20) - exact);
+      expect(coarse / fine).toBeCloseTo(4, 1);
+    });
+
+    test("simpson is exact for cubics", () => {
+      expect(simpson((x) => x ** 3 - 2 * x, 0, 2, 2)).toBeCloseTo(0, 14);
+      expect(simpson((x) => x * x, 0, 3, 1)).toBeCloseTo(9, 14);
+    });
+
+    test("simpson is far more accurate than trapezoid", () => {
+      const simpsonError = Math.abs(simpson(Math.exp, 0, 1, 20) - (Math.E - 1));
+      const trapezoidError = Math.abs(
+        trapezoid(Math.exp, 0, 1, 20) - (Math.E - 1),
+      );
+      expect(simpsonError).toBeLessThan(1e-7);
+      expect(trapezoidError).toBeGreaterThan(1e-4);
+    });
+
+    test("reversed limits change the sign", () => {
+      expect(simpson((x) => x, 1, 0)).toBeCloseTo(-0.5, 14);
+    });
+
+    test("rejects invalid interval counts", () => {
+      expect(() => trapezoid(Math.sin, 0, 1, 0)).toThrow("positive integer");
+      expect(() => simpson(Math.sin, 0, 1, 2.5)).toThrow("positive integer");
+    });
+  });
+
+  describe("Romberg", () => {
+    test("integrates smooth functions to high precision", () => {
+      const result = romberg(Math.exp, 0, 1);
+      expect(result.converged).toBe(true);
+      expect(result.value).toBeCloseTo(Math.E - 1, 12);
+      expect(result.evaluations).toBeLessThan(100);
+    });
+
+    test("reports failure to converge", () => {
+      const result = romberg((x) => Math.sin(1 / x), 0.001, 1, {
+        maxIterations: 5,
+      });
+      expect(result.converged).toBe(false);
+      expect(result.evaluations).toBe(2 + 31);
+    });
+  });
+
+  describe("Gauss–Kronrod", () => {
+    test("integrates polynomials exactly on one interval", () => {
+      const result = gaussKronrod((x) => x ** 10, 0, 1);
+      expect(result.value).toBeCloseTo(1 / 11, 14);
+      expect(result.evaluations).toBe(15);
+    });
+
+    test("adapts to oscillatory integrands", () => {
+      const result = gaussKronrod((x) => Math.cos(50 * x), 0, Math.PI / 2);
+      expect(result.converged).toBe(true);
+      expect(result.value).toBeCloseTo(Math.sin(25 * Math.PI) / 50, 10);
+    });
+
+    test("handles endpoint singularities", () => {
+      const result = gaussKronrod((x) => 1 / Math.sqrt(x), 0, 1);
+      expect(result.value).toBeCloseTo(2, 8);
+    });
+
+    test("handles infinite limits", () => {
+      const gaussian = (x: number) => Math.exp(-x * x);
+      expect(gaussKronrod(gaussian, -Infinity, Infinity).value).toBeCloseTo(
+        Math.sqrt(Math.PI),
+        10,
+      );
+      expect(gaussKronrod(gaussian, 0, Infinity).value).toBeCloseTo(
+        Math.sqrt(Math.PI) / 2,
+        10,
+      );
+      expect(gaussKronrod((x) => Math.exp(x), -Infinity, 0).value).toBeCloseTo(
+        1,
+        10,
+      );
+    });
+
+    test("handles reversed and empty intervals", () => {
+      expect(gaussKronrod((x) => x, 1, 0).value).toBeCloseTo(-0.5, 14);
+      expect(gaussKronrod((x) => x, 2, 2)).toEqual({
+        value: 0,
+        error: 0,
+        converged: true,
+        evaluations: 0,
+      });
+    });
+
+    test("stops at the subdivision limit", () => {
+      const result = gaussKronrod((x) => Math.sin(1 / x), 1e-6, 1, {
+        maxSubdivisions: 4,
+      });
+      expect(result.converged).toBe(false);
+      expect(result.evaluations).toBe(15 * 7);
+    });
+  });
+
+  describe("Sampled data", () => {
+    test("trapezoidSamples with uniform and explicit spacing", () => {
+      expect(trapezoidSamples([0, 1, 4, 9], 1)).toBe(9.5);
+      expect(trapezoidSamples([0, 1, 4], [0, 1, 3])).toBe(5.5);
+      expect(trapezoidSamples([5], 1)).toBe(0);
+    });
+
+    test("cumulativeTrapezoid builds a running total", () => {
+      const running = cumulativeTrapezoid([1, 1, 1, 1], 0.5, 10);
+      expect(Array.from(running)).toEqual([10, 10.5, 11, 11.5]);
+      expect(cumulativeTrapezoid([], 1).length).toBe(0);
+    });
+
+    test("double integration recovers cantilever deflection", () => {
+      // EI·w'' = -P(L - x), w(0) = w'(0) = 0  →  tip deflection -PL³/(3EI)
+      const [P, L, EI] = [1000, 2, 5e5];
+      const xs = Array.from({ length: 401 }, (_, i) => (i * L) / 400);
+      const curvature = xs.map((x) => (-P * (L - x)) / EI);
+      const slope = cumulativeTrapezoid(curvature, xs);
+      const deflection = cumulativeTrapezoid(slope, xs);
+      expect(deflection[400]).toBeCloseTo((-P * L ** 3) / (3 * EI), 7);
+    });
+
+    test("rejects mismatched positions", () => {
+      expect(() => trapezoidSamples([1, 2, 3], [0, 1])).toThrow(
+        "3 sample positions",
+      );
+    });
+  });
+
+  describe("Finite differences", () => {
+    test("finiteDifferenceWeights reproduces standard stencils", () => {
+      expect(Array.from(finiteDifferenceWeights([-1, 0, 1], 1))).toEqual([
+        -0.5, 0, 0.5,
+      ]);
+      expect(Array.from(finiteDifferenceWeights([-1, 0, 1], 2))).toEqual([
+        1, -2, 1,
+      ]);
+      expect(Array.from(finiteDifferenceWeights([0, 1, 2], 1))).toEqual([
+        -1.5, 2, -0.5,
+      ]);
+      const fourth = finiteDifferenceWeights([-2, -1, 0, 1, 2], 1);
+      [1 / 12, -2 / 3, 0, 2 / 3, -1 / 12].forEach((w, i) =>
+        expect(fourth[i]).toBeCloseTo(w, 14),
+      );
+    });
+
+    test("finiteDifferenceWeights needs enough points", () => {
+      expect(() => finiteDifferenceWeights([0, 1], 2)).toThrow(
+        "more than 2 stencil points",
+      );
+    });
+
+    test("differentiate functions to several orders", () => {
+      expect(differentiate(Math.sin, 0)).toBeCloseTo(1, 10);
+      expect(differentiate(Math.exp, 1, { order: 2 })).toBeCloseTo(Math.E, 7);
+      expect(differentiate(Math.sin, 1, { order: 3 })).toBeCloseTo(
+        -Math.cos(1),
+        5,
+      );
+      expect(differentiate(Math.exp, 0, { order: 4 })).toBeCloseTo(1, 4);
+    });
+
+    test("higher accuracy reduces error for a fixed step", () => {
+      const error = (accuracy: number) =>
+        Math.abs(differentiate(Math.exp, 0, { accuracy, step: 0.1 }) - 1);
+      expect(error(2)).toBeGreaterThan(1e-3);
+      expect(error(4)).toBeLessThan(1e-4);
+      expect(error(6)).toBeLessThan(error(4));
+    });
+
+    test("differentiate validates its options", () => {
+      expect(() => differentiate(Math.sin, 0, { order: 0 })).toThrow(
+        "positive integer",
+      );
+      expect(() => differentiate(Math.sin, 0, { accuracy: 3 })).toThrow("even");
+    });
+
+    test("differentiateSamples is exact for quadratics, including the ends", () => {
+      const x = [0, 0.5, 1.5, 2, 3.5];
+      const y = x.map((v) => v * v - v);
+      const slope = differentiateSamples(y, x);
+      x.forEach((v, i) => expect(slope[i]).toBeCloseTo(2 * v - 1, 12));
+
+      const curvature = differentiateSamples(y, x, { order: 2 });
+      curvature.forEach((value) => expect(value).toBeCloseTo(2, 10));
+    });
+
+    test("differentiateSamples with uniform spacing", () => {
+      const h = 0.01;
+      const y = Array.from({ length: 200 }, (_, i) => Math.sin(i * h));
+      const slope = differentiateSamples(y, h, { accuracy: 4 });
+      slope.forEach((value, i) =>
+        expect(value).toBeCloseTo(Math.cos(i * h), 7),
+      );
+    });
+
+    test("differentiateSamples needs enough samples", () => {
+      expect(() => differentiateSamples([1, 2], 1)).toThrow(
+        "at least 3 samples",
+      );
+    });
+  });
+});
@@ -2,35 +2,73 @@ import { describe, expect, test } from "bun:test";
 import {
   analogous,
   brighten,
+  brightenPerceptual,
+  cmykToRgb,
+  colorDifference,
   colorDistance,
   colorLerp,
   colorLerpHsl,
-  colorSimilarity,
+  colorLerpOklab,
+  colorLerpOklch,
   colors,
+  colorSimilarity,
   complementary,
+  cssColorToRgba,
   contrast,
   darken,
+  darkenPerceptual,
+  deltaE2000,
+  deltaE76,
+  deltaE94,
+  deltaEOK,
   desaturate,
+  desaturatePerceptual,
+  distinctColors,
+  formatColor,
   grayscale,
   hexToRgb,
   hsl,
   hsla,
   hslToRgb,
+  hsvToRgb,
   hueShift,
+  hueShiftPerceptual,
+  hwbToRgb,
   invert,
+  nearestColor,
+  labToRgb,
+  lchToRgb,
+  linearToSrgb,
+  oklabToRgb,
+  oklchToRgb,
+  oklchToRgbInGamut,
+  parseColor,
   rgb,
   rgba,
+  rgbToCmyk,
   rgbToHex,
   rgbToHsl,
+  rgbToHsv,
+  rgbToHwb,
+  rgbToLab,
+  rgbToLch,
+  rgbToLinear,
+  rgbToOklab,
+  rgbToOklch,
+  rgbToXyz,
   saturate,
+  saturatePerceptual,
   splitComplementary,
+  srgbToLinear,
   tetradic,
   toCssHsl,
   toCssHsla,
   toCssRgb,
   toCssRgba,
   triadic,
+  xyzToRgb,
 } from "../src/color.ts";
+import type { RGB } from "../types/index.ts";
 
 describe("Color utilities", () => {
   describe("Color creation", () => {
@@ -195,6 +233,95 @@ describe("Color utilities", () => {
     });
   });
 
+  describe("Additional color spaces", () => {
+    const expectRgbCloseTo = (actual: RGB, expected: RGB, digits = 6) => {
+      expect(actual.r).toBeCloseTo(expected.r, digits);
+      expect(actual.g).toBeCloseTo(expected.g, digits);
+      expect(actual.b).toBeCloseTo(expected.b, digits);
+    };
+    const samples = [
+      rgb(255, 0, 0),
+      rgb(12, 200, 99),
+      rgb(3, 4, 250),
+      rgb(128, 128, 128),
+      rgb(250, 240, 230),
+    ];
+
+    test("sRGB transfer curve", () => {
+      expect(srgbToLinear(0)).toBe(0);
+      expect(srgbToLinear(1)).toBe(1);
+      expect(srgbToLinear(0.5)).toBeCloseTo(0.214041, 6);
+      expect(linearToSrgb(srgbToLinear(0.02))).toBeCloseTo(0.02, 12);
+      expect(rgbToLinear(rgb(255, 255, 255))).toEqual({ r: 1, g: 1, b: 1 });
+    });
+
+    test("XYZ and CIELAB reference values", () => {
+      const white = rgbToXyz(rgb(255, 255, 255));
+      expect(white.x).toBeCloseTo(0.95046, 5);
+      expect(white.y).toBeCloseTo(1, 10);
+      expect(white.z).toBeCloseTo(1.08906, 5);
+
+      const red = rgbToLab(rgb(255, 0, 0));
+      expect(red.l).toBeCloseTo(53.2371, 3);
+      expect(red.a).toBeCloseTo(80.0901, 3);
+      expect(red.b).toBeCloseTo(67.2033, 3);
+
+      const lch = rgbToLch(rgb(0, 0, 255));
+      expect(lch.l).toBeCloseTo(32.303, 2);
+      expect(lch.c).toBeCloseTo(133.808, 2);
+      expect(lch.h).toBeCloseTo(306.285, 2);
+    });
+
+    test("OKLab and OKLCH reference values", () => {
+      const white = rgbToOklab(rgb(255, 255, 255));
+      expect(white.l).toBeCloseTo(1, 6);
+      expect(white.a).toBeCloseTo(0, 6);
+
+      const red = rgbToOklch(rgb(255, 0, 0));
+      expect(red.l).toBeCloseTo(0.62796, 4);
+      expect(red.c).toBeCloseTo(0.25768, 4);
+      expect(red.h).toBeCloseTo(29.2339, 2);
+    });
+
+    test("HSV, HWB and CMYK reference values", () => {
+      expect(rgbToHsv(rgb(255, 0, 0))).toEqual({ h: 0, s: 100, v: 100 });
+      expect(rgbToHwb(rgb(255, 255, 255))).toEqual({ h: 0, w: 100, b: 0 });
+      expect(rgbToCmyk(rgb(255, 0, 0))).toEqual({ c: 0, m: 100, y: 100, k: 0 });
+      expect(rgbToCmyk(rgb(0, 0, 0))).toEqual({ c: 0, m: 0, y: 0, k: 100 });
+      expect(hsvToRgb({ h: 120, s: 100, v: 50 })).toEqual(rgb(0, 127.5, 0));
+      expect(hwbToRgb({ h: 0, w: 60, b: 60 })).toEqual(
+        rgb(127.5, 127.5, 127.5),
+      );
+    });
+
+    test("every space round-trips", () => {
+      for (const color of samples) {
+        expectRgbCloseTo(xyzToRgb(rgbToXyz(color)), color);
+        expectRgbCloseTo(labToRgb(rgbToLab(color)), color);
+        expectRgbCloseTo(lchToRgb(rgbToLch(color)), color);
+        expectRgbCloseTo(hsvToRgb(rgbToHsv(color)), color);
+        expectRgbCloseTo(hwbToRgb(rgbToHwb(color)), color);
+        expectRgbCloseTo(cmykToRgb(rgbToCmyk(color)), color);
+        // OKLab's published matrices carry ten digits
+        expectRgbCloseTo(oklabToRgb(rgbToOklab(color)), color, 2);
+        expectRgbCloseTo(oklchToRgb(rgbToOklch(color)), color, 2);
+      }
+    });
+
+    test("gamut mapping reduces chroma instead of clipping", () => {
+      const vivid = { l: 0.9, c: 0.3, h: 195 };
+      const mapped = rgbToOklch(oklchToRgbInGamut(vivid));
+      expect(mapped.l).toBeCloseTo(0.9, 3);
+      expect(mapped.h).toBeCloseTo(195, 0);
+      expect(mapped.c).toBeLessThan(0.3);
+
+      const clipped = rgbToOklch(oklchToRgb(vivid));
+      expect(Math.abs(clipped.l - 0.9)).toBeGreaterThan(
+        Math.abs(mapped.l - 0.9),
+      );
+    });
+  });
+
   describe("Color interpolation", () => {
     test("colorLerp", () => {
       const black = rgb(0, 0, 0);
@@ -224,6 +351,38 @@ describe("Color utilities", () => {
       // Should interpolate through 0° (red->orange->yellow)
       expect(orange.h).toBeCloseTo(25, 1);
     });
+
+    test("colorLerpOklab keeps the midpoint bright", () => {
+      const red = rgb(255, 0, 0);
+      const green = rgb(0, 255, 0);
+      expect(colorLerpOklab(red, green, 0)).toEqual(red);
+      const mid = rgbToOklab(colorLerpOklab(red, green, 0.5));
+      const rgbMid = rgbToOklab(colorLerp(red, green, 0.5));
+      expect(mid.l).toBeCloseTo(
+        (rgbToOklab(red).l + rgbToOklab(green).l) / 2,
+        3,
+      );
+      expect(mid.l).toBeGreaterThan(rgbMid.l);
+    });
+
+    test("colorLerpOklch takes the shorter hue arc", () => {
+      const violet = rgb(180, 0, 255);
+      const orange = rgb(255, 128, 0);
+      const [ha, hb] = [rgbToOklch(violet).h, rgbToOklch(orange).h];
+      // The hues straddle 0°, so the short way passes through red
+      expect(ha).toBeGreaterThan(300);
+      expect(hb).toBeLessThan(90);
+      const mid = rgbToOklch(colorLerpOklch(violet, orange, 0.5));
+      expect(mid.h).toBeCloseTo(((ha + hb + 360) / 2) % 360, 0);
+    });
+
+    test("colorLerpOklch keeps the hue of a chromatic endpoint", () => {
+      const gray = rgb(128, 128, 128);
+      const blue = rgb(0, 0, 255);
+      const mid = rgbToOklch(colorLerpOklch(gray, blue, 0.5));
+      expect(mid.h).toBeCloseTo(rgbToOklch(blue).h, 0);
+      expect(colorLerpOklch(gray, blue, 1).b).toBeCloseTo(255, 2);
+    });
   });
 
   describe("Color manipulation", () => {
@@ -271,6 +430,39 @@ describe("Color utilities", () => {
       expect(hslShifted.h).toBeCloseTo(120, 1);
     });
 
+    test("perceptual brighten and darken change only OKLCH lightness", () => {
+      const color = rgb(50, 80, 200);
+      const before = rgbToOklch(color);
+      const after = rgbToOklch(brightenPerceptual(color, 10));
+      expect(after.l).toBeCloseTo(before.l + 0.1, 4);
+      expect(after.h).toBeCloseTo(before.h, 1);
+      expect(rgbToOklch(darkenPerceptual(color, 10)).l).toBeCloseTo(
+        before.l - 0.1,
+        4,
+      );
+      const white = brightenPerceptual(color, 200);
+      expect(white.r + white.g + white.b).toBeCloseTo(765, 3);
+    });
+
+    test("perceptual saturation scales chroma", () => {
+      const color = rgb(150, 120, 110);
+      const before = rgbToOklch(color);
+      const after = rgbToOklch(saturatePerceptual(color, 50));
+      expect(after.c).toBeCloseTo(before.c * 1.5, 3);
+      expect(after.l).toBeCloseTo(before.l, 3);
+      expect(rgbToOklch(desaturatePerceptual(color, 100)).c).toBeCloseTo(0, 4);
+    });
+
+    test("perceptual hue shift keeps lightness", () => {
+      const yellow = rgb(230, 200, 0);
+      const before = rgbToOklch(yellow);
+      const after = rgbToOklch(hueShiftPerceptual(yellow, 180));
+      expect(after.l).toBeCloseTo(before.l, 3);
+      expect(after.h).toBeCloseTo((before.h + 180) % 360, 0);
+      // HSL hue shift makes the same yellow much darker
+      expect(rgbToOklch(hueShift(yellow, 180)).l).toBeLessThan(before.l - 0.1);
+    });
+
     test("grayscale", () => {
       const color = rgb(255, 128, 64);
       const gray = grayscale(color);
@@ -383,6 +575,108 @@ describe("Color utilities", () => {
     });
   });
 
+  describe("Perceptual color difference", () => {
+    const lab = (l: number, a: number, b: number) => ({ l, a, b });
+
+    test("CIEDE2000 matches the Sharma reference data", () => {
+      const pairs: [ReturnType<typeof lab>, ReturnType<typeof lab>, number][] =
+        [
+          [lab(50, 2.6772, -79.7751), lab(50, 0, -82.7485), 2.0425],
+          [lab(50, 0, 0), lab(50, -1, 2), 2.3669],
+          // Hue differences across the 0°/360° boundary
+          [lab(50, 2.49, -0.001), lab(50, -2.49, 0.0009), 7.1792],
+          [lab(50, 2.49, -0.001), lab(50, -2.49, 0.0011), 7.2195],
+          [lab(50, 2.5, 0), lab(73, 25, -18), 27.1492],
+          [
+            lab(60.2574, -34.0099, 36.2677),
+            lab(60.4626, -34.1751, 39.4387),
+            1.2644,
+          ],
+        ];
+      for (const [a, b, expected] of pairs) {
+        expect(deltaE2000(a, b)).toBeCloseTo(expected, 4);
+        expect(deltaE2000(b, a)).toBeCloseTo(expected, 4);
+      }
+    });
+
+    test("CIE76, CIE94 and OKLab distances", () => {
+      const [a, b] = [lab(50, 2.6772, -79.7751), lab(50, 0, -82.7485)];
+      expect(deltaE76(a, b)).toBeCloseTo(Math.hypot(2.6772, 2.9734), 10);
+      expect(deltaE94(a, b)).toBeCloseTo(1.395, 3);
+      expect(deltaE2000(a, a)).toBe(0);
+      expect(
+        deltaEOK(rgbToOklab(colors.black), rgbToOklab(colors.white)),
+      ).toBeCloseTo(1, 6);
+    });
+
+    test("colorDifference disagrees with RGB distance for blues", () => {
+      // Equal RGB steps look far larger in green than in blue
+      const greenStep = colorDifference(rgb(0, 200, 0), rgb(0, 230, 0));
+      const blueStep = colorDifference(rgb(0, 0, 200), rgb(0, 0, 230));
+      expect(colorDistance(rgb(0, 200, 0), rgb(0, 230, 0))).toBe(30);
+      expect(colorDistance(rgb(0, 0, 200), rgb(0, 0, 230))).toBe(30);
+      expect(greenStep).toBeGreaterThan(blueStep);
+      expect(colorDifference(colors.red, colors.red, "cie94")).toBe(0);
+      expect(colorDifference(colors.black, colors.white, "rgb")).toBeCloseTo(
+        441.67,
+        2,
+      );
+      expect(colorDifference(colors.black, colors.white, "cie76")).toBeCloseTo(
+        100,
+        4,
+      );
+    });
+
+    test("nearestColor", () => {
+      const palette = [colors.black, colors.white, colors.red, colors.blue];
+      expect(nearestColor(rgb(200, 30, 40), palette)).toBe(colors.red);
+      expect(nearestColor(rgb(30, 30, 60), palette, "oklab")).toBe(
+        colors.black,
+      );
+      expect(nearestColor(rgb(240, 240, 230), palette, "cie76")).toBe(
+        colors.white,
+      );
+      expect(() => nearestColor(colors.red, [])).toThrow("at least one color");
+    });
+
+    test("distinctColors spreads colors apart", () => {
+      const minimumDistance = (list: RGB[]) => {
+        let min = Infinity;
+        for (let i = 0; i < list.length; i++) {
+          for (let j = 0; j < i; j++) {
+            min = Math.min(min, colorDifference(list[i]!, list[j]!, "oklab"));
+          }
+        }
+        return min;
+      };
+
+      const palette = distinctColors(8);
+      expect(palette).toHaveLength(8);
+      expect(distinctColors(8)).toEqual(palette);
+      expect(minimumDistance(palette)).toBeGreaterThan(0.25);
+      // Adding colors never increases the minimum distance
+      expect(minimumDistance(distinctColors(16))).toBeLessThanOrEqual(
+        minimumDistance(palette),
+      );
+      expect(distinctColors(0)).toEqual([]);
+    });
+
+    test("distinctColors honors exclusions and lightness limits", () => {
+      const palette = distinctColors(5, {
+        exclude: [colors.white],
+        minLightness: 0.3,
+        maxLightness: 0.8,
+      });
+      for (const color of palette) {
+        const { l } = rgbToOklab(color);
+        expect(l).toBeGreaterThanOrEqual(0.3);
+        expect(l).toBeLessThanOrEqual(0.8);
+      }
+      expect(() => distinctColors(-1)).toThrow("non-negative integer");
+      expect(() => distinctColors(5000)).toThrow("at most");
+    });
+  });
+
   describe("Predefined colors", () => {
     test("basic colors", () => {
       expect(colors.white).toEqual({
@@ -443,4 +737,196 @@ describe("Color utilities", () => {
       expect(toCssHsla(color)).toBe("hsla(240, 100%, 50%, 0.8)");
     });
   });
+
+  describe("CSS color parsing and formatting", () => {
+    test("hex in all four lengths", () => {
+      expect(parseColor("#f80")).toEqual({
+        space: "rgb",
+        color: { r: 255, g: 136, b: 0 },
+        alpha: 1,
+      });
+      expect(parseColor("#F808").alpha).toBeCloseTo(0x88 / 255, 10);
+      expect(parseColor("#ff8000").color).toEqual({ r: 255, g: 128, b: 0 });
+      expect(parseColor("#ff800080").alpha).toBeCloseTo(128 / 255, 10);
+      expect(() => parseColor("#12")).toThrow("3, 4, 6 or 8 hex digits");
+      expect(() => parseColor("#gg0000")).toThrow("hex digits");
+    });
+
+    test("all 148 named colors and transparent", () => {
+      expect(parseColor("RebeccaPurple").color).toEqual({
+        r: 102,
+        g: 51,
+        b: 153,
+      });
+      expect(parseColor("lightgoldenrodyellow").color).toEqual({
+        r: 250,
+        g: 250,
+        b: 210,
+      });
+      expect(parseColor("grey")).toEqual(parseColor("gray"));
+      expect(parseColor("transparent").alpha).toBe(0);
+      expect(() => parseColor("bleu")).toThrow(
+        'Invalid CSS color "bleu": unknown color name',
+      );
+    });
+
+    test("rgb() and hsl() in legacy and modern syntax", () => {
+      expect(parseColor("rgba(10, 20, 30, .5)")).toEqual({
+        space: "rgb",
+        color: { r: 10, g: 20, b: 30 },
+        alpha: 0.5,
+      });
+      expect(parseColor("rgb(100% 50% 0% / 25%)")).toEqual({
+        space: "rgb",
+        color: { r: 255, g: 127.5, b: 0 },
+        alpha: 0.25,
+      });
+      expect(parseColor("rgb(300 -5 none)").color).toEqual({
+        r: 255,
+        g: 0,
+        b: 0,
+      });
+      expect(parseColor("hsl(0.5turn, 100%, 50%)").color).toEqual({
+        h: 180,
+        s: 100,
+        l: 50,
+      });
+      expect(parseColor("hsla(-90deg 50% 40% / 0.5)")).toEqual({
+        space: "hsl",
+        color: { h: 270, s: 50, l: 40 },
+        alpha: 0.5,
+      });
+    });
+
+    test("hwb, lab, lch, oklab, oklch and color()", () => {
+      expect(parseColor("hwb(200 10% 20%)").color).toEqual({
+        h: 200,
+        w: 10,
+        b: 20,
+      });
+      expect(parseColor("lab(50% 100% -20)").color).toEqual({
+        l: 50,
+        a: 125,
+        b: -20,
+      });
+      expect(parseColor("lch(50 30 3.14159rad)").color.h).toBeCloseTo(180, 3);
+      expect(parseColor("oklab(60% 0.1 -0.1)").color).toEqual({
+        l: 0.6,
+        a: 0.1,
+        b: -0.1,
+      });
+      expect(parseColor("oklch(0.7 50% 200grad)").color).toEqual({
+        l: 0.7,
+        c: 0.2,
+        h: 180,
+      });
+      expect(parseColor("color(display-p3 1 0 0 / 0.5)")).toEqual({
+        space: "display-p3",
+        color: { r: 1, g: 0, b: 0 },
+        alpha: 0.5,
+      });
+      expect(parseColor("color(srgb 1 0.5 0)").color).toEqual({
+        r: 255,
+        g: 127.5,
+        b: 0,
+      });
+    });
+
+    test("errors describe the problem", () => {
+      expect(() => parseColor("")).toThrow("empty string");
+      expect(() => parseColor("rgb(1, 2)")).toThrow(
+        "expected 3 components, got 2",
+      );
+      expect(() => parseColor("hsl(10% 20% 30%)")).toThrow(
+        "hue cannot be a percentage",
+      );
+      expect(() => parseColor("lab(1 2 3deg)")).toThrow(
+        'unexpected unit "deg"',
+      );
+      expect(() => parseColor("oklch(0.5, 0.1, 20)")).toThrow(
+        "does not accept commas",
+      );
+      expect(() => parseColor("rgb(1 2 3 / )")).toThrow("missing alpha");
+      expect(() => parseColor("color(rec2020 1 0 0)")).toThrow(
+        'unsupported color space "rec2020"',
+      );
+      expect(() => parseColor("foo(1 2 3)")).toThrow(
+        'unknown color function "foo()"',
+      );
+    });
+
+    test("formatColor writes every format", () => {
+      const orange = rgba(255, 128, 0, 0.25);
+      expect(formatColor(orange, "hex")).toBe("#ff800040");
+      expect(formatColor(orange, "rgb")).toBe("rgba(255, 128, 0, 0.25)");
+      expect(formatColor(orange, "hsl")).toBe("hsla(30.12, 100%, 50%, 0.25)");
+      expect(formatColor(orange, "oklch")).toBe(
+        "oklch(0.7319 0.1858 52.98 / 0.25)",
+      );
+      expect(formatColor(colors.red, "oklch")).toBe(
+        "oklch(0.628 0.2577 29.23)",
+      );
+      expect(formatColor(colors.white, "lab")).toBe("lab(100 0 0)");
+      expect(formatColor(colors.red, "display-p3")).toBe(
+        "color(display-p3 0.9175 0.2003 0.1386)",
+      );
+      expect(formatColor(parseColor("hwb(200 10% 20% / 0.5)"))).toBe(
+        "hwb(200 10% 20% / 0.5)",
+      );
+    });
+
+    test("formatColor round-trips through parseColor", () => {
+      const inputs = [
+        "#3a7bd5",
+        "hsl(280, 60%, 45%)",
+        "lab(62 -30 40)",
+        "oklch(0.55 0.12 145)",
+      ];
+      const formats = [
+        "hex",
+        "rgb",
+        "hsl",
+        "hwb",
+        "lab",
+        "lch",
+        "oklab",
+        "oklch",
+        "display-p3",
+      ] as const;
+      for (const input of inputs) {
+        const expected = cssColorToRgba(parseColor(input));
+        for (const format of formats) {
+          const actual = cssColorToRgba(
+            parseColor(formatColor(parseColor(input), format)),
+          );
+          expect(colorDistance(actual, expected)).toBeLessThan(1.5);
+        }
+      }
+    });
+
+    test("wide-gamut colors are gamut mapped for sRGB formats", () => {
+      const p3Red = parseColor("color(display-p3 1 0 0)");
+      const mapped = cssColorToRgba(p3Red);
+      expect(mapped.r).toBeCloseTo(255, 6);
+      expect(mapped.g).toBeGreaterThanOrEqual(0);
+      expect(formatColor(p3Red, "oklch")).toBe("oklch(0.6486 0.2995 28.96)");
+      // The mapped color keeps the OKLCH hue instead of clipping
+      expect(rgbToOklch(mapped).h).toBeCloseTo(28.96, 1);
+    });
+
+    test("sRGB colors convert without drift", () => {
+      expect(cssColorToRgba(parseColor("rgb(0 0 255 / 50%)"))).toEqual({
+        r: 0,
+        g: 0,
+        b: 255,
+        a: 0.5,
+      });
+      expect(cssColorToRgba(parseColor("#3a7bd5"))).toEqual({
+        r: 58,
+        g: 123,
+        b: 213,
+        a: 1,
+      });
+    });
+  });
 });
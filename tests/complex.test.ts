@@ -0,0 +1,209 @@
+import { describe, expect, test } from "bun:test";
+import {
+  complex,
+  complexAbs,
+  complexAbsSq,
+  complexAdd,
+  complexArg,
+  complexConj,
+  complexCos,
+  complexDiv,
+  complexEquals,
+  complexExp,
+  complexFromPolar,
+  complexLog,
+  complexMul,
+  complexNeg,
+  complexPow,
+  complexReciprocal,
+  complexSin,
+  complexSqrt,
+  complexSub,
+  complexToPolar,
+  formatComplex,
+  parseComplex,
+} from "../src/complex.ts";
+import { julia, mandelbrot } from "../src/fractals.ts";
+
+const expectComplexCloseTo = (
+  actual: { real: number; imag: number },
+  real: number,
+  imag: number,
+  digits: number = 10,
+) => {
+  expect(actual.real).toBeCloseTo(real, digits);
+  expect(actual.imag).toBeCloseTo(imag, digits);
+};
+
+describe("Complex numbers", () => {
+  describe("Construction and conversion", () => {
+    test("complex defaults the imaginary part to zero", () => {
+      expect(complex(3, 4)).toEqual({ real: 3, imag: 4 });
+      expect(complex(5)).toEqual({ real: 5, imag: 0 });
+    });
+
+    test("polar round trip", () => {
+      const z = complexFromPolar(2, Math.PI / 3);
+      expectComplexCloseTo(z, 1, Math.sqrt(3));
+
+      const polar = complexToPolar(complex(-1, 1));
+      expect(polar.magnitude).toBeCloseTo(Math.SQRT2, 10);
+      expect(polar.angle).toBeCloseTo((3 * Math.PI) / 4, 10);
+    });
+  });
+
+  describe("Arithmetic", () => {
+    const a = complex(3, 4);
+    const b = complex(1, -2);
+
+    test("add and subtract", () => {
+      expect(complexAdd(a, b)).toEqual(complex(4, 2));
+      expect(complexSub(a, b)).toEqual(complex(2, 6));
+      expect(complexAdd(a, 2)).toEqual(complex(5, 4));
+      expect(complexSub(a, 3)).toEqual(complex(0, 4));
+    });
+
+    test("multiply", () => {
+      expect(complexMul(a, b)).toEqual(complex(11, -2));
+      expect(complexMul(complex(0, 1), complex(0, 1))).toEqual(complex(-1, 0));
+      expect(complexMul(a, 2)).toEqual(complex(6, 8));
+    });
+
+    test("divide", () => {
+      expectComplexCloseTo(complexDiv(a, b), -1, 2);
+      expectComplexCloseTo(complexDiv(complexMul(a, b), b), 3, 4);
+      expectComplexCloseTo(
+        complexDiv(complex(1, 1), complex(1e-3, 1e3)),
+        1e-3,
+        -1e-3,
+        8,
+      );
+      expect(complexDiv(a, 2)).toEqual(complex(1.5, 2));
+    });
+
+    test("division by zero yields NaN", () => {
+      const result = complexDiv(a, complex(0, 0));
+      expect(result.real).toBeNaN();
+      expect(result.imag).toBeNaN();
+    });
+
+    test("negate, conjugate and reciprocal", () => {
+      expect(complexNeg(a)).toEqual(complex(-3, -4));
+      expect(complexConj(a)).toEqual(complex(3, -4));
+      expectComplexCloseTo(complexMul(a, complexReciprocal(a)), 1, 0);
+    });
+  });
+
+  describe("Magnitude and angle", () => {
+    test("complexAbs and complexAbsSq", () => {
+      expect(complexAbs(complex(3, 4))).toBe(5);
+      expect(complexAbsSq(complex(3, 4))).toBe(25);
+    });
+
+    test("complexArg covers all quadrants", () => {
+      expect(complexArg(complex(1, 0))).toBe(0);
+      expect(complexArg(complex(0, 1))).toBeCloseTo(Math.PI / 2, 10);
+      expect(complexArg(complex(-1, 0))).toBeCloseTo(Math.PI, 10);
+      expect(complexArg(complex(0, -1))).toBeCloseTo(-Math.PI / 2, 10);
+    });
+  });
+
+  describe("Elementary functions", () => {
+    test("Euler's identity", () => {
+      expectComplexCloseTo(complexExp(complex(0, Math.PI)), -1, 0);
+    });
+
+    test("log inverts exp", () => {
+      const z = complex(0.5, -1.2);
+      expectComplexCloseTo(complexLog(complexExp(z)), 0.5, -1.2);
+      expectComplexCloseTo(complexLog(complex(-1, 0)), 0, Math.PI);
+    });
+
+    test("integer powers", () => {
+      expect(complexPow(complex(0, 1), 2)).toEqual(complex(-1, 0));
+      expect(complexPow(complex(1, 1), 4)).toEqual(complex(-4, 0));
+      expectComplexCloseTo(complexPow(complex(1, 1), -2), 0, -0.5);
+      expect(complexPow(complex(2, 3), 0)).toEqual(complex(1, 0));
+      expect(complexPow(complex(0, 0), 3)).toEqual(complex(0, 0));
+      expect(complexPow(complex(0, 0), -1)).toEqual(complex(Infinity, 0));
+      expect(complexPow(complex(0, 0), complex(0, 1)).real).toBeNaN();
+    });
+
+    test("complex and fractional powers", () => {
+      // i^i = e^(-π/2)
+      expectComplexCloseTo(
+        complexPow(complex(0, 1), complex(0, 1)),
+        Math.exp(-Math.PI / 2),
+        0,
+      );
+      expectComplexCloseTo(complexPow(complex(-4, 0), 0.5), 0, 2);
+    });
+
+    test("principal square root", () => {
+      expectComplexCloseTo(complexSqrt(complex(3, -4)), 2, -1);
+      expectComplexCloseTo(complexSqrt(complex(-9, 0)), 0, 3);
+      expectComplexCloseTo(complexSqrt(complex(-9, -0.000001)), 0, -3, 5);
+      expect(complexSqrt(complex(0, 0))).toEqual(complex(0, 0));
+
+      const z = complex(-2.5, 7.1);
+      const root = complexSqrt(z);
+      expect(root.real).toBeGreaterThanOrEqual(0);
+      expect(complexEquals(complexMul(root, root), z)).toBe(true);
+    });
+
+    test("sin and cos satisfy sin² + cos² = 1", () => {
+      const z = complex(0.7, -1.3);
+      const s = complexSin(z);
+      const c = complexCos(z);
+      const sum = complexAdd(complexMul(s, s), complexMul(c, c));
+      expectComplexCloseTo(sum, 1, 0);
+      expectComplexCloseTo(complexSin(complex(Math.PI / 2, 0)), 1, 0);
+    });
+  });
+
+  describe("Parsing and formatting", () => {
+    test("parses common forms", () => {
+      expect(parseComplex("3+4i")).toEqual(complex(3, 4));
+      expect(parseComplex(" -2.5 - 1e-3i ")).toEqual(complex(-2.5, -1e-3));
+      expect(parseComplex("7")).toEqual(complex(7, 0));
+      expect(parseComplex("-i")).toEqual(complex(0, -1));
+      expect(parseComplex("i")).toEqual(complex(0, 1));
+      expect(parseComplex("2j")).toEqual(complex(0, 2));
+      expect(parseComplex("1 + i")).toEqual(complex(1, 1));
+      expect(parseComplex(".5-.25i")).toEqual(complex(0.5, -0.25));
+    });
+
+    test("rejects invalid input", () => {
+      expect(() => parseComplex("")).toThrow("Invalid complex number");
+      expect(() => parseComplex("3+")).toThrow("Invalid complex number");
+      expect(() => parseComplex("abc")).toThrow("Invalid complex number");
+      expect(() => parseComplex("1+2i+3")).toThrow("Invalid complex number");
+    });
+
+    test("formats numbers", () => {
+      expect(formatComplex(complex(3, -4))).toBe("3 - 4i");
+      expect(formatComplex(complex(3, 4))).toBe("3 + 4i");
+      expect(formatComplex(complex(0, 2))).toBe("2i");
+      expect(formatComplex(complex(-0, 0))).toBe("0");
+      expect(formatComplex(complex(Math.PI, 0), 2)).toBe("3.14");
+    });
+
+    test("format and parse round trip", () => {
+      const z = complex(-1.25, 0.5);
+      expect(parseComplex(formatComplex(z))).toEqual(z);
+    });
+  });
+
+  describe("Fractal integration", () => {
+    test("mandelbrot uses complex iteration", () => {
+      expect(mandelbrot(complex(0, 0), 50)).toBe(50);
+      expect(mandelbrot(complex(2, 2), 50)).toBe(0);
+    });
+
+    test("julia does not mutate its starting point", () => {
+      const z = complex(0.1, 0.2);
+      julia(z, complex(-0.8, 0.156), 20);
+      expect(z).toEqual(complex(0.1, 0.2));
+    });
+  });
+});
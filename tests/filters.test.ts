@@ -0,0 +1,319 @@
+import { describe, expect, test } from "bun:test";
+import {
+  designBiquad,
+  designButterworth,
+  designChebyshev,
+  designFir,
+  FIRFilter,
+  IIRFilter,
+  unwrapPhase,
+} from "../src/filters.ts";
+
+const sampleRate = 8000;
+
+const gainAt = (
+  filter: IIRFilter | FIRFilter,
+  frequency: number,
+  rate: number = sampleRate,
+) => filter.frequencyResponse(rate, [frequency]).magnitude[0];
+
+const toDb = (gain: number) => 20 * Math.log10(gain);
+
+const sine = (frequency: number, length: number, rate: number = sampleRate) =>
+  Array.from({ length }, (_, i) =>
+    Math.sin((2 * Math.PI * frequency * i) / rate),
+  );
+
+const rms = (values: ArrayLike<number>, start: number = 0) => {
+  let sum = 0;
+  for (let i = start; i < values.length; i++) sum += values[i] * values[i];
+  return Math.sqrt(sum / (values.length - start));
+};
+
+describe("Digital filters", () => {
+  describe("Biquad design", () => {
+    test("lowpass and highpass are -3 dB at the cutoff", () => {
+      const lowpass = new IIRFilter(designBiquad("lowpass", 1000, sampleRate));
+      expect(gainAt(lowpass, 0)).toBeCloseTo(1, 10);
+      expect(toDb(gainAt(lowpass, 1000))).toBeCloseTo(-3.0103, 3);
+      expect(gainAt(lowpass, 3900)).toBeLessThan(0.01);
+
+      const highpass = new IIRFilter(
+        designBiquad("highpass", 1000, sampleRate),
+      );
+      expect(gainAt(highpass, 4000)).toBeCloseTo(1, 10);
+      expect(toDb(gainAt(highpass, 1000))).toBeCloseTo(-3.0103, 3);
+    });
+
+    test("bandpass peaks at 0 dB and notch removes the center", () => {
+      const bandpass = new IIRFilter(
+        designBiquad("bandpass", 1000, sampleRate, 5),
+      );
+      expect(gainAt(bandpass, 1000)).toBeCloseTo(1, 10);
+      expect(gainAt(bandpass, 200)).toBeLessThan(0.1);
+
+      const notch = new IIRFilter(designBiquad("notch", 1000, sampleRate, 5));
+      expect(gainAt(notch, 1000)).toBeCloseTo(0, 10);
+      expect(gainAt(notch, 0)).toBeCloseTo(1, 10);
+    });
+
+    test("allpass keeps unity gain", () => {
+      const allpass = new IIRFilter(designBiquad("allpass", 1000, sampleRate));
+      for (const frequency of [0, 500, 1000, 3000]) {
+        expect(gainAt(allpass, frequency)).toBeCloseTo(1, 10);
+      }
+    });
+
+    test("peaking and shelving filters apply their gain", () => {
+      const peaking = new IIRFilter(
+        designBiquad("peaking", 1000, sampleRate, 1, 6),
+      );
+      expect(toDb(gainAt(peaking, 1000))).toBeCloseTo(6, 8);
+      expect(toDb(gainAt(peaking, 0))).toBeCloseTo(0, 8);
+
+      const lowShelf = new IIRFilter(
+        designBiquad("lowshelf", 500, sampleRate, Math.SQRT1_2, -12),
+      );
+      expect(toDb(gainAt(lowShelf, 0))).toBeCloseTo(-12, 8);
+      expect(toDb(gainAt(lowShelf, 4000))).toBeCloseTo(0, 8);
+
+      const highShelf = new IIRFilter(
+        designBiquad("highshelf", 2000, sampleRate, Math.SQRT1_2, 9),
+      );
+      expect(toDb(gainAt(highShelf, 4000))).toBeCloseTo(9, 8);
+      expect(toDb(gainAt(highShelf, 0))).toBeCloseTo(0, 8);
+    });
+
+    test("rejects frequencies outside (0, Nyquist)", () => {
+      expect(() => designBiquad("lowpass", 0, sampleRate)).toThrow("Nyquist");
+      expect(() => designBiquad("lowpass", 4000, sampleRate)).toThrow(
+        "Nyquist",
+      );
+    });
+  });
+
+  describe("Butterworth design", () => {
+    test("has a flat passband and -3 dB at the cutoff", () => {
+      for (const order of [1, 2, 3, 4, 7]) {
+        const sections = designButterworth("lowpass", order, 1000, sampleRate);
+        expect(sections.length).toBe(Math.ceil(order / 2));
+
+        const filter = new IIRFilter(sections);
+        expect(gainAt(filter, 0)).toBeCloseTo(1, 10);
+        expect(toDb(gainAt(filter, 1000))).toBeCloseTo(-3.0103, 3);
+      }
+    });
+
+    test("rolls off faster at higher orders", () => {
+      const second = new IIRFilter(
+        designButterworth("lowpass", 2, 500, sampleRate),
+      );
+      const sixth = new IIRFilter(
+        designButterworth("lowpass", 6, 500, sampleRate),
+      );
+      expect(gainAt(sixth, 1500)).toBeLessThan(gainAt(second, 1500) / 100);
+    });
+
+    test("highpass mirrors the lowpass", () => {
+      const filter = new IIRFilter(
+        designButterworth("highpass", 5, 1000, sampleRate),
+      );
+      expect(gainAt(filter, 4000)).toBeCloseTo(1, 10);
+      expect(toDb(gainAt(filter, 1000))).toBeCloseTo(-3.0103, 3);
+      expect(gainAt(filter, 100)).toBeLessThan(1e-4);
+    });
+
+    test("validates the order", () => {
+      expect(() => designButterworth("lowpass", 0, 1000, sampleRate)).toThrow(
+        "order",
+      );
+      expect(() => designButterworth("lowpass", 2.5, 1000, sampleRate)).toThrow(
+        "order",
+      );
+    });
+  });
+
+  describe("Chebyshev design", () => {
+    test("ripple stays within bounds and the edge is at -ripple dB", () => {
+      for (const order of [3, 4]) {
+        const filter = new IIRFilter(
+          designChebyshev("lowpass", order, 1000, sampleRate, 1),
+        );
+        const { magnitude } = filter.frequencyResponse(
+          sampleRate,
+          Array.from({ length: 100 }, (_, i) => i * 10),
+        );
+        for (const gain of magnitude) {
+          expect(toDb(gain)).toBeLessThanOrEqual(1e-9);
+          expect(toDb(gain)).toBeGreaterThanOrEqual(-1 - 1e-9);
+        }
+        expect(toDb(gainAt(filter, 1000))).toBeCloseTo(-1, 6);
+      }
+    });
+
+    test("is steeper than a Butterworth filter of the same order", () => {
+      const chebyshev = new IIRFilter(
+        designChebyshev("lowpass", 4, 1000, sampleRate, 0.5),
+      );
+      const butterworth = new IIRFilter(
+        designButterworth("lowpass", 4, 1000, sampleRate),
+      );
+      expect(gainAt(chebyshev, 1600)).toBeLessThan(gainAt(butterworth, 1600));
+    });
+
+    test("highpass passes high frequencies", () => {
+      const filter = new IIRFilter(
+        designChebyshev("highpass", 3, 1000, sampleRate, 2),
+      );
+      expect(gainAt(filter, 3999)).toBeCloseTo(1, 3);
+      expect(toDb(gainAt(filter, 1000))).toBeCloseTo(-2, 6);
+    });
+
+    test("rejects non-positive ripple", () => {
+      expect(() => designChebyshev("lowpass", 2, 1000, sampleRate, 0)).toThrow(
+        "ripple",
+      );
+    });
+  });
+
+  describe("FIR design", () => {
+    test("lowpass taps are symmetric with unity DC gain", () => {
+      const taps = designFir("lowpass", 51, 1000, sampleRate);
+      expect(taps.length).toBe(51);
+      for (let i = 0; i < taps.length; i++) {
+        expect(taps[i]).toBeCloseTo(taps[taps.length - 1 - i], 12);
+      }
+
+      const filter = new FIRFilter(taps);
+      expect(gainAt(filter, 0)).toBeCloseTo(1, 10);
+      expect(gainAt(filter, 1000)).toBeCloseTo(0.5, 1);
+      expect(gainAt(filter, 2500)).toBeLessThan(0.01);
+    });
+
+    test("highpass, bandpass and bandstop shapes", () => {
+      const highpass = new FIRFilter(
+        designFir("highpass", 61, 1000, sampleRate),
+      );
+      expect(gainAt(highpass, 4000)).toBeCloseTo(1, 10);
+      expect(gainAt(highpass, 200)).toBeLessThan(0.01);
+
+      const bandpass = new FIRFilter(
+        designFir("bandpass", 101, [1000, 2000], sampleRate, "blackman"),
+      );
+      expect(gainAt(bandpass, 1500)).toBeCloseTo(1, 10);
+      expect(gainAt(bandpass, 100)).toBeLessThan(0.01);
+      expect(gainAt(bandpass, 3500)).toBeLessThan(0.01);
+
+      const bandstop = new FIRFilter(
+        designFir("bandstop", 101, [1000, 2000], sampleRate),
+      );
+      expect(gainAt(bandstop, 0)).toBeCloseTo(1, 10);
+      expect(gainAt(bandstop, 1500)).toBeLessThan(0.01);
+    });
+
+    test("has linear phase", () => {
+      const taps = designFir("lowpass", 21, 1000, sampleRate);
+      const filter = new FIRFilter(taps);
+      const frequencies = [100, 200, 300, 400];
+      const phase = unwrapPhase(
+        filter.frequencyResponse(sampleRate, frequencies).phase,
+      );
+      // A delay of (N - 1) / 2 = 10 samples
+      frequencies.forEach((frequency, i) => {
+        expect(phase[i]).toBeCloseTo(
+          (-2 * Math.PI * frequency * 10) / sampleRate,
+          8,
+        );
+      });
+    });
+
+    test("validates its parameters", () => {
+      expect(() => designFir("highpass", 20, 1000, sampleRate)).toThrow("odd");
+      expect(() => designFir("lowpass", 0, 1000, sampleRate)).toThrow("taps");
+      expect(() => designFir("bandpass", 21, 1000, sampleRate)).toThrow(
+        "[low, high]",
+      );
+      expect(() => designFir("lowpass", 21, [100, 200], sampleRate)).toThrow(
+        "single cutoff",
+      );
+      expect(() => designFir("bandpass", 21, [2000, 1000], sampleRate)).toThrow(
+        "Low cutoff",
+      );
+    });
+  });
+
+  describe("Filter processing", () => {
+    test("IIR lowpass attenuates a tone above the cutoff", () => {
+      const filter = new IIRFilter(
+        designButterworth("lowpass", 4, 500, sampleRate),
+      );
+      const passed = filter.processBuffer(sine(100, 4000));
+      filter.reset();
+      const blocked = filter.processBuffer(sine(2000, 4000));
+
+      expect(rms(passed, 1000)).toBeCloseTo(Math.SQRT1_2, 2);
+      expect(rms(blocked, 1000)).toBeLessThan(0.005);
+    });
+
+    test("FIR filter matches direct convolution", () => {
+      const taps = [0.25, 0.5, 0.25];
+      const input = [1, 2, 3, 4, 5];
+      const output = new FIRFilter(taps).processBuffer(input);
+      expect(Array.from(output)).toEqual([0.25, 1, 2, 3, 4]);
+    });
+
+    test("impulse response of an IIR section", () => {
+      const filter = new IIRFilter({ b0: 1, b1: 0, b2: 0, a1: -0.5, a2: 0 });
+      expect(Array.from(filter.processBuffer([1, 0, 0, 0]))).toEqual([
+        1, 0.5, 0.25, 0.125,
+      ]);
+    });
+
+    test("streaming in chunks equals processing the whole buffer", () => {
+      const signal = sine(300, 500).map((v, i) => v + Math.cos(i));
+      const sections = designChebyshev("lowpass", 5, 800, sampleRate);
+      const whole = new IIRFilter(sections).processBuffer(signal);
+
+      const streaming = new IIRFilter(sections);
+      const chunked = [
+        ...streaming.processBuffer(signal.slice(0, 123)),
+        ...streaming.processBuffer(signal.slice(123, 400)),
+        ...signal.slice(400).map((sample) => streaming.process(sample)),
+      ];
+      chunked.forEach((value, i) => expect(value).toBeCloseTo(whole[i], 12));
+
+      const fir = new FIRFilter(designFir("lowpass", 31, 800, sampleRate));
+      const firWhole = fir.processBuffer(signal);
+      fir.reset();
+      const firChunked = [
+        ...fir.processBuffer(signal.slice(0, 250)),
+        ...fir.processBuffer(signal.slice(250)),
+      ];
+      firChunked.forEach((value, i) =>
+        expect(value).toBeCloseTo(firWhole[i], 12),
+      );
+    });
+
+    test("default response covers DC to Nyquist", () => {
+      const response = new IIRFilter(
+        designBiquad("lowpass", 1000, sampleRate),
+      ).frequencyResponse(sampleRate);
+      expect(response.frequencies.length).toBe(512);
+      expect(response.frequencies[0]).toBe(0);
+      expect(response.frequencies[511]).toBe(4000);
+    });
+
+    test("FIR filter needs taps", () => {
+      expect(() => new FIRFilter([])).toThrow("tap");
+    });
+  });
+
+  describe("unwrapPhase", () => {
+    test("removes 2π jumps", () => {
+      const unwrapped = unwrapPhase([3, -3, -1]);
+      expect(unwrapped[0]).toBe(3);
+      expect(unwrapped[1]).toBeCloseTo(-3 + 2 * Math.PI, 12);
+      expect(unwrapped[2]).toBeCloseTo(-1 + 2 * Math.PI, 12);
+    });
+  });
+});
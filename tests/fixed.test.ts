@@ -0,0 +1,220 @@
+import { describe, expect, test } from "bun:test";
+import {
+  FixedNoise,
+  FX_HALF_PI,
+  FX_ONE,
+  FX_PI,
+  fx,
+  fxAbs,
+  fxAdd,
+  fxAtan2,
+  fxCeil,
+  fxCos,
+  fxDiv,
+  fxFloor,
+  fxFract,
+  fxHypot,
+  fxMul,
+  fxRandom,
+  fxRound,
+  fxSin,
+  fxSqrt,
+  fxToInt,
+  fxToNumber,
+  fxVec2,
+  fxVec2Add,
+  fxVec2Cross,
+  fxVec2Dot,
+  fxVec2Length,
+  fxVec2Normalize,
+  fxVec2Rotate,
+  fxVec2Scale,
+  fxVec3,
+  fxVec3Cross,
+  fxVec3Length,
+  fxVec3Normalize,
+} from "../src/fixed.ts";
+import { SeededRandom } from "../src/random.ts";
+import type { Fixed } from "../types/index.ts";
+
+const ULP = 1 / 65536;
+
+describe("Fixed-point", () => {
+  describe("Conversion", () => {
+    test("stores values as integer 1/65536ths", () => {
+      expect(fx(1.5)).toBe(98304 as Fixed);
+      expect(fx(-0.25)).toBe(-16384 as Fixed);
+      expect(Object.is(fx(-1e-9), 0)).toBe(true);
+      expect(fxToNumber(fx(3.14159))).toBeCloseTo(3.14159, 4);
+    });
+
+    test("rejects values outside the Q16.16 range", () => {
+      expect(() => fx(32768)).toThrow("outside the Q16.16 range");
+      expect(() => fx(Number.NaN)).toThrow("outside the Q16.16 range");
+      expect(fx(-32768)).toBe(-(2 ** 31) as Fixed);
+    });
+
+    test("floor, ceil, round and fract", () => {
+      const a = fx(-1.25);
+      expect(fxToNumber(fxFloor(a))).toBe(-2);
+      expect(fxToNumber(fxCeil(a))).toBe(-1);
+      expect(fxToNumber(fxRound(a))).toBe(-1);
+      expect(fxToNumber(fxFract(a))).toBe(0.75);
+      expect(fxToInt(a)).toBe(-2);
+    });
+  });
+
+  describe("Arithmetic", () => {
+    test("multiplies and divides exactly representable values", () => {
+      expect(fxToNumber(fxMul(fx(-1.5), fx(2.25)))).toBe(-3.375);
+      expect(fxToNumber(fxDiv(fx(-3.375), fx(1.5)))).toBe(-2.25);
+      expect(fxMul(fx(1000), fx(30))).toBe(fx(30000));
+    });
+
+    test("rounds multiplication and truncates division", () => {
+      // 1/65536 · 0.5 is exactly half an ulp and rounds up
+      expect(fxMul(1 as Fixed, fx(0.5))).toBe(1 as Fixed);
+      expect(fxDiv(FX_ONE, fx(3))).toBe(21845 as Fixed);
+      expect(fxDiv(fx(-1), fx(3))).toBe(-21845 as Fixed);
+      expect(() => fxDiv(FX_ONE, 0 as Fixed)).toThrow("division by zero");
+    });
+
+    test("overflow wraps like 32-bit integers", () => {
+      expect(fxMul(fx(256), fx(128))).toBe(-(2 ** 31) as Fixed);
+      expect(fxAbs(fx(-32768))).toBe(-(2 ** 31) as Fixed);
+    });
+
+    test("square root rounds toward zero", () => {
+      expect(fxSqrt(fx(10))).toBe(207243 as Fixed);
+      expect(fxSqrt(fx(16))).toBe(fx(4));
+      expect(fxToNumber(fxSqrt(fx(30000)))).toBeCloseTo(Math.sqrt(30000), 4);
+      expect(() => fxSqrt(fx(-1))).toThrow("square root");
+    });
+
+    test("hypot does not overflow", () => {
+      expect(fxHypot(fx(3000), fx(4000))).toBe(fx(5000));
+      expect(fxHypot(fx(-3), fx(4))).toBe(fx(5));
+    });
+  });
+
+  describe("Trigonometry", () => {
+    test("sin and cos are within two ulps", () => {
+      for (let i = -400; i <= 400; i++) {
+        const angle = fx(i * 0.0371);
+        const t = fxToNumber(angle);
+        expect(Math.abs(fxToNumber(fxSin(angle)) - Math.sin(t))).toBeLessThan(
+          2 * ULP,
+        );
+        expect(Math.abs(fxToNumber(fxCos(angle)) - Math.cos(t))).toBeLessThan(
+          3 * ULP,
+        );
+      }
+    });
+
+    test("exact values at key angles", () => {
+      expect(fxSin(0 as Fixed)).toBe(0 as Fixed);
+      expect(fxSin(FX_HALF_PI)).toBe(FX_ONE);
+      expect(fxCos(0 as Fixed)).toBe(FX_ONE);
+      expect(fxToNumber(fxSin(FX_PI))).toBeCloseTo(0, 4);
+    });
+
+    test("atan2 covers all quadrants", () => {
+      for (let i = 0; i < 360; i++) {
+        const t = ((i + 0.5) / 360) * 2 * Math.PI - Math.PI;
+        const [x, y] = [fx(2 * Math.cos(t)), fx(2 * Math.sin(t))];
+        const expected = Math.atan2(fxToNumber(y), fxToNumber(x));
+        expect(Math.abs(fxToNumber(fxAtan2(y, x)) - expected)).toBeLessThan(
+          2 * ULP,
+        );
+      }
+      expect(fxAtan2(0 as Fixed, fx(-1))).toBe(FX_PI);
+      expect(fxAtan2(0 as Fixed, 0 as Fixed)).toBe(0 as Fixed);
+    });
+  });
+
+  describe("Vectors", () => {
+    test("2D operations", () => {
+      const a = fxVec2(fx(3), fx(4));
+      const b = fxVec2(fx(-1), fx(2));
+      expect(fxVec2Add(a, b)).toEqual(fxVec2(fx(2), fx(6)));
+      expect(fxVec2Scale(a, fx(0.5))).toEqual(fxVec2(fx(1.5), fx(2)));
+      expect(fxVec2Dot(a, b)).toBe(fx(5));
+      expect(fxVec2Cross(a, b)).toBe(fx(10));
+      expect(fxVec2Length(a)).toBe(fx(5));
+      expect(fxVec2Normalize(a)).toEqual(
+        fxVec2(39321 as Fixed, 52428 as Fixed),
+      );
+      expect(fxVec2Normalize(fxVec2(0 as Fixed, 0 as Fixed))).toEqual(
+        fxVec2(0 as Fixed, 0 as Fixed),
+      );
+    });
+
+    test("rotation by a quarter turn", () => {
+      const r = fxVec2Rotate(fxVec2(FX_ONE, 0 as Fixed), FX_HALF_PI);
+      expect(Math.abs(r.x)).toBeLessThanOrEqual(1);
+      expect(r.y).toBe(FX_ONE);
+    });
+
+    test("3D operations", () => {
+      const x = fxVec3(FX_ONE, 0 as Fixed, 0 as Fixed);
+      const y = fxVec3(0 as Fixed, FX_ONE, 0 as Fixed);
+      expect(fxVec3Cross(x, y)).toEqual(fxVec3(0 as Fixed, 0 as Fixed, FX_ONE));
+      expect(fxVec3Length(fxVec3(fx(2), fx(3), fx(6)))).toBe(fx(7));
+      const n = fxVec3Normalize(fxVec3(fx(2), fx(3), fx(6)));
+      expect(fxToNumber(n.z)).toBeCloseTo(6 / 7, 4);
+    });
+  });
+
+  describe("Random and noise", () => {
+    test("seeded random values lie in [0, 1)", () => {
+      const rng = new SeededRandom(7);
+      for (let i = 0; i < 100; i++) {
+        const value = fxRandom(rng);
+        expect(Number.isInteger(value)).toBe(true);
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(FX_ONE);
+      }
+    });
+
+    test("noise is seeded, continuous and bounded", () => {
+      const noise = new FixedNoise(1);
+      expect(noise.noise3D(fx(1.3), fx(2.7), fx(0.4))).toBe(-2148 as Fixed);
+      expect(new FixedNoise(1).noise2D(fx(0.5), fx(0.5))).toBe(
+        noise.noise2D(fx(0.5), fx(0.5)),
+      );
+      expect(noise.noise2D(fx(3), fx(5))).toBe(0 as Fixed);
+
+      for (let i = 0; i < 200; i++) {
+        const x = fx(i * 0.05);
+        const step = Math.abs(
+          noise.noise1D(x) - noise.noise1D(fx(i * 0.05 + 0.01)),
+        );
+        expect(step).toBeLessThan(0.05 * 65536);
+        expect(Math.abs(noise.noise2D(x, fx(i * 0.03)))).toBeLessThanOrEqual(
+          FX_ONE,
+        );
+      }
+    });
+  });
+
+  describe("Determinism", () => {
+    test("a seeded simulation reproduces known integers", () => {
+      const rng = new SeededRandom(2024);
+      const noise = new FixedNoise(99);
+      const dt = fx(1 / 60);
+      let position = fxVec2(fx(0), fx(0));
+      let velocity = fxVec2(fx(1), fx(0));
+
+      for (let i = 0; i < 1000; i++) {
+        const turn = fxMul(noise.noise2D(position.x, position.y), fx(0.2));
+        const jitter = fxMul(fxRandom(rng), fx(0.01));
+        velocity = fxVec2Normalize(fxVec2Rotate(velocity, fxAdd(turn, jitter)));
+        position = fxVec2Add(position, fxVec2Scale(velocity, dt));
+      }
+
+      // These values must be identical in every engine
+      expect(position).toEqual(fxVec2(-10983 as Fixed, -153417 as Fixed));
+      expect(velocity).toEqual(fxVec2(-44982 as Fixed, 47660 as Fixed));
+    });
+  });
+});
@@ -31,11 +31,13 @@ import {
   pointInPolygon,
   pointInRect,
   pointLerp,
+  pointTransform,
   polygon,
   polygonArea,
   polygonBoundingBox,
   polygonCentroid,
   polygonPerimeter,
+  polygonTransform,
   quadraticBezier,
   rect,
   rectArea,
@@ -49,6 +51,8 @@ import {
   rectIntersects,
   rectPerimeter,
   rectScale,
+  rectTransform,
+  rectTransformBounds,
   rectTopLeft,
   rectTopRight,
   rectUnion,
@@ -64,7 +68,15 @@ import {
   star,
   triangle,
 } from "../src/geometry.ts";
-import { PI, TWO_PI } from "../src/math.ts";
+import {
+  HALF_PI,
+  mat3Multiply,
+  mat3Rotate,
+  mat3Scale,
+  mat3Translate,
+  PI,
+  TWO_PI,
+} from "../src/math.ts";
 
 describe("Geometry utilities", () => {
   describe("Point operations", () => {
@@ -514,6 +526,39 @@ describe("Geometry utilities", () => {
     });
   });
 
+  describe("Transforms", () => {
+    test("pointTransform and polygonTransform", () => {
+      const m = mat3Multiply(mat3Translate(10, 0), mat3Scale(2));
+      expect(pointTransform(point(1, 2), m)).toEqual(point(12, 4));
+      const tri = polygonTransform(
+        triangle(point(0, 0), point(1, 0), point(0, 1)),
+        m,
+      );
+      expect(tri).toEqual([point(10, 0), point(12, 0), point(10, 2)]);
+      expect(polygonArea(tri)).toBe(2);
+    });
+
+    test("rectTransform returns the rotated corners", () => {
+      const corners = rectTransform(rect(0, 0, 4, 2), mat3Rotate(HALF_PI));
+      const expected = [point(0, 0), point(0, 4), point(-2, 4), point(-2, 0)];
+      corners.forEach((corner, i) => {
+        expect(corner.x).toBeCloseTo(expected[i].x, 12);
+        expect(corner.y).toBeCloseTo(expected[i].y, 12);
+      });
+    });
+
+    test("rectTransformBounds encloses the transformed rectangle", () => {
+      const bounds = rectTransformBounds(
+        rect(-1, -1, 2, 2),
+        mat3Multiply(mat3Translate(5, 5), mat3Rotate(PI / 4)),
+      );
+      expect(bounds.x).toBeCloseTo(5 - Math.SQRT2, 12);
+      expect(bounds.y).toBeCloseTo(5 - Math.SQRT2, 12);
+      expect(bounds.width).toBeCloseTo(2 * Math.SQRT2, 12);
+      expect(bounds.height).toBeCloseTo(2 * Math.SQRT2, 12);
+    });
+  });
+
   describe("Bezier curves", () => {
     test("quadraticBezier", () => {
       const p0 = point(0, 0);
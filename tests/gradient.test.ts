@@ -0,0 +1,222 @@
+import { describe, expect, test } from "bun:test";
+import { easeInQuad } from "../src/animation.ts";
+import { rgb, rgbToHex, rgbToOklab, rgbToOklch } from "../src/color.ts";
+import { colormaps, Gradient } from "../src/gradient.ts";
+
+describe("Gradient", () => {
+  describe("Stops and interpolation", () => {
+    const blackToWhite = new Gradient(
+      [
+        { offset: 0, color: rgb(0, 0, 0) },
+        { offset: 1, color: rgb(255, 255, 255) },
+      ],
+      { space: "rgb" },
+    );
+
+    test("interpolates between stops and clamps outside them", () => {
+      expect(blackToWhite.at(0.5)).toEqual({
+        r: 127.5,
+        g: 127.5,
+        b: 127.5,
+        a: 1,
+      });
+      expect(blackToWhite.at(-1)).toEqual({ r: 0, g: 0, b: 0, a: 1 });
+      expect(blackToWhite.at(2)).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+    });
+
+    test("sorts stops and accepts CSS color strings", () => {
+      const gradient = new Gradient(
+        [
+          { offset: 1, color: "white" },
+          { offset: 0.2, color: "#ff0000" },
+          { offset: 0.6, color: "rgb(0 0 255 / 50%)" },
+        ],
+        { space: "rgb" },
+      );
+      expect(gradient.at(0)).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+      const mid = gradient.at(0.4);
+      expect(mid.r).toBeCloseTo(127.5, 10);
+      expect(mid.b).toBeCloseTo(127.5, 10);
+      expect(mid.a).toBeCloseTo(0.75, 10);
+      expect(gradient.at(0.6).a).toBe(0.5);
+    });
+
+    test("coincident stops make a hard edge", () => {
+      const flag = new Gradient([
+        { offset: 0, color: "red" },
+        { offset: 0.5, color: "red" },
+        { offset: 0.5, color: "blue" },
+        { offset: 1, color: "blue" },
+      ]);
+      expect(rgbToHex(flag.at(0.499))).toBe("#ff0000");
+      expect(rgbToHex(flag.at(0.5))).toBe("#0000ff");
+    });
+
+    test("easing applies per segment and can be overridden per stop", () => {
+      const eased = new Gradient(
+        [
+          { offset: 0, color: rgb(0, 0, 0) },
+          { offset: 0.5, color: rgb(100, 100, 100), easing: (t) => t },
+          { offset: 1, color: rgb(200, 200, 200) },
+        ],
+        { space: "rgb", easing: easeInQuad },
+      );
+      expect(eased.at(0.25).r).toBeCloseTo(25, 10);
+      expect(eased.at(0.75).r).toBeCloseTo(150, 10);
+    });
+
+    test("interpolation spaces give different midpoints", () => {
+      const stops = [
+        { offset: 0, color: rgb(255, 0, 0) },
+        { offset: 1, color: rgb(0, 0, 255) },
+      ];
+      const mid = (
+        space: "rgb" | "linear" | "hsl" | "lab" | "oklab" | "oklch",
+      ) => new Gradient(stops, { space }).at(0.5);
+
+      expect(mid("rgb")).toEqual({ r: 127.5, g: 0, b: 127.5, a: 1 });
+      // Mixing light keeps the midpoint brighter than gamma-encoded mixing
+      expect(mid("linear").r).toBeGreaterThan(180);
+      expect(rgbToHex(mid("hsl"))).toBe("#00ff00");
+      expect(rgbToOklab(mid("oklab")).l).toBeCloseTo(
+        (rgbToOklab(stops[0]!.color).l + rgbToOklab(stops[1]!.color).l) / 2,
+        6,
+      );
+      expect(rgbToOklch(mid("oklch")).c).toBeGreaterThan(
+        rgbToOklch(mid("oklab")).c,
+      );
+      expect(mid("lab").b).toBeGreaterThan(mid("lab").g);
+    });
+
+    test("rejects invalid stops", () => {
+      expect(() => new Gradient([])).toThrow("at least one stop");
+      expect(() => new Gradient([{ offset: 1.5, color: "red" }])).toThrow(
+        "between 0 and 1",
+      );
+      expect(() => new Gradient([{ offset: 0, color: "nope" }])).toThrow(
+        "unknown color name",
+      );
+    });
+  });
+
+  describe("Sampling", () => {
+    test("fromColors spaces colors evenly", () => {
+      const gradient = Gradient.fromColors(["black", "gray", "white"], {
+        space: "rgb",
+      });
+      expect(gradient.at(0.5)).toEqual({ r: 128, g: 128, b: 128, a: 1 });
+      expect(gradient.colors(3).map(rgbToHex)).toEqual([
+        "#000000",
+        "#808080",
+        "#ffffff",
+      ]);
+      expect(() => gradient.colors(0)).toThrow("positive integer");
+    });
+
+    test("toLUT bakes RGBA bytes", () => {
+      const lut = Gradient.fromColors(["#000000", "#ff000080"], {
+        space: "rgb",
+      }).toLUT(3);
+      expect(lut).toBeInstanceOf(Uint8ClampedArray);
+      expect(Array.from(lut)).toEqual([
+        0, 0, 0, 255, 128, 0, 0, 192, 255, 0, 0, 128,
+      ]);
+      expect(colormaps.viridis.toLUT()).toHaveLength(1024);
+      expect(() => colormaps.viridis.toLUT(0)).toThrow("positive integer");
+    });
+
+    test("reversed mirrors colors and easing", () => {
+      const gradient = new Gradient(
+        [
+          { offset: 0, color: rgb(0, 0, 0) },
+          { offset: 0.25, color: rgb(100, 0, 0), easing: easeInQuad },
+          { offset: 1, color: rgb(200, 0, 0) },
+        ],
+        { space: "rgb" },
+      );
+      const reversed = gradient.reversed();
+      for (const t of [0, 0.1, 0.3, 0.5, 0.8, 1]) {
+        expect(reversed.at(1 - t).r).toBeCloseTo(gradient.at(t).r, 10);
+      }
+    });
+
+    test("cyclic gradients wrap around", () => {
+      const wheel = colormaps.phase;
+      expect(wheel.cyclic).toBe(true);
+      expect(wheel.at(1.25)).toEqual(wheel.at(0.25));
+      expect(wheel.at(-0.25)).toEqual(wheel.at(0.75));
+      // Sampling leaves out the end, which repeats the start
+      expect(wheel.colors(4)[0]).toEqual(wheel.at(0));
+      expect(wheel.colors(4)[3]).toEqual(wheel.at(0.75));
+    });
+  });
+
+  describe("Built-in colormaps", () => {
+    test("matplotlib maps match their reference colors", () => {
+      // Reference values from matplotlib at 0, 0.5 and 1
+      const references = {
+        viridis: ["#440154", "#21918c", "#fde725"],
+        magma: ["#000004", "#b73779", "#fcfdbf"],
+        inferno: ["#000004", "#bc3754", "#fcffa4"],
+        plasma: ["#0d0887", "#cc4778", "#f0f921"],
+      } as const;
+      for (const [name, [start, middle, end]] of Object.entries(references)) {
+        const map = colormaps[name as keyof typeof references];
+        expect(rgbToHex(map.at(0))).toBe(start);
+        expect(rgbToHex(map.at(1))).toBe(end);
+        const expected = rgbToOklab(Gradient.fromColors([middle]).at(0));
+        const actual = rgbToOklab(map.at(0.5));
+        expect(
+          Math.hypot(
+            actual.l - expected.l,
+            actual.a - expected.a,
+            actual.b - expected.b,
+          ),
+        ).toBeLessThan(0.02);
+      }
+    });
+
+    test("sequential maps increase in lightness", () => {
+      for (const name of [
+        "viridis",
+        "magma",
+        "inferno",
+        "plasma",
+        "cividis",
+      ] as const) {
+        const lightness = colormaps[name]
+          .colors(32)
+          .map((c) => rgbToOklab(c).l);
+        for (let i = 1; i < lightness.length; i++) {
+          expect(lightness[i]!).toBeGreaterThan(lightness[i - 1]!);
+        }
+      }
+    });
+
+    test("turbo runs from blue through green to red", () => {
+      const [blue, green, red] = [0.1, 0.5, 0.9].map((t) =>
+        colormaps.turbo.at(t),
+      );
+      expect(blue!.b).toBeGreaterThan(blue!.r + 100);
+      expect(green!.g).toBeGreaterThan(200);
+      expect(red!.r).toBeGreaterThan(red!.b + 100);
+    });
+
+    test("diverging maps are neutral at the midpoint", () => {
+      for (const map of [colormaps.coolwarm, colormaps.rdbu]) {
+        expect(rgbToOklch(map.at(0.5)).c).toBeLessThan(0.01);
+        const [low, high] = [rgbToOklab(map.at(0.1)), rgbToOklab(map.at(0.9))];
+        expect(Math.abs(low.l - high.l)).toBeLessThan(0.1);
+      }
+    });
+
+    test("phase keeps lightness constant around the wheel", () => {
+      for (const color of colormaps.phase.colors(24)) {
+        expect(rgbToOklch(color).l).toBeCloseTo(0.72, 2);
+      }
+      expect(rgbToHex(colormaps.sinebow.at(0))).toBe(
+        rgbToHex(colormaps.sinebow.at(1 - 1e-9)),
+      );
+    });
+  });
+});
@@ -12,6 +12,7 @@ import playCore, {
   lerp,
   // Animation exports
   linear,
+  mat3FromValues,
   PerlinNoise,
   PI,
   // Main classes
@@ -190,6 +191,20 @@ describe("Main library exports", () => {
       expect(typeof play.pushMatrix).toBe("function");
       expect(typeof play.popMatrix).toBe("function");
     });
+
+    test("setTransform applies a Matrix3x3 to the context", () => {
+      const calls: unknown[][] = [];
+      play.setCanvas({
+        getContext: () => ({
+          setTransform: (...args: unknown[]) => calls.push(args),
+          resetTransform: () => calls.push([]),
+        }),
+      } as unknown as HTMLCanvasElement);
+
+      play.setTransform(mat3FromValues(1, 3, 5, 2, 4, 6, 0, 0, 1));
+      play.resetTransform();
+      expect(calls).toEqual([[1, 2, 3, 4, 5, 6], []]);
+    });
   });
 
   describe("Library metadata", () => {
@@ -15,7 +15,9 @@ import {
   linear,
   lineIntersection,
   map,
+  matNFromRows,
   noise,
+  normalModes,
   PI,
   // Main
   Play,
@@ -39,6 +41,9 @@ import {
   TWO_PI,
   Tween,
   // Math
+  VerletConstraint,
+  VerletParticle,
+  verletNormalModes,
   vec2,
   vec2Add,
   vec2Length,
@@ -658,4 +663,87 @@ describe("Integration Tests", () => {
       }
     });
   });
+
+  describe("Physics + Math Integration", () => {
+    test("normal modes of a two-mass spring chain", () => {
+      // wall -k- m -k- m -k- wall
+      const k = 100;
+      const m = 4;
+      const modes = normalModes(
+        matNFromRows([
+          [2 * k, -k],
+          [-k, 2 * k],
+        ]),
+        matNFromRows([
+          [m, 0],
+          [0, m],
+        ]),
+      )!;
+
+      expect(modes.angularFrequencies[0]).toBeCloseTo(Math.sqrt(k / m), 10);
+      expect(modes.angularFrequencies[1]).toBeCloseTo(
+        Math.sqrt((3 * k) / m),
+        10,
+      );
+      expect(modes.frequencies[0]).toBeCloseTo(5 / (2 * Math.PI), 10);
+
+      // In-phase then out-of-phase motion
+      const shape = modes.modeShapes.data;
+      expect(shape[0]).toBeCloseTo(shape[2], 10);
+      expect(shape[1]).toBeCloseTo(-shape[3], 10);
+    });
+
+    test("normal modes of a Verlet constraint chain", () => {
+      // Two pinned ends with two free particles along the x axis
+      const left = new VerletParticle(0, 0);
+      const a = new VerletParticle(1, 0, 2);
+      const b = new VerletParticle(2, 0, 2);
+      const right = new VerletParticle(3, 0);
+      left.pin();
+      right.pin();
+      const constraints = [
+        new VerletConstraint(left, a),
+        new VerletConstraint(a, b),
+        new VerletConstraint(b, right),
+      ];
+
+      const result = verletNormalModes(constraints, 50);
+      expect(result.particles).toEqual([left, a, b, right]);
+      expect(result.frequencies.length).toBe(4);
+
+      // Transverse motion has no stiffness without pre-tension
+      expect(result.angularFrequencies[0]).toBeCloseTo(0, 6);
+      expect(result.angularFrequencies[1]).toBeCloseTo(0, 6);
+
+      // Axial modes match the matrix model: ω² = k/m and 3k/m
+      expect(result.angularFrequencies[2]).toBeCloseTo(5, 8);
+      expect(result.angularFrequencies[3]).toBeCloseTo(Math.sqrt(75), 8);
+
+      const fundamentalAxial = result.shapes[2];
+      expect(fundamentalAxial[0]).toEqual(vec2(0, 0));
+      expect(fundamentalAxial[3]).toEqual(vec2(0, 0));
+      expect(fundamentalAxial[1].x).toBeCloseTo(fundamentalAxial[2].x, 8);
+      expect(fundamentalAxial[1].y).toBeCloseTo(0, 8);
+    });
+
+    test("a triangulated truss has no zero-frequency modes", () => {
+      const base1 = new VerletParticle(0, 0);
+      const base2 = new VerletParticle(2, 0);
+      const top = new VerletParticle(1, 1.5);
+      const tip = new VerletParticle(3, 1.5);
+      base1.pin();
+      base2.pin();
+      const result = verletNormalModes([
+        new VerletConstraint(base1, top),
+        new VerletConstraint(base2, top),
+        new VerletConstraint(base2, tip),
+        new VerletConstraint(top, tip),
+      ]);
+
+      expect(result.frequencies.length).toBe(4);
+      for (const omega of result.angularFrequencies) {
+        expect(omega).toBeGreaterThan(0.01);
+      }
+    });
+  });
 });
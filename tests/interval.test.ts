@@ -0,0 +1,235 @@
+import { describe, expect, test } from "bun:test";
+import { rect } from "../src/geometry.ts";
+import {
+  interval,
+  intervalAbs,
+  intervalAdd,
+  intervalContains,
+  intervalCos,
+  intervalDiv,
+  intervalExp,
+  intervalHull,
+  intervalIntersect,
+  intervalIsEmpty,
+  intervalLog,
+  intervalMul,
+  intervalOverlaps,
+  intervalPow,
+  intervalSin,
+  intervalSqr,
+  intervalSqrt,
+  intervalSub,
+  intervalWidth,
+  plotImplicit,
+} from "../src/interval.ts";
+import type { Interval } from "../types/index.ts";
+
+// Checks that an enclosure contains the exact range and is at most slightly wider
+const expectEncloses = (result: Interval, min: number, max: number) => {
+  expect(result.min).toBeLessThanOrEqual(min);
+  expect(result.max).toBeGreaterThanOrEqual(max);
+  expect(result.min).toBeCloseTo(min, 12);
+  expect(result.max).toBeCloseTo(max, 12);
+};
+
+describe("Interval", () => {
+  describe("Construction and sets", () => {
+    test("creates intervals and points", () => {
+      expect(interval(1, 2)).toEqual({ min: 1, max: 2 });
+      expect(interval(3)).toEqual({ min: 3, max: 3 });
+      expect(() => interval(2, 1)).toThrow("reversed");
+    });
+
+    test("containment and overlap", () => {
+      const a = interval(-1, 1);
+      expect(intervalContains(a, 0)).toBe(true);
+      expect(intervalContains(a, 1.5)).toBe(false);
+      expect(intervalContains(a, interval(-0.5, 0.5))).toBe(true);
+      expect(intervalContains(a, interval(0, 2))).toBe(false);
+      expect(intervalOverlaps(a, interval(1, 3))).toBe(true);
+      expect(intervalOverlaps(a, interval(2, 3))).toBe(false);
+    });
+
+    test("hull and intersection", () => {
+      expect(intervalHull(interval(0, 1), 3)).toEqual({ min: 0, max: 3 });
+      expect(intervalIntersect(interval(0, 2), interval(1, 3))).toEqual({
+        min: 1,
+        max: 2,
+      });
+      const empty = intervalIntersect(interval(0, 1), interval(2, 3));
+      expect(intervalIsEmpty(empty)).toBe(true);
+      expect(intervalContains(empty, 0)).toBe(false);
+      expect(intervalHull(empty, interval(4, 5))).toEqual({ min: 4, max: 5 });
+    });
+  });
+
+  describe("Arithmetic", () => {
+    test("add, subtract and multiply enclose every combination", () => {
+      const [a, b] = [interval(1, 2), interval(-3, 4)];
+      expectEncloses(intervalAdd(a, b), -2, 6);
+      expectEncloses(intervalSub(a, b), -3, 5);
+      expectEncloses(intervalMul(a, b), -6, 8);
+      expectEncloses(intervalMul(interval(-2, -1), interval(-3, -2)), 2, 6);
+    });
+
+    test("results are rounded outward", () => {
+      const sum = intervalAdd(0.1, 0.2);
+      expect(sum.min).toBeLessThan(0.1 + 0.2);
+      expect(sum.max).toBeGreaterThan(0.1 + 0.2);
+      expect(intervalContains(sum, 0.3)).toBe(true);
+    });
+
+    test("dependency makes x - x wider than zero", () => {
+      const x = interval(0, 1);
+      expectEncloses(intervalSub(x, x), -1, 1);
+    });
+
+    test("division by intervals with and without zero", () => {
+      expectEncloses(intervalDiv(1, interval(2, 4)), 0.25, 0.5);
+      expect(intervalDiv(1, interval(-1, 1))).toEqual({
+        min: -Infinity,
+        max: Infinity,
+      });
+      expect(intervalIsEmpty(intervalDiv(1, 0))).toBe(true);
+    });
+
+    test("zero times an infinite bound is zero", () => {
+      const product = intervalMul(interval(0, 1), interval(0, Infinity));
+      expect(product.min).toBeLessThanOrEqual(0);
+      expect(product.max).toBe(Infinity);
+      expect(Number.isNaN(product.min)).toBe(false);
+    });
+
+    test("absolute value", () => {
+      expect(intervalAbs(interval(-3, 2))).toEqual({ min: 0, max: 3 });
+      expect(intervalAbs(interval(-3, -2))).toEqual({ min: 2, max: 3 });
+    });
+  });
+
+  describe("Elementary functions", () => {
+    test("square is never negative", () => {
+      expectEncloses(intervalSqr(interval(-1, 2)), 0, 4);
+      expectEncloses(intervalMul(interval(-1, 2), interval(-1, 2)), -2, 4);
+    });
+
+    test("integer and fractional powers", () => {
+      expectEncloses(intervalPow(interval(-2, 1), 3), -8, 1);
+      expectEncloses(intervalPow(interval(-3, -2), 2), 4, 9);
+      expectEncloses(intervalPow(interval(2, 4), -1), 0.25, 0.5);
+      expectEncloses(intervalPow(interval(-1, 4), 0.5), 0, 2);
+      expect(intervalIsEmpty(intervalPow(interval(-2, -1), 0.5))).toBe(true);
+    });
+
+    test("sqrt, exp and log", () => {
+      expectEncloses(intervalSqrt(interval(4, 9)), 2, 3);
+      expectEncloses(intervalSqrt(interval(-4, 9)), 0, 3);
+      expect(intervalIsEmpty(intervalSqrt(interval(-2, -1)))).toBe(true);
+      expectEncloses(intervalExp(interval(0, 1)), 1, Math.E);
+      expectEncloses(intervalLog(interval(1, Math.E)), 0, 1);
+      expect(intervalLog(interval(0, 1)).min).toBe(-Infinity);
+    });
+
+    test("sin includes peaks inside the interval", () => {
+      expectEncloses(intervalSin(interval(0, 0.5)), 0, Math.sin(0.5));
+      expectEncloses(intervalSin(interval(1, 2)), Math.sin(1), 1);
+      expectEncloses(intervalSin(interval(4, 5)), -1, Math.sin(4));
+      // A peak several periods away
+      const shifted = intervalSin(interval(1 + 20 * Math.PI, 2 + 20 * Math.PI));
+      expect(shifted.max).toBe(1);
+      expect(intervalSin(interval(0, 7))).toEqual({ min: -1, max: 1 });
+    });
+
+    test("cos includes peaks inside the interval", () => {
+      expectEncloses(intervalCos(interval(-0.5, 1)), Math.cos(1), 1);
+      expectEncloses(intervalCos(interval(3, 4)), -1, Math.cos(4));
+      expectEncloses(intervalCos(interval(0.5, 1)), Math.cos(1), Math.cos(0.5));
+    });
+
+    test("enclosures hold at sampled points", () => {
+      const x = interval(-0.7, 1.9);
+      const f = (v: Interval) => intervalMul(intervalSin(v), intervalExp(v));
+      const bound = f(x);
+      for (let i = 0; i <= 100; i++) {
+        const t = -0.7 + (2.6 * i) / 100;
+        expect(intervalContains(bound, Math.sin(t) * Math.exp(t))).toBe(true);
+      }
+    });
+  });
+
+  describe("plotImplicit", () => {
+    const bounds = rect(-2, -2, 4, 4);
+
+    test("covers the unit circle with finest-level cells", () => {
+      const circle = (x: Interval, y: Interval) =>
+        intervalSub(intervalAdd(intervalSqr(x), intervalSqr(y)), 1);
+      const cells = plotImplicit(circle, bounds, { depth: 6 });
+      const size = 4 / 2 ** 6;
+
+      expect(cells.length).toBeGreaterThan(0);
+      for (const cell of cells) {
+        expect(cell.width).toBe(size);
+        // Every cell is within a cell diagonal of the circle
+        const r = Math.hypot(cell.x + size / 2, cell.y + size / 2);
+        expect(Math.abs(r - 1)).toBeLessThan(size * Math.SQRT2);
+      }
+
+      for (let i = 0; i < 64; i++) {
+        const angle = (i / 64) * 2 * Math.PI;
+        const [px, py] = [Math.cos(angle), Math.sin(angle)];
+        const hit = cells.some(
+          (c) =>
+            px >= c.x &&
+            px <= c.x + c.width &&
+            py >= c.y &&
+            py <= c.y + c.height,
+        );
+        expect(hit).toBe(true);
+      }
+    });
+
+    test("finds zero sets where the function does not change sign", () => {
+      // (x - y)² vanishes on the diagonal but is never negative
+      const cells = plotImplicit(
+        (x, y) => intervalSqr(intervalSub(x, y)),
+        bounds,
+        { depth: 5 },
+      );
+      const size = 4 / 2 ** 5;
+      for (let i = 0; i < 32; i++) {
+        const t = -2 + (i + 0.5) * size;
+        expect(
+          cells.some(
+            (c) => t >= c.x && t <= c.x + size && t >= c.y && t <= c.y + size,
+          ),
+        ).toBe(true);
+      }
+    });
+
+    test("finds an isolated point", () => {
+      const cells = plotImplicit(
+        (x, y) =>
+          intervalAdd(
+            intervalSqr(intervalSub(x, 0.3)),
+            intervalSqr(intervalSub(y, 0.3)),
+          ),
+        bounds,
+        { depth: 7 },
+      );
+      expect(cells.length).toBeGreaterThan(0);
+      expect(cells.length).toBeLessThanOrEqual(4);
+      expect(Math.max(...cells.map((c) => c.width))).toBe(4 / 2 ** 7);
+    });
+
+    test("returns nothing when the curve misses the bounds", () => {
+      const cells = plotImplicit(
+        (x, y) => intervalAdd(intervalAdd(intervalSqr(x), intervalSqr(y)), 1),
+        bounds,
+      );
+      expect(cells).toEqual([]);
+      expect(intervalWidth(interval(1, 3))).toBe(2);
+      expect(() =>
+        plotImplicit(() => interval(0), bounds, { depth: -1 }),
+      ).toThrow("Depth");
+    });
+  });
+});
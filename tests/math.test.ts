@@ -1,17 +1,81 @@
 import { describe, expect, test } from "bun:test";
 import {
+  choleskyDecompose,
+  CLIP_FAR,
+  CLIP_LEFT,
+  CLIP_NEAR,
+  CLIP_TOP,
   clamp,
+  clipCull,
+  clipOutcode,
   degrees,
   fract,
+  generalizedEigen,
   HALF_PI,
+  leastSquares,
   lerp,
+  luDecompose,
+  luSolve,
   map,
+  mat3Compose,
+  mat3Decompose,
+  mat3Determinant,
+  mat3FromDOMMatrix,
   mat3FromValues,
   mat3Identity,
+  mat3Invert,
   mat3Multiply,
+  mat3Rotate,
+  mat3Scale,
+  mat3Skew,
+  mat3ToDOMMatrix,
   mat3TransformVec2,
+  mat3Translate,
+  mat4Determinant,
+  mat4FromValues,
+  mat4Identity,
+  mat4Invert,
+  mat4LookAt,
+  mat4Multiply,
+  mat4Orthographic,
+  mat4Perspective,
+  mat4RotateX,
+  mat4RotateY,
+  mat4RotateZ,
+  mat4Scale,
+  mat4TransformVec3,
+  mat4TransformVec4,
+  mat4Translate,
+  mat4Transpose,
+  matN,
+  matNConditionNumber,
+  matNDeterminant,
+  matNFromRows,
+  matNGet,
+  matNIdentity,
+  matNInvert,
+  matNMultiply,
+  matNMultiplyVec,
+  matNSolve,
+  matNToRows,
+  matNTranspose,
   normalize,
   PI,
+  Polynomial,
+  qrDecompose,
+  quat,
+  quatConjugate,
+  quatFromAxisAngle,
+  quatFromEuler,
+  quatIdentity,
+  quatInverse,
+  quatLength,
+  quatMultiply,
+  quatNormalize,
+  quatRotateVec3,
+  quatSlerp,
+  quatToMat4,
+  symmetricEigen,
   radians,
   sign,
   smootherstep,
@@ -20,30 +84,82 @@ import {
   TWO_PI,
   vec2,
   vec2Add,
+  vec2AddOut,
+  vec2AddScaledOut,
   vec2Angle,
+  vec2Buffer,
+  vec2BufferAdd,
+  vec2BufferAxpy,
+  vec2BufferDot,
+  vec2BufferFrom,
+  vec2BufferGet,
+  vec2BufferLength,
+  vec2BufferNormalize,
+  vec2BufferScale,
+  vec2BufferSet,
+  vec2BufferSub,
   vec2Distance,
   vec2Div,
+  vec2DivOut,
   vec2Dot,
   vec2FromAngle,
   vec2Length,
   vec2LengthSq,
   vec2Lerp,
+  vec2LerpOut,
   vec2Mul,
+  vec2MulOut,
   vec2Normalize,
+  vec2NormalizeOut,
   vec2Rotate,
+  vec2RotateOut,
+  vec2SetOut,
   vec2Sub,
+  vec2SubOut,
   vec3,
   vec3Add,
+  vec3AddOut,
+  vec3AddScaledOut,
+  vec3Buffer,
+  vec3BufferAdd,
+  vec3BufferAxpy,
+  vec3BufferDot,
+  vec3BufferFrom,
+  vec3BufferGet,
+  vec3BufferLength,
+  vec3BufferNormalize,
+  vec3BufferScale,
+  vec3BufferSet,
+  vec3BufferSub,
   vec3Cross,
+  vec3CrossOut,
   vec3Distance,
   vec3Div,
+  vec3DivOut,
   vec3Dot,
   vec3Length,
   vec3LengthSq,
   vec3Lerp,
+  vec3LerpOut,
   vec3Mul,
+  vec3MulOut,
   vec3Normalize,
+  vec3NormalizeOut,
+  vec3SetOut,
   vec3Sub,
+  vec3SubOut,
+  vec4,
+  vec4Add,
+  vec4Div,
+  vec4Dot,
+  vec4FromVec3,
+  vec4Length,
+  vec4LengthSq,
+  vec4Lerp,
+  vec4Mul,
+  vec4Normalize,
+  vec4Sub,
+  vec4ToVec3,
   wrap,
 } from "../src/math.ts";
 
@@ -335,6 +451,174 @@ describe("Math utilities", () => {
     });
   });
 
+  describe("Vector4 operations", () => {
+    test("arithmetic", () => {
+      const a = vec4(1, 2, 3, 4);
+      const b = vec4(4, 3, 2, 1);
+      expect(vec4Add(a, b)).toEqual(vec4(5, 5, 5, 5));
+      expect(vec4Sub(a, b)).toEqual(vec4(-3, -1, 1, 3));
+      expect(vec4Mul(a, 2)).toEqual(vec4(2, 4, 6, 8));
+      expect(vec4Div(a, 2)).toEqual(vec4(0.5, 1, 1.5, 2));
+      expect(vec4Dot(a, b)).toBe(20);
+    });
+
+    test("length and normalization", () => {
+      const v = vec4(1, 1, 1, 1);
+      expect(vec4LengthSq(v)).toBe(4);
+      expect(vec4Length(v)).toBe(2);
+      expect(vec4Normalize(v)).toEqual(vec4(0.5, 0.5, 0.5, 0.5));
+      expect(vec4Normalize(vec4(0, 0, 0, 0))).toEqual(vec4(0, 0, 0, 0));
+    });
+
+    test("vec4Lerp", () => {
+      expect(vec4Lerp(vec4(0, 0, 0, 0), vec4(2, 4, 6, 8), 0.5)).toEqual(
+        vec4(1, 2, 3, 4),
+      );
+    });
+
+    test("converts to and from homogeneous coordinates", () => {
+      const p = vec3(2, 4, 6);
+      expect(vec4FromVec3(p)).toEqual(vec4(2, 4, 6, 1));
+      expect(vec4FromVec3(p, 0)).toEqual(vec4(2, 4, 6, 0));
+      expect(vec4ToVec3(vec4(2, 4, 6, 2))).toEqual(vec3(1, 2, 3));
+      expect(vec4ToVec3(vec4(2, 4, 6, 0))).toEqual(p);
+    });
+  });
+
+  describe("Mutable vector operations", () => {
+    test("vec2 out variants match the immutable functions", () => {
+      const a = vec2(3, -4);
+      const b = vec2(0.5, 2);
+      const out = vec2(0, 0);
+      expect(vec2AddOut(out, a, b)).toEqual(vec2Add(a, b));
+      expect(vec2SubOut(out, a, b)).toEqual(vec2Sub(a, b));
+      expect(vec2MulOut(out, a, 3)).toEqual(vec2Mul(a, 3));
+      expect(vec2DivOut(out, a, 4)).toEqual(vec2Div(a, 4));
+      expect(vec2NormalizeOut(out, a)).toEqual(vec2Normalize(a));
+      expect(vec2NormalizeOut(out, vec2(0, 0))).toEqual(vec2(0, 0));
+      expect(vec2LerpOut(out, a, b, 0.25)).toEqual(vec2Lerp(a, b, 0.25));
+      expect(vec2RotateOut(out, a, 1)).toEqual(vec2Rotate(a, 1));
+      expect(vec2AddScaledOut(out, a, b, 2)).toEqual(vec2(4, 0));
+    });
+
+    test("vec2 out variants reuse the output and allow aliasing", () => {
+      const position = vec2(1, 1);
+      const velocity = vec2(2, 0);
+      const result = vec2AddScaledOut(position, position, velocity, 0.5);
+      expect(result).toBe(position);
+      expect(position).toEqual(vec2(2, 1));
+      vec2RotateOut(position, position, Math.PI / 2);
+      expect(position.x).toBeCloseTo(-1, 14);
+      expect(position.y).toBeCloseTo(2, 14);
+      expect(vec2SetOut(position, 7, 8)).toEqual(vec2(7, 8));
+    });
+
+    test("vec3 out variants match the immutable functions", () => {
+      const a = vec3(1, 2, 3);
+      const b = vec3(-2, 0.5, 4);
+      const out = vec3(0, 0, 0);
+      expect(vec3AddOut(out, a, b)).toEqual(vec3Add(a, b));
+      expect(vec3SubOut(out, a, b)).toEqual(vec3Sub(a, b));
+      expect(vec3MulOut(out, a, -2)).toEqual(vec3Mul(a, -2));
+      expect(vec3DivOut(out, a, 2)).toEqual(vec3Div(a, 2));
+      expect(vec3NormalizeOut(out, a)).toEqual(vec3Normalize(a));
+      expect(vec3LerpOut(out, a, b, 0.5)).toEqual(vec3Lerp(a, b, 0.5));
+      expect(vec3AddScaledOut(out, a, b, 2)).toEqual(vec3(-3, 3, 11));
+      expect(vec3SetOut(out, 1, 2, 3)).toBe(out);
+    });
+
+    test("vec3CrossOut is correct when the output aliases an input", () => {
+      const a = vec3(1, 2, 3);
+      const b = vec3(4, 5, 6);
+      const expected = vec3Cross(a, b);
+      expect(vec3CrossOut(a, a, b)).toEqual(expected);
+    });
+  });
+
+  describe("Vector buffer operations", () => {
+    const points = [vec2(3, 4), vec2(0, 0), vec2(-1, 2)];
+
+    test("allocates, reads and writes buffers", () => {
+      const buffer = vec2Buffer(3, Float32Array);
+      expect(buffer.x).toBeInstanceOf(Float32Array);
+      expect(vec2Buffer(2).y).toBeInstanceOf(Float64Array);
+      vec2BufferSet(buffer, 1, vec2(1.5, -2));
+      expect(vec2BufferGet(buffer, 1)).toEqual(vec2(1.5, -2));
+
+      const from = vec2BufferFrom(points);
+      expect(vec2BufferGet(from, 2)).toEqual(points[2]);
+      const buffer3 = vec3BufferFrom([vec3(1, 2, 3)]);
+      vec3BufferSet(buffer3, 0, vec3BufferGet(buffer3, 0));
+      expect(Array.from(buffer3.z)).toEqual([3]);
+      expect(vec3Buffer(4, Float32Array).z.length).toBe(4);
+    });
+
+    test("2D operations match the per-vector functions", () => {
+      const a = vec2BufferFrom(points);
+      const b = vec2BufferFrom([vec2(1, 1), vec2(2, -1), vec2(0.5, 0)]);
+      const out = vec2Buffer(3);
+      const expectEach = (buffer: typeof out, f: (i: number) => object) =>
+        points.forEach((_, i) =>
+          expect(vec2BufferGet(buffer, i)).toEqual(f(i)),
+        );
+      const va = (i: number) => vec2BufferGet(a, i);
+      const vb = (i: number) => vec2BufferGet(b, i);
+
+      expectEach(vec2BufferAdd(out, a, b), (i) => vec2Add(va(i), vb(i)));
+      expectEach(vec2BufferSub(out, a, b), (i) => vec2Sub(va(i), vb(i)));
+      expectEach(vec2BufferScale(out, a, 2), (i) => vec2Mul(va(i), 2));
+      expectEach(vec2BufferAxpy(out, 0.5, a, b), (i) =>
+        vec2Add(vec2Mul(va(i), 0.5), vb(i)),
+      );
+      expectEach(vec2BufferNormalize(out, a), (i) => vec2Normalize(va(i)));
+
+      const scalars = new Float64Array(3);
+      vec2BufferDot(scalars, a, b);
+      expect(Array.from(scalars)).toEqual([7, 0, -0.5]);
+      vec2BufferLength(scalars, a);
+      expect(Array.from(scalars)).toEqual([5, 0, Math.sqrt(5)]);
+    });
+
+    test("3D operations", () => {
+      const a = vec3BufferFrom([vec3(1, 2, 2), vec3(0, 0, 0)]);
+      const b = vec3BufferFrom([vec3(1, 0, -1), vec3(3, 3, 3)]);
+      const out = vec3Buffer(2);
+
+      vec3BufferAdd(out, a, b);
+      expect(vec3BufferGet(out, 0)).toEqual(vec3(2, 2, 1));
+      vec3BufferSub(out, a, b);
+      expect(vec3BufferGet(out, 1)).toEqual(vec3(-3, -3, -3));
+      vec3BufferScale(out, b, -1);
+      expect(vec3BufferGet(out, 0)).toEqual(vec3(-1, -0, 1));
+      vec3BufferAxpy(out, 2, a, b);
+      expect(vec3BufferGet(out, 0)).toEqual(vec3(3, 4, 3));
+      vec3BufferNormalize(out, a);
+      expect(vec3BufferGet(out, 0)).toEqual(vec3Normalize(vec3(1, 2, 2)));
+      expect(vec3BufferGet(out, 1)).toEqual(vec3(0, 0, 0));
+
+      const scalars = new Float32Array(2);
+      expect(Array.from(vec3BufferDot(scalars, a, b))).toEqual([-1, 0]);
+      expect(Array.from(vec3BufferLength(scalars, a))).toEqual([3, 0]);
+    });
+
+    test("operations work in place", () => {
+      const position = vec2BufferFrom([vec2(0, 0), vec2(1, 1)]);
+      const velocity = vec2BufferFrom([vec2(2, 0), vec2(0, -2)]);
+      vec2BufferAxpy(position, 0.5, velocity, position);
+      expect(vec2BufferGet(position, 0)).toEqual(vec2(1, 0));
+      expect(vec2BufferGet(position, 1)).toEqual(vec2(1, 0));
+    });
+
+    test("rejects buffers of different lengths", () => {
+      expect(() =>
+        vec2BufferAdd(vec2Buffer(2), vec2Buffer(2), vec2Buffer(3)),
+      ).toThrow("same length");
+      expect(() =>
+        vec3BufferDot(new Float64Array(1), vec3Buffer(2), vec3Buffer(2)),
+      ).toThrow("same length");
+    });
+  });
+
   describe("Matrix operations", () => {
     test("mat3Identity", () => {
       const identity = mat3Identity();
@@ -364,4 +648,949 @@ describe("Math utilities", () => {
       expect(transformed.y).toBe(7); // 4 + 3
     });
   });
+
+  describe("2D affine transforms", () => {
+    const expectMat3CloseTo = (
+      actual: readonly number[],
+      expected: readonly number[],
+    ) => {
+      actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 10));
+    };
+
+    test("builders move, turn, scale and skew points", () => {
+      expect(mat3TransformVec2(mat3Translate(5, -2), vec2(1, 1))).toEqual(
+        vec2(6, -1),
+      );
+      const turned = mat3TransformVec2(mat3Rotate(HALF_PI), vec2(1, 0));
+      expect(turned.x).toBeCloseTo(0, 15);
+      expect(turned.y).toBeCloseTo(1, 15);
+      expect(mat3TransformVec2(mat3Scale(2, 3), vec2(1, 1))).toEqual(
+        vec2(2, 3),
+      );
+      expect(mat3Scale(2).elements).toEqual(mat3Scale(2, 2).elements);
+      const skewed = mat3TransformVec2(mat3Skew(PI / 4), vec2(0, 2));
+      expect(skewed.x).toBeCloseTo(2, 14);
+      expect(skewed.y).toBe(2);
+    });
+
+    test("determinant and inverse", () => {
+      const m = mat3Multiply(
+        mat3Translate(10, 20),
+        mat3Multiply(mat3Rotate(0.7), mat3Scale(2, -3)),
+      );
+      expect(mat3Determinant(m)).toBeCloseTo(-6, 12);
+
+      const inverse = mat3Invert(m);
+      expect(inverse).not.toBeNull();
+      expectMat3CloseTo(
+        mat3Multiply(m, inverse!).elements,
+        mat3Identity().elements,
+      );
+      const p = mat3TransformVec2(m, vec2(3, 4));
+      const back = mat3TransformVec2(inverse!, p);
+      expect(back.x).toBeCloseTo(3, 12);
+      expect(back.y).toBeCloseTo(4, 12);
+
+      expect(mat3Invert(mat3Scale(0, 1))).toBeNull();
+      expect(mat3Invert(mat3FromValues(1, 2, 3, 4, 5, 6, 7, 8, 9))).toBeNull();
+    });
+
+    test("decompose recovers the parts that compose built", () => {
+      const parts = {
+        translation: vec2(12, -4),
+        rotation: 0.6,
+        scale: vec2(1.5, -0.5),
+        skew: 0.3,
+      };
+      const m = mat3Compose(parts);
+      const decomposed = mat3Decompose(m)!;
+      expect(decomposed.translation).toEqual(parts.translation);
+      expect(decomposed.rotation).toBeCloseTo(parts.rotation, 12);
+      expect(decomposed.scale.x).toBeCloseTo(parts.scale.x, 12);
+      expect(decomposed.scale.y).toBeCloseTo(parts.scale.y, 12);
+      expect(decomposed.skew).toBeCloseTo(parts.skew, 12);
+      expectMat3CloseTo(mat3Compose(decomposed).elements, m.elements);
+    });
+
+    test("compose applies scale, skew, rotation, then translation", () => {
+      const expected = mat3Multiply(
+        mat3Translate(3, 4),
+        mat3Multiply(
+          mat3Rotate(1.1),
+          mat3Multiply(mat3Skew(-0.2), mat3Scale(2, 0.5)),
+        ),
+      );
+      expectMat3CloseTo(
+        mat3Compose({
+          translation: vec2(3, 4),
+          rotation: 1.1,
+          scale: vec2(2, 0.5),
+          skew: -0.2,
+        }).elements,
+        expected.elements,
+      );
+      expect(mat3Compose({}).elements).toEqual(mat3Identity().elements);
+      expect(mat3Decompose(mat3Scale(0))).toBeNull();
+    });
+
+    test("DOMMatrix tuple order", () => {
+      const m = mat3FromValues(1, 3, 5, 2, 4, 6, 0, 0, 1);
+      expect(mat3ToDOMMatrix(m)).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(mat3FromDOMMatrix([1, 2, 3, 4, 5, 6]).elements).toEqual(
+        m.elements,
+      );
+      expect(
+        mat3FromDOMMatrix({ a: 1, b: 2, c: 3, d: 4, e: 5, f: 6 }).elements,
+      ).toEqual(m.elements);
+    });
+  });
+
+  describe("Matrix4x4 operations", () => {
+    const expectMat4CloseTo = (actual: number[], expected: number[]) => {
+      expect(actual.length).toBe(16);
+      actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 10));
+    };
+
+    test("mat4Identity", () => {
+      expect(mat4Identity().elements).toEqual([
+        1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1,
+      ]);
+    });
+
+    test("mat4FromValues stores rows in order", () => {
+      const m = mat4FromValues(
+        1,
+        2,
+        3,
+        4,
+        5,
+        6,
+        7,
+        8,
+        9,
+        10,
+        11,
+        12,
+        13,
+        14,
+        15,
+        16,
+      );
+      expect(m.elements).toEqual([
+        1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16,
+      ]);
+    });
+
+    test("mat4Multiply with identity and composed translations", () => {
+      const a = mat4RotateY(0.7);
+      expect(mat4Multiply(a, mat4Identity()).elements).toEqual(a.elements);
+      expect(mat4Multiply(mat4Identity(), a).elements).toEqual(a.elements);
+
+      const combined = mat4Multiply(
+        mat4Translate(1, 2, 3),
+        mat4Translate(4, 5, 6),
+      );
+      expect(combined.elements).toEqual(mat4Translate(5, 7, 9).elements);
+    });
+
+    test("mat4Multiply applies the right-hand matrix first", () => {
+      const m = mat4Multiply(mat4Translate(10, 0, 0), mat4Scale(2));
+      const p = mat4TransformVec3(m, vec3(1, 1, 1));
+      expect(p).toEqual({ x: 12, y: 2, z: 2 });
+    });
+
+    test("mat4Transpose", () => {
+      const m = mat4Translate(1, 2, 3);
+      const t = mat4Transpose(m);
+      expect(t.elements[12]).toBe(1);
+      expect(t.elements[13]).toBe(2);
+      expect(t.elements[14]).toBe(3);
+      expect(mat4Transpose(t).elements).toEqual(m.elements);
+    });
+
+    test("mat4Determinant", () => {
+      expect(mat4Determinant(mat4Identity())).toBe(1);
+      expect(mat4Determinant(mat4Scale(2, 3, 4))).toBe(24);
+      expect(mat4Determinant(mat4RotateZ(1.2))).toBeCloseTo(1, 10);
+      expect(mat4Determinant(mat4Scale(0, 1, 1))).toBe(0);
+    });
+
+    test("mat4Invert", () => {
+      const m = mat4Multiply(
+        mat4Translate(3, -2, 5),
+        mat4Multiply(mat4RotateX(0.4), mat4Scale(2, 3, 4)),
+      );
+      const inverse = mat4Invert(m);
+      expect(inverse).not.toBeNull();
+      expectMat4CloseTo(
+        [...mat4Multiply(m, inverse!).elements],
+        [...mat4Identity().elements],
+      );
+      expect(mat4Invert(mat4Scale(0, 1, 1))).toBeNull();
+    });
+
+    test("rotation builders follow the right-hand rule", () => {
+      const x = mat4TransformVec3(mat4RotateX(HALF_PI), vec3(0, 1, 0));
+      expect(x.z).toBeCloseTo(1, 10);
+      const y = mat4TransformVec3(mat4RotateY(HALF_PI), vec3(0, 0, 1));
+      expect(y.x).toBeCloseTo(1, 10);
+      const z = mat4TransformVec3(mat4RotateZ(HALF_PI), vec3(1, 0, 0));
+      expect(z.y).toBeCloseTo(1, 10);
+    });
+
+    test("mat4Scale defaults to uniform scaling", () => {
+      expect(mat4Scale(3).elements).toEqual(mat4Scale(3, 3, 3).elements);
+    });
+
+    test("mat4LookAt moves the eye to the origin looking down -Z", () => {
+      const eye = vec3(0, 0, 5);
+      const view = mat4LookAt(eye, vec3(0, 0, 0));
+      expect(mat4TransformVec3(view, eye)).toEqual({ x: 0, y: 0, z: 0 });
+      const origin = mat4TransformVec3(view, vec3(0, 0, 0));
+      expect(origin.z).toBeCloseTo(-5, 10);
+
+      const side = mat4LookAt(vec3(5, 0, 0), vec3(0, 0, 0));
+      const p = mat4TransformVec3(side, vec3(0, 0, -1));
+      expect(p.x).toBeCloseTo(1, 10);
+      expect(p.z).toBeCloseTo(-5, 10);
+    });
+
+    test("mat4LookAt returns identity for a degenerate view", () => {
+      const view = mat4LookAt(vec3(1, 2, 3), vec3(1, 2, 3));
+      expect(view.elements).toEqual(mat4Identity().elements);
+    });
+
+    test("mat4Perspective maps near and far planes to -1 and 1", () => {
+      const projection = mat4Perspective(HALF_PI, 1, 1, 100);
+      expect(mat4TransformVec3(projection, vec3(0, 0, -1)).z).toBeCloseTo(
+        -1,
+        10,
+      );
+      expect(mat4TransformVec3(projection, vec3(0, 0, -100)).z).toBeCloseTo(
+        1,
+        10,
+      );
+      const edge = mat4TransformVec3(projection, vec3(2, 0, -2));
+      expect(edge.x).toBeCloseTo(1, 10);
+    });
+
+    test("mat4Perspective supports an infinite far plane", () => {
+      const projection = mat4Perspective(HALF_PI, 2, 0.5, Infinity);
+      expect(mat4TransformVec3(projection, vec3(0, 0, -0.5)).z).toBeCloseTo(
+        -1,
+        10,
+      );
+      expect(mat4TransformVec3(projection, vec3(0, 0, -1e9)).z).toBeCloseTo(
+        1,
+        6,
+      );
+    });
+
+    test("mat4Orthographic maps the box to the unit cube", () => {
+      const ortho = mat4Orthographic(0, 200, 0, 100, 1, 11);
+      const min = mat4TransformVec3(ortho, vec3(0, 0, -1));
+      const max = mat4TransformVec3(ortho, vec3(200, 100, -11));
+      expect(min.x).toBeCloseTo(-1, 10);
+      expect(min.y).toBeCloseTo(-1, 10);
+      expect(min.z).toBeCloseTo(-1, 10);
+      expect(max.x).toBeCloseTo(1, 10);
+      expect(max.y).toBeCloseTo(1, 10);
+      expect(max.z).toBeCloseTo(1, 10);
+    });
+
+    test("mat4TransformVec3 skips the divide when w is zero", () => {
+      const projection = mat4Perspective(HALF_PI, 1, 1, 100);
+      const p = mat4TransformVec3(projection, vec3(1, 1, 0));
+      expect(isFinite(p.x)).toBe(true);
+      expect(isFinite(p.y)).toBe(true);
+    });
+
+    test("mat4TransformVec4 matches mat4TransformVec3 after the divide", () => {
+      const projection = mat4Perspective(HALF_PI, 1.5, 1, 100);
+      const point = vec3(1, -2, -10);
+      const clip = mat4TransformVec4(projection, vec4FromVec3(point));
+      expect(clip.w).toBeCloseTo(10, 12);
+      const ndc = vec4ToVec3(clip);
+      const expected = mat4TransformVec3(projection, point);
+      expect(ndc.x).toBeCloseTo(expected.x, 12);
+      expect(ndc.y).toBeCloseTo(expected.y, 12);
+      expect(ndc.z).toBeCloseTo(expected.z, 12);
+    });
+
+    test("mat4TransformVec4 ignores translation for directions", () => {
+      const direction = mat4TransformVec4(
+        mat4Translate(5, 6, 7),
+        vec4(1, 0, 0, 0),
+      );
+      expect(direction).toEqual(vec4(1, 0, 0, 0));
+    });
+
+    test("clipOutcode classifies points against the frustum", () => {
+      const projection = mat4Perspective(HALF_PI, 1, 1, 100);
+      const clip = (x: number, y: number, z: number) =>
+        mat4TransformVec4(projection, vec4(x, y, z, 1));
+
+      expect(clipOutcode(clip(0, 0, -10))).toBe(0);
+      expect(clipOutcode(clip(-20, 0, -10))).toBe(CLIP_LEFT);
+      expect(clipOutcode(clip(0, 300, -200))).toBe(CLIP_TOP | CLIP_FAR);
+      expect(clipOutcode(clip(0, 0, -0.5))).toBe(CLIP_NEAR);
+      // Behind the camera: the divide alone would mirror it into view
+      const behind = clip(0.5, 0.5, 10);
+      expect(clipOutcode(behind) & CLIP_NEAR).toBe(CLIP_NEAR);
+      const mirrored = vec4ToVec3(behind);
+      expect(Math.abs(mirrored.x)).toBeLessThanOrEqual(1);
+    });
+
+    test("clipCull removes shapes outside a single plane only", () => {
+      const left = [vec4(-3, 0, 0, 1), vec4(-2, 1, 0, 1), vec4(-5, -1, 0, 1)];
+      expect(clipCull(left)).toBe(true);
+
+      const spanning = [vec4(-3, 0, 0, 1), vec4(3, 0, 0, 1)];
+      expect(clipCull(spanning)).toBe(false);
+
+      // Outside different planes: kept, conservatively
+      const corners = [vec4(-3, 0, 0, 1), vec4(0, 3, 0, 1)];
+      expect(clipCull(corners)).toBe(false);
+      expect(clipCull([vec4(0, 0, 0, 1)])).toBe(false);
+      expect(clipCull([])).toBe(true);
+    });
+  });
+
+  describe("Quaternion operations", () => {
+    const expectVec3CloseTo = (
+      actual: { x: number; y: number; z: number },
+      expected: { x: number; y: number; z: number },
+    ) => {
+      expect(actual.x).toBeCloseTo(expected.x, 10);
+      expect(actual.y).toBeCloseTo(expected.y, 10);
+      expect(actual.z).toBeCloseTo(expected.z, 10);
+    };
+
+    test("quatIdentity leaves vectors unchanged", () => {
+      expect(quatIdentity()).toEqual({ x: 0, y: 0, z: 0, w: 1 });
+      expect(quatRotateVec3(quatIdentity(), vec3(1, 2, 3))).toEqual(
+        vec3(1, 2, 3),
+      );
+    });
+
+    test("quatFromAxisAngle", () => {
+      const q = quatFromAxisAngle(vec3(0, 2, 0), HALF_PI);
+      expect(quatLength(q)).toBeCloseTo(1, 10);
+      expectVec3CloseTo(quatRotateVec3(q, vec3(0, 0, 1)), vec3(1, 0, 0));
+      expect(quatFromAxisAngle(vec3(0, 0, 0), 1)).toEqual(quatIdentity());
+    });
+
+    test("quatFromEuler matches the X × Y × Z rotation matrices", () => {
+      const q = quatFromEuler(0.3, -1.1, 2.4);
+      const m = mat4Multiply(
+        mat4RotateX(0.3),
+        mat4Multiply(mat4RotateY(-1.1), mat4RotateZ(2.4)),
+      );
+      const v = vec3(1, -2, 0.5);
+      expectVec3CloseTo(quatRotateVec3(q, v), mat4TransformVec3(m, v));
+    });
+
+    test("quatMultiply composes rotations right to left", () => {
+      const a = quatFromAxisAngle(vec3(1, 0, 0), HALF_PI);
+      const b = quatFromAxisAngle(vec3(0, 0, 1), HALF_PI);
+      const v = vec3(1, 0, 0);
+      expectVec3CloseTo(
+        quatRotateVec3(quatMultiply(a, b), v),
+        quatRotateVec3(a, quatRotateVec3(b, v)),
+      );
+    });
+
+    test("quatConjugate and quatInverse undo a rotation", () => {
+      const q = quatFromEuler(0.5, 0.2, -0.7);
+      const v = vec3(3, 1, 2);
+      expectVec3CloseTo(
+        quatRotateVec3(quatConjugate(q), quatRotateVec3(q, v)),
+        v,
+      );
+
+      const scaled = quat(q.x * 2, q.y * 2, q.z * 2, q.w * 2);
+      const product = quatMultiply(scaled, quatInverse(scaled));
+      expect(product.w).toBeCloseTo(1, 10);
+      expect(product.x).toBeCloseTo(0, 10);
+      expect(quatInverse(quat(0, 0, 0, 0))).toEqual(quat(0, 0, 0, 0));
+    });
+
+    test("quatNormalize", () => {
+      expect(quatLength(quatNormalize(quat(1, 2, 3, 4)))).toBeCloseTo(1, 10);
+      expect(quatNormalize(quat(0, 0, 0, 0))).toEqual(quatIdentity());
+    });
+
+    test("quatSlerp interpolates at constant angular speed", () => {
+      const a = quatIdentity();
+      const b = quatFromAxisAngle(vec3(0, 1, 0), PI);
+      const quarter = quatSlerp(a, b, 0.25);
+      const expected = quatFromAxisAngle(vec3(0, 1, 0), PI / 4);
+      expect(quarter.x).toBeCloseTo(expected.x, 10);
+      expect(quarter.y).toBeCloseTo(expected.y, 10);
+      expect(quarter.z).toBeCloseTo(expected.z, 10);
+      expect(quarter.w).toBeCloseTo(expected.w, 10);
+      expect(quatSlerp(a, b, 0)).toEqual(a);
+    });
+
+    test("quatSlerp takes the shortest arc", () => {
+      const a = quatFromAxisAngle(vec3(0, 0, 1), 0.1);
+      const b = quatFromAxisAngle(vec3(0, 0, 1), 0.3);
+      const negated = quat(-b.x, -b.y, -b.z, -b.w);
+      const mid = quatSlerp(a, negated, 0.5);
+      const v = quatRotateVec3(mid, vec3(1, 0, 0));
+      expect(Math.atan2(v.y, v.x)).toBeCloseTo(0.2, 10);
+    });
+
+    test("quatSlerp handles nearly identical rotations", () => {
+      const a = quatFromAxisAngle(vec3(0, 1, 0), 0.5);
+      const b = quatFromAxisAngle(vec3(0, 1, 0), 0.5000001);
+      const mid = quatSlerp(a, b, 0.5);
+      expect(quatLength(mid)).toBeCloseTo(1, 10);
+    });
+
+    test("quatToMat4 matches quatRotateVec3", () => {
+      const q = quatFromEuler(-0.4, 0.9, 1.3);
+      const v = vec3(0.5, 2, -1);
+      expectVec3CloseTo(
+        mat4TransformVec3(quatToMat4(q), v),
+        quatRotateVec3(q, v),
+      );
+      expect(mat4Determinant(quatToMat4(q))).toBeCloseTo(1, 10);
+    });
+  });
+
+  describe("Dense matrix operations", () => {
+    const expectMatrixCloseTo = (
+      actual: { data: Float64Array },
+      expected: number[][],
+      digits: number = 10,
+    ) => {
+      expect(actual.data.length).toBe(expected.flat().length);
+      expected.flat().forEach((value, i) => {
+        expect(actual.data[i]).toBeCloseTo(value, digits);
+      });
+    };
+
+    const a = matNFromRows([
+      [2, 1, 1],
+      [4, -6, 0],
+      [-2, 7, 2],
+    ]);
+
+    test("construction and conversion", () => {
+      const m = matN(2, 3, [1, 2, 3, 4, 5, 6]);
+      expect(matNGet(m, 1, 2)).toBe(6);
+      expect(matNToRows(m)).toEqual([
+        [1, 2, 3],
+        [4, 5, 6],
+      ]);
+      expect(matNToRows(matNTranspose(m))).toEqual([
+        [1, 4],
+        [2, 5],
+        [3, 6],
+      ]);
+      expectMatrixCloseTo(matNIdentity(2), [
+        [1, 0],
+        [0, 1],
+      ]);
+      expect(Array.from(matN(1, 2).data)).toEqual([0, 0]);
+    });
+
+    test("construction validates sizes", () => {
+      expect(() => matN(2, 2, [1, 2, 3])).toThrow("Expected 4 values");
+      expect(() => matNFromRows([[1, 2], [3]])).toThrow("same length");
+    });
+
+    test("multiplication", () => {
+      const b = matNFromRows([
+        [1, 0],
+        [0, 1],
+        [1, 1],
+      ]);
+      expect(matNToRows(matNMultiply(a, b))).toEqual([
+        [3, 2],
+        [4, -6],
+        [0, 9],
+      ]);
+      expect(Array.from(matNMultiplyVec(a, [1, 1, 1]))).toEqual([4, -2, 7]);
+      expect(() => matNMultiply(b, b)).toThrow("Cannot multiply");
+      expect(() => matNMultiplyVec(a, [1])).toThrow("Cannot multiply");
+    });
+
+    test("LU decomposition reproduces PA", () => {
+      const { lu, pivots, sign } = luDecompose(a);
+      const n = 3;
+      const l = matNIdentity(n);
+      const u = matN(n, n);
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+          if (j < i) l.data[i * n + j] = lu.data[i * n + j];
+          else u.data[i * n + j] = lu.data[i * n + j];
+        }
+      }
+      const pa = matNFromRows(
+        Array.from(pivots).map((row) => matNToRows(a)[row]),
+      );
+      expectMatrixCloseTo(matNMultiply(l, u), matNToRows(pa));
+      expect(Math.abs(sign)).toBe(1);
+      // Partial pivoting picks the largest entry of the first column
+      expect(pivots[0]).toBe(1);
+    });
+
+    test("solve", () => {
+      const x = matNSolve(a, [5, -2, 9]);
+      expect(x).not.toBeNull();
+      expect(Array.from(x!).map((v) => Math.round(v * 1e10) / 1e10)).toEqual([
+        1, 1, 2,
+      ]);
+
+      // Reusing the factorization for several right-hand sides
+      const decomposition = luDecompose(a);
+      const y = luSolve(decomposition, [4, -2, 7])!;
+      expectMatrixCloseTo({ data: matNMultiplyVec(a, y) }, [[4, -2, 7]]);
+      expect(() => luSolve(decomposition, [1, 2])).toThrow("length");
+    });
+
+    test("solve requires pivoting", () => {
+      const m = matNFromRows([
+        [0, 1],
+        [1, 0],
+      ]);
+      expectMatrixCloseTo({ data: matNSolve(m, [3, 7])! }, [[7, 3]]);
+    });
+
+    test("singular systems return null", () => {
+      const singular = matNFromRows([
+        [1, 2],
+        [2, 4],
+      ]);
+      expect(matNSolve(singular, [1, 2])).toBeNull();
+      expect(matNInvert(singular)).toBeNull();
+      expect(matNDeterminant(singular)).toBe(0);
+      expect(matNConditionNumber(singular)).toBe(Infinity);
+    });
+
+    test("rank-deficient systems are singular despite rounding", () => {
+      // Rows are in arithmetic progression, but elimination leaves a pivot of
+      // about 1e-16 rather than an exact zero
+      const singular = matNFromRows([
+        [1, 2, 3],
+        [4, 5, 6],
+        [7, 8, 9],
+      ]);
+      expect(matNSolve(singular, [1, 2, 3])).toBeNull();
+      expect(luSolve(luDecompose(singular), [1, 2, 3])).toBeNull();
+      expect(matNInvert(singular)).toBeNull();
+      // The determinant is the plain pivot product, so only rounding remains
+      expect(Math.abs(matNDeterminant(singular))).toBeLessThan(1e-14);
+      expect(matNConditionNumber(singular)).toBe(Infinity);
+
+      // Tiny but well-scaled matrices are not singular
+      const small = matNFromRows([
+        [1e-20, 0],
+        [0, 1e-20],
+      ]);
+      expect(matNDeterminant(small)).toBeCloseTo(1e-40, 50);
+      expect(matNSolve(small, [1e-20, 2e-20])).toEqual(
+        Float64Array.from([1, 2]),
+      );
+    });
+
+    test("badly scaled diagonal matrices are not singular", () => {
+      const wide = matNFromRows([
+        [1e20, 0],
+        [0, 1],
+      ]);
+      expect(matNDeterminant(wide)).toBe(1e20);
+      expect(matNSolve(wide, [1e20, 2])).toEqual(Float64Array.from([1, 2]));
+      expect(matNInvert(wide)!.data).toEqual(
+        Float64Array.from([1e-20, 0, 0, 1]),
+      );
+
+      const graded = matNFromRows([
+        [1e6, 0, 0],
+        [0, 1, 0],
+        [0, 0, 1e-11],
+      ]);
+      expect(matNDeterminant(graded)).toBeCloseTo(1e-5, 15);
+      const x = matNSolve(graded, [1e6, 2, 3e-11])!;
+      expect(x[0]).toBeCloseTo(1, 12);
+      expect(x[1]).toBeCloseTo(2, 12);
+      expect(x[2]).toBeCloseTo(3, 12);
+    });
+
+    test("determinant", () => {
+      expect(matNDeterminant(a)).toBeCloseTo(-16, 10);
+      expect(matNDeterminant(matNIdentity(5))).toBe(1);
+      expect(
+        matNDeterminant(
+          matNFromRows([
+            [0, 1],
+            [1, 0],
+          ]),
+        ),
+      ).toBe(-1);
+      expect(() => matNDeterminant(matN(2, 3))).toThrow("square");
+    });
+
+    test("inverse", () => {
+      const inverse = matNInvert(a)!;
+      expectMatrixCloseTo(
+        matNMultiply(a, inverse),
+        matNToRows(matNIdentity(3)),
+      );
+      expectMatrixCloseTo(
+        matNMultiply(inverse, a),
+        matNToRows(matNIdentity(3)),
+      );
+    });
+
+    test("QR decomposition", () => {
+      const m = matNFromRows([
+        [12, -51, 4],
+        [6, 167, -68],
+        [-4, 24, -41],
+        [1, 1, 1],
+      ]);
+      const { q, r } = qrDecompose(m);
+      expect(q.rows).toBe(4);
+      expect(q.cols).toBe(3);
+      expectMatrixCloseTo(matNMultiply(q, r), matNToRows(m));
+      expectMatrixCloseTo(
+        matNMultiply(matNTranspose(q), q),
+        matNToRows(matNIdentity(3)),
+      );
+      for (let i = 1; i < 3; i++) {
+        for (let j = 0; j < i; j++) expect(matNGet(r, i, j)).toBe(0);
+      }
+      expect(() => qrDecompose(matN(2, 3))).toThrow("at least as many rows");
+    });
+
+    test("least squares fits a line", () => {
+      const xs = [0, 1, 2, 3, 4];
+      const ys = xs.map((x) => 2 + 3 * x + (x % 2 === 0 ? 0.1 : -0.1));
+      const fit = leastSquares(matNFromRows(xs.map((x) => [1, x])), ys)!;
+
+      // Normal equations give the same answer for this well-conditioned case
+      const design = matNFromRows(xs.map((x) => [1, x]));
+      const normal = matNSolve(
+        matNMultiply(matNTranspose(design), design),
+        matNMultiplyVec(matNTranspose(design), ys),
+      )!;
+      expect(fit[0]).toBeCloseTo(normal[0], 10);
+      expect(fit[1]).toBeCloseTo(normal[1], 10);
+      expect(fit[1]).toBeCloseTo(3, 1);
+    });
+
+    test("least squares solves square systems exactly", () => {
+      const x = leastSquares(a, [5, -2, 9])!;
+      expectMatrixCloseTo({ data: x }, [[1, 1, 2]]);
+    });
+
+    test("least squares detects dependent columns", () => {
+      const dependent = matNFromRows([
+        [1, 2],
+        [2, 4],
+        [3, 6],
+      ]);
+      expect(leastSquares(dependent, [1, 2, 3])).toBeNull();
+      expect(() => leastSquares(dependent, [1])).toThrow("length");
+    });
+
+    test("condition number", () => {
+      expect(matNConditionNumber(matNIdentity(4))).toBeCloseTo(1, 10);
+
+      const diagonal = matNFromRows([
+        [100, 0],
+        [0, 0.01],
+      ]);
+      expect(matNConditionNumber(diagonal)).toBeCloseTo(1e4, 6);
+
+      // Hilbert matrices are famously ill-conditioned (κ₁(H₆) ≈ 2.9e7)
+      const hilbert = matN(6, 6);
+      for (let i = 0; i < 6; i++) {
+        for (let j = 0; j < 6; j++) hilbert.data[i * 6 + j] = 1 / (i + j + 1);
+      }
+      const estimate = matNConditionNumber(hilbert);
+      expect(estimate).toBeGreaterThan(1e7);
+      expect(estimate).toBeLessThan(1e8);
+
+      // Exact value from the explicit inverse
+      const inverse = matNInvert(a)!;
+      const norm1 = (m: { rows: number; cols: number; data: Float64Array }) =>
+        Math.max(
+          ...Array.from({ length: m.cols }, (_, j) =>
+            Array.from({ length: m.rows }, (_, i) =>
+              Math.abs(m.data[i * m.cols + j]),
+            ).reduce((sum, value) => sum + value, 0),
+          ),
+        );
+      expect(matNConditionNumber(a)).toBeCloseTo(norm1(a) * norm1(inverse), 8);
+    });
+  });
+
+  describe("Eigenvalue operations", () => {
+    const expectEigenpairs = (
+      a: ReturnType<typeof matNFromRows>,
+      b: ReturnType<typeof matNFromRows>,
+      result: { values: Float64Array; vectors: ReturnType<typeof matN> },
+    ) => {
+      const n = a.rows;
+      for (let mode = 0; mode < n; mode++) {
+        const phi = Array.from({ length: n }, (_, i) =>
+          matNGet(result.vectors, i, mode),
+        );
+        const left = matNMultiplyVec(a, phi);
+        const right = matNMultiplyVec(b, phi);
+        for (let i = 0; i < n; i++) {
+          expect(left[i]).toBeCloseTo(result.values[mode] * right[i], 9);
+        }
+      }
+    };
+
+    test("Cholesky decomposition", () => {
+      const spd = matNFromRows([
+        [4, 12, -16],
+        [12, 37, -43],
+        [-16, -43, 98],
+      ]);
+      const l = choleskyDecompose(spd)!;
+      expect(matNToRows(l)).toEqual([
+        [2, 0, 0],
+        [6, 1, 0],
+        [-8, 5, 3],
+      ]);
+      expect(
+        choleskyDecompose(
+          matNFromRows([
+            [1, 2],
+            [2, 1],
+          ]),
+        ),
+      ).toBeNull();
+    });
+
+    test("symmetric eigenvalues of a 2x2 matrix", () => {
+      const { values, vectors } = symmetricEigen(
+        matNFromRows([
+          [2, 1],
+          [1, 2],
+        ]),
+      );
+      expect(values[0]).toBeCloseTo(1, 12);
+      expect(values[1]).toBeCloseTo(3, 12);
+      expect(Math.abs(matNGet(vectors, 0, 1))).toBeCloseTo(Math.SQRT1_2, 12);
+      expect(matNGet(vectors, 0, 1)).toBeCloseTo(matNGet(vectors, 1, 1), 12);
+    });
+
+    test("symmetric eigen decomposition of a larger matrix", () => {
+      const a = matNFromRows([
+        [4, 1, -2, 2],
+        [1, 2, 0, 1],
+        [-2, 0, 3, -2],
+        [2, 1, -2, -1],
+      ]);
+      const result = symmetricEigen(a);
+      expectEigenpairs(a, matNIdentity(4), result);
+
+      // Ascending order, trace preserved and orthonormal vectors
+      for (let i = 1; i < 4; i++) {
+        expect(result.values[i]).toBeGreaterThanOrEqual(result.values[i - 1]);
+      }
+      const trace = result.values.reduce((sum, value) => sum + value, 0);
+      expect(trace).toBeCloseTo(8, 10);
+      const gram = matNMultiply(matNTranspose(result.vectors), result.vectors);
+      matNToRows(gram).forEach((row, i) =>
+        row.forEach((value, j) =>
+          expect(value).toBeCloseTo(i === j ? 1 : 0, 10),
+        ),
+      );
+    });
+
+    test("diagonal and repeated eigenvalues", () => {
+      const { values } = symmetricEigen(
+        matNFromRows([
+          [5, 0, 0],
+          [0, -1, 0],
+          [0, 0, 5],
+        ]),
+      );
+      expect(Array.from(values)).toEqual([-1, 5, 5]);
+    });
+
+    test("symmetric eigen validates its input", () => {
+      expect(() => symmetricEigen(matN(2, 3))).toThrow("square");
+      expect(() =>
+        symmetricEigen(
+          matNFromRows([
+            [1, 2],
+            [0, 1],
+          ]),
+        ),
+      ).toThrow("symmetric");
+    });
+
+    test("generalized eigenproblem", () => {
+      const k = matNFromRows([
+        [6, -2, 0],
+        [-2, 4, -2],
+        [0, -2, 2],
+      ]);
+      const m = matNFromRows([
+        [2, 0, 0],
+        [0, 1, 0],
+        [0, 0, 0.5],
+      ]);
+      const result = generalizedEigen(k, m)!;
+      expectEigenpairs(k, m, result);
+
+      // Mass-normalized: φᵀMφ = I
+      const phiT = matNTranspose(result.vectors);
+      const modal = matNMultiply(matNMultiply(phiT, m), result.vectors);
+      matNToRows(modal).forEach((row, i) =>
+        row.forEach((value, j) =>
+          expect(value).toBeCloseTo(i === j ? 1 : 0, 10),
+        ),
+      );
+    });
+
+    test("generalized eigenproblem requires a positive-definite mass matrix", () => {
+      const k = matNIdentity(2);
+      expect(generalizedEigen(k, matN(2, 2))).toBeNull();
+      expect(() => generalizedEigen(k, matNIdentity(3))).toThrow("same size");
+    });
+  });
+
+  describe("Polynomial", () => {
+    // x³ - 6x² + 11x - 6 = (x - 1)(x - 2)(x - 3)
+    const cubic = new Polynomial([-6, 11, -6, 1]);
+
+    test("trims trailing zeros and reports the degree", () => {
+      expect(Array.from(new Polynomial([1, 2, 0, 0]).coefficients)).toEqual([
+        1, 2,
+      ]);
+      expect(cubic.degree).toBe(3);
+      expect(new Polynomial([0, 0]).degree).toBe(-1);
+    });
+
+    test("evaluates with Horner's method", () => {
+      expect(cubic.evaluate(4)).toBe(6);
+      expect(new Polynomial([]).evaluate(5)).toBe(0);
+      const z = cubic.evaluateComplex({ real: 0, imag: 1 });
+      // i³ - 6i² + 11i - 6 = 0 + 10i
+      expect(z).toEqual({ real: 0, imag: 10 });
+    });
+
+    test("fromRoots builds the monic product", () => {
+      expect(Polynomial.fromRoots([1, 2, 3])).toEqual(cubic);
+    });
+
+    test("arithmetic", () => {
+      const p = new Polynomial([1, 1]);
+      expect(
+        Array.from(p.add(new Polynomial([0, -1, 2])).coefficients),
+      ).toEqual([1, 0, 2]);
+      expect(p.subtract(p).degree).toBe(-1);
+      expect(Array.from(p.subtract(1).coefficients)).toEqual([0, 1]);
+      expect(Array.from(p.multiply(p).coefficients)).toEqual([1, 2, 1]);
+      expect(Array.from(p.multiply(3).coefficients)).toEqual([3, 3]);
+    });
+
+    test("long division", () => {
+      const { quotient, remainder } = cubic.divide(new Polynomial([-1, 1]));
+      expect(Array.from(quotient.coefficients)).toEqual([6, -5, 1]);
+      expect(remainder.degree).toBe(-1);
+
+      const divisor = new Polynomial([1, 0, 1]);
+      const result = cubic.divide(divisor);
+      expect(result.quotient.multiply(divisor).add(result.remainder)).toEqual(
+        cubic,
+      );
+      expect(result.remainder.degree).toBeLessThan(2);
+
+      const small = new Polynomial([1, 1]).divide(cubic);
+      expect(small.quotient.degree).toBe(-1);
+      expect(() => cubic.divide(new Polynomial([]))).toThrow("zero polynomial");
+    });
+
+    test("derivative and integral", () => {
+      expect(Array.from(cubic.derivative().coefficients)).toEqual([11, -12, 3]);
+      expect(Array.from(cubic.derivative(2).coefficients)).toEqual([-12, 6]);
+      expect(cubic.derivative(4).degree).toBe(-1);
+      expect(cubic.integral(5).derivative()).toEqual(cubic);
+      expect(cubic.integral(5).evaluate(0)).toBe(5);
+    });
+
+    test("composition", () => {
+      // p(x + 1) for p(x) = x²
+      const square = new Polynomial([0, 0, 1]);
+      const shifted = square.compose(new Polynomial([1, 1]));
+      expect(Array.from(shifted.coefficients)).toEqual([1, 2, 1]);
+      expect(cubic.compose(square).evaluate(2)).toBe(cubic.evaluate(4));
+    });
+
+    test("finds real roots", () => {
+      const roots = cubic.realRoots();
+      [1, 2, 3].forEach((root, i) => expect(roots[i]).toBeCloseTo(root, 12));
+    });
+
+    test("finds complex conjugate roots", () => {
+      // s² + 2s + 5 has roots -1 ± 2i
+      const roots = new Polynomial([5, 2, 1]).roots();
+      expect(roots.length).toBe(2);
+      expect(roots[0].real).toBeCloseTo(-1, 12);
+      expect(roots[0].imag).toBeCloseTo(-2, 12);
+      expect(roots[1].imag).toBeCloseTo(2, 12);
+      expect(new Polynomial([5, 2, 1]).realRoots()).toEqual([]);
+    });
+
+    test("handles roots at zero, repeated roots and constants", () => {
+      const withZeros = new Polynomial([0, 0, -1, 1]);
+      const roots = withZeros.realRoots();
+      expect(roots.length).toBe(3);
+      expect(roots[0]).toBe(0);
+      expect(roots[2]).toBeCloseTo(1, 12);
+
+      const double = Polynomial.fromRoots([2, 2]).realRoots();
+      expect(double.length).toBe(2);
+      double.forEach((root) => expect(root).toBeCloseTo(2, 6));
+
+      expect(new Polynomial([7]).roots()).toEqual([]);
+      expect(() => new Polynomial([]).roots()).toThrow("infinitely many");
+    });
+
+    test("roots of a high-degree polynomial", () => {
+      const expected = [-4, -2.5, -1, 0.5, 1.5, 3, 4.25, 6];
+      const roots = Polynomial.fromRoots(expected).realRoots();
+      expected.forEach((root, i) => expect(roots[i]).toBeCloseTo(root, 8));
+    });
+
+    test("least-squares fit recovers exact data", () => {
+      const x = [10, 11, 12, 13, 14, 15];
+      const y = x.map((v) => 2 - 3 * v + 0.5 * v * v);
+      const fit = Polynomial.fit(x, y, 2)!;
+      expect(fit.coefficients[0]).toBeCloseTo(2, 8);
+      expect(fit.coefficients[1]).toBeCloseTo(-3, 9);
+      expect(fit.coefficients[2]).toBeCloseTo(0.5, 10);
+    });
+
+    test("least-squares fit smooths noisy data", () => {
+      const x = [0, 1, 2, 3, 4];
+      const fit = Polynomial.fit(x, [1.1, 2.9, 5.2, 6.8, 9.1], 1)!;
+      expect(fit.degree).toBe(1);
+      expect(fit.coefficients[1]).toBeCloseTo(1.99, 10);
+    });
+
+    test("fit needs enough distinct points", () => {
+      expect(Polynomial.fit([1, 2], [1, 2], 2)).toBeNull();
+      expect(Polynomial.fit([1, 1, 1], [1, 2, 3], 1)).toBeNull();
+      expect(() => Polynomial.fit([1, 2], [1], 1)).toThrow("same length");
+    });
+
+    test("formats in descending powers", () => {
+      expect(cubic.toString()).toBe("x^3 - 6x^2 + 11x - 6");
+      expect(new Polynomial([0, -1, 2.5]).toString("s")).toBe("2.5s^2 - s");
+      expect(new Polynomial([]).toString()).toBe("0");
+    });
+  });
 });
@@ -0,0 +1,258 @@
+import { describe, expect, test } from "bun:test";
+import {
+  eulerStep,
+  interpolateSolution,
+  leapfrogStep,
+  midpointStep,
+  rk4Step,
+  solveEuler,
+  solveLeapfrog,
+  solveMidpoint,
+  solveRK4,
+  solveRK45,
+} from "../src/ode.ts";
+
+// y' = -2y, y(0) = 1  →  y = e^(-2t)
+const decay = (_t: number, [y]: Float64Array) => [-2 * y];
+
+// x'' = -x as a first-order system
+const oscillator = (_t: number, [x, v]: Float64Array) => [v, -x];
+
+const finalState = (solution: { states: Float64Array[] }) =>
+  solution.states[solution.states.length - 1];
+
+describe("ODE solvers", () => {
+  describe("Single steps", () => {
+    test("eulerStep", () => {
+      expect(Array.from(eulerStep(decay, 0, [1], 0.1))).toEqual([0.8]);
+    });
+
+    test("midpointStep", () => {
+      // y + h·f(y + h/2·f(y)) = 1 + 0.1·(-2·0.9)
+      expect(midpointStep(decay, 0, [1], 0.1)[0]).toBeCloseTo(0.82, 12);
+    });
+
+    test("rk4Step matches the Taylor series to fourth order", () => {
+      const h = 0.1;
+      const x = -2 * h;
+      const taylor = 1 + x + x ** 2 / 2 + x ** 3 / 6 + x ** 4 / 24;
+      expect(rk4Step(decay, 0, [1], h)[0]).toBeCloseTo(taylor, 14);
+    });
+
+    test("uses a supplied derivative", () => {
+      const result = eulerStep(decay, 0, [1], 0.5, [4]);
+      expect(result[0]).toBe(3);
+    });
+
+    test("rejects a derivative of the wrong size", () => {
+      expect(() => rk4Step(() => [1, 2], 0, [1], 0.1)).toThrow("components");
+    });
+  });
+
+  describe("Fixed-step solvers", () => {
+    test("records every step and lands exactly on t1", () => {
+      const solution = solveRK4(decay, [1], [0, 1], 0.3);
+      expect(Array.from(solution.times)).toEqual([
+        0,
+        0.3,
+        0.6,
+        expect.closeTo(0.9, 12),
+        1,
+      ]);
+      expect(solution.states.length).toBe(5);
+      expect(solution.derivatives[0][0]).toBe(-2);
+      expect(solution.evaluations).toBe(1 + 4 * 4);
+    });
+
+    test("does not add a sliver step from rounding", () => {
+      const solution = solveEuler(decay, [1], [0, 1], 0.1);
+      expect(solution.times.length).toBe(11);
+      expect(solution.times[10]).toBe(1);
+    });
+
+    test("errors shrink at the expected order", () => {
+      const exact = Math.exp(-2);
+      const error = (solve: typeof solveEuler, dt: number) =>
+        Math.abs(finalState(solve(decay, [1], [0, 1], dt))[0] - exact);
+
+      const eulerRatio = error(solveEuler, 0.01) / error(solveEuler, 0.005);
+      const midpointRatio =
+        error(solveMidpoint, 0.01) / error(solveMidpoint, 0.005);
+      const rk4Ratio = error(solveRK4, 0.1) / error(solveRK4, 0.05);
+
+      expect(eulerRatio).toBeCloseTo(2, 1);
+      expect(midpointRatio).toBeCloseTo(4, 1);
+      expect(rk4Ratio).toBeGreaterThan(14);
+      expect(rk4Ratio).toBeLessThan(18);
+    });
+
+    test("handles an empty time span", () => {
+      const solution = solveRK4(decay, [3], [2, 2], 0.1);
+      expect(Array.from(solution.times)).toEqual([2]);
+      expect(solution.states[0][0]).toBe(3);
+    });
+
+    test("validates the time span and step size", () => {
+      expect(() => solveRK4(decay, [1], [1, 0], 0.1)).toThrow("t0 <= t1");
+      expect(() => solveRK4(decay, [1], [0, 1], 0)).toThrow("positive");
+    });
+
+    test("does not modify the initial state", () => {
+      const y0 = new Float64Array([1]);
+      solveMidpoint(decay, y0, [0, 1], 0.1);
+      expect(y0[0]).toBe(1);
+    });
+  });
+
+  describe("Adaptive RK45", () => {
+    test("meets the requested tolerance", () => {
+      const loose = solveRK45(oscillator, [1, 0], [0, 10], {
+        relativeTolerance: 1e-4,
+        absoluteTolerance: 1e-6,
+      });
+      const tight = solveRK45(oscillator, [1, 0], [0, 10], {
+        relativeTolerance: 1e-10,
+        absoluteTolerance: 1e-12,
+      });
+
+      const looseError = Math.abs(finalState(loose)[0] - Math.cos(10));
+      const tightError = Math.abs(finalState(tight)[0] - Math.cos(10));
+
+      expect(looseError).toBeLessThan(1e-3);
+      expect(tightError).toBeLessThan(1e-8);
+      expect(tight.times.length).toBeGreaterThan(loose.times.length);
+      expect(tight.times[tight.times.length - 1]).toBe(10);
+    });
+
+    test("takes short steps only where the solution changes quickly", () => {
+      // Eccentric Kepler orbit (e = 0.9, period 2π) starting at periapsis
+      const kepler = (_t: number, [x, y, vx, vy]: Float64Array) => {
+        const r3 = Math.hypot(x, y) ** 3;
+        return [vx, vy, -x / r3, -y / r3];
+      };
+      const y0 = [0.1, 0, 0, Math.sqrt(19)];
+      const solution = solveRK45(kepler, y0, [0, 2 * Math.PI], {
+        relativeTolerance: 1e-9,
+        absoluteTolerance: 1e-12,
+      });
+
+      const { times, states } = solution;
+      let shortest = Infinity;
+      let longest = 0;
+      let radiusAtShortest = 0;
+      for (let i = 1; i < times.length; i++) {
+        const step = times[i] - times[i - 1];
+        if (step < shortest) {
+          shortest = step;
+          radiusAtShortest = Math.hypot(states[i][0], states[i][1]);
+        }
+        longest = Math.max(longest, step);
+      }
+      expect(longest / shortest).toBeGreaterThan(10);
+      expect(radiusAtShortest).toBeLessThan(0.5);
+
+      // Returns to periapsis after one period
+      const last = finalState(solution);
+      y0.forEach((value, i) => expect(last[i]).toBeCloseTo(value, 4));
+    });
+
+    test("resolves short pulses when maxStep is limited", () => {
+      const pulse = (t: number) => [Math.exp(-((t - 5) ** 2) * 100)];
+      const solution = solveRK45(pulse, [0], [0, 10], { maxStep: 0.05 });
+      expect(finalState(solution)[0]).toBeCloseTo(Math.sqrt(Math.PI) / 10, 6);
+    });
+
+    test("respects maxStep", () => {
+      const { times } = solveRK45(decay, [1], [0, 1], { maxStep: 0.05 });
+      for (let i = 1; i < times.length; i++) {
+        expect(times[i] - times[i - 1]).toBeLessThanOrEqual(0.05 + 1e-12);
+      }
+    });
+
+    test("gives up after maxSteps", () => {
+      expect(() =>
+        solveRK45(oscillator, [1, 0], [0, 100], {
+          relativeTolerance: 1e-12,
+          maxSteps: 10,
+        }),
+      ).toThrow("within 10 steps");
+    });
+  });
+
+  describe("Leapfrog", () => {
+    test("single step matches velocity Verlet", () => {
+      const step = leapfrogStep((_t, [x]) => [-x], 0, [1], [0], 0.1);
+      expect(step.position[0]).toBeCloseTo(1 - 0.005, 12);
+      expect(step.velocity[0]).toBeCloseTo(-0.05 * (1 + 0.995), 12);
+      expect(step.acceleration[0]).toBeCloseTo(-0.995, 12);
+    });
+
+    test("conserves energy over long runs where Euler drifts", () => {
+      const energy = (state: Float64Array) =>
+        0.5 * (state[0] ** 2 + state[1] ** 2);
+
+      const leapfrog = solveLeapfrog(
+        (_t, [x]) => [-x],
+        [1],
+        [0],
+        [0, 1000],
+        0.05,
+      );
+      let maxDeviation = 0;
+      for (const state of leapfrog.states) {
+        maxDeviation = Math.max(maxDeviation, Math.abs(energy(state) - 0.5));
+      }
+      expect(maxDeviation).toBeLessThan(1e-3);
+      expect(leapfrog.evaluations).toBe(leapfrog.times.length);
+
+      const euler = solveEuler(oscillator, [1, 0], [0, 100], 0.05);
+      expect(energy(finalState(euler))).toBeGreaterThan(1);
+    });
+
+    test("packs positions and velocities into the state", () => {
+      const solution = solveLeapfrog(
+        () => [0, -9.81],
+        [0, 10],
+        [2, 0],
+        [0, 1],
+        0.25,
+      );
+      const last = finalState(solution);
+      expect(last.length).toBe(4);
+      expect(last[0]).toBeCloseTo(2, 12);
+      expect(last[1]).toBeCloseTo(10 - 9.81 / 2, 12);
+      expect(last[3]).toBeCloseTo(-9.81, 12);
+      expect(Array.from(solution.derivatives[0])).toEqual([2, 0, 0, -9.81]);
+    });
+
+    test("validates its inputs", () => {
+      expect(() => solveLeapfrog(() => [0], [0], [0, 1], [0, 1], 0.1)).toThrow(
+        "same length",
+      );
+    });
+  });
+
+  describe("Dense output", () => {
+    test("interpolates between steps", () => {
+      const solution = solveRK45(oscillator, [1, 0], [0, 6], {
+        relativeTolerance: 1e-10,
+        absoluteTolerance: 1e-12,
+      });
+      for (const t of [0, 0.37, 1.5, 2.718, 5.9, 6]) {
+        const [x, v] = interpolateSolution(solution, t);
+        expect(x).toBeCloseTo(Math.cos(t), 5);
+        expect(v).toBeCloseTo(-Math.sin(t), 5);
+      }
+    });
+
+    test("is exact at the steps", () => {
+      const solution = solveRK4(decay, [1], [0, 1], 0.25);
+      expect(interpolateSolution(solution, 0.5)[0]).toBe(solution.states[2][0]);
+    });
+
+    test("rejects times outside the span", () => {
+      const solution = solveRK4(decay, [1], [0, 1], 0.25);
+      expect(() => interpolateSolution(solution, 1.5)).toThrow("outside");
+    });
+  });
+});
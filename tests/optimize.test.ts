@@ -0,0 +1,225 @@
+import { describe, expect, test } from "bun:test";
+import {
+  bisect,
+  brent,
+  gradientDescent,
+  nelderMead,
+  newton,
+  simulatedAnnealing,
+} from "../src/optimize.ts";
+import { SeededRandom } from "../src/random.ts";
+
+const rosenbrock = ([x, y]: Float64Array) =>
+  (1 - x) ** 2 + 100 * (y - x * x) ** 2;
+
+// Many local minima, global minimum 0 at the origin
+const rastrigin = (x: Float64Array) =>
+  x.reduce(
+    (sum, xi) => sum + xi * xi - 10 * Math.cos(2 * Math.PI * xi) + 10,
+    0,
+  );
+
+describe("Optimization", () => {
+  describe("Root finding", () => {
+    const cubic = (x: number) => x ** 3 - 2 * x - 5;
+    const cubicRoot = 2.0945514815423265;
+
+    test("bisect converges on a bracketed root", () => {
+      const result = bisect(cubic, 2, 3);
+      expect(result.converged).toBe(true);
+      expect(result.x).toBeCloseTo(cubicRoot, 11);
+      expect(result.residual).toBe(Math.abs(result.value));
+      expect(result.iterations).toBeGreaterThan(30);
+    });
+
+    test("brent needs far fewer evaluations than bisect", () => {
+      const bisection = bisect(cubic, 2, 3);
+      const result = brent(cubic, 2, 3);
+      expect(result.converged).toBe(true);
+      expect(result.x).toBeCloseTo(cubicRoot, 12);
+      expect(result.evaluations).toBeLessThan(bisection.evaluations / 3);
+    });
+
+    test("bracketing solvers converge on large roots", () => {
+      const f = (x: number) => x - 1e6 - 0.3;
+      for (const result of [brent(f, 0, 2e6), bisect(f, 0, 2e6)]) {
+        expect(result.converged).toBe(true);
+        expect(result.x).toBeCloseTo(1e6 + 0.3, 8);
+      }
+      expect(brent(f, 0, 2e6).iterations).toBeLessThan(10);
+    });
+
+    test("brent handles brackets given in either order", () => {
+      expect(brent(Math.cos, 3, 0).x).toBeCloseTo(Math.PI / 2, 12);
+      expect(brent((x) => Math.exp(x) - 10, -5, 5).x).toBeCloseTo(
+        Math.log(10),
+        12,
+      );
+    });
+
+    test("returns an endpoint that is already a root", () => {
+      const result = bisect((x) => x - 1, 1, 4);
+      expect(result).toMatchObject({ x: 1, converged: true, iterations: 0 });
+      expect(brent((x) => x - 4, 1, 4).x).toBe(4);
+    });
+
+    test("rejects an interval without a sign change", () => {
+      expect(() => bisect((x) => x * x + 1, -1, 1)).toThrow("not bracketed");
+      expect(() => brent((x) => x * x + 1, -1, 1)).toThrow("not bracketed");
+    });
+
+    test("reports non-convergence at the iteration limit", () => {
+      const result = bisect(cubic, 2, 3, { maxIterations: 5 });
+      expect(result.converged).toBe(false);
+      expect(result.iterations).toBe(5);
+    });
+
+    test("newton converges quadratically with an exact derivative", () => {
+      const result = newton(cubic, 2, { derivative: (x) => 3 * x * x - 2 });
+      expect(result.converged).toBe(true);
+      expect(result.x).toBeCloseTo(cubicRoot, 14);
+      expect(result.iterations).toBeLessThan(6);
+    });
+
+    test("newton estimates the derivative numerically", () => {
+      // Kepler's equation E - e·sin(E) = M
+      const e = 0.5;
+      const M = 1;
+      const result = newton((E) => E - e * Math.sin(E) - M, M);
+      expect(result.converged).toBe(true);
+      expect(result.x - e * Math.sin(result.x)).toBeCloseTo(M, 12);
+    });
+
+    test("newton stops when the derivative vanishes", () => {
+      const result = newton((x) => x * x + 1, 0, { derivative: (x) => 2 * x });
+      expect(result.converged).toBe(false);
+      expect(result.iterations).toBe(0);
+    });
+
+    test("newton reports divergence", () => {
+      // Newton's method on the cube root overshoots further each step
+      const result = newton(Math.cbrt, 1, { maxIterations: 20 });
+      expect(result.converged).toBe(false);
+      expect(Math.abs(result.x)).toBeGreaterThan(1000);
+    });
+  });
+
+  describe("Minimization", () => {
+    test("nelderMead finds the Rosenbrock minimum", () => {
+      const result = nelderMead(rosenbrock, [-1.2, 1], { tolerance: 1e-14 });
+      expect(result.converged).toBe(true);
+      expect(result.x[0]).toBeCloseTo(1, 4);
+      expect(result.x[1]).toBeCloseTo(1, 4);
+      expect(result.value).toBeLessThan(1e-8);
+      expect(result.residual).toBeLessThanOrEqual(1e-14);
+    });
+
+    test("nelderMead does not modify the starting point", () => {
+      const x0 = new Float64Array([3, -2]);
+      const result = nelderMead(([x, y]) => (x - 1) ** 2 + (y + 1) ** 2, x0, {
+        initialStep: 0.5,
+      });
+      expect(Array.from(x0)).toEqual([3, -2]);
+      expect(result.x[0]).toBeCloseTo(1, 4);
+      expect(result.x[1]).toBeCloseTo(-1, 4);
+    });
+
+    test("nelderMead respects the iteration limit", () => {
+      const result = nelderMead(rosenbrock, [-1.2, 1], { maxIterations: 10 });
+      expect(result.converged).toBe(false);
+      expect(result.iterations).toBe(10);
+    });
+
+    test("gradientDescent minimizes a quadratic bowl", () => {
+      const bowl = ([x, y]: Float64Array) => (x - 3) ** 2 + 4 * (y + 2) ** 2;
+      const result = gradientDescent(bowl, [0, 0], {
+        gradient: ([x, y]) => [2 * (x - 3), 8 * (y + 2)],
+      });
+      expect(result.converged).toBe(true);
+      expect(result.x[0]).toBeCloseTo(3, 7);
+      expect(result.x[1]).toBeCloseTo(-2, 7);
+      expect(result.residual).toBeLessThanOrEqual(1e-8);
+    });
+
+    test("gradientDescent uses a numeric gradient by default", () => {
+      const result = gradientDescent(rosenbrock, [-1.2, 1], {
+        tolerance: 1e-5,
+        maxIterations: 50000,
+      });
+      expect(result.converged).toBe(true);
+      expect(result.x[0]).toBeCloseTo(1, 3);
+      expect(result.x[1]).toBeCloseTo(1, 3);
+    });
+
+    test("gradientDescent stops at the iteration limit with progress made", () => {
+      const result = gradientDescent(rosenbrock, [-1.2, 1], {
+        maxIterations: 20,
+      });
+      expect(result.converged).toBe(false);
+      expect(result.iterations).toBe(20);
+      expect(result.value).toBeLessThan(
+        rosenbrock(new Float64Array([-1.2, 1])),
+      );
+    });
+  });
+
+  describe("Simulated annealing", () => {
+    test("escapes local minima that trap local search", () => {
+      const start = [3.1, -2.9];
+      const local = nelderMead(rastrigin, start);
+      const global = simulatedAnnealing(rastrigin, [-5, -5], [5, 5], {
+        initial: start,
+        iterations: 20000,
+        initialTemperature: 10,
+        random: new SeededRandom(7),
+      });
+
+      expect(local.value).toBeGreaterThan(1);
+      expect(global.value).toBeLessThan(local.value);
+      expect(global.value).toBeLessThan(1);
+      expect(global.converged).toBe(true);
+      expect(global.iterations).toBe(20000);
+      expect(global.residual).toBeCloseTo(1e-4, 10);
+    });
+
+    test("reports a schedule that ends while still improving", () => {
+      const sphere = ([x, y]: Float64Array) => x * x + y * y;
+      const run = (iterations: number) =>
+        simulatedAnnealing(sphere, [-5, -5], [5, 5], {
+          initial: [4, -4],
+          iterations,
+          random: new SeededRandom(3),
+        });
+      expect(run(30).converged).toBe(false);
+      expect(run(20000).converged).toBe(true);
+    });
+
+    test("stays within the bounds", () => {
+      const result = simulatedAnnealing(([x, y]) => x + y, [1, 2], [3, 5], {
+        random: new SeededRandom(1),
+      });
+      expect(result.x[0]).toBeCloseTo(1, 2);
+      expect(result.x[1]).toBeCloseTo(2, 2);
+      expect(result.x[0]).toBeGreaterThanOrEqual(1);
+      expect(result.x[1]).toBeGreaterThanOrEqual(2);
+    });
+
+    test("is reproducible with the same seed", () => {
+      const run = () =>
+        simulatedAnnealing(rastrigin, [-5], [5], {
+          iterations: 500,
+          random: new SeededRandom(42),
+        });
+      expect(Array.from(run().x)).toEqual(Array.from(run().x));
+    });
+
+    test("validates the bounds", () => {
+      expect(() => simulatedAnnealing(rastrigin, [0, 0], [1])).toThrow(
+        "same length",
+      );
+      expect(() => simulatedAnnealing(rastrigin, [2], [1])).toThrow(
+        "exceeds upper bound",
+      );
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, expect, test } from "bun:test";
+import {
+  applyWindow,
+  binToFrequency,
+  blackmanWindow,
+  createWindow,
+  fft,
+  fftFrequencies,
+  flatTopWindow,
+  frequencyToBin,
+  hammingWindow,
+  hannWindow,
+  ifft,
+  irfft,
+  isPowerOfTwo,
+  magnitudeSpectrum,
+  nextPowerOfTwo,
+  phaseSpectrum,
+  rfft,
+  rfftFrequencies,
+  stft,
+  welch,
+} from "../src/spectrum.ts";
+
+// Reference O(N²) DFT
+const dft = (real: number[], imag: number[] = real.map(() => 0)) => {
+  const n = real.length;
+  const outReal: number[] = [];
+  const outImag: number[] = [];
+  for (let k = 0; k < n; k++) {
+    let sumReal = 0;
+    let sumImag = 0;
+    for (let t = 0; t < n; t++) {
+      const angle = (-2 * Math.PI * k * t) / n;
+      sumReal += real[t] * Math.cos(angle) - imag[t] * Math.sin(angle);
+      sumImag += real[t] * Math.sin(angle) + imag[t] * Math.cos(angle);
+    }
+    outReal.push(sumReal);
+    outImag.push(sumImag);
+  }
+  return { real: outReal, imag: outImag };
+};
+
+const testSignal = (n: number) =>
+  Array.from(
+    { length: n },
+    (_, i) => Math.sin(i * 0.7) + 0.3 * Math.cos(i * 2.1) + (i % 3),
+  );
+
+const expectArrayCloseTo = (
+  actual: ArrayLike<number>,
+  expected: ArrayLike<number>,
+  digits: number = 8,
+) => {
+  expect(actual.length).toBe(expected.length);
+  for (let i = 0; i < expected.length; i++) {
+    expect(actual[i]).toBeCloseTo(expected[i], digits);
+  }
+};
+
+describe("Spectrum analysis", () => {
+  describe("Helpers", () => {
+    test("power of two checks", () => {
+      expect(isPowerOfTwo(1)).toBe(true);
+      expect(isPowerOfTwo(64)).toBe(true);
+      expect(isPowerOfTwo(0)).toBe(false);
+      expect(isPowerOfTwo(12)).toBe(false);
+      expect(nextPowerOfTwo(1)).toBe(1);
+      expect(nextPowerOfTwo(17)).toBe(32);
+      expect(nextPowerOfTwo(32)).toBe(32);
+    });
+  });
+
+  describe("FFT", () => {
+    test("transforms a simple sequence", () => {
+      const spectrum = fft([1, 0, -1, 0]);
+      expectArrayCloseTo(spectrum.real, [0, 2, 0, 2]);
+      expectArrayCloseTo(spectrum.imag, [0, 0, 0, 0]);
+    });
+
+    test("matches the DFT for power-of-two and arbitrary lengths", () => {
+      for (const n of [1, 2, 7, 8, 12, 64, 100]) {
+        const real = testSignal(n);
+        const imag = real.map((v, i) => v * 0.5 - i * 0.01);
+        const expected = dft(real, imag);
+        const actual = fft(real, imag);
+        expectArrayCloseTo(actual.real, expected.real);
+        expectArrayCloseTo(actual.imag, expected.imag);
+      }
+    });
+
+    test("handles empty input", () => {
+      expect(fft([]).real.length).toBe(0);
+    });
+
+    test("does not modify its inputs", () => {
+      const real = new Float64Array([1, 2, 3, 4]);
+      fft(real);
+      expect(Array.from(real)).toEqual([1, 2, 3, 4]);
+    });
+
+    test("inverse FFT round trips", () => {
+      for (const n of [8, 15]) {
+        const real = testSignal(n);
+        const imag = real.map((v) => -v);
+        const restored = ifft(fft(real, imag));
+        expectArrayCloseTo(restored.real, real, 10);
+        expectArrayCloseTo(restored.imag, imag, 10);
+      }
+    });
+
+    test("rejects mismatched lengths", () => {
+      expect(() => fft([1, 2], [1])).toThrow("same length");
+    });
+  });
+
+  describe("Real-input FFT", () => {
+    test("matches the first half of the full FFT", () => {
+      for (const n of [2, 9, 16, 30]) {
+        const signal = testSignal(n);
+        const full = fft(signal);
+        const half = rfft(signal);
+        const bins = Math.floor(n / 2) + 1;
+        expectArrayCloseTo(half.real, full.real.slice(0, bins));
+        expectArrayCloseTo(half.imag, full.imag.slice(0, bins));
+      }
+    });
+
+    test("irfft restores the signal", () => {
+      const even = testSignal(32);
+      expectArrayCloseTo(irfft(rfft(even)), even, 10);
+
+      const odd = testSignal(11);
+      expectArrayCloseTo(irfft(rfft(odd), 11), odd, 10);
+    });
+
+    test("irfft validates the length", () => {
+      expect(() => irfft(rfft(testSignal(8)), 12)).toThrow();
+    });
+
+    test("magnitude and phase of a pure tone", () => {
+      const n = 64;
+      const signal = Array.from({ length: n }, (_, i) =>
+        Math.cos((2 * Math.PI * 5 * i) / n),
+      );
+      const spectrum = rfft(signal);
+      const magnitudes = magnitudeSpectrum(spectrum);
+      expect(magnitudes[5]).toBeCloseTo(n / 2, 8);
+      expect(magnitudes[4]).toBeCloseTo(0, 8);
+      expect(phaseSpectrum(spectrum)[5]).toBeCloseTo(0, 8);
+    });
+  });
+
+  describe("Windows", () => {
+    test("periodic and symmetric Hann windows", () => {
+      const periodic = hannWindow(4);
+      expectArrayCloseTo(periodic, [0, 0.5, 1, 0.5]);
+
+      const symmetric = hannWindow(5, true);
+      expectArrayCloseTo(symmetric, [0, 0.5, 1, 0.5, 0]);
+    });
+
+    test("window shapes", () => {
+      expect(hammingWindow(5, true)[0]).toBeCloseTo(0.08, 10);
+      expect(hammingWindow(5, true)[2]).toBeCloseTo(1, 10);
+      expect(blackmanWindow(5, true)[0]).toBeCloseTo(0, 10);
+      expect(blackmanWindow(5, true)[2]).toBeCloseTo(1, 10);
+      expect(flatTopWindow(5, true)[2]).toBeCloseTo(1, 6);
+      expect(Array.from(createWindow("rectangular", 3))).toEqual([1, 1, 1]);
+      expect(Array.from(createWindow("hann", 1))).toEqual([1]);
+    });
+
+    test("applyWindow multiplies samples", () => {
+      expect(Array.from(applyWindow([2, 4, 6], [0, 0.5, 1]))).toEqual([
+        0, 2, 6,
+      ]);
+      expect(() => applyWindow([1, 2], [1])).toThrow("same length");
+    });
+  });
+
+  describe("Frequency bins", () => {
+    test("fftFrequencies includes negative frequencies", () => {
+      expect(Array.from(fftFrequencies(4, 8))).toEqual([0, 2, -4, -2]);
+      expect(Array.from(fftFrequencies(5, 5))).toEqual([0, 1, 2, -2, -1]);
+    });
+
+    test("rfftFrequencies covers DC to Nyquist", () => {
+      expect(Array.from(rfftFrequencies(8, 800))).toEqual([
+        0, 100, 200, 300, 400,
+      ]);
+    });
+
+    test("bin and frequency conversion", () => {
+      expect(binToFrequency(10, 1024, 44100)).toBeCloseTo(430.664, 3);
+      expect(frequencyToBin(440, 1024, 44100)).toBe(10);
+    });
+  });
+
+  describe("Welch PSD", () => {
+    const sampleRate = 1000;
+    const tone = Array.from(
+      { length: 4096 },
+      (_, i) => 2 * Math.sin((2 * Math.PI * 125 * i) / sampleRate),
+    );
+
+    test("peaks at the tone frequency", () => {
+      const { frequencies, psd } = welch(tone, sampleRate, {
+        segmentLength: 256,
+      });
+      expect(frequencies.length).toBe(129);
+
+      let peak = 0;
+      for (let i = 1; i < psd.length; i++) {
+        if (psd[i] > psd[peak]) peak = i;
+      }
+      expect(frequencies[peak]).toBeCloseTo(125, 6);
+    });
+
+    test("integrates to the signal power", () => {
+      const { frequencies, psd } = welch(tone, sampleRate, {
+        segmentLength: 512,
+        window: "hamming",
+      });
+      const binWidth = frequencies[1] - frequencies[0];
+      const power = psd.reduce((sum, value) => sum + value, 0) * binWidth;
+      // A sine of amplitude 2 has mean power 2
+      expect(power).toBeCloseTo(2, 2);
+    });
+
+    test("validates options", () => {
+      expect(() => welch(tone, sampleRate, { overlap: 1 })).toThrow();
+      expect(() => welch([], sampleRate)).toThrow();
+    });
+  });
+
+  describe("STFT", () => {
+    test("produces one spectrum per frame", () => {
+      const signal = new Float64Array(1000);
+      const { frames, times, frequencies } = stft(signal, 100, {
+        frameSize: 200,
+        hopSize: 100,
+      });
+      expect(frames.length).toBe(9);
+      expect(frames[0].real.length).toBe(101);
+      expect(times[1]).toBeCloseTo(1, 10);
+      expect(frequencies[frequencies.length - 1]).toBe(50);
+    });
+
+    test("tracks a frequency change over time", () => {
+      const sampleRate = 1024;
+      const signal = Array.from({ length: 2048 }, (_, i) => {
+        const frequency = i < 1024 ? 64 : 256;
+        return Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+      });
+      const { frames, frequencies } = stft(signal, sampleRate, {
+        frameSize: 256,
+        hopSize: 256,
+      });
+      const peakFrequency = (index: number) => {
+        const magnitudes = magnitudeSpectrum(frames[index]);
+        let peak = 0;
+        for (let i = 1; i < magnitudes.length; i++) {
+          if (magnitudes[i] > magnitudes[peak]) peak = i;
+        }
+        return frequencies[peak];
+      };
+      expect(peakFrequency(0)).toBe(64);
+      expect(peakFrequency(frames.length - 1)).toBe(256);
+    });
+  });
+});
@@ -0,0 +1,352 @@
+import { describe, expect, test } from "bun:test";
+import {
+  BSpline,
+  CatmullRomSpline,
+  CubicSpline,
+  HermiteSpline,
+  NurbsCurve,
+} from "../src/splines.ts";
+import type { Vector2 } from "../types/index.ts";
+
+const points: Vector2[] = [
+  { x: 0, y: 0 },
+  { x: 1, y: 2 },
+  { x: 3, y: 3 },
+  { x: 4, y: 0 },
+  { x: 6, y: 1 },
+];
+
+const expectPoint = (actual: Vector2, expected: Vector2, digits = 10) => {
+  expect(actual.x).toBeCloseTo(expected.x, digits);
+  expect(actual.y).toBeCloseTo(expected.y, digits);
+};
+
+// Central difference of any spline method with respect to t
+const numericDerivative = (f: (t: number) => Vector2, t: number): Vector2 => {
+  const h = 1e-6;
+  const [a, b] = [f(t - h), f(t + h)];
+  return { x: (b.x - a.x) / (2 * h), y: (b.y - a.y) / (2 * h) };
+};
+
+const quarterCircle = () =>
+  new NurbsCurve(
+    [
+      { x: 1, y: 0 },
+      { x: 1, y: 1 },
+      { x: 0, y: 1 },
+    ],
+    [1, Math.SQRT1_2, 1],
+    { degree: 2 },
+  );
+
+describe("Splines", () => {
+  describe("CubicSpline", () => {
+    test("interpolates every point at its knot", () => {
+      const spline = new CubicSpline(points);
+      points.forEach((p, i) => expectPoint(spline.point(i / 4), p));
+    });
+
+    test("has zero curvature at the ends and continuous curvature inside", () => {
+      const spline = new CubicSpline(points);
+      expectPoint(spline.derivative(0, 2), { x: 0, y: 0 });
+      expectPoint(spline.derivative(1, 2), { x: 0, y: 0 });
+
+      const knot = 0.5;
+      expectPoint(
+        spline.derivative(knot - 1e-9, 2),
+        spline.derivative(knot + 1e-9, 2),
+        4,
+      );
+    });
+
+    test("reproduces a straight line", () => {
+      const spline = new CubicSpline([
+        { x: 0, y: 0 },
+        { x: 1, y: 1 },
+        { x: 2, y: 2 },
+      ]);
+      expectPoint(spline.point(0.3), { x: 0.6, y: 0.6 });
+      expect(spline.length()).toBeCloseTo(2 * Math.SQRT2, 10);
+    });
+
+    test("chordal knots follow point spacing", () => {
+      const spline = new CubicSpline(points, { parameterization: "chordal" });
+      expect(spline.knots[1]).toBeCloseTo(Math.sqrt(5), 12);
+    });
+  });
+
+  describe("CatmullRomSpline", () => {
+    test("passes through every point", () => {
+      for (const parameterization of [
+        "uniform",
+        "centripetal",
+        "chordal",
+      ] as const) {
+        const spline = new CatmullRomSpline(points, { parameterization });
+        const { knots } = spline;
+        const span = knots[knots.length - 1] - knots[0];
+        points.forEach((p, i) =>
+          expectPoint(spline.point((knots[i] - knots[0]) / span), p),
+        );
+      }
+    });
+
+    test("uniform segments match the classic matrix form", () => {
+      const spline = new CatmullRomSpline(points, {
+        parameterization: "uniform",
+      });
+      // Segment between points 1 and 2 at its midpoint
+      const [p0, p1, p2, p3] = points;
+      const expected = {
+        x: (-p0.x + 9 * p1.x + 9 * p2.x - p3.x) / 16,
+        y: (-p0.y + 9 * p1.y + 9 * p2.y - p3.y) / 16,
+      };
+      expectPoint(spline.point(1.5 / 4), expected);
+    });
+
+    test("first derivative is continuous across points", () => {
+      const spline = new CatmullRomSpline(points);
+      const { knots } = spline;
+      const t = (knots[2] - knots[0]) / (knots[4] - knots[0]);
+      expectPoint(spline.derivative(t - 1e-9), spline.derivative(t + 1e-9), 4);
+    });
+
+    test("derivatives match finite differences", () => {
+      const spline = new CatmullRomSpline(points);
+      for (const t of [0.1, 0.37, 0.8]) {
+        expectPoint(
+          spline.derivative(t),
+          numericDerivative((u) => spline.point(u), t),
+          4,
+        );
+        expectPoint(
+          spline.derivative(t, 2),
+          numericDerivative((u) => spline.derivative(u), t),
+          3,
+        );
+      }
+    });
+
+    test("closed curves return to the start smoothly", () => {
+      const square = [
+        { x: 0, y: 0 },
+        { x: 1, y: 0 },
+        { x: 1, y: 1 },
+        { x: 0, y: 1 },
+      ];
+      const loop = new CatmullRomSpline(square, { closed: true });
+      expect(loop.closed).toBe(true);
+      expectPoint(loop.point(1), square[0]);
+      expectPoint(loop.derivative(0), loop.derivative(1));
+    });
+
+    test("rejects coincident points for non-uniform parameterization", () => {
+      expect(
+        () =>
+          new CatmullRomSpline([
+            { x: 0, y: 0 },
+            { x: 0, y: 0 },
+          ]),
+      ).toThrow("distinct");
+      expect(() => new CatmullRomSpline([{ x: 0, y: 0 }])).toThrow(
+        "at least 2",
+      );
+    });
+
+    test("supports 3D points", () => {
+      const helix = new CatmullRomSpline(
+        Array.from({ length: 9 }, (_, i) => ({
+          x: Math.cos(i),
+          y: Math.sin(i),
+          z: i / 4,
+        })),
+      );
+      expect(helix.dimension).toBe(3);
+      expect(helix.point(1)).toEqual({
+        x: expect.closeTo(Math.cos(8), 10),
+        y: expect.closeTo(Math.sin(8), 10),
+        z: expect.closeTo(2, 10),
+      });
+    });
+  });
+
+  describe("HermiteSpline", () => {
+    test("matches end points and tangents", () => {
+      const spline = new HermiteSpline(
+        [
+          { x: 0, y: 0 },
+          { x: 100, y: 100 },
+        ],
+        [
+          { x: 150, y: 0 },
+          { x: 0, y: 150 },
+        ],
+      );
+      expectPoint(spline.point(0), { x: 0, y: 0 });
+      expectPoint(spline.point(1), { x: 100, y: 100 });
+      expectPoint(spline.derivative(0), { x: 150, y: 0 });
+      expectPoint(spline.derivative(1), { x: 0, y: 150 });
+    });
+
+    test("requires one tangent per point", () => {
+      expect(() => new HermiteSpline(points, points.slice(1))).toThrow(
+        "one tangent per point",
+      );
+    });
+  });
+
+  describe("BSpline", () => {
+    test("clamped curves start and end at the end control points", () => {
+      const spline = new BSpline(points);
+      expectPoint(spline.point(0), points[0]);
+      expectPoint(spline.point(1), points[4]);
+      expect(Array.from(spline.knots)).toEqual([0, 0, 0, 0, 1, 2, 2, 2, 2]);
+    });
+
+    test("end tangent points along the control polygon", () => {
+      const spline = new BSpline(points);
+      // C'(0) = p / Δu · (P1 - P0), scaled by the domain length 2
+      expectPoint(spline.derivative(0), { x: 6, y: 12 });
+    });
+
+    test("degree 1 is the control polygon", () => {
+      const polyline = new BSpline(points, { degree: 1 });
+      expectPoint(polyline.point(0.125), { x: 0.5, y: 1 });
+      expectPoint(polyline.point(0.5), points[2]);
+    });
+
+    test("uniform unclamped cubic matches the basis matrix", () => {
+      const spline = new BSpline(points.slice(0, 4), { clamped: false });
+      const [p0, p1, p2, p3] = points;
+      // Single span; at its start the point is (P0 + 4P1 + P2) / 6
+      expectPoint(spline.point(0), {
+        x: (p0.x + 4 * p1.x + p2.x) / 6,
+        y: (p0.y + 4 * p1.y + p2.y) / 6,
+      });
+      expectPoint(spline.point(1), {
+        x: (p1.x + 4 * p2.x + p3.x) / 6,
+        y: (p1.y + 4 * p2.y + p3.y) / 6,
+      });
+    });
+
+    test("repeated knots pass through a control point", () => {
+      const spline = new BSpline(points, {
+        degree: 2,
+        knots: [0, 0, 0, 1, 1, 2, 2, 2],
+      });
+      expectPoint(spline.point(0.5), points[2]);
+    });
+
+    test("derivatives match finite differences", () => {
+      const spline = new BSpline(points, {
+        knots: [0, 0, 0, 0, 1, 3, 3, 3, 3],
+      });
+      for (const t of [0.2, 0.5, 0.9]) {
+        expectPoint(
+          spline.derivative(t),
+          numericDerivative((u) => spline.point(u), t),
+          4,
+        );
+      }
+      expectPoint(spline.derivative(0.5, 4), { x: 0, y: 0 });
+    });
+
+    test("validates the degree and knots", () => {
+      expect(() => new BSpline(points.slice(0, 3))).toThrow(
+        "at least 4 control points",
+      );
+      expect(() => new BSpline(points, { knots: [0, 1, 2] })).toThrow(
+        "9 values",
+      );
+      expect(
+        () => new BSpline(points, { knots: [0, 0, 0, 0, 2, 1, 2, 2, 2] }),
+      ).toThrow("non-decreasing");
+    });
+  });
+
+  describe("NurbsCurve", () => {
+    test("represents a circular arc exactly", () => {
+      const arc = quarterCircle();
+      for (const t of [0, 0.2, 0.5, 0.77, 1]) {
+        const p = arc.point(t);
+        expect(Math.hypot(p.x, p.y)).toBeCloseTo(1, 12);
+      }
+      expect(arc.length()).toBeCloseTo(Math.PI / 2, 10);
+    });
+
+    test("rational derivatives match finite differences", () => {
+      const arc = quarterCircle();
+      for (const t of [0.1, 0.5, 0.9]) {
+        expectPoint(
+          arc.derivative(t),
+          numericDerivative((u) => arc.point(u), t),
+          5,
+        );
+        expectPoint(
+          arc.derivative(t, 2),
+          numericDerivative((u) => arc.derivative(u), t),
+          3,
+        );
+      }
+    });
+
+    test("equal weights reduce to a B-spline", () => {
+      const nurbs = new NurbsCurve(points, [2, 2, 2, 2, 2]);
+      const bspline = new BSpline(points);
+      expectPoint(nurbs.point(0.4), bspline.point(0.4));
+    });
+
+    test("validates weights", () => {
+      expect(() => new NurbsCurve(points, [1, 1])).toThrow("one weight");
+      expect(() => new NurbsCurve(points, [1, 1, 0, 1, 1])).toThrow("positive");
+    });
+  });
+
+  describe("Arc length and sampling", () => {
+    test("parameterAtLength inverts the arc length", () => {
+      const spline = new CatmullRomSpline(points);
+      const total = spline.length();
+      expect(spline.parameterAtLength(0)).toBe(0);
+      expect(spline.parameterAtLength(total * 2)).toBe(1);
+
+      // Length of the first part measured independently with a fine polyline
+      const t = spline.parameterAtLength(total / 3);
+      const steps = 20000;
+      let measured = 0;
+      let previous = spline.point(0);
+      for (let i = 1; i <= steps; i++) {
+        const next = spline.point((t * i) / steps);
+        measured += Math.hypot(next.x - previous.x, next.y - previous.y);
+        previous = next;
+      }
+      expect(measured).toBeCloseTo(total / 3, 5);
+    });
+
+    test("sampleEvenly spaces points by equal distance", () => {
+      const arc = quarterCircle();
+      const samples = arc.sampleEvenly(7);
+      expect(samples.length).toBe(7);
+      expectPoint(samples[0], { x: 1, y: 0 });
+      expectPoint(samples[6], { x: 0, y: 1 });
+      samples.forEach((p, i) => {
+        const angle = ((Math.PI / 2) * i) / 6;
+        expectPoint(p, { x: Math.cos(angle), y: Math.sin(angle) }, 8);
+      });
+    });
+
+    test("sample spaces points by equal parameter", () => {
+      const spline = new BSpline(points);
+      const samples = spline.sample(3);
+      expectPoint(samples[1], spline.point(0.5));
+      expect(spline.sample(1)).toEqual([spline.point(0)]);
+    });
+
+    test("tangent is a unit vector and parameters are clamped", () => {
+      const spline = new CubicSpline(points);
+      const tangent = spline.tangent(0.3);
+      expect(Math.hypot(tangent.x, tangent.y)).toBeCloseTo(1, 12);
+      expect(spline.point(-1)).toEqual(spline.point(0));
+      expect(() => spline.derivative(0.5, 1.5)).toThrow("non-negative integer");
+    });
+  });
+});
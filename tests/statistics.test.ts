@@ -0,0 +1,237 @@
+import { describe, expect, test } from "bun:test";
+import { SeededRandom } from "../src/random.ts";
+import {
+  correlation,
+  covariance,
+  ExponentialMovingAverage,
+  histogram,
+  linearRegression,
+  mean,
+  median,
+  mode,
+  P2Quantile,
+  percentile,
+  quantile,
+  quantiles,
+  RunningStatistics,
+  stddev,
+  variance,
+} from "../src/statistics.ts";
+
+const data = [2, 4, 4, 4, 5, 5, 7, 9];
+
+describe("Statistics", () => {
+  describe("Central tendency", () => {
+    test("mean", () => {
+      expect(mean(data)).toBe(5);
+      expect(mean(new Float32Array([1, 2]))).toBe(1.5);
+    });
+
+    test("median of odd and even counts", () => {
+      expect(median([3, 1, 2])).toBe(2);
+      expect(median(data)).toBe(4.5);
+    });
+
+    test("median does not reorder the input", () => {
+      const values = [3, 1, 2];
+      median(values);
+      expect(values).toEqual([3, 1, 2]);
+    });
+
+    test("mode returns every most frequent value", () => {
+      expect(mode(data)).toEqual([4]);
+      expect(mode([3, 1, 3, 1, 2])).toEqual([1, 3]);
+    });
+
+    test("rejects empty data", () => {
+      expect(() => mean([])).toThrow("empty");
+      expect(() => median([])).toThrow("empty");
+      expect(() => mode([])).toThrow("empty");
+    });
+  });
+
+  describe("Spread", () => {
+    test("population and sample variance", () => {
+      expect(variance(data)).toBe(4);
+      expect(stddev(data)).toBe(2);
+      expect(variance(data, true)).toBeCloseTo(32 / 7, 12);
+    });
+
+    test("sample variance needs two values", () => {
+      expect(variance([5])).toBe(0);
+      expect(() => variance([5], true)).toThrow("at least two");
+    });
+  });
+
+  describe("Quantiles", () => {
+    test("interpolates between ranks", () => {
+      const values = [1, 2, 3, 4, 5];
+      expect(quantile(values, 0)).toBe(1);
+      expect(quantile(values, 1)).toBe(5);
+      expect(quantile(values, 0.25)).toBe(2);
+      expect(quantile(values, 0.1)).toBeCloseTo(1.4, 12);
+      expect(percentile([10, 20], 75)).toBe(17.5);
+    });
+
+    test("computes several quantiles at once", () => {
+      expect(quantiles(data, [0.25, 0.5, 0.75])).toEqual([4, 4.5, 5.5]);
+    });
+
+    test("rejects quantiles outside [0, 1]", () => {
+      expect(() => quantile(data, 1.5)).toThrow("between 0 and 1");
+      expect(() => percentile(data, -1)).toThrow("between 0 and 1");
+    });
+  });
+
+  describe("Histogram", () => {
+    test("bins over the data range", () => {
+      const { edges, counts } = histogram([0, 1, 2, 3, 4], { bins: 4 });
+      expect(Array.from(edges)).toEqual([0, 1, 2, 3, 4]);
+      // The maximum falls in the last bin
+      expect(Array.from(counts)).toEqual([1, 1, 1, 2]);
+    });
+
+    test("ignores values outside an explicit range", () => {
+      const { counts } = histogram([-1, 0.5, 1.5, 2.5, 9], {
+        bins: 2,
+        range: [0, 2],
+      });
+      expect(Array.from(counts)).toEqual([1, 1]);
+    });
+
+    test("counts constant data in a single widened bin", () => {
+      const { edges, counts } = histogram([3, 3, 3], { bins: 1 });
+      expect(Array.from(edges)).toEqual([2.5, 3.5]);
+      expect(counts[0]).toBe(3);
+    });
+
+    test("validates its options", () => {
+      expect(() => histogram(data, { bins: 0 })).toThrow("positive integer");
+      expect(() => histogram(data, { range: [2, 1] })).toThrow("min <= max");
+    });
+  });
+
+  describe("Correlation and regression", () => {
+    const x = [1, 2, 3, 4, 5];
+
+    test("covariance and correlation", () => {
+      expect(covariance(x, [2, 4, 6, 8, 10])).toBe(4);
+      expect(covariance(x, [2, 4, 6, 8, 10], true)).toBe(5);
+      expect(correlation(x, [2, 4, 6, 8, 10])).toBeCloseTo(1, 12);
+      expect(correlation(x, [5, 4, 3, 2, 1])).toBeCloseTo(-1, 12);
+      expect(correlation(x, [1, 1, 1, 1, 1])).toBeNaN();
+    });
+
+    test("rejects mismatched lengths", () => {
+      expect(() => covariance(x, [1, 2])).toThrow("same length");
+      expect(() => linearRegression(x, [1])).toThrow("same length");
+    });
+
+    test("fits an exact line", () => {
+      const fit = linearRegression([0, 1, 2, 3], [1, 3, 5, 7]);
+      expect(fit.slope).toBe(2);
+      expect(fit.intercept).toBe(1);
+      expect(fit.rSquared).toBe(1);
+      expect(fit.predict(10)).toBe(21);
+    });
+
+    test("reports goodness of fit for noisy data", () => {
+      const fit = linearRegression(x, [1.1, 1.9, 3.2, 3.8, 5.1]);
+      expect(fit.slope).toBeCloseTo(0.99, 12);
+      expect(fit.intercept).toBeCloseTo(0.05, 12);
+      expect(fit.rSquared).toBeGreaterThan(0.98);
+      expect(fit.rSquared).toBeLessThan(1);
+    });
+
+    test("rejects constant x", () => {
+      expect(() => linearRegression([1, 1], [1, 2])).toThrow("all x values");
+    });
+  });
+
+  describe("RunningStatistics", () => {
+    test("matches the batch functions", () => {
+      const stats = new RunningStatistics();
+      data.forEach((value) => stats.push(value));
+      expect(stats.count()).toBe(8);
+      expect(stats.mean()).toBe(5);
+      expect(stats.variance()).toBe(4);
+      expect(stats.stddev(true)).toBeCloseTo(stddev(data, true), 12);
+      expect(stats.min()).toBe(2);
+      expect(stats.max()).toBe(9);
+    });
+
+    test("stays accurate with a large offset", () => {
+      const stats = new RunningStatistics();
+      for (const value of data) stats.push(1e9 + value);
+      expect(stats.variance()).toBeCloseTo(4, 6);
+    });
+
+    test("is empty before the first sample and after reset", () => {
+      const stats = new RunningStatistics().push(1).push(2);
+      stats.reset();
+      expect(stats.count()).toBe(0);
+      expect(stats.mean()).toBeNaN();
+      expect(stats.variance()).toBeNaN();
+      expect(stats.max()).toBe(-Infinity);
+    });
+  });
+
+  describe("ExponentialMovingAverage", () => {
+    test("starts at the first sample and moves toward new ones", () => {
+      const average = new ExponentialMovingAverage(0.5);
+      expect(average.value()).toBeNaN();
+      expect(average.push(10)).toBe(10);
+      expect(average.push(20)).toBe(15);
+      expect(average.push(20)).toBe(17.5);
+      expect(average.count()).toBe(3);
+    });
+
+    test("half-life halves the weight of old samples", () => {
+      const average = ExponentialMovingAverage.fromHalfLife(4);
+      average.push(1);
+      for (let i = 0; i < 4; i++) average.push(0);
+      expect(average.value()).toBeCloseTo(0.5, 12);
+    });
+
+    test("validates alpha", () => {
+      expect(() => new ExponentialMovingAverage(0)).toThrow("(0, 1]");
+      expect(() => new ExponentialMovingAverage(1.5)).toThrow("(0, 1]");
+    });
+  });
+
+  describe("P2Quantile", () => {
+    test("is exact for the first five samples", () => {
+      const estimator = new P2Quantile(0.25);
+      expect(estimator.value()).toBeNaN();
+      for (const value of [5, 1, 4, 2, 3]) estimator.push(value);
+      expect(estimator.value()).toBe(2);
+    });
+
+    test("tracks quantiles of a long stream", () => {
+      const rng = new SeededRandom(3);
+      const samples: number[] = [];
+      const estimators = [0.5, 0.9, 0.99].map((p) => new P2Quantile(p));
+      for (let i = 0; i < 20000; i++) {
+        const value = rng.gaussian(100, 15);
+        samples.push(value);
+        estimators.forEach((estimator) => estimator.push(value));
+      }
+
+      estimators.forEach((estimator) => {
+        const exact = quantile(samples, estimator.p);
+        expect(Math.abs(estimator.value() - exact)).toBeLessThan(1);
+      });
+      expect(estimators[0].count()).toBe(20000);
+    });
+
+    test("handles sorted input", () => {
+      const estimator = new P2Quantile(0.5);
+      for (let i = 1; i <= 1001; i++) estimator.push(i);
+      expect(estimator.value()).toBeCloseTo(501, -1);
+    });
+
+    test("validates p", () => {
+      expect(() => new P2Quantile(2)).toThrow("between 0 and 1");
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, expect, test } from "bun:test";
+import {
+  convert,
+  formatDimension,
+  formatSI,
+  parseUnit,
+  Quantity,
+  quantity,
+} from "../src/units.ts";
+
+describe("Units", () => {
+  describe("parseUnit", () => {
+    test("resolves prefixed symbols", () => {
+      expect(parseUnit("kN")).toEqual({
+        dimension: [1, 1, -2, 0, 0, 0, 0],
+        scale: 1000,
+        offset: 0,
+      });
+      expect(parseUnit("μF").scale).toBeCloseTo(1e-6, 20);
+      expect(parseUnit("uF").scale).toBeCloseTo(1e-6, 20);
+      expect(parseUnit("kg").scale).toBe(1);
+    });
+
+    test("prefers exact symbols over prefixes", () => {
+      expect(parseUnit("min").scale).toBe(60);
+      expect(parseUnit("mol").dimension).toEqual([0, 0, 0, 0, 0, 1, 0]);
+      expect(parseUnit("Pa").scale).toBe(1);
+    });
+
+    test("combines compound units", () => {
+      const newton = parseUnit("kg*m/s^2");
+      expect(newton.dimension).toEqual(parseUnit("N").dimension);
+      expect(newton.scale).toBe(1);
+
+      const conductance = parseUnit("W/(m²·K)");
+      expect(conductance.dimension).toEqual([0, 1, -3, 0, -1, 0, 0]);
+      expect(parseUnit("cm^2").scale).toBeCloseTo(1e-4, 18);
+      expect(parseUnit("1/s").dimension).toEqual(parseUnit("Hz").dimension);
+    });
+
+    test("rejects unknown symbols and ambiguous division", () => {
+      expect(() => parseUnit("furlong")).toThrow('Unknown unit "furlong"');
+      expect(() => parseUnit("J/kg/K")).toThrow("more than one");
+    });
+  });
+
+  describe("Conversion", () => {
+    test("engineering units", () => {
+      expect(convert(1, "MPa", "psi")).toBeCloseTo(145.0377, 4);
+      expect(convert(1, "kip", "kN")).toBeCloseTo(4.44822, 5);
+      expect(convert(12000, "BTU/h", "kW")).toBeCloseTo(3.5169, 4);
+      expect(convert(1000, "CFM", "m^3/s")).toBeCloseTo(0.4719474, 7);
+      expect(convert(1, "hp", "W")).toBeCloseTo(745.69987, 5);
+      expect(convert(1, "kWh", "MJ")).toBeCloseTo(3.6, 12);
+      expect(convert(60, "mph", "km/h")).toBeCloseTo(96.56064, 5);
+    });
+
+    test("absolute temperatures", () => {
+      expect(convert(100, "°C", "°F")).toBeCloseTo(212, 10);
+      expect(convert(-40, "°F", "°C")).toBeCloseTo(-40, 10);
+      expect(convert(0, "K", "°C")).toBeCloseTo(-273.15, 10);
+      expect(convert(32, "degF", "K")).toBeCloseTo(273.15, 10);
+    });
+
+    test("temperature units inside compound units are differences", () => {
+      // Specific heat of water: 4.186 kJ/(kg·K) ≈ 1 BTU/(lb·°F)
+      expect(convert(4.1868, "kJ/(kg·°C)", "BTU/(lb·°F)")).toBeCloseTo(1, 3);
+    });
+
+    test("rejects incompatible units", () => {
+      expect(() => convert(1, "kN", "m" as never)).toThrow(
+        'Cannot convert to "m"',
+      );
+    });
+  });
+
+  describe("Quantity arithmetic", () => {
+    test("adds compatible quantities in any units", () => {
+      const total = quantity(2, "kN").add(quantity(500, "N"));
+      expect(total.to("kN")).toBeCloseTo(2.5, 12);
+      expect(
+        quantity(1, "ft").subtract(quantity(6, "in")).to("in"),
+      ).toBeCloseTo(6, 12);
+    });
+
+    test("adding a difference to an absolute temperature", () => {
+      const warmed = quantity(20, "°C").add(quantity(5, "K"));
+      expect(warmed.to("°C")).toBeCloseTo(25, 10);
+      expect(warmed.temperature).toBe("absolute");
+      expect(
+        quantity(20, "°C").subtract(quantity(5, "K")).to("°C"),
+      ).toBeCloseTo(15, 10);
+    });
+
+    test("two absolute temperatures subtract to a difference", () => {
+      const drop = quantity(68, "°F").subtract(quantity(50, "°F"));
+      expect(drop.temperature).toBe("difference");
+      expect(drop.to("°F")).toBeCloseTo(18, 10);
+      expect(drop.to("°C")).toBeCloseTo(10, 10);
+      expect(drop.to("K")).toBeCloseTo(10, 10);
+      expect(drop.multiply(2).to("°F")).toBeCloseTo(36, 10);
+      expect(
+        quantity(15, "°C").add(drop).add(drop.negate()).to("°C"),
+      ).toBeCloseTo(15, 10);
+    });
+
+    test("rejects arithmetic that depends on a temperature's zero point", () => {
+      expect(() => quantity(20, "°C").add(quantity(5, "°C"))).toThrow(
+        "Cannot add two absolute temperatures",
+      );
+      expect(() => quantity(10, "°C").multiply(2)).toThrow(
+        "Cannot multiply an absolute temperature",
+      );
+      expect(() => quantity(10, "°F").divide(2)).toThrow(
+        "Cannot divide an absolute temperature",
+      );
+      expect(() => quantity(10, "°C").negate()).toThrow(
+        "Cannot negate an absolute temperature",
+      );
+      const difference = quantity(30, "°C").subtract(quantity(20, "°C"));
+      expect(() => difference.subtract(quantity(5, "°C"))).toThrow(
+        "Cannot subtract an absolute temperature from a temperature difference",
+      );
+      // Kelvin readings and products of temperatures stay unrestricted
+      expect(quantity(300, "K").multiply(2).to("K")).toBeCloseTo(600, 10);
+      expect(
+        quantity(20, "°C").multiply(quantity(1, "J/K")).to("J"),
+      ).toBeCloseTo(293.15, 10);
+    });
+
+    test("rejects adding incompatible dimensions at runtime", () => {
+      const force = quantity(5, "kN");
+      // @ts-expect-error a length cannot be added to a force
+      expect(() => force.add(quantity(2, "m"))).toThrow(
+        "Cannot add: dimension m·kg/s^2 does not match m",
+      );
+      expect(() =>
+        force.compare(quantity(1, "kN").divide(quantity(1, "m"))),
+      ).toThrow("Cannot compare");
+    });
+
+    test("multiplies and divides dimensions", () => {
+      const stress = quantity(250, "kN").divide(quantity(40, "cm^2"));
+      expect(stress.to("MPa")).toBeCloseTo(62.5, 10);
+
+      const power = quantity(3000, "psi").multiply(quantity(12, "gpm"));
+      expect(power.to("kW")).toBeCloseTo(15.6597, 4);
+
+      const energy = quantity(2, "kW").multiply(quantity(30, "min"));
+      expect(energy.to("kWh")).toBeCloseTo(1, 12);
+    });
+
+    test("scalars keep the dimension", () => {
+      expect(quantity(3, "m").multiply(2).to("m")).toBe(6);
+      expect(quantity(3, "m").divide(2).to("m")).toBe(1.5);
+      expect(quantity(3, "m").negate().abs().to("m")).toBe(3);
+    });
+
+    test("powers scale the dimension", () => {
+      expect(quantity(9, "m^2").pow(0.5).to("m")).toBeCloseTo(3, 12);
+      const volume = quantity(10, "cm").pow(3);
+      expect(volume.to("L")).toBeCloseTo(1, 12);
+    });
+
+    test("dimensionless results", () => {
+      const ratio = quantity(1, "km").divide(quantity(250, "m"));
+      expect(ratio.isDimensionless()).toBe(true);
+      expect(ratio.value).toBe(4);
+      expect(quantity(30, "deg").to("rad")).toBeCloseTo(Math.PI / 6, 15);
+    });
+
+    test("compares and checks compatibility", () => {
+      const [a, b] = [quantity(1, "mi"), quantity(1, "km")];
+      expect(a.compare(b)).toBeGreaterThan(0);
+      expect(a.isCompatible(b)).toBe(true);
+      expect(a.isCompatible(quantity(1, "s"))).toBe(false);
+      const sorted = [a, b, quantity(1, "ft")].sort((x, y) => x.compare(y));
+      expect(sorted.map((q) => q.to("m"))[0]).toBeCloseTo(0.3048, 12);
+    });
+
+    test("stores SI values", () => {
+      const q = quantity(72, "°F");
+      expect(q).toBeInstanceOf(Quantity);
+      expect(q.value).toBeCloseTo(295.372, 3);
+      expect(q.dimension).toEqual([0, 0, 0, 0, 1, 0, 0]);
+    });
+  });
+
+  describe("Formatting", () => {
+    test("formatSI picks an engineering prefix", () => {
+      expect(formatSI(12500, "Hz")).toBe("12.50 kHz");
+      expect(formatSI(4.7e-7, "F", { decimals: 1 })).toBe("470.0 nF");
+      expect(formatSI(-2.2e6, "W")).toBe("-2.20 MW");
+      expect(formatSI(0, "V")).toBe("0.00 V");
+      expect(formatSI(1234, "V", { prefix: false })).toBe("1234.00 V");
+      expect(formatSI(1500)).toBe("1.50 k");
+    });
+
+    test("formatSI carries rounding into the next prefix", () => {
+      expect(formatSI(999.996, "V")).toBe("1.00 kV");
+    });
+
+    test("quantities format in their SI unit by default", () => {
+      expect(quantity(62.5, "MPa").format()).toBe("62.50 MPa");
+      expect(quantity(0.0047, "F").format()).toBe("4.70 mF");
+      expect(quantity(2, "kg").format()).toBe("2.00 kg");
+      expect(quantity(9.81, "m/s^2").format()).toBe("9.81 m/s^2");
+      expect(String(quantity(1, "kWh"))).toBe("3.60 MJ");
+    });
+
+    test("quantities format in a requested unit", () => {
+      expect(quantity(2.5e6, "Pa").format("bar")).toBe("25.00 bar");
+      expect(quantity(1, "MPa").format("psi", { decimals: 1 })).toBe(
+        "145.0 psi",
+      );
+      expect(quantity(1, "MW").format("kW")).toBe("1000.00 kW");
+      expect(quantity(25, "°C").format("°F")).toBe("77.00 °F");
+    });
+
+    test("formatDimension uses SI base symbols", () => {
+      expect(formatDimension([1, 1, -2, 0, 0, 0, 0])).toBe("m·kg/s^2");
+      expect(formatDimension([0, 0, -1, 0, 0, 0, 0])).toBe("1/s");
+      expect(formatDimension([0, 0, 0, 0, 0, 0, 0])).toBe("");
+    });
+  });
+});
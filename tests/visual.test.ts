@@ -3,11 +3,12 @@
  * Tests drawing operations, canvas interactions, and visual rendering
  */
 
-import { describe, expect, test } from "bun:test";
+import { describe, expect, spyOn, test } from "bun:test";
 import {
   circle,
   hsl,
   hsla,
+  parseColor,
   PI,
   Play,
   play,
@@ -336,6 +337,85 @@ describe("Visual and Canvas Tests", () => {
         playInstance.background("not-a-color");
       });
     });
+
+    test("invalid colors keep the current style and are reported once", () => {
+      const canvas = createMockCanvas();
+      const playInstance = setup(canvas);
+      const context = getMockContext()!;
+      // Like a real canvas, ignore values that are not colors
+      const invalid = new Set(["not-a-color", "rgb(1, 2)"]);
+      let assignments = 0;
+      for (const property of ["fillStyle", "strokeStyle"] as const) {
+        let value = context[property];
+        Object.defineProperty(context, property, {
+          get: () => value,
+          set: (next) => {
+            assignments++;
+            if (!invalid.has(next)) value = next;
+          },
+        });
+      }
+      const warn = spyOn(console, "warn");
+      const reported: unknown[] = [];
+      const unsubscribe = playInstance.onInvalidColor((color) =>
+        reported.push(color),
+      );
+
+      playInstance.fill("#ff8040");
+      for (let frame = 0; frame < 3; frame++) {
+        playInstance.fill("not-a-color");
+      }
+      playInstance.setStroke("oklch(0.7 0.1 200)");
+      playInstance.setStroke("rgb(1, 2)");
+      playInstance.fill({ x: 1 });
+
+      expect(context.fillStyle).toBe("#ff8040");
+      expect(context.strokeStyle).toBe("oklch(0.7 0.1 200)");
+      expect(reported).toEqual(["not-a-color", "rgb(1, 2)", { x: 1 }]);
+      expect(warn).not.toHaveBeenCalled();
+
+      // Repeating the current color in a draw loop assigns nothing
+      assignments = 0;
+      for (let frame = 0; frame < 3; frame++) {
+        playInstance.fill("#ff8040");
+      }
+      expect(context.fillStyle).toBe("#ff8040");
+      expect(assignments).toBe(0);
+      expect(reported).toHaveLength(3);
+
+      unsubscribe();
+      warn.mockRestore();
+    });
+
+    test("color syntax only the canvas understands is passed through", () => {
+      const canvas = createMockCanvas();
+      const playInstance = setup(canvas);
+      const context = getMockContext()!;
+      const reported: unknown[] = [];
+      const unsubscribe = playInstance.onInvalidColor((color) =>
+        reported.push(color),
+      );
+
+      playInstance.fill("currentcolor");
+      expect(context.fillStyle).toBe("currentcolor");
+      playInstance.setStroke("color-mix(in oklab, red, blue)");
+      expect(context.strokeStyle).toBe("color-mix(in oklab, red, blue)");
+      playInstance.fill("Canvas");
+      expect(context.fillStyle).toBe("Canvas");
+
+      expect(reported).toEqual([]);
+      unsubscribe();
+    });
+
+    test("parsed colors are serialized in their own space", () => {
+      const canvas = createMockCanvas();
+      const playInstance = setup(canvas);
+      const context = getMockContext()!;
+
+      playInstance.fill(parseColor("lab(50 20 -30 / 0.5)"));
+
+      expect(context.fillStyle).toBe("lab(50 20 -30 / 0.5)");
+    });
   });
 
   describe("Drawing Pattern and Style Operations", () => {
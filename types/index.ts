@@ -21,6 +21,29 @@ export interface Vector4 {
   readonly w: number;
 }
 
+// Typed array vector types
+export type FloatArray = Float32Array | Float64Array;
+
+/**
+ * Many 2D vectors stored as one typed array per component (structure of arrays).
+ */
+export interface Vector2Buffer {
+  readonly x: FloatArray;
+  readonly y: FloatArray;
+}
+
+export interface Vector3Buffer extends Vector2Buffer {
+  readonly z: FloatArray;
+}
+
+// Rotation types
+export interface Quaternion {
+  readonly x: number;
+  readonly y: number;
+  readonly z: number;
+  readonly w: number;
+}
+
 // Color types
 export interface RGB {
   readonly r: number;
@@ -42,6 +65,92 @@ export interface HSLA extends HSL {
   readonly a: number;
 }
 
+/** HSV (HSB): hue in degrees, saturation and value 0-100 */
+export interface HSV {
+  readonly h: number;
+  readonly s: number;
+  readonly v: number;
+}
+
+/** HWB: hue in degrees, whiteness and blackness 0-100 */
+export interface HWB {
+  readonly h: number;
+  readonly w: number;
+  readonly b: number;
+}
+
+/** CMYK: cyan, magenta, yellow and key (black) 0-100 */
+export interface CMYK {
+  readonly c: number;
+  readonly m: number;
+  readonly y: number;
+  readonly k: number;
+}
+
+/** sRGB with the transfer curve removed, channels 0-1 */
+export interface LinearRGB {
+  readonly r: number;
+  readonly g: number;
+  readonly b: number;
+}
+
+/** CIE XYZ relative to the D65 white point, with white at Y = 1 */
+export interface XYZ {
+  readonly x: number;
+  readonly y: number;
+  readonly z: number;
+}
+
+/** CIELAB (D65): lightness 0-100, a and b roughly -128 to 127 */
+export interface Lab {
+  readonly l: number;
+  readonly a: number;
+  readonly b: number;
+}
+
+/** CIE LCh, the polar form of CIELAB: lightness 0-100, chroma, hue in degrees */
+export interface LCH {
+  readonly l: number;
+  readonly c: number;
+  readonly h: number;
+}
+
+/** OKLab: lightness 0-1, a and b roughly -0.4 to 0.4 */
+export interface OKLab {
+  readonly l: number;
+  readonly a: number;
+  readonly b: number;
+}
+
+/** OKLCH, the polar form of OKLab: lightness 0-1, chroma, hue in degrees */
+export interface OKLCH {
+  readonly l: number;
+  readonly c: number;
+  readonly h: number;
+}
+
+/** Display P3, a wide-gamut RGB space: gamma-encoded channels 0-1 */
+export interface DisplayP3 {
+  readonly r: number;
+  readonly g: number;
+  readonly b: number;
+}
+
+/** A color read from CSS, kept in the space it was written in, with alpha 0-1 */
+export type CssColor =
+  | { readonly space: "rgb"; readonly color: RGB; readonly alpha: number }
+  | { readonly space: "hsl"; readonly color: HSL; readonly alpha: number }
+  | { readonly space: "hwb"; readonly color: HWB; readonly alpha: number }
+  | { readonly space: "lab"; readonly color: Lab; readonly alpha: number }
+  | { readonly space: "lch"; readonly color: LCH; readonly alpha: number }
+  | { readonly space: "oklab"; readonly color: OKLab; readonly alpha: number }
+  | { readonly space: "oklch"; readonly color: OKLCH; readonly alpha: number }
+  | {
+      readonly space: "display-p3";
+      readonly color: DisplayP3;
+      readonly alpha: number;
+    };
+
 // Geometry types
 export interface Point {
   readonly x: number;
@@ -68,6 +177,7 @@ export interface Circle {
 
 // Animation types
 export type EasingFunction = (t: number) => number;
+export type Interpolator<T> = (a: T, b: T, t: number) => T;
 
 export interface AnimationFrame {
   readonly time: number;
@@ -88,6 +198,42 @@ export interface NoiseGenerator {
 }
 
 // Math types
+export interface Complex {
+  readonly real: number;
+  readonly imag: number;
+}
+
+export interface Dual {
+  readonly real: number;
+  readonly dual: number;
+}
+
+export interface Interval {
+  readonly min: number;
+  readonly max: number;
+}
+
+// Fixed-point types
+
+/**
+ * Q16.16 fixed-point number: a 32-bit integer counting 1/65536ths.
+ *
+ * The brand keeps fixed-point values from being mixed with plain numbers by
+ * accident; create them with `fx()` and read them back with `fxToNumber()`.
+ */
+export type Fixed = number & { readonly __brand: "Fixed" };
+
+export interface FixedVector2 {
+  readonly x: Fixed;
+  readonly y: Fixed;
+}
+
+export interface FixedVector3 {
+  readonly x: Fixed;
+  readonly y: Fixed;
+  readonly z: Fixed;
+}
+
 export interface Matrix3x3 {
   readonly elements: readonly [
     number,
@@ -123,6 +269,72 @@ export interface Matrix4x4 {
   ];
 }
 
+/**
+ * A 2D affine transform split into parts applied in the order
+ * scale, skew, rotation, translation.
+ */
+export interface AffineDecomposition {
+  readonly translation: Vector2;
+  /** Rotation angle in radians */
+  readonly rotation: number;
+  /** Scale factors; a negative y factor means the transform mirrors */
+  readonly scale: Vector2;
+  /** Angle in radians that the y axis leans toward the x axis */
+  readonly skew: number;
+}
+
+/**
+ * Affine matrix in the argument order `[a, b, c, d, e, f]` used by
+ * `DOMMatrix` and `CanvasRenderingContext2D.setTransform`.
+ */
+export type AffineTuple = readonly [
+  number,
+  number,
+  number,
+  number,
+  number,
+  number,
+];
+
+/**
+ * Dense rows × cols matrix stored row-major in a Float64Array.
+ */
+export interface MatrixN {
+  readonly rows: number;
+  readonly cols: number;
+  readonly data: Float64Array;
+}
+
+/**
+ * LU decomposition PA = LU with partial pivoting.
+ * L (unit diagonal, below) and U (on and above the diagonal) share one matrix.
+ */
+export interface LUDecomposition {
+  readonly lu: MatrixN;
+  /** Row i of PA is row pivots[i] of A */
+  readonly pivots: Int32Array;
+  /** Determinant of P: 1 for an even number of row swaps, -1 for odd */
+  readonly sign: 1 | -1;
+  /** Largest absolute entry in each row of PA, the scale its pivot is judged against */
+  readonly rowScales: Float64Array;
+}
+
+/**
+ * Thin QR decomposition A = QR with orthonormal columns in Q and upper-triangular R.
+ */
+export interface QRDecomposition {
+  readonly q: MatrixN;
+  readonly r: MatrixN;
+}
+
+/**
+ * Eigenvalues in ascending order with the matching eigenvectors as columns.
+ */
+export interface EigenDecomposition {
+  readonly values: Float64Array;
+  readonly vectors: MatrixN;
+}
+
 // Utility types
 export type Clamp = (value: number, min: number, max: number) => number;
 export type Lerp = (a: number, b: number, t: number) => number;